@@ -0,0 +1,138 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * A way to deliver mail. Select one with MAIL_DRIVER: 'smtp' in production, 'file' or 'console' (the default outside production)
+ * for local development.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const getSender = (): string => process.env.MAIL_FROM || 'Team Tasker <no-reply@localhost>';
+
+/**
+ * The address of the frontend, for links in mails (APP_URL).
+ */
+export const getAppUrl = (): string => (process.env.APP_URL || 'http://localhost:5173').replace(/\/+$/, '');
+
+// Strip line breaks from header values, so user input cannot inject headers
+const headerValue = (value: string): string => value.replace(/[\r\n]+/g, ' ');
+
+const formatMessage = (message: MailMessage): string => {
+  const body = message.text.replace(/\r?\n/g, '\r\n');
+  return [
+    `From: ${headerValue(getSender())}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${headerValue(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    body,
+  ].join('\r\n');
+};
+
+/**
+ * Logs every message instead of sending it.
+ */
+class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`--- Mail to ${message.to}: ${message.subject} ---\n${message.text}\n--- End of mail ---`);
+  }
+}
+
+/**
+ * Writes every message as an .eml file below a local directory (MAIL_DIR, default ./mail), to open in any mail client.
+ */
+class FileMailTransport implements MailTransport {
+  constructor(private readonly rootDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.rootDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}.eml`;
+    await fs.promises.writeFile(path.join(this.rootDir, fileName), formatMessage(message));
+    console.log(`Mail to ${message.to} written to ${fileName}.`);
+  }
+}
+
+/**
+ * Sends mail through an SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD).
+ * SMTP_SECURE=true connects over TLS straight away (usually port 465); otherwise the connection must be upgraded with STARTTLS,
+ * so credentials and messages never cross the network in cleartext. SMTP_ALLOW_INSECURE=true allows a plain connection,
+ * e.g. for a mail catcher during local development.
+ */
+class SmtpMailTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(host: string, port: number, secure: boolean, allowInsecure: boolean, user?: string, password?: string) {
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      requireTLS: !secure && !allowInsecure,
+      auth: user ? { user, pass: password || '' } : undefined,
+      connectionTimeout: 30000,
+      socketTimeout: 30000,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: getSender(),
+      to: headerValue(message.to),
+      subject: headerValue(message.subject),
+      text: message.text,
+    });
+  }
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Returns the configured mail transport, creating it on first use. Called once at startup, so a missing or broken
+ * configuration stops the server instead of the first mail.
+ */
+export const getMailTransport = (): MailTransport => {
+  if (transport) return transport;
+
+  // The console driver logs every link, tokens included, so production must choose a driver explicitly
+  if (!process.env.MAIL_DRIVER && process.env.NODE_ENV === 'production') {
+    throw new Error('MAIL_DRIVER must be set in production.');
+  }
+  const driver = process.env.MAIL_DRIVER || 'console';
+  switch (driver) {
+    case 'console':
+      transport = new ConsoleMailTransport();
+      break;
+    case 'file':
+      transport = new FileMailTransport(path.resolve(process.env.MAIL_DIR || 'mail'));
+      break;
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST must be set to use the smtp mail driver.');
+      }
+      transport = new SmtpMailTransport(
+        process.env.SMTP_HOST,
+        parseInt(process.env.SMTP_PORT || '587', 10),
+        process.env.SMTP_SECURE === 'true',
+        process.env.SMTP_ALLOW_INSECURE === 'true',
+        process.env.SMTP_USER,
+        process.env.SMTP_PASSWORD,
+      );
+      break;
+    default:
+      throw new Error(`Unknown mail driver: ${driver}`);
+  }
+
+  console.log(`Using '${driver}' mail driver.`);
+  return transport;
+};
@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+/**
+ * A place to keep uploaded files. Keys are generated by the server (never taken from user input).
+ * Add a driver here (e.g. S3) and select it with STORAGE_DRIVER to move attachments off local disk.
+ */
+export interface StorageDriver {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Writes files below a local directory (ATTACHMENTS_DIR, default ./uploads).
+ */
+class LocalDiskStorage implements StorageDriver {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    // Keys are server-generated, but never let one escape the storage directory
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    await fs.promises.access(filePath);
+    return fs.createReadStream(filePath);
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+let storage: StorageDriver | null = null;
+
+export const getStorage = (): StorageDriver => {
+  if (storage) return storage;
+
+  const driver = process.env.STORAGE_DRIVER || 'local';
+  switch (driver) {
+    case 'local':
+      storage = new LocalDiskStorage(path.resolve(process.env.ATTACHMENTS_DIR || 'uploads'));
+      break;
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+
+  console.log(`Using '${driver}' storage driver for attachments.`);
+  return storage;
+};
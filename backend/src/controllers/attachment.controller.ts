@@ -0,0 +1,220 @@
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import db from '../models/index';
+import { io } from '../index';
+import { getStorage } from '../config/storage';
+import { getProjectRole, canUpdateTask } from '../utils/projectAccess';
+import { MAX_ATTACHMENT_SIZE, ALLOWED_ATTACHMENT_TYPES } from '../utils/attachments';
+
+interface CustomRequest extends Request {
+  user?: {
+    id: string;
+    role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  };
+}
+
+const getAttachmentInclude = () => [{ model: db.User, as: 'uploader', attributes: ['id', 'username'] }];
+
+// @route   GET /api/tasks/:id/attachments
+// @desc    List the files attached to a task
+// @access  Private (Project members)
+export const getAttachments = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    if (!task || !(await getProjectRole(req.user, task.projectId))) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    const attachments = await db.Attachment.findAll({
+      where: { taskId: id },
+      attributes: { exclude: ['storageKey'] },
+      include: getAttachmentInclude(),
+      order: [['createdAt', 'ASC']],
+    });
+
+    res.status(200).json(attachments);
+  } catch (error) {
+    console.error('Error fetching attachments:', error);
+    res.status(500).json({ message: 'Server error fetching attachments.' });
+  }
+};
+
+// @route   POST /api/tasks/:id/attachments
+// @desc    Upload a file. The raw file is the request body (Content-Type: application/octet-stream);
+//          its name and MIME type travel in the X-File-Name (URI-encoded) and X-File-Type headers.
+// @access  Private (Users who may update this task)
+export const uploadAttachment = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    const projectRole = task ? await getProjectRole(req.user, task.projectId) : null;
+    if (!task || !projectRole) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    if (!canUpdateTask(projectRole, req.user.id, task)) {
+      res.status(403).json({ message: 'Not authorized to add attachments to this task.' });
+      return;
+    }
+
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ message: 'Send the file as an application/octet-stream request body.' });
+      return;
+    }
+
+    let fileName = '';
+    try {
+      fileName = decodeURIComponent(req.get('X-File-Name') || '').trim();
+    } catch {
+      // Falls through to the missing-name error below
+    }
+    // Only keep the last path segment, whatever the client sent
+    fileName = fileName.split(/[\\/]/).pop() || '';
+    if (!fileName || fileName.length > 255) {
+      res.status(400).json({ message: 'A file name (X-File-Name header) of at most 255 characters is required.' });
+      return;
+    }
+
+    const mimeType = (req.get('X-File-Type') || '').split(';')[0].trim().toLowerCase();
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(mimeType)) {
+      res.status(415).json({ message: `File type '${mimeType || 'unknown'}' is not allowed.` });
+      return;
+    }
+
+    const storageKey = `${task.id}/${uuidv4()}`;
+    await getStorage().save(storageKey, req.body);
+
+    let attachment;
+    try {
+      attachment = await db.Attachment.create({
+        taskId: task.id,
+        uploadedBy: req.user.id,
+        fileName,
+        mimeType,
+        size: req.body.length,
+        storageKey,
+      });
+    } catch (error) {
+      // Do not leave an orphaned file behind
+      await getStorage().remove(storageKey);
+      throw error;
+    }
+
+    const attachmentWithUploader = await db.Attachment.findByPk(attachment.id, {
+      attributes: { exclude: ['storageKey'] },
+      include: getAttachmentInclude(),
+    });
+
+    io.to(task.projectId).emit('attachmentsUpdated', { taskId: task.id, projectId: task.projectId });
+
+    res.status(201).json(attachmentWithUploader);
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    res.status(500).json({ message: 'Server error uploading attachment.' });
+  }
+};
+
+/**
+ * Turns body-parser's "payload too large" error into the API's JSON error shape.
+ */
+export const handleAttachmentUploadError = (err: any, req: Request, res: Response, next: NextFunction): void => {
+  if (err?.type === 'entity.too.large') {
+    res.status(413).json({ message: `Attachments cannot be larger than ${Math.floor(MAX_ATTACHMENT_SIZE / (1024 * 1024))} MB.` });
+    return;
+  }
+  next(err);
+};
+
+// @route   GET /api/tasks/:id/attachments/:attachmentId
+// @desc    Download an attachment
+// @access  Private (Project members)
+export const downloadAttachment = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, attachmentId } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    const attachment = await db.Attachment.findOne({ where: { id: attachmentId, taskId: id } });
+    if (!task || !attachment || !(await getProjectRole(req.user, task.projectId))) {
+      res.status(404).json({ message: 'Attachment not found.' });
+      return;
+    }
+
+    let stream;
+    try {
+      stream = await getStorage().read(attachment.storageKey);
+    } catch {
+      res.status(404).json({ message: 'Attachment file is missing.' });
+      return;
+    }
+
+    res.setHeader('Content-Type', attachment.mimeType);
+    res.setHeader('Content-Length', attachment.size);
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    stream.on('error', (error) => {
+      console.error('Error streaming attachment:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('Error downloading attachment:', error);
+    res.status(500).json({ message: 'Server error downloading attachment.' });
+  }
+};
+
+// @route   DELETE /api/tasks/:id/attachments/:attachmentId
+// @desc    Delete an attachment
+// @access  Private (Users who may update this task)
+export const deleteAttachment = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, attachmentId } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    const attachment = await db.Attachment.findOne({ where: { id: attachmentId, taskId: id } });
+    const projectRole = task ? await getProjectRole(req.user, task.projectId) : null;
+    if (!task || !attachment || !projectRole) {
+      res.status(404).json({ message: 'Attachment not found.' });
+      return;
+    }
+
+    if (!canUpdateTask(projectRole, req.user.id, task)) {
+      res.status(403).json({ message: 'Not authorized to delete attachments of this task.' });
+      return;
+    }
+
+    await attachment.destroy();
+    await getStorage().remove(attachment.storageKey);
+
+    io.to(task.projectId).emit('attachmentsUpdated', { taskId: task.id, projectId: task.projectId });
+
+    res.status(200).json({ message: 'Attachment deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    res.status(500).json({ message: 'Server error deleting attachment.' });
+  }
+};
@@ -1,54 +1,119 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt, { SignOptions } from 'jsonwebtoken';
+import { Op } from 'sequelize';
 import db from '../models/index';
+import { issueSession, revokeSessionByRefreshToken, rotateRefreshToken } from '../utils/authTokens';
+import { getAppSettings } from '../utils/appSettings';
+import { findUsableInvitation, claimInvitation, releaseInvitation } from '../utils/invitations';
+import { checkRateLimit } from '../utils/rateLimit';
+import { sendPasswordResetMail, resetPasswordWithToken, MIN_PASSWORD_LENGTH } from '../utils/passwordReset';
+import { sendVerificationMail, verifyEmailToken, isEmailVerified } from '../utils/emailVerification';
+import { getTwoFactor, isTwoFactorEnabled, isTwoFactorRequiredForRole, createTwoFactorChallenge } from '../utils/twoFactor';
 
-const generateToken = (id: string, role: string): string => {
-  const secret = process.env.JWT_SECRET;
-
-  if (!secret) {
-    throw new Error('JWT_SECRET is not defined in environment variables. Please ensure it is set.');
-  }
-
-  const expiresInValue: string = process.env.JWT_EXPIRES_IN || '1h';
-
-  const options: SignOptions = {
-    expiresIn: expiresInValue as any,
+interface CustomRequest extends Request {
+  user?: {
+    id: string;
+    role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+    sessionId?: string;
   };
+}
 
-  return jwt.sign({ id, role }, secret, options);
-};
+// Public registration always creates the lowest role; higher roles come from an invitation
+const PUBLIC_REGISTRATION_ROLE = 'Viewer';
+
+const RATE_LIMIT_WINDOW_SECONDS = 60 * 60;
+const RESET_REQUESTS_PER_EMAIL = 3;
+const RESET_REQUESTS_PER_IP = 10;
+const RESET_ATTEMPTS_PER_IP = 20;
+const VERIFICATION_MAILS_PER_USER = 3;
 
+// @route   POST /api/auth/register
+// @desc    Register a new account ({ username, email, password, inviteToken? }). Without an invitation, only while registration is open.
+// @access  Public
 export const registerUser = async (req: Request, res: Response): Promise<void> => {
-  const { username, email, password, role } = req.body;
+  const { username, email, password, inviteToken } = req.body;
 
   try {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.` });
+      return;
+    }
+
+    let invitation = null;
+    if (inviteToken) {
+      invitation = await findUsableInvitation(inviteToken);
+      if (!invitation) {
+        res.status(400).json({ message: 'This invitation is invalid, has expired or has already been used.' });
+        return;
+      }
+      if (typeof email !== 'string' || email.trim().toLowerCase() !== invitation.email.toLowerCase()) {
+        res.status(400).json({ message: 'This invitation was sent to a different email address.' });
+        return;
+      }
+    } else if (!(await getAppSettings()).openRegistration) {
+      res.status(403).json({ message: 'Registration is by invitation only.' });
+      return;
+    }
+
     const existingUser = await db.User.findOne({ where: { email } });
     if (existingUser) {
       res.status(409).json({ message: 'User with this email already exists.' });
       return;
     }
 
+    // Hashed before the invitation is claimed, so nothing between the claim and the new user can fail and use it up
     const salt = await bcrypt.genSalt(10);
     const passwordHash = await bcrypt.hash(password, salt);
 
-    const newUser = await db.User.create({
-      username,
-      email,
-      passwordHash,
-      role: role || 'Viewer',
-    });
+    if (invitation && !(await claimInvitation(invitation.id))) {
+      res.status(400).json({ message: 'This invitation is invalid, has expired or has already been used.' });
+      return;
+    }
+
+    let newUser;
+    try {
+      newUser = await db.User.create({
+        username,
+        email,
+        passwordHash,
+        role: invitation ? invitation.role : PUBLIC_REGISTRATION_ROLE,
+        emailVerifiedAt: null,
+      });
+    } catch (error) {
+      // Let the invitee try again with the same link
+      if (invitation) {
+        await releaseInvitation(invitation.id);
+      }
+      throw error;
+    }
+    if (invitation) {
+      await invitation.update({ acceptedBy: newUser.id });
+    }
+
+    sendVerificationMail(newUser).catch((error) => console.error('Error sending verification mail:', error));
+
+    // An invited role may require two-factor authentication, which is set up before the first session like at login
+    if (await isTwoFactorRequiredForRole(newUser.role)) {
+      res.status(201).json({
+        message: 'User registered successfully. Your role requires two-factor authentication. Set it up to continue.',
+        twoFactorSetupRequired: true,
+        challengeToken: createTwoFactorChallenge(newUser.id, 'two-factor-setup'),
+      });
+      return;
+    }
 
-    const token = generateToken(newUser.id, newUser.role);
+    const { token, refreshToken } = await issueSession(newUser);
 
     res.status(201).json({
       message: 'User registered successfully',
       token,
+      refreshToken,
       user: {
         id: newUser.id,
         username: newUser.username,
         email: newUser.email,
         role: newUser.role,
+        emailVerifiedAt: newUser.emailVerifiedAt,
         createdAt: newUser.createdAt,
       },
     });
@@ -58,6 +123,9 @@ export const registerUser = async (req: Request, res: Response): Promise<void> =
   }
 };
 
+// @route   POST /api/auth/login
+// @desc    Sign in ({ email, password }). When two-factor authentication is on or required for the role, answers with a challenge token for the second step instead of a session.
+// @access  Public
 export const loginUser = async (req: Request, res: Response): Promise<void> => {
   const { email, password } = req.body;
 
@@ -74,20 +142,214 @@ export const loginUser = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const token = generateToken(user.id, user.role);
+    if (isTwoFactorEnabled(await getTwoFactor(user.id))) {
+      res.status(200).json({
+        message: 'Enter the code from your authenticator app.',
+        twoFactorRequired: true,
+        challengeToken: createTwoFactorChallenge(user.id, 'two-factor-login'),
+      });
+      return;
+    }
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      res.status(200).json({
+        message: 'Your role requires two-factor authentication. Set it up to continue.',
+        twoFactorSetupRequired: true,
+        challengeToken: createTwoFactorChallenge(user.id, 'two-factor-setup'),
+      });
+      return;
+    }
+
+    const { token, refreshToken } = await issueSession(user);
 
     res.status(200).json({
       message: 'Logged in successfully',
       token,
+      refreshToken,
       user: {
         id: user.id,
         username: user.username,
         email: user.email,
         role: user.role,
+        emailVerifiedAt: user.emailVerifiedAt,
       },
     });
   } catch (error) {
     console.error('Error logging in user:', error);
     res.status(500).json({ message: 'Server error during login.' });
   }
-};
\ No newline at end of file
+};
+
+// @route   POST /api/auth/refresh
+// @desc    Exchange a refresh token for a new access token and a new refresh token ({ refreshToken })
+// @access  Public (Holders of a valid refresh token)
+export const refreshSession = async (req: Request, res: Response): Promise<void> => {
+  const { refreshToken } = req.body;
+
+  try {
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      res.status(400).json({ message: 'Refresh token is required.' });
+      return;
+    }
+
+    const { session, error } = await rotateRefreshToken(refreshToken);
+    if (!session) {
+      res.status(401).json({ message: error });
+      return;
+    }
+
+    res.status(200).json({
+      token: session.token,
+      refreshToken: session.refreshToken,
+      user: {
+        id: session.user.id,
+        username: session.user.username,
+        email: session.user.email,
+        role: session.user.role,
+        emailVerifiedAt: session.user.emailVerifiedAt,
+      },
+    });
+  } catch (error) {
+    console.error('Error refreshing session:', error);
+    res.status(500).json({ message: 'Server error refreshing session.' });
+  }
+};
+
+// @route   POST /api/auth/logout
+// @desc    End the session of the given refresh token ({ refreshToken }), revoking its refresh tokens and access tokens.
+//          The access token is not needed, so a session whose access token expired can still be ended.
+// @access  Public (Requires the refresh token)
+export const logoutUser = async (req: Request, res: Response): Promise<void> => {
+  const { refreshToken } = req.body;
+
+  try {
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      res.status(400).json({ message: 'Refresh token is required.' });
+      return;
+    }
+
+    if (!(await revokeSessionByRefreshToken(refreshToken))) {
+      res.status(401).json({ message: 'Invalid refresh token.' });
+      return;
+    }
+
+    res.status(200).json({ message: 'Logged out successfully.' });
+  } catch (error) {
+    console.error('Error logging out user:', error);
+    res.status(500).json({ message: 'Server error during logout.' });
+  }
+};
+
+// @route   POST /api/auth/forgot-password
+// @desc    Mail a password reset link ({ email }). Answers the same whether or not the account exists.
+// @access  Public (Rate limited per email and per IP)
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+  const { email } = req.body;
+
+  try {
+    if (typeof email !== 'string' || !email.trim()) {
+      res.status(400).json({ message: 'Email is required.' });
+      return;
+    }
+    const normalizedEmail = email.trim().toLowerCase();
+
+    if (!(await checkRateLimit(res, `forgotPassword:ip:${req.ip}`, RESET_REQUESTS_PER_IP, RATE_LIMIT_WINDOW_SECONDS))) return;
+    if (!(await checkRateLimit(res, `forgotPassword:email:${normalizedEmail}`, RESET_REQUESTS_PER_EMAIL, RATE_LIMIT_WINDOW_SECONDS))) return;
+
+    const user = await db.User.findOne({ where: { email: { [Op.iLike]: normalizedEmail } } });
+    // Not awaited, so the response takes as long whether or not the account exists
+    if (user) {
+      sendPasswordResetMail(user).catch((error) => console.error('Error sending password reset mail:', error));
+    }
+
+    res.status(200).json({ message: 'If an account exists for this email, a link to reset its password has been sent.' });
+  } catch (error) {
+    console.error('Error requesting password reset:', error);
+    res.status(500).json({ message: 'Server error requesting password reset.' });
+  }
+};
+
+// @route   POST /api/auth/reset-password
+// @desc    Choose a new password with a reset token ({ token, password }). Signs the user out of every session.
+// @access  Public (Holders of a reset token; rate limited per IP)
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+  const { token, password } = req.body;
+
+  try {
+    if (!(await checkRateLimit(res, `resetPassword:ip:${req.ip}`, RESET_ATTEMPTS_PER_IP, RATE_LIMIT_WINDOW_SECONDS))) return;
+
+    if (typeof token !== 'string' || !token) {
+      res.status(400).json({ message: 'Reset token is required.' });
+      return;
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.` });
+      return;
+    }
+
+    if (!(await resetPasswordWithToken(token, password))) {
+      res.status(400).json({ message: 'This reset link is invalid, has expired or has already been used.' });
+      return;
+    }
+
+    res.status(200).json({ message: 'Your password has been reset. Please log in with your new password.' });
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    res.status(500).json({ message: 'Server error resetting password.' });
+  }
+};
+
+// @route   GET /api/auth/verify-email?token=
+// @desc    Confirm the email address a verification link was mailed to
+// @access  Public (Holders of a verification token)
+export const verifyEmail = async (req: Request, res: Response): Promise<void> => {
+  const { token } = req.query;
+
+  try {
+    if (typeof token !== 'string' || !token) {
+      res.status(400).json({ message: 'Verification token is required.' });
+      return;
+    }
+
+    const { user, error } = await verifyEmailToken(token);
+    if (!user) {
+      res.status(400).json({ message: error });
+      return;
+    }
+
+    res.status(200).json({ message: 'Your email address has been verified.', emailVerifiedAt: user.emailVerifiedAt });
+  } catch (error) {
+    console.error('Error verifying email:', error);
+    res.status(500).json({ message: 'Server error verifying email.' });
+  }
+};
+
+// @route   POST /api/auth/resend-verification
+// @desc    Mail the current user a new verification link
+// @access  Private (Rate limited per user)
+export const resendVerificationEmail = async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const user = await db.User.findByPk(req.user.id);
+    if (!user) {
+      res.status(404).json({ message: 'User not found.' });
+      return;
+    }
+    if (isEmailVerified(user)) {
+      res.status(400).json({ message: 'Your email address is already verified.' });
+      return;
+    }
+
+    if (!(await checkRateLimit(res, `resendVerification:user:${user.id}`, VERIFICATION_MAILS_PER_USER, RATE_LIMIT_WINDOW_SECONDS))) return;
+
+    await sendVerificationMail(user);
+
+    res.status(200).json({ message: `A new verification link has been sent to ${user.email}.` });
+  } catch (error) {
+    console.error('Error resending verification email:', error);
+    res.status(500).json({ message: 'Server error resending verification email.' });
+  }
+};
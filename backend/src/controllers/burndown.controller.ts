@@ -0,0 +1,64 @@
+import { Request, Response } from 'express';
+import db from '../models/index';
+import { getProjectRole } from '../utils/projectAccess';
+import { getBurndownSeries } from '../utils/burndown';
+
+interface CustomRequest extends Request {
+  user?: {
+    id: string;
+    role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  };
+}
+
+const DEFAULT_BURNDOWN_DAYS = 30;
+const MAX_BURNDOWN_DAYS = 365;
+
+// @route   GET /api/projects/:id/burndown
+// @desc    Get the burndown series of a sprint (?sprintId=<id>) or of the whole project over the last ?days=<n> days
+// @access  Private (Project members)
+export const getBurndown = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { sprintId, days } = req.query;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const project = await db.Project.findByPk(id, { attributes: ['id', 'estimateUnit'] });
+    if (!project || !(await getProjectRole(req.user, id))) {
+      res.status(404).json({ message: 'Project not found.' });
+      return;
+    }
+
+    if (typeof sprintId === 'string' && sprintId) {
+      const sprint = await db.Sprint.findOne({
+        where: { id: sprintId, projectId: id },
+        attributes: ['id', 'name', 'state', 'startDate', 'endDate'],
+      });
+      if (!sprint) {
+        res.status(404).json({ message: 'Sprint not found.' });
+        return;
+      }
+
+      // A sprint burns down from its start; only the active one is still changing
+      const series = await getBurndownSeries(id, sprint.id, sprint.startDate || null, sprint.state === 'active');
+      res.status(200).json({ unit: project.estimateUnit, sprint, series });
+      return;
+    }
+
+    const dayCount = days === undefined ? DEFAULT_BURNDOWN_DAYS : Number(days);
+    if (!Number.isInteger(dayCount) || dayCount < 1 || dayCount > MAX_BURNDOWN_DAYS) {
+      res.status(400).json({ message: `days must be a whole number between 1 and ${MAX_BURNDOWN_DAYS}.` });
+      return;
+    }
+
+    const since = new Date(Date.now() - (dayCount - 1) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const series = await getBurndownSeries(id, null, since, true);
+    res.status(200).json({ unit: project.estimateUnit, sprint: null, series });
+  } catch (error) {
+    console.error('Error fetching burndown:', error);
+    res.status(500).json({ message: 'Server error fetching burndown.' });
+  }
+};
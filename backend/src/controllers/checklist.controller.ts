@@ -0,0 +1,293 @@
+import { Request, Response } from 'express';
+import db from '../models/index';
+import { io } from '../index';
+import { getProjectRole, canContribute, canUpdateTask } from '../utils/projectAccess';
+import { getChecklistProgress, getChecklistEndRank, resolveChecklistRank } from '../utils/checklists';
+import { isEmailVerified } from '../utils/emailVerification';
+import { invalidateTaskCaches } from '../utils/taskCache';
+
+interface CustomRequest extends Request {
+  user?: {
+    id: string;
+    role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  };
+}
+
+const MAX_ITEM_TEXT_LENGTH = 500;
+const MAX_ITEMS_PER_TASK = 100;
+
+// Built lazily: models are initialized at startup, after this module is loaded
+const getItemInclude = () => [{ model: db.User, as: 'assignee', attributes: ['id', 'username'] }];
+
+/**
+ * Checks that an item's assignee exists, has verified their email and can see the task. Returns an error response, or null when valid.
+ */
+const validateAssignee = async (assigneeId: string, projectId: string): Promise<{ status: number; message: string } | null> => {
+  const assignee = await db.User.findByPk(assigneeId);
+  if (!assignee) {
+    return { status: 404, message: 'Assigned user not found.' };
+  }
+  if (!isEmailVerified(assignee)) {
+    return { status: 400, message: 'Assigned user has not verified their email address yet.' };
+  }
+  if (!(await getProjectRole(assignee, projectId))) {
+    return { status: 400, message: 'Assigned user is not a member of this project.' };
+  }
+  return null;
+};
+
+/**
+ * Refreshes the checklist progress shown on the task's card, on the board and for everyone viewing the project.
+ */
+const broadcastChecklistChange = async (task: { id: string; projectId: string }): Promise<void> => {
+  await invalidateTaskCaches(task.projectId);
+
+  const progress = await getChecklistProgress([task.id]);
+  io.to(task.projectId).emit('checklistUpdated', {
+    taskId: task.id,
+    projectId: task.projectId,
+    checklistProgress: progress.get(task.id) || { done: 0, total: 0 },
+  });
+};
+
+// @route   GET /api/tasks/:id/checklist
+// @desc    Get a task's checklist items in order
+// @access  Private (Project members)
+export const getChecklist = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    if (!task || !(await getProjectRole(req.user, task.projectId))) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    const items = await db.ChecklistItem.findAll({
+      where: { taskId: id },
+      include: getItemInclude(),
+      order: [['rank', 'ASC'], ['createdAt', 'ASC']],
+    });
+
+    res.status(200).json(items);
+  } catch (error) {
+    console.error('Error fetching checklist:', error);
+    res.status(500).json({ message: 'Server error fetching checklist.' });
+  }
+};
+
+// @route   POST /api/tasks/:id/checklist
+// @desc    Add an item to the end of a task's checklist ({ text, assigneeId? })
+// @access  Private (Users who may update the task)
+export const createChecklistItem = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { text, assigneeId } = req.body;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    const projectRole = task ? await getProjectRole(req.user, task.projectId) : null;
+    if (!task || !projectRole) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    if (!canUpdateTask(projectRole, req.user.id, task)) {
+      res.status(403).json({ message: 'Not authorized to edit the checklist of this task.' });
+      return;
+    }
+
+    if (typeof text !== 'string' || !text.trim()) {
+      res.status(400).json({ message: 'Checklist item text is required.' });
+      return;
+    }
+    if (text.trim().length > MAX_ITEM_TEXT_LENGTH) {
+      res.status(400).json({ message: `Checklist items cannot be longer than ${MAX_ITEM_TEXT_LENGTH} characters.` });
+      return;
+    }
+
+    if (await db.ChecklistItem.count({ where: { taskId: id } }) >= MAX_ITEMS_PER_TASK) {
+      res.status(400).json({ message: `A checklist cannot have more than ${MAX_ITEMS_PER_TASK} items.` });
+      return;
+    }
+
+    if (assigneeId) {
+      const assigneeError = await validateAssignee(assigneeId, task.projectId);
+      if (assigneeError) {
+        res.status(assigneeError.status).json({ message: assigneeError.message });
+        return;
+      }
+    }
+
+    const item = await db.ChecklistItem.create({
+      taskId: id,
+      text: text.trim(),
+      assigneeId: assigneeId || null,
+      rank: await getChecklistEndRank(id),
+    });
+
+    await broadcastChecklistChange(task);
+
+    res.status(201).json(await db.ChecklistItem.findByPk(item.id, { include: getItemInclude() }));
+  } catch (error) {
+    console.error('Error creating checklist item:', error);
+    res.status(500).json({ message: 'Server error creating checklist item.' });
+  }
+};
+
+// @route   PUT /api/tasks/:id/checklist/:itemId
+// @desc    Edit a checklist item ({ text?, done?, assigneeId? })
+// @access  Private (Users who may update the task; the item's assignee may tick it off)
+export const updateChecklistItem = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, itemId } = req.params;
+  const { text, done, assigneeId } = req.body;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    const projectRole = task ? await getProjectRole(req.user, task.projectId) : null;
+    const item = task && projectRole ? await db.ChecklistItem.findOne({ where: { id: itemId, taskId: id } }) : null;
+    if (!task || !projectRole || !item) {
+      res.status(404).json({ message: 'Checklist item not found.' });
+      return;
+    }
+
+    const onlyTogglesDone = text === undefined && assigneeId === undefined;
+    const isItemAssignee = canContribute(projectRole) && item.assigneeId === req.user.id;
+    if (!canUpdateTask(projectRole, req.user.id, task) && !(onlyTogglesDone && isItemAssignee)) {
+      res.status(403).json({ message: 'Not authorized to edit the checklist of this task.' });
+      return;
+    }
+
+    if (text !== undefined && (typeof text !== 'string' || !text.trim())) {
+      res.status(400).json({ message: 'Checklist item text is required.' });
+      return;
+    }
+    if (text !== undefined && text.trim().length > MAX_ITEM_TEXT_LENGTH) {
+      res.status(400).json({ message: `Checklist items cannot be longer than ${MAX_ITEM_TEXT_LENGTH} characters.` });
+      return;
+    }
+    if (done !== undefined && typeof done !== 'boolean') {
+      res.status(400).json({ message: 'Done must be true or false.' });
+      return;
+    }
+
+    if (assigneeId && assigneeId !== item.assigneeId) {
+      const assigneeError = await validateAssignee(assigneeId, task.projectId);
+      if (assigneeError) {
+        res.status(assigneeError.status).json({ message: assigneeError.message });
+        return;
+      }
+    }
+
+    await item.update({
+      text: text !== undefined ? text.trim() : item.text,
+      done: done !== undefined ? done : item.done,
+      assigneeId: assigneeId !== undefined ? assigneeId || null : item.assigneeId,
+    });
+
+    await broadcastChecklistChange(task);
+
+    res.status(200).json(await db.ChecklistItem.findByPk(item.id, { include: getItemInclude() }));
+  } catch (error) {
+    console.error('Error updating checklist item:', error);
+    res.status(500).json({ message: 'Server error updating checklist item.' });
+  }
+};
+
+// @route   PATCH /api/tasks/:id/checklist/:itemId/move
+// @desc    Move a checklist item directly below another one ({ beforeItemId }), or to the top without one
+// @access  Private (Users who may update the task)
+export const moveChecklistItem = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, itemId } = req.params;
+  const { beforeItemId } = req.body;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    const projectRole = task ? await getProjectRole(req.user, task.projectId) : null;
+    const item = task && projectRole ? await db.ChecklistItem.findOne({ where: { id: itemId, taskId: id } }) : null;
+    if (!task || !projectRole || !item) {
+      res.status(404).json({ message: 'Checklist item not found.' });
+      return;
+    }
+
+    if (!canUpdateTask(projectRole, req.user.id, task)) {
+      res.status(403).json({ message: 'Not authorized to edit the checklist of this task.' });
+      return;
+    }
+
+    if (beforeItemId === itemId) {
+      res.status(400).json({ message: 'A checklist item cannot be placed next to itself.' });
+      return;
+    }
+
+    const rank = await resolveChecklistRank(id, beforeItemId || null, itemId);
+    if (!rank) {
+      res.status(400).json({ message: 'The item to place it below is not on this checklist.' });
+      return;
+    }
+
+    await item.update({ rank });
+
+    await broadcastChecklistChange(task);
+
+    res.status(200).json(await db.ChecklistItem.findByPk(item.id, { include: getItemInclude() }));
+  } catch (error) {
+    console.error('Error moving checklist item:', error);
+    res.status(500).json({ message: 'Server error moving checklist item.' });
+  }
+};
+
+// @route   DELETE /api/tasks/:id/checklist/:itemId
+// @desc    Remove an item from a task's checklist
+// @access  Private (Users who may update the task)
+export const deleteChecklistItem = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, itemId } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    const projectRole = task ? await getProjectRole(req.user, task.projectId) : null;
+    const item = task && projectRole ? await db.ChecklistItem.findOne({ where: { id: itemId, taskId: id } }) : null;
+    if (!task || !projectRole || !item) {
+      res.status(404).json({ message: 'Checklist item not found.' });
+      return;
+    }
+
+    if (!canUpdateTask(projectRole, req.user.id, task)) {
+      res.status(403).json({ message: 'Not authorized to edit the checklist of this task.' });
+      return;
+    }
+
+    await item.destroy();
+
+    await broadcastChecklistChange(task);
+
+    res.status(200).json({ message: 'Checklist item deleted successfully.' });
+  } catch (error) {
+    console.error('Error deleting checklist item:', error);
+    res.status(500).json({ message: 'Server error deleting checklist item.' });
+  }
+};
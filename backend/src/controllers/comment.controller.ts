@@ -0,0 +1,251 @@
+import { Request, Response } from 'express';
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { io } from '../index';
+import { getProjectRole, canContribute, canManageProject } from '../utils/projectAccess';
+import { notifyUser } from '../utils/notifications';
+import { addTaskWatchers, notifyTaskWatchers } from '../utils/taskWatchers';
+
+interface CustomRequest extends Request {
+  user?: {
+    id: string;
+    role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  };
+}
+
+const MAX_COMMENT_LENGTH = 5000;
+
+// Built lazily: models are initialized at startup, after this module is loaded
+const getCommentInclude = () => [{ model: db.User, as: 'author', attributes: ['id', 'username', 'email'] }];
+
+/**
+ * Extracts the unique usernames referenced as @username in a comment body.
+ */
+const parseMentions = (body: string): string[] => {
+  const usernames = new Set<string>();
+  for (const match of body.matchAll(/(?:^|[^\w@])@([A-Za-z0-9_.-]+)/g)) {
+    usernames.add(match[1].replace(/[.-]+$/, ''));
+  }
+  return [...usernames].filter(Boolean);
+};
+
+/**
+ * Notifies project members mentioned in a comment. Users in `skipUsernames` (already notified) and the author are ignored.
+ * Returns the ids of the users notified.
+ */
+const notifyMentionedUsers = async (comment: any, task: any, author: { id: string }, skipUsernames: string[] = []): Promise<string[]> => {
+  const usernames = parseMentions(comment.body).filter(username => !skipUsernames.includes(username));
+  if (usernames.length === 0) return [];
+
+  const mentionedUsers = await db.User.findAll({ where: { username: { [Op.in]: usernames } }, attributes: ['id', 'username'] });
+  const authorUser = await db.User.findByPk(author.id, { attributes: ['username'] });
+
+  const notifiedUserIds: string[] = [];
+  for (const mentionedUser of mentionedUsers) {
+    if (mentionedUser.id === author.id) continue;
+    // Only people who can see the task get told about it
+    if (!(await getProjectRole(mentionedUser, task.projectId))) continue;
+
+    await notifyUser({
+      userId: mentionedUser.id,
+      message: `${authorUser?.username || 'Someone'} mentioned you on task "${task.title}".`,
+      type: 'mention',
+      itemId: task.id,
+      projectId: task.projectId,
+    });
+    notifiedUserIds.push(mentionedUser.id);
+  }
+  return notifiedUserIds;
+};
+
+// @route   GET /api/tasks/:id/comments
+// @desc    Get all comments on a task, oldest first (replies reference their parent)
+// @access  Private (Project members)
+export const getComments = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    if (!task || !(await getProjectRole(req.user, task.projectId))) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    const comments = await db.Comment.findAll({
+      where: { taskId: id },
+      include: getCommentInclude(),
+      order: [['createdAt', 'ASC']],
+    });
+
+    res.status(200).json(comments);
+  } catch (error) {
+    console.error('Error fetching comments:', error);
+    res.status(500).json({ message: 'Server error fetching comments.' });
+  }
+};
+
+// @route   POST /api/tasks/:id/comments
+// @desc    Comment on a task, or reply to a comment ({ body, parentCommentId? })
+// @access  Private (Project members who can contribute)
+export const createComment = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { body, parentCommentId } = req.body;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    if (typeof body !== 'string' || !body.trim()) {
+      res.status(400).json({ message: 'Comment body is required.' });
+      return;
+    }
+    if (body.length > MAX_COMMENT_LENGTH) {
+      res.status(400).json({ message: `Comment cannot be longer than ${MAX_COMMENT_LENGTH} characters.` });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    const projectRole = task ? await getProjectRole(req.user, task.projectId) : null;
+    if (!task || !projectRole) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    if (!canContribute(projectRole)) {
+      res.status(403).json({ message: 'Not authorized to comment on this task.' });
+      return;
+    }
+
+    if (parentCommentId) {
+      const parentComment = await db.Comment.findByPk(parentCommentId);
+      if (!parentComment || parentComment.taskId !== id) {
+        res.status(400).json({ message: 'Parent comment not found on this task.' });
+        return;
+      }
+    }
+
+    const newComment = await db.Comment.create({
+      taskId: id,
+      authorId: req.user.id,
+      body: body.trim(),
+      parentCommentId: parentCommentId || null,
+    });
+
+    const commentWithAuthor = await db.Comment.findByPk(newComment.id, { include: getCommentInclude() });
+
+    io.to(task.projectId).emit('commentCreated', { taskId: id, projectId: task.projectId, comment: commentWithAuthor });
+
+    // Watchers hear about the comment, unless a mention already told them; commenting also watches the task
+    const mentionedUserIds = await notifyMentionedUsers(newComment, task, req.user);
+    await notifyTaskWatchers({
+      task,
+      actorId: req.user.id,
+      message: `${commentWithAuthor?.author?.username || 'Someone'} commented on task "${task.title}".`,
+      type: 'task_updated',
+      skipUserIds: mentionedUserIds,
+    });
+    await addTaskWatchers(task.id, [req.user.id]);
+
+    res.status(201).json(commentWithAuthor);
+  } catch (error) {
+    console.error('Error creating comment:', error);
+    res.status(500).json({ message: 'Server error creating comment.' });
+  }
+};
+
+// @route   PUT /api/tasks/:id/comments/:commentId
+// @desc    Edit a comment ({ body })
+// @access  Private (Comment author)
+export const updateComment = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, commentId } = req.params;
+  const { body } = req.body;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    if (typeof body !== 'string' || !body.trim()) {
+      res.status(400).json({ message: 'Comment body is required.' });
+      return;
+    }
+    if (body.length > MAX_COMMENT_LENGTH) {
+      res.status(400).json({ message: `Comment cannot be longer than ${MAX_COMMENT_LENGTH} characters.` });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    const comment = await db.Comment.findOne({ where: { id: commentId, taskId: id } });
+    if (!task || !comment || !(await getProjectRole(req.user, task.projectId))) {
+      res.status(404).json({ message: 'Comment not found.' });
+      return;
+    }
+
+    if (comment.authorId !== req.user.id) {
+      res.status(403).json({ message: 'Only the author can edit this comment.' });
+      return;
+    }
+
+    // People mentioned before the edit were already notified
+    const previousMentions = parseMentions(comment.body);
+
+    comment.body = body.trim();
+    comment.editedAt = new Date();
+    await comment.save();
+
+    const commentWithAuthor = await db.Comment.findByPk(comment.id, { include: getCommentInclude() });
+
+    io.to(task.projectId).emit('commentUpdated', { taskId: id, projectId: task.projectId, comment: commentWithAuthor });
+
+    await notifyMentionedUsers(comment, task, req.user, previousMentions);
+
+    res.status(200).json(commentWithAuthor);
+  } catch (error) {
+    console.error('Error updating comment:', error);
+    res.status(500).json({ message: 'Server error updating comment.' });
+  }
+};
+
+// @route   DELETE /api/tasks/:id/comments/:commentId
+// @desc    Delete a comment and its replies
+// @access  Private (Comment author, Project Owners/Maintainers)
+export const deleteComment = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, commentId } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    const comment = await db.Comment.findOne({ where: { id: commentId, taskId: id } });
+    const projectRole = task ? await getProjectRole(req.user, task.projectId) : null;
+    if (!task || !comment || !projectRole) {
+      res.status(404).json({ message: 'Comment not found.' });
+      return;
+    }
+
+    if (comment.authorId !== req.user.id && !canManageProject(projectRole)) {
+      res.status(403).json({ message: 'Not authorized to delete this comment.' });
+      return;
+    }
+
+    await comment.destroy();
+
+    io.to(task.projectId).emit('commentDeleted', { taskId: id, projectId: task.projectId, commentId });
+
+    res.status(200).json({ message: 'Comment deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    res.status(500).json({ message: 'Server error deleting comment.' });
+  }
+};
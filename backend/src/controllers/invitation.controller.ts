@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { canInviteRole, createInvitation as createInvitationRecord, findUsableInvitation, serializeInvitation } from '../utils/invitations';
+
+interface CustomRequest extends Request {
+  user?: {
+    id: string;
+    role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  };
+}
+
+const validRoles = ['Admin', 'Project Manager', 'Developer', 'Tester', 'Viewer'];
+
+// @route   GET /api/invitations
+// @desc    Get the invitations that have not been used yet, including expired ones
+// @access  Private (Admin and Project Manager only)
+export const getInvitations = async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const invitations = await db.Invitation.findAll({
+      where: { acceptedAt: null },
+      include: [{ model: db.User, as: 'inviter', attributes: ['id', 'username'] }],
+      order: [['createdAt', 'DESC']],
+    });
+
+    res.status(200).json(invitations.map(serializeInvitation));
+  } catch (error) {
+    console.error('Error fetching invitations:', error);
+    res.status(500).json({ message: 'Server error fetching invitations.' });
+  }
+};
+
+// @route   POST /api/invitations
+// @desc    Invite someone to register with a given role ({ email, role }). The response carries the invitation token, once.
+// @access  Private (Admin and Project Manager only; only Admins may invite Admins)
+export const createInvitation = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { email, role = 'Viewer' } = req.body;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    if (typeof email !== 'string' || !email.trim()) {
+      res.status(400).json({ message: 'Email is required.' });
+      return;
+    }
+    if (!validRoles.includes(role)) {
+      res.status(400).json({ message: 'Invalid role specified.' });
+      return;
+    }
+    if (!canInviteRole(req.user.role, role)) {
+      res.status(403).json({ message: `Not authorized to invite users with the ${role} role.` });
+      return;
+    }
+
+    const existingUser = await db.User.findOne({ where: { email: { [Op.iLike]: email.trim() } } });
+    if (existingUser) {
+      res.status(409).json({ message: 'A user with this email already exists.' });
+      return;
+    }
+
+    const { invitation, token } = await createInvitationRecord({ email: email.trim(), role, invitedBy: req.user.id });
+
+    res.status(201).json({ invitation: serializeInvitation(invitation), token });
+  } catch (error: any) {
+    if (error.name === 'SequelizeValidationError') {
+      res.status(400).json({ message: 'Please enter a valid email address.' });
+      return;
+    }
+    console.error('Error creating invitation:', error);
+    res.status(500).json({ message: 'Server error creating invitation.' });
+  }
+};
+
+// @route   DELETE /api/invitations/:id
+// @desc    Revoke an invitation that has not been used yet
+// @access  Private (Admin and Project Manager only; Project Managers may not revoke invitations of Admins)
+export const revokeInvitation = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const invitation = await db.Invitation.findOne({ where: { id, acceptedAt: null } });
+    if (!invitation) {
+      res.status(404).json({ message: 'Invitation not found.' });
+      return;
+    }
+    if (!canInviteRole(req.user.role, invitation.role)) {
+      res.status(403).json({ message: 'Not authorized to revoke this invitation.' });
+      return;
+    }
+
+    await invitation.destroy();
+
+    res.status(200).json({ message: 'Invitation revoked successfully.' });
+  } catch (error) {
+    console.error('Error revoking invitation:', error);
+    res.status(500).json({ message: 'Server error revoking invitation.' });
+  }
+};
+
+// @route   GET /api/invitations/lookup/:token
+// @desc    Get the email and role an invitation token registers with, to prefill the registration form
+// @access  Public (Holders of the invitation token)
+export const lookupInvitation = async (req: Request, res: Response): Promise<void> => {
+  const { token } = req.params;
+
+  try {
+    const invitation = await findUsableInvitation(token);
+    if (!invitation) {
+      res.status(404).json({ message: 'This invitation is invalid, has expired or has already been used.' });
+      return;
+    }
+
+    res.status(200).json({ email: invitation.email, role: invitation.role, expiresAt: invitation.expiresAt });
+  } catch (error) {
+    console.error('Error looking up invitation:', error);
+    res.status(500).json({ message: 'Server error looking up invitation.' });
+  }
+};
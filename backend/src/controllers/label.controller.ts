@@ -0,0 +1,180 @@
+import { Request, Response } from 'express';
+import db from '../models/index';
+import { io } from '../index';
+import { getProjectRole, canContribute, canManageProject } from '../utils/projectAccess';
+import { invalidateTaskCaches } from '../utils/taskCache';
+
+interface CustomRequest extends Request {
+  user?: {
+    id: string;
+    role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  };
+}
+
+const LABEL_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// @route   GET /api/projects/:id/labels
+// @desc    Get the labels defined for a project
+// @access  Private (Project members)
+export const getLabels = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    if (!(await getProjectRole(req.user, id))) {
+      res.status(404).json({ message: 'Project not found.' });
+      return;
+    }
+
+    const labels = await db.Label.findAll({
+      where: { projectId: id },
+      order: [['name', 'ASC']],
+    });
+
+    res.status(200).json(labels);
+  } catch (error) {
+    console.error('Error fetching labels:', error);
+    res.status(500).json({ message: 'Server error fetching labels.' });
+  }
+};
+
+// @route   POST /api/projects/:id/labels
+// @desc    Create a label in a project ({ name, color? })
+// @access  Private (Project Owner, Maintainer, Contributor)
+export const createLabel = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { name, color } = req.body;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const projectRole = await getProjectRole(req.user, id);
+    if (!projectRole) {
+      res.status(404).json({ message: 'Project not found.' });
+      return;
+    }
+
+    if (!canContribute(projectRole)) {
+      res.status(403).json({ message: 'Not authorized to create labels in this project.' });
+      return;
+    }
+
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > 50) {
+      res.status(400).json({ message: 'Label name is required and must be at most 50 characters.' });
+      return;
+    }
+    if (color !== undefined && !LABEL_COLOR_PATTERN.test(color)) {
+      res.status(400).json({ message: 'Label color must be a hex color like #1d4ed8.' });
+      return;
+    }
+
+    const label = await db.Label.create({ projectId: id, name: name.trim(), color });
+
+    io.to(id).emit('labelsUpdated', { projectId: id });
+
+    res.status(201).json(label);
+  } catch (error) {
+    console.error('Error creating label:', error);
+    if (error instanceof Error && error.name === 'SequelizeUniqueConstraintError') {
+      res.status(409).json({ message: 'A label with this name already exists in the project.' });
+    } else {
+      res.status(500).json({ message: 'Server error creating label.' });
+    }
+  }
+};
+
+// @route   PUT /api/projects/:id/labels/:labelId
+// @desc    Rename or recolor a label ({ name?, color? })
+// @access  Private (Project Owner, Maintainer)
+export const updateLabel = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, labelId } = req.params;
+  const { name, color } = req.body;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const projectRole = await getProjectRole(req.user, id);
+    const label = await db.Label.findOne({ where: { id: labelId, projectId: id } });
+    if (!projectRole || !label) {
+      res.status(404).json({ message: 'Label not found.' });
+      return;
+    }
+
+    if (!canManageProject(projectRole)) {
+      res.status(403).json({ message: 'Not authorized to change labels in this project.' });
+      return;
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.trim().length > 50)) {
+      res.status(400).json({ message: 'Label name cannot be empty or longer than 50 characters.' });
+      return;
+    }
+    if (color !== undefined && !LABEL_COLOR_PATTERN.test(color)) {
+      res.status(400).json({ message: 'Label color must be a hex color like #1d4ed8.' });
+      return;
+    }
+
+    await label.update({
+      name: name !== undefined ? name.trim() : label.name,
+      color: color !== undefined ? color : label.color,
+    });
+
+    await invalidateTaskCaches(id);
+    io.to(id).emit('labelsUpdated', { projectId: id });
+
+    res.status(200).json(label);
+  } catch (error) {
+    console.error('Error updating label:', error);
+    if (error instanceof Error && error.name === 'SequelizeUniqueConstraintError') {
+      res.status(409).json({ message: 'A label with this name already exists in the project.' });
+    } else {
+      res.status(500).json({ message: 'Server error updating label.' });
+    }
+  }
+};
+
+// @route   DELETE /api/projects/:id/labels/:labelId
+// @desc    Delete a label and remove it from all tasks
+// @access  Private (Project Owner, Maintainer)
+export const deleteLabel = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, labelId } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const projectRole = await getProjectRole(req.user, id);
+    const label = await db.Label.findOne({ where: { id: labelId, projectId: id } });
+    if (!projectRole || !label) {
+      res.status(404).json({ message: 'Label not found.' });
+      return;
+    }
+
+    if (!canManageProject(projectRole)) {
+      res.status(403).json({ message: 'Not authorized to delete labels in this project.' });
+      return;
+    }
+
+    await label.destroy();
+
+    await invalidateTaskCaches(id);
+    io.to(id).emit('labelsUpdated', { projectId: id });
+
+    res.status(200).json({ message: 'Label deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting label:', error);
+    res.status(500).json({ message: 'Server error deleting label.' });
+  }
+};
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import db from '../models/index'; 
+import { emitUnreadCount } from '../index';
 
 interface CustomRequest extends Request {
   user?: {
@@ -60,6 +61,9 @@ export const markNotificationAsRead = async (req: CustomRequest, res: Response):
       return;
     }
 
+    // Keep the badge in sync across all of the user's open tabs
+    await emitUnreadCount(req.user.id);
+
     res.status(200).json({ message: 'Notification marked as read.' });
   } catch (error) {
     console.error('Error marking notification as read:', error);
@@ -87,6 +91,9 @@ export const markAllNotificationsAsRead = async (req: CustomRequest, res: Respon
       }
     );
 
+    // Keep the badge in sync across all of the user's open tabs
+    await emitUnreadCount(req.user.id);
+
     res.status(200).json({ message: 'All unread notifications marked as read.' });
   } catch (error) {
     console.error('Error marking all notifications as read:', error);
@@ -118,6 +125,9 @@ export const deleteNotification = async (req: CustomRequest, res: Response): Pro
       return;
     }
 
+    // Keep the badge in sync across all of the user's open tabs
+    await emitUnreadCount(req.user.id);
+
     res.status(200).json({ message: 'Notification deleted successfully.' });
   } catch (error) {
     console.error('Error deleting notification:', error);
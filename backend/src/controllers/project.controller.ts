@@ -3,6 +3,18 @@ import db from '../models/index';
 import { io } from '../index';
 import { redisClient, REDIS_CACHE_TTL } from '../index';
 import { Op } from 'sequelize';
+import { getUserRoom } from '../index';
+import { notifyUser } from '../utils/notifications';
+import { recordProjectEvent, recordProjectChanges } from '../utils/taskHistory';
+import { getProjectTimeSpent } from '../utils/worklogs';
+import { removeProjectAttachmentFiles } from '../utils/attachments';
+import {
+  PROJECT_ROLES,
+  ProjectRole,
+  getProjectRole,
+  getAccessibleProjectIds,
+  canManageProject,
+} from '../utils/projectAccess';
 
 interface CustomRequest extends Request {
   user?: {
@@ -11,17 +23,26 @@ interface CustomRequest extends Request {
   };
 }
 
-const userAttributes = ['id', 'username', 'email', 'role'];
+const userAttributes = ['id', 'username', 'email', 'role', 'emailVerifiedAt'];
+
+// Accepted values of a project's estimateUnit
+const ESTIMATE_UNITS = ['points', 'hours'];
 
 // @route   GET /api/projects
-// @desc    Get all projects with filtering, sorting, and search
-// @access  Private (Any authenticated user can view)
+// @desc    Get all projects the user is a member of, with filtering, sorting, and search
+// @access  Private (Admins see every project; everyone else sees their memberships)
 export const getProjects = async (req: CustomRequest, res: Response): Promise<void> => {
   try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
     const { status, search, sortBy = 'createdAt', sortOrder = 'desc' } = req.query;
 
-    // Create cache key that includes query parameters
-    const cacheKey = `projects:${JSON.stringify({ status, search, sortBy, sortOrder })}`;
+    // Create cache key that includes query parameters and whose project list is being served
+    const scope = req.user.role === 'Admin' ? 'all' : req.user.id;
+    const cacheKey = `projects:${scope}:${JSON.stringify({ status, search, sortBy, sortOrder })}`;
 
     // Try to fetch from cache first
     const cachedProjects = await redisClient.get(cacheKey);
@@ -33,6 +54,12 @@ export const getProjects = async (req: CustomRequest, res: Response): Promise<vo
 
     // Build where clause for filtering
     const whereClause: any = {};
+
+    // Membership scope
+    const accessibleProjectIds = await getAccessibleProjectIds(req.user);
+    if (accessibleProjectIds !== null) {
+      whereClause.id = { [Op.in]: accessibleProjectIds };
+    }
     
     // Status filter
     if (status && status !== 'All') {
@@ -91,9 +118,16 @@ export const getProjects = async (req: CustomRequest, res: Response): Promise<vo
   }
 };
 
-// Update cache invalidation to clear all project-related cache keys
-const invalidateProjectCache = async (): Promise<void> => {
+// Cached copy of a single project, see getProjectById
+const getProjectCacheKey = (projectId: string): string => `project:${projectId}`;
+
+// Update cache invalidation to clear all project-related cache keys, and the cached copy of a changed project
+const invalidateProjectCache = async (projectId?: string): Promise<void> => {
   try {
+    if (projectId) {
+      await redisClient.del(getProjectCacheKey(projectId));
+    }
+
     // PostgreSQL-optimized pattern matching for Redis keys
     const keys = await redisClient.keys('projects:*');
     if (keys.length > 0) {
@@ -111,11 +145,26 @@ const invalidateProjectCache = async (): Promise<void> => {
   }
 };
 
+/**
+ * The rooms of everyone who can view a project: its own room, and the private rooms of its members (its creator while
+ * it has none) and of Admins. Project events go only to these, as projects are visible to their members alone.
+ */
+const getProjectViewerRooms = async (project: { id: string; createdBy: string }): Promise<string[]> => {
+  const memberships = await db.ProjectMember.findAll({ where: { projectId: project.id }, attributes: ['userId'] });
+  const admins = await db.User.findAll({ where: { role: 'Admin' }, attributes: ['id'] });
+
+  const userIds = new Set<string>(
+    memberships.length > 0 ? memberships.map((membership: { userId: string }) => membership.userId) : [project.createdBy]
+  );
+  admins.forEach((admin: { id: string }) => userIds.add(admin.id));
+  return [project.id, ...Array.from(userIds, getUserRoom)];
+};
+
 // @route   POST /api/projects
 // @desc    Create a new project
 // @access  Private (Admin, Project Manager)
 export const createProject = async (req: CustomRequest, res: Response): Promise<void> => {
-  const { name, description, status } = req.body;
+  const { name, description, status, estimateUnit } = req.body;
 
   try {
     if (!req.user || !['Admin', 'Project Manager'].includes(req.user.role)) {
@@ -129,13 +178,28 @@ export const createProject = async (req: CustomRequest, res: Response): Promise<
       return;
     }
 
+    if (estimateUnit !== undefined && !ESTIMATE_UNITS.includes(estimateUnit)) {
+      res.status(400).json({ message: `Estimate unit must be one of: ${ESTIMATE_UNITS.join(', ')}.` });
+      return;
+    }
+
     const project = await db.Project.create({
       name: name.trim(),
       description: description?.trim() || '',
       status: status || 'Not Started',
+      estimateUnit: estimateUnit || 'points',
       createdBy: req.user.id,
     });
 
+    await recordProjectEvent(project.id, req.user.id, 'created', { newValue: project.name });
+
+    // The creator always starts out as the project's Owner
+    await db.ProjectMember.create({
+      projectId: project.id,
+      userId: req.user.id,
+      role: 'Owner',
+    });
+
     // Fetch the created project with creator info for consistent response
     const createdProject = await db.Project.findByPk(project.id, {
       include: [{ model: db.User, as: 'creator', attributes: userAttributes }]
@@ -145,7 +209,7 @@ export const createProject = async (req: CustomRequest, res: Response): Promise<
     await invalidateProjectCache();
 
     // Emit real-time event
-    io.emit('projectCreated', createdProject);
+    io.to(await getProjectViewerRooms(project)).emit('projectCreated', createdProject);
 
     res.status(201).json({ message: 'Project created successfully', project: createdProject });
   } catch (error) {
@@ -160,9 +224,9 @@ export const createProject = async (req: CustomRequest, res: Response): Promise<
 
 // @route   PUT /api/projects/:id
 // @desc    Update a project
-// @access  Private (Admin, Project Manager, or project creator)
+// @access  Private (Admin, project Owner or Maintainer)
 export const updateProject = async (req: CustomRequest, res: Response): Promise<void> => {
-  const { name, description, status } = req.body;
+  const { name, description, status, estimateUnit } = req.body;
   const { id } = req.params;
 
   try {
@@ -180,9 +244,9 @@ export const updateProject = async (req: CustomRequest, res: Response): Promise<
       return;
     }
 
-    const isAuthorized = ['Admin', 'Project Manager'].includes(req.user.role) || project.createdBy === req.user.id;
+    const projectRole = await getProjectRole(req.user, project.id);
 
-    if (!isAuthorized) {
+    if (!canManageProject(projectRole)) {
       res.status(403).json({ message: 'Not authorized to update this project.' });
       return;
     }
@@ -193,10 +257,18 @@ export const updateProject = async (req: CustomRequest, res: Response): Promise<
       return;
     }
 
+    if (estimateUnit !== undefined && !ESTIMATE_UNITS.includes(estimateUnit)) {
+      res.status(400).json({ message: `Estimate unit must be one of: ${ESTIMATE_UNITS.join(', ')}.` });
+      return;
+    }
+
+    const valuesBeforeUpdate = project.get({ plain: true });
+
     await project.update({
       name: name ? name.trim() : project.name,
       description: description !== undefined ? description.trim() : project.description,
       status: status || project.status,
+      estimateUnit: estimateUnit || project.estimateUnit,
     });
 
     // Reload to get updated data
@@ -204,11 +276,13 @@ export const updateProject = async (req: CustomRequest, res: Response): Promise<
       include: [{ model: db.User, as: 'creator', attributes: userAttributes }]
     });
 
+    await recordProjectChanges(project.id, req.user.id, valuesBeforeUpdate, project.get({ plain: true }));
+
     // Invalidate all project-related cache
-    await invalidateProjectCache();
+    await invalidateProjectCache(project.id);
 
     // Emit real-time event
-    io.emit('projectUpdated', project);
+    io.to(await getProjectViewerRooms(project)).emit('projectUpdated', project);
 
     res.status(200).json({ message: 'Project updated successfully', project });
   } catch (error) {
@@ -223,7 +297,7 @@ export const updateProject = async (req: CustomRequest, res: Response): Promise<
 
 // @route   DELETE /api/projects/:id
 // @desc    Delete a project
-// @access  Private (Admin, Project Manager, or project creator)
+// @access  Private (Admin or project Owner)
 export const deleteProject = async (req: CustomRequest, res: Response): Promise<void> => {
   const { id } = req.params;
 
@@ -239,20 +313,26 @@ export const deleteProject = async (req: CustomRequest, res: Response): Promise<
       return;
     }
 
-    const isAuthorized = ['Admin', 'Project Manager'].includes(req.user.role) || project.createdBy === req.user.id;
+    const projectRole = await getProjectRole(req.user, project.id);
 
-    if (!isAuthorized) {
+    if (projectRole !== 'Owner') {
       res.status(403).json({ message: 'Not authorized to delete this project.' });
       return;
     }
 
+    // Collected first, as the memberships are deleted with the project
+    const viewerRooms = await getProjectViewerRooms(project);
+
+    await removeProjectAttachmentFiles(project.id);
     await project.destroy();
 
+    await recordProjectEvent(id, req.user.id, 'deleted', { oldValue: project.name });
+
     // Invalidate all project-related cache
-    await invalidateProjectCache();
+    await invalidateProjectCache(id);
 
     // Emit real-time event
-    io.emit('projectDeleted', { id });
+    io.to(viewerRooms).emit('projectDeleted', { id });
 
     res.status(200).json({ message: 'Project deleted successfully.' });
   } catch (error) {
@@ -261,17 +341,35 @@ export const deleteProject = async (req: CustomRequest, res: Response): Promise<
   }
 };
 
+// @route   GET /api/projects/:id
+// @desc    Get a single project, including the requesting user's role in it
+// @access  Private (Project members)
 export const getProjectById = async (req: CustomRequest, res: Response): Promise<void> => {
   try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
     const { id } = req.params;
+
+    // Membership is checked before the cache so cached projects are never served to outsiders
+    const currentUserRole = await getProjectRole(req.user, id);
+    if (!currentUserRole) {
+      res.status(404).json({ message: 'Project not found.' });
+      return;
+    }
     
     // Optional: Add caching for individual projects
-    const cacheKey = `project:${id}`;
+    const cacheKey = getProjectCacheKey(id);
     const cachedProject = await redisClient.get(cacheKey);
+
+    // Logged time changes with every worklog, so it is summed fresh rather than cached
+    const timeSpentSeconds = await getProjectTimeSpent(id);
     
     if (cachedProject) {
       console.log(`Serving project ${id} from cache.`);
-      res.status(200).json(JSON.parse(cachedProject));
+      res.status(200).json({ ...JSON.parse(cachedProject), currentUserRole, timeSpentSeconds });
       return;
     }
 
@@ -287,9 +385,234 @@ export const getProjectById = async (req: CustomRequest, res: Response): Promise
     // Cache individual project
     await redisClient.setex(cacheKey, REDIS_CACHE_TTL, JSON.stringify(project));
     
-    res.status(200).json(project);
+    res.status(200).json({ ...project.toJSON(), currentUserRole, timeSpentSeconds });
   } catch (error) {
     console.error('Error fetching project by ID:', error);
     res.status(500).json({ message: 'Server error fetching project.' });
   }
-};
\ No newline at end of file
+};
+// @route   GET /api/projects/:id/members
+// @desc    List the members of a project and their project roles
+// @access  Private (Project members)
+export const getProjectMembers = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const currentUserRole = await getProjectRole(req.user, id);
+    if (!currentUserRole) {
+      res.status(404).json({ message: 'Project not found.' });
+      return;
+    }
+
+    const members = await db.ProjectMember.findAll({
+      where: { projectId: id },
+      include: [{ model: db.User, as: 'user', attributes: userAttributes }],
+      order: [['createdAt', 'ASC']],
+    });
+
+    res.status(200).json(members);
+  } catch (error) {
+    console.error('Error fetching project members:', error);
+    res.status(500).json({ message: 'Server error fetching project members.' });
+  }
+};
+
+// @route   POST /api/projects/:id/members
+// @desc    Add a user to a project with a project role
+// @access  Private (Admin, project Owner or Maintainer; only Owners may grant Owner)
+export const addProjectMember = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { userId, role = 'Contributor' } = req.body;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const project = await db.Project.findByPk(id);
+    if (!project) {
+      res.status(404).json({ message: 'Project not found.' });
+      return;
+    }
+
+    const currentUserRole = await getProjectRole(req.user, id);
+    if (!canManageProject(currentUserRole)) {
+      res.status(403).json({ message: 'Not authorized to manage members of this project.' });
+      return;
+    }
+
+    if (!PROJECT_ROLES.includes(role)) {
+      res.status(400).json({ message: 'Invalid project role specified.' });
+      return;
+    }
+
+    if (role === 'Owner' && currentUserRole !== 'Owner') {
+      res.status(403).json({ message: 'Only project Owners can add other Owners.' });
+      return;
+    }
+
+    const user = await db.User.findByPk(userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found.' });
+      return;
+    }
+
+    const existingMembership = await db.ProjectMember.findOne({ where: { projectId: id, userId } });
+    if (existingMembership) {
+      res.status(409).json({ message: 'User is already a member of this project.' });
+      return;
+    }
+
+    // Projects created before memberships existed have no rows; record the creator as Owner
+    // first so they do not lose their implicit ownership once the project gains members.
+    const memberCount = await db.ProjectMember.count({ where: { projectId: id } });
+    if (memberCount === 0 && project.createdBy !== userId) {
+      await db.ProjectMember.create({ projectId: id, userId: project.createdBy, role: 'Owner' });
+    }
+
+    const membership = await db.ProjectMember.create({ projectId: id, userId, role });
+
+    const createdMembership = await db.ProjectMember.findByPk(membership.id, {
+      include: [{ model: db.User, as: 'user', attributes: userAttributes }],
+    });
+
+    await invalidateProjectCache();
+    io.to(id).emit('projectMembersUpdated', { projectId: id });
+
+    if (userId !== req.user.id) {
+      await notifyUser({
+        userId,
+        message: `You have been added to project "${project.name}" as ${role}.`,
+        type: 'project_assigned',
+        itemId: id,
+        projectId: id,
+      });
+    }
+
+    res.status(201).json({ message: 'Member added successfully', member: createdMembership });
+  } catch (error) {
+    console.error('Error adding project member:', error);
+    res.status(500).json({ message: 'Server error adding project member.' });
+  }
+};
+
+/**
+ * Returns true if removing or demoting the given membership would leave the project without an Owner.
+ */
+const isLastOwner = async (membership: { projectId: string; role: ProjectRole }): Promise<boolean> => {
+  if (membership.role !== 'Owner') {
+    return false;
+  }
+  const ownerCount = await db.ProjectMember.count({ where: { projectId: membership.projectId, role: 'Owner' } });
+  return ownerCount <= 1;
+};
+
+// @route   PUT /api/projects/:id/members/:userId
+// @desc    Change a member's project role
+// @access  Private (Admin, project Owner or Maintainer; only Owners may grant or revoke Owner)
+export const updateProjectMember = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, userId } = req.params;
+  const { role } = req.body;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const currentUserRole = await getProjectRole(req.user, id);
+    if (!canManageProject(currentUserRole)) {
+      res.status(403).json({ message: 'Not authorized to manage members of this project.' });
+      return;
+    }
+
+    if (!PROJECT_ROLES.includes(role)) {
+      res.status(400).json({ message: 'Invalid project role specified.' });
+      return;
+    }
+
+    const membership = await db.ProjectMember.findOne({ where: { projectId: id, userId } });
+    if (!membership) {
+      res.status(404).json({ message: 'Project member not found.' });
+      return;
+    }
+
+    if ((role === 'Owner' || membership.role === 'Owner') && currentUserRole !== 'Owner') {
+      res.status(403).json({ message: 'Only project Owners can grant or revoke the Owner role.' });
+      return;
+    }
+
+    if (role !== 'Owner' && await isLastOwner(membership)) {
+      res.status(400).json({ message: 'A project must keep at least one Owner.' });
+      return;
+    }
+
+    await membership.update({ role });
+
+    const updatedMembership = await db.ProjectMember.findByPk(membership.id, {
+      include: [{ model: db.User, as: 'user', attributes: userAttributes }],
+    });
+
+    io.to(id).emit('projectMembersUpdated', { projectId: id });
+
+    res.status(200).json({ message: 'Member role updated successfully', member: updatedMembership });
+  } catch (error) {
+    console.error('Error updating project member:', error);
+    res.status(500).json({ message: 'Server error updating project member.' });
+  }
+};
+
+// @route   DELETE /api/projects/:id/members/:userId
+// @desc    Remove a user from a project
+// @access  Private (Admin, project Owner or Maintainer; only Owners may remove Owners)
+export const removeProjectMember = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, userId } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const currentUserRole = await getProjectRole(req.user, id);
+    if (!canManageProject(currentUserRole)) {
+      res.status(403).json({ message: 'Not authorized to manage members of this project.' });
+      return;
+    }
+
+    const membership = await db.ProjectMember.findOne({ where: { projectId: id, userId } });
+    if (!membership) {
+      res.status(404).json({ message: 'Project member not found.' });
+      return;
+    }
+
+    if (membership.role === 'Owner' && currentUserRole !== 'Owner') {
+      res.status(403).json({ message: 'Only project Owners can remove other Owners.' });
+      return;
+    }
+
+    if (await isLastOwner(membership)) {
+      res.status(400).json({ message: 'A project must keep at least one Owner.' });
+      return;
+    }
+
+    await membership.destroy();
+
+    await invalidateProjectCache();
+
+    // Removed members stop receiving the project's live updates immediately
+    io.in(getUserRoom(userId)).socketsLeave(id);
+    io.to(id).emit('projectMembersUpdated', { projectId: id });
+
+    res.status(200).json({ message: 'Member removed successfully.' });
+  } catch (error) {
+    console.error('Error removing project member:', error);
+    res.status(500).json({ message: 'Server error removing project member.' });
+  }
+};
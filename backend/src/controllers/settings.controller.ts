@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import { getAppSettings, parseAppSettings, updateAppSettings } from '../utils/appSettings';
+
+// @route   GET /api/settings/registration
+// @desc    Get whether registration is open to anyone or by invitation only
+// @access  Public
+export const getRegistrationSettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { openRegistration } = await getAppSettings();
+    res.status(200).json({ openRegistration });
+  } catch (error) {
+    console.error('Error fetching registration settings:', error);
+    res.status(500).json({ message: 'Server error fetching registration settings.' });
+  }
+};
+
+// @route   GET /api/settings
+// @desc    Get all instance-wide settings
+// @access  Private (Admin only)
+export const getSettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.status(200).json(await getAppSettings());
+  } catch (error) {
+    console.error('Error fetching settings:', error);
+    res.status(500).json({ message: 'Server error fetching settings.' });
+  }
+};
+
+// @route   PUT /api/settings
+// @desc    Update instance-wide settings ({ openRegistration?, twoFactorRequiredRoles? })
+// @access  Private (Admin only)
+export const updateSettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { changes, error } = parseAppSettings(req.body);
+    if (!changes) {
+      res.status(400).json({ message: error });
+      return;
+    }
+
+    res.status(200).json(await updateAppSettings(changes));
+  } catch (error) {
+    console.error('Error updating settings:', error);
+    res.status(500).json({ message: 'Server error updating settings.' });
+  }
+};
@@ -0,0 +1,348 @@
+import { Request, Response } from 'express';
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { io } from '../index';
+import { getProjectRole, canManageProject } from '../utils/projectAccess';
+import { getProjectWorkflow, isTerminalStatus } from '../utils/workflows';
+import { recordTaskEvent } from '../utils/taskHistory';
+import { recordBurndownSnapshot } from '../utils/burndown';
+import { invalidateTaskCaches } from '../utils/taskCache';
+
+interface CustomRequest extends Request {
+  user?: {
+    id: string;
+    role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  };
+}
+
+const MAX_SPRINT_NAME_LENGTH = 100;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const isValidDate = (value: unknown) => value === null || (typeof value === 'string' && !isNaN(Date.parse(value)));
+
+/**
+ * Validates the editable fields of a sprint, falling back to `current` for the ones not being changed.
+ * Returns a message describing the problem, or null if the details are valid.
+ */
+const validateSprintDetails = (
+  details: { name?: unknown; startDate?: unknown; endDate?: unknown },
+  current: { startDate?: string | null; endDate?: string | null } = {}
+): string | null => {
+  const { name, startDate, endDate } = details;
+  if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_SPRINT_NAME_LENGTH)) {
+    return `Sprint name is required and must be at most ${MAX_SPRINT_NAME_LENGTH} characters.`;
+  }
+  if ((startDate !== undefined && !isValidDate(startDate)) || (endDate !== undefined && !isValidDate(endDate))) {
+    return 'Sprint dates must be valid dates.';
+  }
+  const start = startDate !== undefined ? startDate as string | null : current.startDate;
+  const end = endDate !== undefined ? endDate as string | null : current.endDate;
+  if (start && end && Date.parse(end) < Date.parse(start)) {
+    return 'A sprint cannot end before it starts.';
+  }
+  return null;
+};
+
+// @route   GET /api/projects/:id/sprints
+// @desc    Get the sprints of a project with the number of tasks in each
+// @access  Private (Project members)
+export const getSprints = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    if (!(await getProjectRole(req.user, id))) {
+      res.status(404).json({ message: 'Project not found.' });
+      return;
+    }
+
+    const sprints = await db.Sprint.findAll({
+      where: { projectId: id },
+      order: [['startDate', 'ASC'], ['createdAt', 'ASC']],
+    });
+    const counts: { sprintId: string | null; count: number }[] = await db.Task.count({
+      where: { projectId: id, sprintId: { [Op.ne]: null } },
+      group: ['sprintId'],
+    });
+    const taskCounts = new Map(counts.map(({ sprintId, count }) => [sprintId, Number(count)]));
+
+    res.status(200).json(sprints.map((sprint: any) => ({ ...sprint.toJSON(), taskCount: taskCounts.get(sprint.id) || 0 })));
+  } catch (error) {
+    console.error('Error fetching sprints:', error);
+    res.status(500).json({ message: 'Server error fetching sprints.' });
+  }
+};
+
+// @route   POST /api/projects/:id/sprints
+// @desc    Plan a new sprint ({ name, goal?, startDate?, endDate? })
+// @access  Private (Project Owner, Maintainer)
+export const createSprint = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { name, goal, startDate, endDate } = req.body;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const projectRole = await getProjectRole(req.user, id);
+    if (!projectRole) {
+      res.status(404).json({ message: 'Project not found.' });
+      return;
+    }
+
+    if (!canManageProject(projectRole)) {
+      res.status(403).json({ message: 'Not authorized to plan sprints in this project.' });
+      return;
+    }
+
+    const validationError = validateSprintDetails({ name: name ?? '', startDate, endDate });
+    if (validationError) {
+      res.status(400).json({ message: validationError });
+      return;
+    }
+
+    const sprint = await db.Sprint.create({
+      projectId: id,
+      name: name.trim(),
+      goal: goal || null,
+      startDate: startDate || null,
+      endDate: endDate || null,
+    });
+
+    io.to(id).emit('sprintsUpdated', { projectId: id });
+
+    res.status(201).json(sprint);
+  } catch (error) {
+    console.error('Error creating sprint:', error);
+    res.status(500).json({ message: 'Server error creating sprint.' });
+  }
+};
+
+// @route   PUT /api/projects/:id/sprints/:sprintId
+// @desc    Change the name, goal or dates of a sprint that is not closed
+// @access  Private (Project Owner, Maintainer)
+export const updateSprint = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, sprintId } = req.params;
+  const { name, goal, startDate, endDate } = req.body;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const projectRole = await getProjectRole(req.user, id);
+    const sprint = await db.Sprint.findOne({ where: { id: sprintId, projectId: id } });
+    if (!projectRole || !sprint) {
+      res.status(404).json({ message: 'Sprint not found.' });
+      return;
+    }
+
+    if (!canManageProject(projectRole)) {
+      res.status(403).json({ message: 'Not authorized to change sprints in this project.' });
+      return;
+    }
+
+    if (sprint.state === 'closed') {
+      res.status(400).json({ message: 'Closed sprints cannot be changed.' });
+      return;
+    }
+
+    const validationError = validateSprintDetails({ name, startDate, endDate }, sprint);
+    if (validationError) {
+      res.status(400).json({ message: validationError });
+      return;
+    }
+
+    await sprint.update({
+      name: name !== undefined ? name.trim() : sprint.name,
+      goal: goal !== undefined ? goal || null : sprint.goal,
+      startDate: startDate !== undefined ? startDate || null : sprint.startDate,
+      endDate: endDate !== undefined ? endDate || null : sprint.endDate,
+    });
+
+    io.to(id).emit('sprintsUpdated', { projectId: id });
+
+    res.status(200).json(sprint);
+  } catch (error) {
+    console.error('Error updating sprint:', error);
+    res.status(500).json({ message: 'Server error updating sprint.' });
+  }
+};
+
+// @route   DELETE /api/projects/:id/sprints/:sprintId
+// @desc    Delete a sprint that is not running; its tasks go back to the backlog
+// @access  Private (Project Owner, Maintainer)
+export const deleteSprint = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, sprintId } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const projectRole = await getProjectRole(req.user, id);
+    const sprint = await db.Sprint.findOne({ where: { id: sprintId, projectId: id } });
+    if (!projectRole || !sprint) {
+      res.status(404).json({ message: 'Sprint not found.' });
+      return;
+    }
+
+    if (!canManageProject(projectRole)) {
+      res.status(403).json({ message: 'Not authorized to delete sprints in this project.' });
+      return;
+    }
+
+    if (sprint.state === 'active') {
+      res.status(400).json({ message: 'Close the sprint before deleting it.' });
+      return;
+    }
+
+    await sprint.destroy();
+
+    await invalidateTaskCaches(id);
+    io.to(id).emit('sprintsUpdated', { projectId: id });
+
+    res.status(200).json({ message: 'Sprint deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting sprint:', error);
+    res.status(500).json({ message: 'Server error deleting sprint.' });
+  }
+};
+
+// @route   POST /api/projects/:id/sprints/:sprintId/start
+// @desc    Start a planned sprint; only one sprint per project can be active
+// @access  Private (Project Owner, Maintainer)
+export const startSprint = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, sprintId } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const projectRole = await getProjectRole(req.user, id);
+    const sprint = await db.Sprint.findOne({ where: { id: sprintId, projectId: id } });
+    if (!projectRole || !sprint) {
+      res.status(404).json({ message: 'Sprint not found.' });
+      return;
+    }
+
+    if (!canManageProject(projectRole)) {
+      res.status(403).json({ message: 'Not authorized to start sprints in this project.' });
+      return;
+    }
+
+    if (sprint.state !== 'planned') {
+      res.status(400).json({ message: 'Only planned sprints can be started.' });
+      return;
+    }
+
+    const activeSprint = await db.Sprint.findOne({ where: { projectId: id, state: 'active' }, attributes: ['id', 'name'] });
+    if (activeSprint) {
+      res.status(409).json({ message: `Sprint '${activeSprint.name}' is still active. Close it first.` });
+      return;
+    }
+
+    await sprint.update({ state: 'active', startDate: sprint.startDate || today() });
+    // The sprint's burndown starts from the work committed to it at this point
+    await recordBurndownSnapshot(id, sprint.id);
+
+    io.to(id).emit('sprintsUpdated', { projectId: id });
+
+    res.status(200).json(sprint);
+  } catch (error) {
+    console.error('Error starting sprint:', error);
+    res.status(500).json({ message: 'Server error starting sprint.' });
+  }
+};
+
+// @route   POST /api/projects/:id/sprints/:sprintId/close
+// @desc    Close the active sprint, moving its unfinished tasks ({ moveUnfinishedTo?: sprintId | 'backlog' })
+//          to the given planned sprint, or by default to the next planned sprint or else the backlog
+// @access  Private (Project Owner, Maintainer)
+export const closeSprint = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, sprintId } = req.params;
+  const { moveUnfinishedTo } = req.body;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const projectRole = await getProjectRole(req.user, id);
+    const sprint = await db.Sprint.findOne({ where: { id: sprintId, projectId: id } });
+    if (!projectRole || !sprint) {
+      res.status(404).json({ message: 'Sprint not found.' });
+      return;
+    }
+
+    if (!canManageProject(projectRole)) {
+      res.status(403).json({ message: 'Not authorized to close sprints in this project.' });
+      return;
+    }
+
+    if (sprint.state !== 'active') {
+      res.status(400).json({ message: 'Only the active sprint can be closed.' });
+      return;
+    }
+
+    let nextSprint = null;
+    if (moveUnfinishedTo === undefined) {
+      nextSprint = await db.Sprint.findOne({
+        where: { projectId: id, state: 'planned' },
+        order: [['startDate', 'ASC'], ['createdAt', 'ASC']],
+      });
+    } else if (moveUnfinishedTo !== null && moveUnfinishedTo !== 'backlog') {
+      nextSprint = await db.Sprint.findOne({ where: { id: moveUnfinishedTo, projectId: id, state: 'planned' } });
+      if (!nextSprint) {
+        res.status(400).json({ message: 'Unfinished tasks can only move to a planned sprint of this project or the backlog.' });
+        return;
+      }
+    }
+
+    // Record where the sprint ended before its unfinished tasks leave it
+    await recordBurndownSnapshot(id, sprint.id);
+
+    const workflow = await getProjectWorkflow(id);
+    const sprintTasks = await db.Task.findAll({ where: { sprintId: sprint.id }, attributes: ['id', 'status'] });
+    const unfinishedTaskIds = sprintTasks
+      .filter((task: { status: string }) => !isTerminalStatus(workflow, task.status))
+      .map((task: { id: string }) => task.id);
+
+    if (unfinishedTaskIds.length > 0) {
+      await db.Task.update({ sprintId: nextSprint?.id || null }, { where: { id: { [Op.in]: unfinishedTaskIds } } });
+      for (const taskId of unfinishedTaskIds) {
+        await recordTaskEvent({
+          taskId,
+          projectId: id,
+          actorId: req.user.id,
+          action: 'updated',
+          field: 'sprintId',
+          oldValue: sprint.id,
+          newValue: nextSprint?.id || null,
+        });
+      }
+    }
+
+    await sprint.update({ state: 'closed', endDate: sprint.endDate || today() });
+
+    await invalidateTaskCaches(id);
+    io.to(id).emit('sprintsUpdated', { projectId: id });
+
+    res.status(200).json({ sprint, movedTaskCount: unfinishedTaskIds.length, movedTo: nextSprint });
+  } catch (error) {
+    console.error('Error closing sprint:', error);
+    res.status(500).json({ message: 'Server error closing sprint.' });
+  }
+};
@@ -1,7 +1,35 @@
 import { Request, Response } from 'express';
+import { Op } from 'sequelize';
 import db from '../models/index';
 import { io, sendNotificationToUser } from '../index';
 import { redisClient, REDIS_CACHE_TTL } from '../index';
+import {
+  getProjectRole,
+  getAccessibleProjectIds,
+  projectScopeWhere,
+  canContribute,
+  canUpdateTask,
+  canDeleteTask,
+} from '../utils/projectAccess';
+import { getBlockedStatusSuggestion, notifyDependentsOfCompletion } from '../utils/taskDependencies';
+import { removeTaskAttachmentFiles } from '../utils/attachments';
+import { recordTaskEvent, recordTaskChanges } from '../utils/taskHistory';
+import {
+  getProjectWorkflow,
+  getProjectWorkflows,
+  hasStatus,
+  isTerminalStatus,
+  getInitialStatus,
+  checkTransition,
+  checkWipLimit,
+} from '../utils/workflows';
+import { TASK_BOARD_ORDER, getTopRank, resolveMoveRank } from '../utils/taskRanking';
+import { getTimeSpentByTask } from '../utils/worklogs';
+import { getChecklistProgress } from '../utils/checklists';
+import { parseTaskRecurrence, createNextOccurrence } from '../utils/recurringTasks';
+import { addTaskWatchers, notifyTaskWatchers } from '../utils/taskWatchers';
+import { isEmailVerified } from '../utils/emailVerification';
+import { getTasksCacheKey, invalidateTaskCaches } from '../utils/taskCache';
 
 interface CustomRequest extends Request {
   user?: {
@@ -12,17 +40,185 @@ interface CustomRequest extends Request {
 
 const userAttributes = ['id', 'username', 'email', 'role'];
 
-const getTasksCacheKey = (projectId?: string) => projectId ? `projectTasks:${projectId}` : 'allTasks';
+/**
+ * Walks up the ancestors of `parentTaskId` and reports whether `taskId` is among them,
+ * i.e. whether making `parentTaskId` the parent of `taskId` would create a cycle.
+ */
+const wouldCreateCycle = async (taskId: string, parentTaskId: string): Promise<boolean> => {
+  const visited = new Set<string>();
+  let currentId: string | null | undefined = parentTaskId;
+
+  while (currentId) {
+    if (currentId === taskId || visited.has(currentId)) {
+      return true;
+    }
+    visited.add(currentId);
+    const current: { parentTaskId?: string | null } | null = await db.Task.findByPk(currentId, { attributes: ['id', 'parentTaskId'] });
+    currentId = current?.parentTaskId;
+  }
+
+  return false;
+};
+
+/**
+ * Checks that `parentTaskId` can become the parent of a task in `projectId`.
+ * Returns an HTTP status and message describing the problem, or null if the parent is valid.
+ */
+const validateParentTask = async (
+  parentTaskId: string,
+  projectId: string,
+  taskId?: string
+): Promise<{ status: number; message: string } | null> => {
+  const parentTask = await db.Task.findByPk(parentTaskId, { attributes: ['id', 'projectId'] });
+  if (!parentTask) {
+    return { status: 404, message: 'Parent task not found.' };
+  }
+  if (parentTask.projectId !== projectId) {
+    return { status: 400, message: 'A subtask must belong to the same project as its parent task.' };
+  }
+  if (taskId && await wouldCreateCycle(taskId, parentTaskId)) {
+    return { status: 400, message: 'A task cannot be nested under itself or one of its own subtasks.' };
+  }
+  return null;
+};
+
+const getLabelInclude = () => ({ model: db.Label, as: 'labels', attributes: ['id', 'name', 'color'], through: { attributes: [] } });
+
+/**
+ * Checks that every id in `labelIds` is a label of `projectId`.
+ * Returns an HTTP status and message describing the problem, or null if the labels are valid.
+ */
+const validateLabelIds = async (labelIds: unknown, projectId: string): Promise<{ status: number; message: string } | null> => {
+  if (!Array.isArray(labelIds) || labelIds.some(labelId => typeof labelId !== 'string')) {
+    return { status: 400, message: 'labelIds must be an array of label ids.' };
+  }
+  const count = await db.Label.count({ where: { id: { [Op.in]: labelIds }, projectId } });
+  if (count !== new Set(labelIds).size) {
+    return { status: 400, message: 'Labels must belong to the task\'s project.' };
+  }
+  return null;
+};
+
+/**
+ * Checks that `sprintId` is a sprint of `projectId` that tasks can still be scheduled into.
+ * Returns an HTTP status and message describing the problem, or null if the sprint is valid.
+ */
+const validateSprintId = async (sprintId: string, projectId: string): Promise<{ status: number; message: string } | null> => {
+  const sprint = await db.Sprint.findByPk(sprintId, { attributes: ['id', 'projectId', 'state'] });
+  if (!sprint || sprint.projectId !== projectId) {
+    return { status: 400, message: 'Sprint must belong to the task\'s project.' };
+  }
+  if (sprint.state === 'closed') {
+    return { status: 400, message: 'Tasks cannot be added to a closed sprint.' };
+  }
+  return null;
+};
+
+const MAX_ESTIMATE = 1000;
+
+// An estimate is optional, but when given it is a non-negative number in the project's estimate unit
+const isValidEstimate = (estimate: unknown): boolean =>
+  estimate === null || (typeof estimate === 'number' && Number.isFinite(estimate) && estimate >= 0 && estimate <= MAX_ESTIMATE);
+
+/**
+ * Returns the ids of the tasks that carry every one of the given labels.
+ */
+const findTaskIdsWithLabels = async (labelIds: string[]): Promise<string[]> => {
+  const rows = await db.TaskLabel.findAll({
+    attributes: ['taskId'],
+    where: { labelId: { [Op.in]: labelIds } },
+    group: ['taskId'],
+    having: db.sequelize.where(db.sequelize.fn('COUNT', db.sequelize.col('labelId')), labelIds.length),
+  });
+  return rows.map((row: { taskId: string }) => row.taskId);
+};
+
+/**
+ * Adds a `subtaskProgress` roll-up ({ done, total }) of each task's direct subtasks.
+ */
+const attachSubtaskProgress = async (tasks: any[]): Promise<any[]> => {
+  if (tasks.length === 0) {
+    return [];
+  }
+
+  const subtasks = await db.Task.findAll({
+    where: { parentTaskId: { [Op.in]: tasks.map(task => task.id) } },
+    attributes: ['parentTaskId', 'status', 'projectId'],
+  });
+
+  // A subtask counts as done once it reaches a terminal status of its project's workflow
+  const workflows = await getProjectWorkflows([...new Set<string>(subtasks.map((subtask: { projectId: string }) => subtask.projectId))]);
+
+  const progress = new Map<string, { done: number; total: number }>();
+  subtasks.forEach((subtask: { parentTaskId: string; status: string; projectId: string }) => {
+    const entry = progress.get(subtask.parentTaskId) || { done: 0, total: 0 };
+    entry.total += 1;
+    if (isTerminalStatus(workflows.get(subtask.projectId)!, subtask.status)) {
+      entry.done += 1;
+    }
+    progress.set(subtask.parentTaskId, entry);
+  });
+
+  return tasks.map(task => ({
+    ...task.toJSON(),
+    subtaskProgress: progress.get(task.id) || { done: 0, total: 0 },
+  }));
+};
+
+/**
+ * Adds the `timeSpentSeconds` logged on each task to task listings.
+ */
+const attachTimeSpent = async (tasks: any[]): Promise<any[]> => {
+  const timeSpent = await getTimeSpentByTask(tasks.map(task => task.id));
+  return tasks.map(task => ({ ...task, timeSpentSeconds: timeSpent.get(task.id) || 0 }));
+};
+
+/**
+ * Adds a `checklistProgress` ({ done, total }) of each task's checklist to task listings.
+ */
+const attachChecklistProgress = async (tasks: any[]): Promise<any[]> => {
+  const progress = await getChecklistProgress(tasks.map(task => task.id));
+  return tasks.map(task => ({ ...task, checklistProgress: progress.get(task.id) || { done: 0, total: 0 } }));
+};
+
+/**
+ * Sends the notifications that follow a status change: the task's watchers hear that it was finished
+ * or moved to another status, and the assignees of dependent tasks when their blocker is done.
+ */
+const notifyStatusChange = async (task: any, oldStatus: string, becameFinished: boolean, actorId: string): Promise<void> => {
+  if (becameFinished) {
+    await notifyTaskWatchers({ task, actorId, message: `Task "${task.title}" has been completed.`, type: 'task_updated' });
+  } else if (task.status !== oldStatus) {
+    await notifyTaskWatchers({ task, actorId, message: `Task "${task.title}" status changed to: ${task.status}`, type: 'task_updated' });
+  }
+
+  // Let the assignees of dependent tasks know their blocker is done
+  if (becameFinished) {
+    await notifyDependentsOfCompletion(task, actorId);
+  }
+};
+
+/**
+ * Creates the next instance of a recurring task that was just finished. The finished task is saved by then,
+ * so a failure here is logged rather than failing the request.
+ */
+const continueRecurringTask = async (task: any): Promise<void> => {
+  try {
+    await createNextOccurrence(task);
+  } catch (error) {
+    console.error(`Error creating the next occurrence of task ${task.id}:`, error);
+  }
+};
 
 // @route   POST /api/tasks
 // @desc    Create a new task
-// @access  Private (Admin, Project Manager, Developer)
+// @access  Private (Project Owner, Maintainer, Contributor)
 export const createTask = async (req: CustomRequest, res: Response): Promise<void> => {
-  const { title, description, status, priority, deadline, projectId, assignedTo } = req.body;
+  const { title, description, status, priority, deadline, projectId, assignedTo, parentTaskId, labelIds, sprintId, estimate, recurrence } = req.body;
 
   try {
-    if (!req.user || !['Admin', 'Project Manager', 'Developer', 'Tester'].includes(req.user.role)) {
-      res.status(403).json({ message: 'Not authorized to create tasks.' });
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
       return;
     }
 
@@ -32,28 +228,103 @@ export const createTask = async (req: CustomRequest, res: Response): Promise<voi
       return;
     }
 
+    const projectRole = await getProjectRole(req.user, projectId);
+    if (!canContribute(projectRole)) {
+      res.status(403).json({ message: 'Not authorized to create tasks in this project.' });
+      return;
+    }
+
     if (assignedTo) {
       const assignee = await db.User.findByPk(assignedTo);
       if (!assignee) {
         res.status(404).json({ message: 'Assigned user not found.' });
         return;
       }
+      if (!isEmailVerified(assignee)) {
+        res.status(400).json({ message: 'Assigned user has not verified their email address yet.' });
+        return;
+      }
+      if (!(await getProjectRole(assignee, projectId))) {
+        res.status(400).json({ message: 'Assigned user is not a member of this project.' });
+        return;
+      }
+    }
+
+    if (parentTaskId) {
+      const parentError = await validateParentTask(parentTaskId, projectId);
+      if (parentError) {
+        res.status(parentError.status).json({ message: parentError.message });
+        return;
+      }
+    }
+
+    if (labelIds !== undefined) {
+      const labelError = await validateLabelIds(labelIds, projectId);
+      if (labelError) {
+        res.status(labelError.status).json({ message: labelError.message });
+        return;
+      }
+    }
+
+    if (sprintId) {
+      const sprintError = await validateSprintId(sprintId, projectId);
+      if (sprintError) {
+        res.status(sprintError.status).json({ message: sprintError.message });
+        return;
+      }
+    }
+
+    if (estimate !== undefined && !isValidEstimate(estimate)) {
+      res.status(400).json({ message: `Estimate must be a number between 0 and ${MAX_ESTIMATE}.` });
+      return;
+    }
+
+    const { values: recurrenceValues, error: recurrenceError } = recurrence !== undefined
+      ? parseTaskRecurrence(recurrence, deadline ? new Date(deadline) : null)
+      : { values: undefined, error: undefined };
+    if (recurrenceError) {
+      res.status(400).json({ message: recurrenceError });
+      return;
+    }
+
+    const workflow = await getProjectWorkflow(projectId);
+    if (status && !hasStatus(workflow, status)) {
+      res.status(400).json({ message: `'${status}' is not a status of this project's workflow.` });
+      return;
+    }
+
+    const initialStatus = status || getInitialStatus(workflow);
+    const { error: wipError, warning: wipWarning } = await checkWipLimit(workflow, projectId, initialStatus);
+    if (wipError) {
+      res.status(wipError.status).json({ message: wipError.message });
+      return;
     }
 
     const task = await db.Task.create({
       title,
       description,
-      status: status || 'To Do',
+      status: initialStatus,
       priority: priority || 'Medium',
       deadline,
       projectId,
       assignedTo: assignedTo || null,
       reportedBy: req.user.id,
+      parentTaskId: parentTaskId || null,
+      sprintId: sprintId || null,
+      estimate: estimate ?? null,
+      ...recurrenceValues,
+      rank: await getTopRank(projectId, initialStatus), // New tasks go to the top of their column
     });
 
+    if (labelIds?.length) {
+      await task.setLabels(labelIds);
+    }
+
+    await recordTaskEvent({ taskId: task.id, projectId, actorId: req.user.id, action: 'created', newValue: task.title });
+    await addTaskWatchers(task.id, [req.user.id, assignedTo]);
+
     // Invalidate the cache for all tasks and for the specific project's tasks
-    await redisClient.del(getTasksCacheKey()); // Invalidate general tasks cache
-    await redisClient.del(getTasksCacheKey(projectId)); // Invalidate cache for tasks in this project
+    await invalidateTaskCaches(projectId);
     console.log(`Invalidated all tasks cache and project ${projectId} tasks cache.`);
 
     const createdTaskWithAssociations = await db.Task.findByPk(task.id, {
@@ -61,6 +332,7 @@ export const createTask = async (req: CustomRequest, res: Response): Promise<voi
             { model: db.Project, as: 'project', attributes: ['id', 'name', 'status'] },
             { model: db.User, as: 'assignee', attributes: userAttributes },
             { model: db.User, as: 'reporter', attributes: userAttributes },
+            getLabelInclude(),
         ],
     });
 
@@ -96,7 +368,7 @@ export const createTask = async (req: CustomRequest, res: Response): Promise<voi
         }
     }
 
-    res.status(201).json({ message: 'Task created successfully', task: createdTaskWithAssociations });
+    res.status(201).json({ message: 'Task created successfully', task: createdTaskWithAssociations, wipWarning });
   } catch (error) {
     console.error('Error creating task:', error);
     res.status(500).json({ message: 'Server error creating task.' });
@@ -105,27 +377,66 @@ export const createTask = async (req: CustomRequest, res: Response): Promise<voi
 
 // @route   GET /api/tasks
 // @desc    Get all tasks or tasks for a specific project (with caching)
-// @access  Private (Any authenticated user)
+// @access  Private (Project members; Admins see every task)
 export const getTasks = async (req: CustomRequest, res: Response): Promise<void> => {
-  const { projectId } = req.query; 
+  const { projectId, labels, sprintId } = req.query; 
 
   // Use the projectId to generate a specific cache key
   const cacheKey = getTasksCacheKey(projectId as string); 
 
   try {
-    const cachedTasks = await redisClient.get(cacheKey);
-    if (cachedTasks) {
-      console.log(`Serving tasks for ${projectId ? `project ${projectId}` : 'all tasks'} from Redis cache.`);
-      res.status(200).json(JSON.parse(cachedTasks));
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
       return;
     }
 
     // Define a where clause object
-    const whereClause: { projectId?: string } = {};
+    let whereClause: any = {};
+
+    // ?labels=id1,id2 keeps only the tasks that carry all of the given labels
+    const labelIds = typeof labels === 'string' ? labels.split(',').map(label => label.trim()).filter(Boolean) : [];
+    if (labelIds.length > 0) {
+      whereClause.id = { [Op.in]: await findTaskIdsWithLabels(labelIds) };
+    }
+
+    // ?sprintId=<id> keeps the tasks of one sprint, ?sprintId=backlog the unscheduled ones
+    if (typeof sprintId === 'string' && sprintId) {
+      whereClause.sprintId = sprintId === 'backlog' ? null : sprintId;
+    }
+    const isFiltered = labelIds.length > 0 || whereClause.sprintId !== undefined;
 
-    // If projectId is provided in the query, add it to the where clause
     if (projectId) {
+      const projectRole = await getProjectRole(req.user, projectId as string);
+      if (!projectRole) {
+        res.status(404).json({ message: 'Project not found.' });
+        return;
+      }
       whereClause.projectId = projectId as string;
+    } else {
+      const accessibleProjectIds = await getAccessibleProjectIds(req.user);
+      if (accessibleProjectIds !== null) {
+        // Membership-scoped listings differ per user, so they bypass the shared 'allTasks' cache
+        const tasks = await db.Task.findAll({
+          where: { ...whereClause, ...projectScopeWhere(accessibleProjectIds) },
+          include: [
+            { model: db.Project, as: 'project', attributes: ['id', 'name', 'status'] },
+            { model: db.User, as: 'assignee', attributes: userAttributes },
+            { model: db.User, as: 'reporter', attributes: userAttributes },
+            getLabelInclude(),
+          ],
+          order: TASK_BOARD_ORDER,
+        });
+        res.status(200).json(await attachChecklistProgress(await attachTimeSpent(await attachSubtaskProgress(tasks))));
+        return;
+      }
+    }
+
+    // Only unfiltered listings are cached
+    const cachedTasks = !isFiltered ? await redisClient.get(cacheKey) : null;
+    if (cachedTasks) {
+      console.log(`Serving tasks for ${projectId ? `project ${projectId}` : 'all tasks'} from Redis cache.`);
+      res.status(200).json(JSON.parse(cachedTasks));
+      return;
     }
 
     const tasks = await db.Task.findAll({
@@ -134,14 +445,19 @@ export const getTasks = async (req: CustomRequest, res: Response): Promise<void>
         { model: db.Project, as: 'project', attributes: ['id', 'name', 'status'] },
         { model: db.User, as: 'assignee', attributes: userAttributes },
         { model: db.User, as: 'reporter', attributes: userAttributes },
+        getLabelInclude(),
       ],
-      order: [['createdAt', 'DESC']],
+      order: TASK_BOARD_ORDER,
     });
 
-    await redisClient.setex(cacheKey, REDIS_CACHE_TTL, JSON.stringify(tasks));
-    console.log(`Tasks fetched from DB and cached for ${projectId ? `project ${projectId}` : 'all tasks'}.`);
+    const tasksWithProgress = await attachChecklistProgress(await attachTimeSpent(await attachSubtaskProgress(tasks)));
 
-    res.status(200).json(tasks);
+    if (!isFiltered) {
+      await redisClient.setex(cacheKey, REDIS_CACHE_TTL, JSON.stringify(tasksWithProgress));
+      console.log(`Tasks fetched from DB and cached for ${projectId ? `project ${projectId}` : 'all tasks'}.`);
+    }
+
+    res.status(200).json(tasksWithProgress);
   } catch (error) {
     console.error('Error fetching tasks:', error);
     res.status(500).json({ message: 'Server error fetching tasks.' });
@@ -150,18 +466,24 @@ export const getTasks = async (req: CustomRequest, res: Response): Promise<void>
 
 // @route   GET /api/tasks/:id
 // @desc    Get a single task by ID
-// @access  Private (Any authenticated user)
+// @access  Private (Project members)
 export const getTaskById = async (req: CustomRequest, res: Response): Promise<void> => {
   try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
     const task = await db.Task.findByPk(req.params.id, {
       include: [
         { model: db.Project, as: 'project', attributes: ['id', 'name', 'status'] },
         { model: db.User, as: 'assignee', attributes: userAttributes },
         { model: db.User, as: 'reporter', attributes: userAttributes },
+        getLabelInclude(),
       ],
     });
 
-    if (!task) {
+    if (!task || !(await getProjectRole(req.user, task.projectId))) {
       res.status(404).json({ message: 'Task not found.' });
       return;
     }
@@ -174,9 +496,9 @@ export const getTaskById = async (req: CustomRequest, res: Response): Promise<vo
 
 // @route   PUT /api/tasks/:id
 // @desc    Update a task
-// @access  Private (Admin, Project Manager, Developer, Tester, Reporter, Assignee)
+// @access  Private (Project Owner, Maintainer, or the Contributor who reported or is assigned the task)
 export const updateTask = async (req: CustomRequest, res: Response): Promise<void> => {
-  const { title, description, status, priority, deadline, projectId, assignedTo } = req.body;
+  const { title, description, status, priority, deadline, projectId, assignedTo, parentTaskId, labelIds, sprintId, estimate, recurrence } = req.body;
   const { id } = req.params;
 
   try {
@@ -189,6 +511,7 @@ export const updateTask = async (req: CustomRequest, res: Response): Promise<voi
       include: [
         { model: db.User, as: 'assignee', attributes: userAttributes },
         { model: db.User, as: 'reporter', attributes: userAttributes },
+        getLabelInclude(),
       ],
     });
     
@@ -197,36 +520,17 @@ export const updateTask = async (req: CustomRequest, res: Response): Promise<voi
       return;
     }
 
-    const currentUserRole = req.user.role;
     const currentUserId = req.user.id;
     const oldAssignedTo = task.assignedTo;
     const oldStatus = task.status;
 
-    let isAuthorized = false;
-    if (['Admin', 'Project Manager'].includes(currentUserRole)) {
-      isAuthorized = true;
-    } else {
-      if (currentUserRole === 'Developer' && (task.assignedTo === currentUserId || task.reportedBy === currentUserId)) {
-        isAuthorized = true;
-      }
-      if (currentUserRole === 'Tester' && task.assignedTo === currentUserId) {
-        isAuthorized = true;
-      }
-      if (task.reportedBy === currentUserId && !isAuthorized) {
-          if (status && ['Done', 'Blocked'].includes(status)) {
-              if (task.reportedBy === currentUserId && task.assignedTo !== currentUserId && !['Developer', 'Tester'].includes(currentUserRole)) {
-                  res.status(403).json({ message: 'Reporters cannot mark tasks as Done or Blocked unless they are also the assignee/developer.' });
-                  return;
-              }
-          }
-          isAuthorized = true;
-      }
-      if (task.assignedTo === currentUserId && !isAuthorized) {
-          isAuthorized = true;
-      }
+    const projectRole = await getProjectRole(req.user, task.projectId);
+    if (!projectRole) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
     }
 
-    if (!isAuthorized) {
+    if (!canUpdateTask(projectRole, currentUserId, task)) {
       res.status(403).json({ message: 'Not authorized to update this task.' });
       return;
     }
@@ -237,6 +541,31 @@ export const updateTask = async (req: CustomRequest, res: Response): Promise<voi
         res.status(404).json({ message: 'New project not found.' });
         return;
       }
+      if (!canContribute(await getProjectRole(req.user, projectId))) {
+        res.status(403).json({ message: 'Not authorized to move tasks into the new project.' });
+        return;
+      }
+    }
+
+    const targetProjectId = projectId || task.projectId;
+    const targetAssignee = assignedTo !== undefined ? assignedTo : task.assignedTo;
+    const targetParentTaskId = parentTaskId !== undefined ? parentTaskId : task.parentTaskId;
+
+    // A hierarchy never spans projects: a task with subtasks cannot move on its own
+    if (targetProjectId !== task.projectId) {
+      const subtaskCount = await db.Task.count({ where: { parentTaskId: task.id } });
+      if (subtaskCount > 0) {
+        res.status(400).json({ message: 'Tasks with subtasks cannot be moved to another project.' });
+        return;
+      }
+    }
+
+    if (targetParentTaskId && (targetParentTaskId !== task.parentTaskId || targetProjectId !== task.projectId)) {
+      const parentError = await validateParentTask(targetParentTaskId, targetProjectId, task.id);
+      if (parentError) {
+        res.status(parentError.status).json({ message: parentError.message });
+        return;
+      }
     }
 
     if (assignedTo && assignedTo !== task.assignedTo) {
@@ -245,24 +574,120 @@ export const updateTask = async (req: CustomRequest, res: Response): Promise<voi
         res.status(404).json({ message: 'New assigned user not found.' });
         return;
       }
+      if (!isEmailVerified(newAssignee)) {
+        res.status(400).json({ message: 'Assigned user has not verified their email address yet.' });
+        return;
+      }
+    }
+
+    // The assignee must be able to see the task in its (possibly new) project
+    if (targetAssignee && (targetAssignee !== task.assignedTo || targetProjectId !== task.projectId)) {
+      const assigneeUser = await db.User.findByPk(targetAssignee);
+      if (assigneeUser && !(await getProjectRole(assigneeUser, targetProjectId))) {
+        res.status(400).json({ message: 'Assigned user is not a member of this project.' });
+        return;
+      }
+    }
+
+    if (labelIds !== undefined) {
+      const labelError = await validateLabelIds(labelIds, targetProjectId);
+      if (labelError) {
+        res.status(labelError.status).json({ message: labelError.message });
+        return;
+      }
+    }
+
+    // Sprints are scoped to a project too, so a task moving elsewhere goes to the new project's backlog
+    const targetSprintId = sprintId !== undefined ? sprintId || null : targetProjectId === task.projectId ? task.sprintId : null;
+    if (targetSprintId && targetSprintId !== task.sprintId) {
+      const sprintError = await validateSprintId(targetSprintId, targetProjectId);
+      if (sprintError) {
+        res.status(sprintError.status).json({ message: sprintError.message });
+        return;
+      }
+    }
+
+    if (estimate !== undefined && !isValidEstimate(estimate)) {
+      res.status(400).json({ message: `Estimate must be a number between 0 and ${MAX_ESTIMATE}.` });
+      return;
+    }
+
+    const targetDeadline = deadline !== undefined ? deadline : task.deadline;
+    const { values: recurrenceValues, error: recurrenceError } = recurrence !== undefined
+      ? parseTaskRecurrence(recurrence, targetDeadline ? new Date(targetDeadline) : null)
+      : { values: undefined, error: undefined };
+    if (recurrenceError) {
+      res.status(400).json({ message: recurrenceError });
+      return;
+    }
+
+    const sourceWorkflow = await getProjectWorkflow(task.projectId);
+    const targetWorkflow = targetProjectId === task.projectId ? sourceWorkflow : await getProjectWorkflow(targetProjectId);
+    let targetStatus = status !== undefined ? status : task.status;
+
+    if (targetProjectId === task.projectId) {
+      const transitionError = checkTransition(targetWorkflow, task.status, targetStatus, projectRole);
+      if (transitionError) {
+        res.status(transitionError.status).json({ message: transitionError.message });
+        return;
+      }
+    } else if (!hasStatus(targetWorkflow, targetStatus)) {
+      // Moving projects is not a transition, but the task must land in a status the new board has
+      if (status !== undefined) {
+        res.status(400).json({ message: `'${status}' is not a status of the new project's workflow.` });
+        return;
+      }
+      targetStatus = getInitialStatus(targetWorkflow);
     }
 
+    // Only tasks entering a column count against its WIP limit
+    let wipWarning: string | undefined;
+    if (targetStatus !== oldStatus || targetProjectId !== task.projectId) {
+      const wipCheck = await checkWipLimit(targetWorkflow, targetProjectId, targetStatus);
+      if (wipCheck.error) {
+        res.status(wipCheck.error.status).json({ message: wipCheck.error.message });
+        return;
+      }
+      wipWarning = wipCheck.warning;
+    }
+
+    const becameFinished = targetStatus !== oldStatus
+      && isTerminalStatus(targetWorkflow, targetStatus)
+      && !isTerminalStatus(sourceWorkflow, oldStatus);
+
     const oldProjectId = task.projectId; // Capture old project ID for cache invalidation and Socket.IO
+    const valuesBeforeUpdate = task.get({ plain: true });
+
+    // A task landing in another column goes to its top; otherwise it keeps its place
+    const rank = targetStatus !== oldStatus || targetProjectId !== oldProjectId
+      ? await getTopRank(targetProjectId, targetStatus)
+      : task.rank;
 
     await task.update({
       title: title !== undefined ? title : task.title,
       description: description !== undefined ? description : task.description,
-      status: status !== undefined ? status : task.status,
+      status: targetStatus,
       priority: priority !== undefined ? priority : task.priority,
       deadline: deadline !== undefined ? deadline : task.deadline,
       projectId: projectId !== undefined ? projectId : task.projectId,
       assignedTo: assignedTo !== undefined ? assignedTo : task.assignedTo,
+      parentTaskId: targetParentTaskId || null,
+      sprintId: targetSprintId,
+      estimate: estimate !== undefined ? estimate : task.estimate,
+      ...recurrenceValues,
+      rank,
     });
 
-    // Invalidate the cache for all tasks
-    await redisClient.del(getTasksCacheKey());
-    // Invalidate cache for the old project's tasks
-    await redisClient.del(getTasksCacheKey(oldProjectId));
+    // Labels are scoped to a project, so a task moving elsewhere loses the ones it had
+    const labelsBeforeUpdate = (task.labels || []).map((label: { name: string }) => label.name).sort();
+    if (labelIds !== undefined) {
+      await task.setLabels(labelIds);
+    } else if (targetProjectId !== oldProjectId) {
+      await task.setLabels([]);
+    }
+
+    // Invalidate the cache for all tasks and for the old project's tasks
+    await invalidateTaskCaches(oldProjectId);
     // Invalidate cache for the new project's tasks (if projectId changed)
     if (projectId && projectId !== oldProjectId) {
         await redisClient.del(getTasksCacheKey(projectId));
@@ -274,10 +699,19 @@ export const updateTask = async (req: CustomRequest, res: Response): Promise<voi
             { model: db.Project, as: 'project', attributes: ['id', 'name', 'status'] },
             { model: db.User, as: 'assignee', attributes: userAttributes },
             { model: db.User, as: 'reporter', attributes: userAttributes },
+            getLabelInclude(),
         ],
     });
 
     if (updatedTaskWithAssociations) {
+        await recordTaskChanges(task.id, updatedTaskWithAssociations.projectId, currentUserId, {
+          ...valuesBeforeUpdate,
+          labels: labelsBeforeUpdate.join(', '),
+        }, {
+          ...updatedTaskWithAssociations.get({ plain: true }),
+          labels: (updatedTaskWithAssociations.labels || []).map((label: { name: string }) => label.name).sort().join(', '),
+        });
+
         // Always emit 'taskUpdated' to the NEW project's room
         io.to(updatedTaskWithAssociations.projectId).emit('taskUpdated', updatedTaskWithAssociations);
         console.log(`Emitted 'taskUpdated' to new project room: ${updatedTaskWithAssociations.projectId}`);
@@ -314,64 +748,141 @@ export const updateTask = async (req: CustomRequest, res: Response): Promise<voi
           console.log(`Notification saved to DB and sent for task reassignment to user ${assignedTo}`);
         }
 
-        // 2. Notify reporter if task is completed and reporter is not the one making the change
-        if (status === 'Done' && oldStatus !== 'Done' && task.reportedBy && task.reportedBy !== currentUserId) {
-          const newNotification = await db.Notification.create({
-            userId: task.reportedBy,
-            message: `Task "${updatedTaskWithAssociations.title}" has been completed.`,
+        // The other watchers hear who took the task over, and the new assignee starts watching it
+        if (assignedTo !== undefined && (assignedTo || null) !== (oldAssignedTo || null)) {
+          await notifyTaskWatchers({
+            task: updatedTaskWithAssociations,
+            actorId: currentUserId,
+            message: updatedTaskWithAssociations.assignee
+              ? `Task "${updatedTaskWithAssociations.title}" was reassigned to ${updatedTaskWithAssociations.assignee.username}.`
+              : `Task "${updatedTaskWithAssociations.title}" is now unassigned.`,
             type: 'task_updated',
-            link: taskLink, // Persist link to DB
-            itemId: updatedTaskWithAssociations.id,
-            isRead: false,
+            skipUserIds: assignedTo ? [assignedTo] : [],
           });
+          await addTaskWatchers(updatedTaskWithAssociations.id, [assignedTo]);
+        }
 
-          const notificationForSocket = {
-            id: newNotification.id,
-            message: newNotification.message,
-            link: newNotification.link, // Use link from DB object
-            projectId: updatedTaskWithAssociations.projectId,
-            read: newNotification.isRead,
-            createdAt: newNotification.createdAt.toISOString(),
-            type: newNotification.type
-          };
-          sendNotificationToUser(task.reportedBy, notificationForSocket);
-          console.log(`Notification saved to DB and sent for task completion to user ${task.reportedBy}`);
-        
-        // 3. Status change notification (handle other status changes)
-        } else if (status && status !== oldStatus && status !== 'Done' && task.assignedTo && task.assignedTo !== currentUserId) {
-          const newNotification = await db.Notification.create({
-            userId: task.assignedTo,
-            message: `Task "${updatedTaskWithAssociations.title}" status changed to: ${status}`,
-            type: 'task_updated',
-            link: taskLink, // Persist link to DB
-            itemId: updatedTaskWithAssociations.id,
-            isRead: false,
-          });
+        // 2-4. Completion and status change notifications
+        await notifyStatusChange(updatedTaskWithAssociations, oldStatus, becameFinished, currentUserId);
 
-          const notificationForSocket = {
-            id: newNotification.id,
-            message: newNotification.message,
-            link: newNotification.link, // Use link from DB object
-            projectId: updatedTaskWithAssociations.projectId,
-            read: newNotification.isRead,
-            createdAt: newNotification.createdAt.toISOString(),
-            type: newNotification.type
-          };
-          sendNotificationToUser(task.assignedTo, notificationForSocket);
-          console.log(`Notification saved to DB and sent for task status change to user ${task.assignedTo}`);
+        // 5. Finishing a task that repeats on completion creates its next instance
+        if (becameFinished && updatedTaskWithAssociations.recurrenceTrigger === 'completion') {
+          await continueRecurringTask(updatedTaskWithAssociations);
         }
     }
 
-    res.status(200).json({ message: 'Task updated successfully', task: updatedTaskWithAssociations });
+    // Suggest 'Blocked' when the task moves on while some of its predecessors are unfinished
+    const statusSuggestion = targetStatus !== oldStatus
+      ? await getBlockedStatusSuggestion(task.id, targetStatus, targetWorkflow)
+      : null;
+
+    res.status(200).json({ message: 'Task updated successfully', task: updatedTaskWithAssociations, statusSuggestion, wipWarning });
   } catch (error) {
     console.error('Error updating task:', error);
     res.status(500).json({ message: 'Server error updating task.' });
   }
 };
 
+// @route   PATCH /api/tasks/:id/move
+// @desc    Move a task to a position on the board, optionally into another status column
+// @access  Private (Project Owner, Maintainer, or the Contributor assigned to / reporting the task)
+export const moveTask = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { status, beforeTaskId, afterTaskId } = req.body;
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    if (!task) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    const projectRole = await getProjectRole(req.user, task.projectId);
+    if (!projectRole) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    if (!canUpdateTask(projectRole, req.user.id, task)) {
+      res.status(403).json({ message: 'Not authorized to move this task.' });
+      return;
+    }
+
+    const workflow = await getProjectWorkflow(task.projectId);
+    const oldStatus = task.status;
+    const targetStatus = status !== undefined ? status : oldStatus;
+
+    const transitionError = checkTransition(workflow, oldStatus, targetStatus, projectRole);
+    if (transitionError) {
+      res.status(transitionError.status).json({ message: transitionError.message });
+      return;
+    }
+
+    let wipWarning: string | undefined;
+    if (targetStatus !== oldStatus) {
+      const wipCheck = await checkWipLimit(workflow, task.projectId, targetStatus);
+      if (wipCheck.error) {
+        res.status(wipCheck.error.status).json({ message: wipCheck.error.message });
+        return;
+      }
+      wipWarning = wipCheck.warning;
+    }
+
+    const { rank, error } = await resolveMoveRank(task.id, task.projectId, targetStatus, beforeTaskId, afterTaskId);
+    if (error) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    const becameFinished = targetStatus !== oldStatus
+      && isTerminalStatus(workflow, targetStatus)
+      && !isTerminalStatus(workflow, oldStatus);
+    const valuesBeforeUpdate = task.get({ plain: true });
+
+    await task.update({ status: targetStatus, rank });
+    await recordTaskChanges(task.id, task.projectId, req.user.id, valuesBeforeUpdate, task.get({ plain: true }));
+
+    await invalidateTaskCaches(task.projectId);
+
+    const movedTaskWithAssociations = await db.Task.findByPk(task.id, {
+      include: [
+        { model: db.Project, as: 'project', attributes: ['id', 'name', 'status'] },
+        { model: db.User, as: 'assignee', attributes: userAttributes },
+        { model: db.User, as: 'reporter', attributes: userAttributes },
+        getLabelInclude(),
+      ],
+    });
+
+    // Other viewers of the board re-order their copy from the new rank
+    io.to(task.projectId).emit('taskMoved', movedTaskWithAssociations);
+
+    if (targetStatus !== oldStatus) {
+      await notifyStatusChange(movedTaskWithAssociations, oldStatus, becameFinished, req.user.id);
+    }
+
+    if (becameFinished && task.recurrenceTrigger === 'completion') {
+      await continueRecurringTask(task);
+    }
+
+    const statusSuggestion = targetStatus !== oldStatus
+      ? await getBlockedStatusSuggestion(task.id, targetStatus, workflow)
+      : null;
+
+    res.status(200).json({ message: 'Task moved successfully', task: movedTaskWithAssociations, statusSuggestion, wipWarning });
+  } catch (error) {
+    console.error('Error moving task:', error);
+    res.status(500).json({ message: 'Server error moving task.' });
+  }
+};
+
 // @route   DELETE /api/tasks/:id
 // @desc    Delete a task
-// @access  Private (Admin, Project Manager, or Reporter)
+// @access  Private (Project Owner, Maintainer, or the Contributor who reported the task)
 export const deleteTask = async (req: CustomRequest, res: Response): Promise<void> => {
   const { id } = req.params;
 
@@ -393,9 +904,13 @@ export const deleteTask = async (req: CustomRequest, res: Response): Promise<voi
       return;
     }
 
-    const isAuthorized = ['Admin', 'Project Manager'].includes(req.user.role) || task.reportedBy === req.user.id;
+    const projectRole = await getProjectRole(req.user, task.projectId);
+    if (!projectRole) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
 
-    if (!isAuthorized) {
+    if (!canDeleteTask(projectRole, req.user.id, task)) {
       res.status(403).json({ message: 'Not authorized to delete this task.' });
       return;
     }
@@ -404,11 +919,13 @@ export const deleteTask = async (req: CustomRequest, res: Response): Promise<voi
     const taskTitle = task.title;
     const assignedTo = task.assignedTo;
 
+    await removeTaskAttachmentFiles(task.id);
     await task.destroy();
 
+    await recordTaskEvent({ taskId: id, projectId, actorId: req.user.id, action: 'deleted', oldValue: taskTitle });
+
     // Invalidate the cache for all tasks and for the specific project's tasks
-    await redisClient.del(getTasksCacheKey());
-    await redisClient.del(getTasksCacheKey(projectId));
+    await invalidateTaskCaches(projectId);
     console.log(`Invalidated all tasks cache and project ${projectId} tasks cache.`);
 
     // Emit real-time update
@@ -444,4 +961,119 @@ export const deleteTask = async (req: CustomRequest, res: Response): Promise<voi
     console.error('Error deleting task:', error);
     res.status(500).json({ message: 'Server error deleting task.' });
   }
-};
\ No newline at end of file
+};
+// @route   GET /api/tasks/:id/subtasks
+// @desc    Get the direct subtasks of a task
+// @access  Private (Project members)
+export const getSubtasks = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const parentTask = await db.Task.findByPk(id);
+    if (!parentTask || !(await getProjectRole(req.user, parentTask.projectId))) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    const subtasks = await db.Task.findAll({
+      where: { parentTaskId: id },
+      include: [
+        { model: db.User, as: 'assignee', attributes: userAttributes },
+        { model: db.User, as: 'reporter', attributes: userAttributes },
+        getLabelInclude(),
+      ],
+      order: [['createdAt', 'ASC']],
+    });
+
+    res.status(200).json(await attachSubtaskProgress(subtasks));
+  } catch (error) {
+    console.error('Error fetching subtasks:', error);
+    res.status(500).json({ message: 'Server error fetching subtasks.' });
+  }
+};
+
+// @route   POST /api/tasks/:id/subtasks
+// @desc    Create a subtask under a task (in the parent's project)
+// @access  Private (Project Owner, Maintainer, Contributor)
+export const createSubtask = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  let parentTask;
+
+  try {
+    parentTask = await db.Task.findByPk(id, { attributes: ['id', 'projectId'] });
+  } catch (error) {
+    console.error('Error creating subtask:', error);
+    res.status(500).json({ message: 'Server error creating subtask.' });
+    return;
+  }
+
+  if (!parentTask) {
+    res.status(404).json({ message: 'Parent task not found.' });
+    return;
+  }
+
+  // The parent dictates the project; everything else follows the regular task creation rules
+  req.body = { ...req.body, projectId: parentTask.projectId, parentTaskId: parentTask.id };
+  await createTask(req, res);
+};
+
+// @route   GET /api/tasks/:id/history
+// @desc    Get the audit trail of a task, newest first
+// @access  Private (Project members)
+export const getTaskHistory = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id, { attributes: ['id', 'projectId'] });
+    if (!task || !(await getProjectRole(req.user, task.projectId))) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    const events = await db.TaskEvent.findAll({
+      where: { entityType: 'task', taskId: id },
+      include: [{ model: db.User, as: 'actor', attributes: ['id', 'username'] }],
+      order: [['createdAt', 'DESC']],
+    });
+
+    // Reference fields store ids; resolve them to readable labels for the timeline
+    const idsFor = (field: string) => [...new Set(events
+      .filter((event: any) => event.field === field)
+      .flatMap((event: any) => [event.oldValue, event.newValue])
+      .filter(Boolean))] as string[];
+
+    const [users, projects, tasks, sprints] = await Promise.all([
+      db.User.findAll({ where: { id: { [Op.in]: idsFor('assignedTo') } }, attributes: ['id', 'username'] }),
+      db.Project.findAll({ where: { id: { [Op.in]: idsFor('projectId') } }, attributes: ['id', 'name'] }),
+      db.Task.findAll({ where: { id: { [Op.in]: idsFor('parentTaskId') } }, attributes: ['id', 'title'] }),
+      db.Sprint.findAll({ where: { id: { [Op.in]: idsFor('sprintId') } }, attributes: ['id', 'name'] }),
+    ]);
+    const labels: Record<string, Map<string, string>> = {
+      assignedTo: new Map(users.map((u: any) => [u.id, u.username])),
+      projectId: new Map(projects.map((p: any) => [p.id, p.name])),
+      parentTaskId: new Map(tasks.map((t: any) => [t.id, t.title])),
+      sprintId: new Map(sprints.map((s: any) => [s.id, s.name])),
+    };
+    const toLabel = (field: string | null, value: string | null) =>
+      value && field && labels[field] ? labels[field].get(value) || value : value;
+
+    res.status(200).json(events.map((event: any) => ({
+      ...event.toJSON(),
+      oldLabel: toLabel(event.field, event.oldValue),
+      newLabel: toLabel(event.field, event.newValue),
+    })));
+  } catch (error) {
+    console.error('Error fetching task history:', error);
+    res.status(500).json({ message: 'Server error fetching task history.' });
+  }
+};
@@ -0,0 +1,168 @@
+import { Request, Response } from 'express';
+import db from '../models/index';
+import { io } from '../index';
+import { getProjectRole, canUpdateTask } from '../utils/projectAccess';
+import { wouldCreateDependencyCycle, getBlockedStatusSuggestion } from '../utils/taskDependencies';
+import { getProjectWorkflow, getProjectWorkflows, isTerminalStatus } from '../utils/workflows';
+import { invalidateTaskCaches } from '../utils/taskCache';
+
+interface CustomRequest extends Request {
+  user?: {
+    id: string;
+    role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  };
+}
+
+const dependencyTaskAttributes = ['id', 'title', 'status', 'projectId', 'assignedTo'];
+
+// @route   GET /api/tasks/:id/dependencies
+// @desc    Get the tasks blocking this task and the tasks it blocks
+// @access  Private (Project members)
+export const getTaskDependencies = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    if (!task || !(await getProjectRole(req.user, task.projectId))) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    const blockedBy = await db.TaskDependency.findAll({
+      where: { blockedTaskId: id },
+      include: [{ model: db.Task, as: 'blockerTask', attributes: dependencyTaskAttributes }],
+      order: [['createdAt', 'ASC']],
+    });
+
+    const blocks = await db.TaskDependency.findAll({
+      where: { blockerTaskId: id },
+      include: [{ model: db.Task, as: 'blockedTask', attributes: dependencyTaskAttributes }],
+      order: [['createdAt', 'ASC']],
+    });
+
+    // Tell clients which linked tasks are finished, since "finished" depends on each project's workflow
+    const linkedTasks = [
+      ...blockedBy.map((dependency: any) => dependency.blockerTask),
+      ...blocks.map((dependency: any) => dependency.blockedTask),
+    ].filter(Boolean);
+    const workflows = await getProjectWorkflows([...new Set<string>(linkedTasks.map((linked: any) => linked.projectId))]);
+    const withFinished = (linked: any) => ({ ...linked.toJSON(), finished: isTerminalStatus(workflows.get(linked.projectId)!, linked.status) });
+
+    res.status(200).json({
+      blockedBy: blockedBy.map((dependency: any) => dependency.blockerTask).filter(Boolean).map(withFinished),
+      blocks: blocks.map((dependency: any) => dependency.blockedTask).filter(Boolean).map(withFinished),
+    });
+  } catch (error) {
+    console.error('Error fetching task dependencies:', error);
+    res.status(500).json({ message: 'Server error fetching task dependencies.' });
+  }
+};
+
+// @route   POST /api/tasks/:id/dependencies
+// @desc    Mark this task as blocked by another task ({ blockerTaskId })
+// @access  Private (Users who may update this task and can view the blocker)
+export const addTaskDependency = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { blockerTaskId } = req.body;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    if (!blockerTaskId) {
+      res.status(400).json({ message: 'blockerTaskId is required.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    const projectRole = task ? await getProjectRole(req.user, task.projectId) : null;
+    if (!task || !projectRole) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    if (!canUpdateTask(projectRole, req.user.id, task)) {
+      res.status(403).json({ message: 'Not authorized to change the dependencies of this task.' });
+      return;
+    }
+
+    const blockerTask = await db.Task.findByPk(blockerTaskId);
+    if (!blockerTask || !(await getProjectRole(req.user, blockerTask.projectId))) {
+      res.status(404).json({ message: 'Blocking task not found.' });
+      return;
+    }
+
+    const existingDependency = await db.TaskDependency.findOne({ where: { blockerTaskId, blockedTaskId: id } });
+    if (existingDependency) {
+      res.status(409).json({ message: 'This dependency already exists.' });
+      return;
+    }
+
+    if (await wouldCreateDependencyCycle(blockerTaskId, id)) {
+      res.status(400).json({ message: 'This dependency would create a cycle.' });
+      return;
+    }
+
+    await db.TaskDependency.create({ blockerTaskId, blockedTaskId: id, createdBy: req.user.id });
+
+    await invalidateTaskCaches(task.projectId);
+
+    io.to(task.projectId).emit('taskDependenciesUpdated', { taskId: id, projectId: task.projectId });
+
+    // A task that is already underway but now waits on unfinished work should probably be Blocked
+    const statusSuggestion = await getBlockedStatusSuggestion(id, task.status, await getProjectWorkflow(task.projectId));
+
+    res.status(201).json({ message: 'Dependency added successfully', blocker: blockerTask, statusSuggestion });
+  } catch (error) {
+    console.error('Error adding task dependency:', error);
+    res.status(500).json({ message: 'Server error adding task dependency.' });
+  }
+};
+
+// @route   DELETE /api/tasks/:id/dependencies/:blockerTaskId
+// @desc    Remove a "blocked by" relationship
+// @access  Private (Users who may update this task)
+export const removeTaskDependency = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, blockerTaskId } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    const projectRole = task ? await getProjectRole(req.user, task.projectId) : null;
+    if (!task || !projectRole) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    if (!canUpdateTask(projectRole, req.user.id, task)) {
+      res.status(403).json({ message: 'Not authorized to change the dependencies of this task.' });
+      return;
+    }
+
+    const deletedRows = await db.TaskDependency.destroy({ where: { blockerTaskId, blockedTaskId: id } });
+    if (deletedRows === 0) {
+      res.status(404).json({ message: 'Dependency not found.' });
+      return;
+    }
+
+    await invalidateTaskCaches(task.projectId);
+
+    io.to(task.projectId).emit('taskDependenciesUpdated', { taskId: id, projectId: task.projectId });
+
+    res.status(200).json({ message: 'Dependency removed successfully.' });
+  } catch (error) {
+    console.error('Error removing task dependency:', error);
+    res.status(500).json({ message: 'Server error removing task dependency.' });
+  }
+};
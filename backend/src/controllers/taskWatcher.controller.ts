@@ -0,0 +1,102 @@
+import { Request, Response } from 'express';
+import db from '../models/index';
+import { getProjectRole } from '../utils/projectAccess';
+import { addTaskWatchers } from '../utils/taskWatchers';
+
+interface CustomRequest extends Request {
+  user?: {
+    id: string;
+    role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  };
+}
+
+/**
+ * The users watching a task, and whether the current user is one of them.
+ */
+const getWatchersResponse = async (taskId: string, userId: string) => {
+  const watchers = await db.User.findAll({
+    attributes: ['id', 'username'],
+    include: [{ model: db.Task, as: 'watchedTasks', where: { id: taskId }, attributes: [], through: { attributes: [] } }],
+    order: [['username', 'ASC']],
+  });
+  return { watchers, isWatching: watchers.some((watcher: { id: string }) => watcher.id === userId) };
+};
+
+// @route   GET /api/tasks/:id/watchers
+// @desc    Get the users watching a task
+// @access  Private (Project members)
+export const getTaskWatchers = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    if (!task || !(await getProjectRole(req.user, task.projectId))) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    res.status(200).json(await getWatchersResponse(id, req.user.id));
+  } catch (error) {
+    console.error('Error fetching task watchers:', error);
+    res.status(500).json({ message: 'Server error fetching task watchers.' });
+  }
+};
+
+// @route   POST /api/tasks/:id/watch
+// @desc    Watch a task, to be notified of its status changes, reassignments and comments
+// @access  Private (Project members)
+export const watchTask = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    if (!task || !(await getProjectRole(req.user, task.projectId))) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    await addTaskWatchers(id, [req.user.id]);
+
+    res.status(200).json(await getWatchersResponse(id, req.user.id));
+  } catch (error) {
+    console.error('Error watching task:', error);
+    res.status(500).json({ message: 'Server error watching task.' });
+  }
+};
+
+// @route   DELETE /api/tasks/:id/watch
+// @desc    Stop watching a task
+// @access  Private (Project members)
+export const unwatchTask = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id);
+    if (!task || !(await getProjectRole(req.user, task.projectId))) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    await db.TaskWatcher.destroy({ where: { taskId: id, userId: req.user.id } });
+
+    res.status(200).json(await getWatchersResponse(id, req.user.id));
+  } catch (error) {
+    console.error('Error unwatching task:', error);
+    res.status(500).json({ message: 'Server error unwatching task.' });
+  }
+};
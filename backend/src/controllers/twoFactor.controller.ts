@@ -0,0 +1,262 @@
+import { Request, Response } from 'express';
+import db from '../models/index';
+import { issueSession } from '../utils/authTokens';
+import { checkRateLimit } from '../utils/rateLimit';
+import {
+  getTwoFactor,
+  isTwoFactorEnabled,
+  isTwoFactorRequiredForRole,
+  verifyTwoFactorChallenge,
+  startTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  verifySecondFactor,
+  regenerateBackupCodes,
+  disableTwoFactor,
+  serializeTwoFactorStatus,
+} from '../utils/twoFactor';
+
+interface CustomRequest extends Request {
+  user?: {
+    id: string;
+    role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+    sessionId?: string;
+  };
+}
+
+// Six digit codes are quick to guess without a limit
+const CODE_ATTEMPT_WINDOW_SECONDS = 15 * 60;
+const CODE_ATTEMPTS_PER_USER = 10;
+
+const checkCodeRateLimit = (res: Response, userId: string) =>
+  checkRateLimit(res, `twoFactorCode:user:${userId}`, CODE_ATTEMPTS_PER_USER, CODE_ATTEMPT_WINDOW_SECONDS);
+
+/**
+ * Starts a session for a user who completed the second sign-in step, answering like a plain login.
+ */
+const sendSession = async (res: Response, user: any, extra: Record<string, unknown> = {}): Promise<void> => {
+  const { token, refreshToken } = await issueSession(user);
+
+  res.status(200).json({
+    message: 'Logged in successfully',
+    token,
+    refreshToken,
+    user: {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      role: user.role,
+      emailVerifiedAt: user.emailVerifiedAt,
+    },
+    ...extra,
+  });
+};
+
+// @route   POST /api/auth/login/2fa
+// @desc    Complete a login with a code from the authenticator app or a backup code ({ challengeToken, code })
+// @access  Public (Holders of a login challenge token)
+export const verifyTwoFactorLogin = async (req: Request, res: Response): Promise<void> => {
+  const { challengeToken, code } = req.body;
+
+  try {
+    const { user, error } = await verifyTwoFactorChallenge(challengeToken, 'two-factor-login');
+    if (!user) {
+      res.status(401).json({ message: error });
+      return;
+    }
+
+    if (!(await checkCodeRateLimit(res, user.id))) return;
+
+    const { usedBackupCode, error: codeError } = await verifySecondFactor(user.id, code);
+    if (codeError) {
+      res.status(401).json({ message: codeError });
+      return;
+    }
+
+    const extra: Record<string, unknown> = {};
+    if (usedBackupCode) {
+      extra.backupCodesRemaining = (await getTwoFactor(user.id)).backupCodeHashes.length;
+    }
+    await sendSession(res, user, extra);
+  } catch (error) {
+    console.error('Error verifying two-factor login:', error);
+    res.status(500).json({ message: 'Server error during login.' });
+  }
+};
+
+// @route   POST /api/auth/login/2fa/setup
+// @desc    Start enrolling during login, for a user whose role requires two-factor authentication ({ challengeToken })
+// @access  Public (Holders of a setup challenge token)
+export const startTwoFactorLoginSetup = async (req: Request, res: Response): Promise<void> => {
+  const { challengeToken } = req.body;
+
+  try {
+    const { user, error } = await verifyTwoFactorChallenge(challengeToken, 'two-factor-setup');
+    if (!user) {
+      res.status(401).json({ message: error });
+      return;
+    }
+    if (isTwoFactorEnabled(await getTwoFactor(user.id))) {
+      res.status(409).json({ message: 'Two-factor authentication is already enabled. Please log in again.' });
+      return;
+    }
+
+    res.status(200).json(await startTwoFactorEnrollment(user));
+  } catch (error) {
+    console.error('Error starting two-factor setup during login:', error);
+    res.status(500).json({ message: 'Server error starting two-factor setup.' });
+  }
+};
+
+// @route   POST /api/auth/login/2fa/confirm
+// @desc    Finish enrolling during login with a code from the authenticator app ({ challengeToken, code }). Starts a session and returns the backup codes.
+// @access  Public (Holders of a setup challenge token)
+export const confirmTwoFactorLoginSetup = async (req: Request, res: Response): Promise<void> => {
+  const { challengeToken, code } = req.body;
+
+  try {
+    const { user, error } = await verifyTwoFactorChallenge(challengeToken, 'two-factor-setup');
+    if (!user) {
+      res.status(401).json({ message: error });
+      return;
+    }
+
+    if (!(await checkCodeRateLimit(res, user.id))) return;
+
+    const { backupCodes, error: confirmError } = await confirmTwoFactorEnrollment(user.id, code);
+    if (!backupCodes) {
+      res.status(400).json({ message: confirmError });
+      return;
+    }
+
+    await sendSession(res, user, { backupCodes });
+  } catch (error) {
+    console.error('Error confirming two-factor setup during login:', error);
+    res.status(500).json({ message: 'Server error confirming two-factor setup.' });
+  }
+};
+
+// @route   GET /api/auth/2fa
+// @desc    Get whether the current user has two-factor authentication enabled, whether their role requires it and how many backup codes are left
+// @access  Private
+export const getTwoFactorStatus = async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    res.status(200).json(await serializeTwoFactorStatus(req.user));
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error);
+    res.status(500).json({ message: 'Server error fetching two-factor status.' });
+  }
+};
+
+// @route   POST /api/auth/2fa/setup
+// @desc    Start enrolling: returns a new secret and its otpauth:// URI for the authenticator app
+// @access  Private
+export const startTwoFactorSetup = async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const user = await db.User.findByPk(req.user.id);
+    if (!user) {
+      res.status(404).json({ message: 'User not found.' });
+      return;
+    }
+    if (isTwoFactorEnabled(await getTwoFactor(user.id))) {
+      res.status(409).json({ message: 'Two-factor authentication is already enabled.' });
+      return;
+    }
+
+    res.status(200).json(await startTwoFactorEnrollment(user));
+  } catch (error) {
+    console.error('Error starting two-factor setup:', error);
+    res.status(500).json({ message: 'Server error starting two-factor setup.' });
+  }
+};
+
+// @route   POST /api/auth/2fa/confirm
+// @desc    Enable two-factor authentication with a code from the authenticator app ({ code }). Returns the backup codes.
+// @access  Private
+export const confirmTwoFactorSetup = async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    if (!(await checkCodeRateLimit(res, req.user.id))) return;
+
+    const { backupCodes, error } = await confirmTwoFactorEnrollment(req.user.id, req.body.code);
+    if (!backupCodes) {
+      res.status(400).json({ message: error });
+      return;
+    }
+
+    res.status(200).json({ message: 'Two-factor authentication is enabled.', backupCodes });
+  } catch (error) {
+    console.error('Error confirming two-factor setup:', error);
+    res.status(500).json({ message: 'Server error confirming two-factor setup.' });
+  }
+};
+
+// @route   POST /api/auth/2fa/backup-codes
+// @desc    Replace the backup codes with new ones ({ code })
+// @access  Private
+export const regenerateTwoFactorBackupCodes = async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    if (!(await checkCodeRateLimit(res, req.user.id))) return;
+
+    const { error } = await verifySecondFactor(req.user.id, req.body.code);
+    if (error) {
+      res.status(400).json({ message: error });
+      return;
+    }
+
+    res.status(200).json({ message: 'New backup codes have been generated.', backupCodes: await regenerateBackupCodes(req.user.id) });
+  } catch (error) {
+    console.error('Error regenerating backup codes:', error);
+    res.status(500).json({ message: 'Server error regenerating backup codes.' });
+  }
+};
+
+// @route   POST /api/auth/2fa/disable
+// @desc    Turn two-factor authentication off ({ code }). Not allowed while the user's role requires it.
+// @access  Private
+export const disableTwoFactorAuth = async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    if (await isTwoFactorRequiredForRole(req.user.role)) {
+      res.status(403).json({ message: 'Your role requires two-factor authentication.' });
+      return;
+    }
+
+    if (!(await checkCodeRateLimit(res, req.user.id))) return;
+
+    const { error } = await verifySecondFactor(req.user.id, req.body.code);
+    if (error) {
+      res.status(400).json({ message: error });
+      return;
+    }
+
+    await disableTwoFactor(req.user.id);
+
+    res.status(200).json({ message: 'Two-factor authentication is disabled.' });
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error);
+    res.status(500).json({ message: 'Server error disabling two-factor authentication.' });
+  }
+};
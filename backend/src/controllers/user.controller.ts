@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import { Op } from 'sequelize';
 import db from '../models/index'; 
+import { sendVerificationMail } from '../utils/emailVerification';
 
 // Extend the Request interface to include the user property from your auth middleware
 interface CustomRequest extends Request {
@@ -60,7 +61,9 @@ export const getUsersForAssignment = async (req: CustomRequest, res: Response):
       where: {
         role: {
           [Op.in]: ['Admin', 'Project Manager', 'Developer', 'Tester']
-        }
+        },
+        // Unverified accounts cannot be assigned tasks
+        emailVerifiedAt: { [Op.ne]: null }
       }
     });
     res.status(200).json(users);
@@ -219,6 +222,8 @@ export const updateUser = async (req: CustomRequest, res: Response): Promise<voi
         return;
       }
       updateData.email = email;
+      // The new address has to be confirmed again
+      updateData.emailVerifiedAt = null;
     }
 
     if (password) {
@@ -236,6 +241,10 @@ export const updateUser = async (req: CustomRequest, res: Response): Promise<voi
       await user.update(updateData);
     }
 
+    if (updateData.email) {
+      sendVerificationMail(user).catch((error) => console.error('Error sending verification mail:', error));
+    }
+
     // Return updated user without password hash
     const updatedUser = await db.User.findByPk(id, {
       attributes: { exclude: ['passwordHash'] }
@@ -0,0 +1,105 @@
+import { Request, Response } from 'express';
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { io } from '../index';
+import { getProjectRole, canManageProject } from '../utils/projectAccess';
+import { DEFAULT_WORKFLOW, parseWorkflowDefinition } from '../utils/workflows';
+import { recordProjectEvent } from '../utils/taskHistory';
+import { invalidateTaskCaches } from '../utils/taskCache';
+
+interface CustomRequest extends Request {
+  user?: {
+    id: string;
+    role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  };
+}
+
+// @route   GET /api/projects/:id/workflow
+// @desc    Get the statuses, transitions and WIP limits of a project's workflow
+// @access  Private (Project members)
+export const getWorkflow = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    if (!(await getProjectRole(req.user, id))) {
+      res.status(404).json({ message: 'Project not found.' });
+      return;
+    }
+
+    const workflow = await db.ProjectWorkflow.findOne({ where: { projectId: id } });
+    res.status(200).json(workflow
+      ? { statuses: workflow.statuses, transitions: workflow.transitions, wipLimitMode: workflow.wipLimitMode, isDefault: false }
+      : { ...DEFAULT_WORKFLOW, isDefault: true });
+  } catch (error) {
+    console.error('Error fetching workflow:', error);
+    res.status(500).json({ message: 'Server error fetching workflow.' });
+  }
+};
+
+// @route   PUT /api/projects/:id/workflow
+// @desc    Replace a project's workflow ({ statuses: [{ name, terminal, wipLimit? }], transitions: [{ from, to, roles? }] | null, wipLimitMode? })
+// @access  Private (Project Owner, Maintainer)
+export const updateWorkflow = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const projectRole = await getProjectRole(req.user, id);
+    if (!projectRole) {
+      res.status(404).json({ message: 'Project not found.' });
+      return;
+    }
+
+    if (!canManageProject(projectRole)) {
+      res.status(403).json({ message: 'Not authorized to change the workflow of this project.' });
+      return;
+    }
+
+    const { workflow, error } = parseWorkflowDefinition(req.body);
+    if (!workflow) {
+      res.status(400).json({ message: error });
+      return;
+    }
+
+    // Statuses that still hold tasks cannot be dropped; the tasks would have no column
+    const statusNames = workflow.statuses.map(status => status.name);
+    const orphanedTasks = await db.Task.findAll({
+      where: { projectId: id, status: { [Op.notIn]: statusNames } },
+      attributes: ['status'],
+      group: ['status'],
+    });
+    if (orphanedTasks.length > 0) {
+      const inUse = orphanedTasks.map((task: { status: string }) => `'${task.status}'`).join(', ');
+      res.status(400).json({ message: `Statuses still used by tasks cannot be removed: ${inUse}. Move those tasks first.` });
+      return;
+    }
+
+    const existingWorkflow = await db.ProjectWorkflow.findOne({ where: { projectId: id } });
+    if (existingWorkflow) {
+      await existingWorkflow.update(workflow);
+    } else {
+      await db.ProjectWorkflow.create({ projectId: id, ...workflow });
+    }
+
+    await recordProjectEvent(id, req.user.id, 'updated', { field: 'workflow', newValue: statusNames.join(', ') });
+
+    // Subtask progress in cached task lists depends on which statuses are terminal
+    await invalidateTaskCaches(id);
+
+    io.to(id).emit('workflowUpdated', { projectId: id });
+
+    res.status(200).json({ ...workflow, isDefault: false });
+  } catch (error) {
+    console.error('Error updating workflow:', error);
+    res.status(500).json({ message: 'Server error updating workflow.' });
+  }
+};
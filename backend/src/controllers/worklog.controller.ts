@@ -0,0 +1,287 @@
+import { Request, Response } from 'express';
+import db from '../models/index';
+import { io, getUserRoom } from '../index';
+import { getProjectRole, canContribute, canManageProject } from '../utils/projectAccess';
+import { stopRunningWorklog } from '../utils/worklogs';
+import { invalidateTaskCaches } from '../utils/taskCache';
+
+interface CustomRequest extends Request {
+  user?: {
+    id: string;
+    role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  };
+}
+
+const MAX_NOTE_LENGTH = 1000;
+const MAX_LOGGED_MINUTES = 24 * 60;
+
+// Built lazily: models are initialized at startup, after this module is loaded
+const getWorklogInclude = () => [{ model: db.User, as: 'user', attributes: ['id', 'username'] }];
+
+/**
+ * Returns the user's running timer with the task it runs on, or null.
+ */
+const findRunningTimer = (userId: string) => db.Worklog.findOne({
+  where: { userId, endedAt: null },
+  include: [{ model: db.Task, as: 'task', attributes: ['id', 'title', 'projectId'] }],
+});
+
+/**
+ * Tells everyone on the task's board that its worklogs changed, and drops the cached totals.
+ */
+const announceWorklogChange = async (task: { id: string; projectId: string }): Promise<void> => {
+  await invalidateTaskCaches(task.projectId);
+  io.to(task.projectId).emit('worklogsUpdated', { taskId: task.id });
+};
+
+// Keeps the timer in sync across all of the user's open tabs
+const announceTimerChange = async (userId: string): Promise<void> => {
+  io.to(getUserRoom(userId)).emit('timerUpdated', await findRunningTimer(userId));
+};
+
+/**
+ * Loads a task and checks the user may log time on it.
+ * Returns the task, or an HTTP status and message describing the problem.
+ */
+const loadTaskForLogging = async (
+  user: NonNullable<CustomRequest['user']>,
+  taskId: string
+): Promise<{ task?: any; error?: { status: number; message: string } }> => {
+  const task = await db.Task.findByPk(taskId, { attributes: ['id', 'title', 'projectId'] });
+  const projectRole = task ? await getProjectRole(user, task.projectId) : null;
+  if (!task || !projectRole) {
+    return { error: { status: 404, message: 'Task not found.' } };
+  }
+  if (!canContribute(projectRole)) {
+    return { error: { status: 403, message: 'Not authorized to log time on this task.' } };
+  }
+  return { task };
+};
+
+// @route   GET /api/tasks/:id/worklogs
+// @desc    Get the time logged on a task, newest first, with the total in seconds
+// @access  Private (Project members)
+export const getWorklogs = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id, { attributes: ['id', 'projectId'] });
+    if (!task || !(await getProjectRole(req.user, task.projectId))) {
+      res.status(404).json({ message: 'Task not found.' });
+      return;
+    }
+
+    const worklogs = await db.Worklog.findAll({
+      where: { taskId: id },
+      include: getWorklogInclude(),
+      order: [['startedAt', 'DESC']],
+    });
+    const totalSeconds = worklogs.reduce((total: number, worklog: { durationSeconds?: number | null }) => total + (worklog.durationSeconds || 0), 0);
+
+    res.status(200).json({ worklogs, totalSeconds });
+  } catch (error) {
+    console.error('Error fetching worklogs:', error);
+    res.status(500).json({ message: 'Server error fetching worklogs.' });
+  }
+};
+
+// @route   POST /api/tasks/:id/worklogs
+// @desc    Log time on a task by hand ({ durationMinutes, startedAt?, note? }); without a start the time ends now
+// @access  Private (Project members who can contribute)
+export const logWork = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { durationMinutes, startedAt, note } = req.body;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    if (typeof durationMinutes !== 'number' || !Number.isFinite(durationMinutes) || durationMinutes <= 0 || durationMinutes > MAX_LOGGED_MINUTES) {
+      res.status(400).json({ message: `Duration must be between 1 minute and ${MAX_LOGGED_MINUTES / 60} hours.` });
+      return;
+    }
+    if (startedAt !== undefined && startedAt !== null && (typeof startedAt !== 'string' || isNaN(Date.parse(startedAt)))) {
+      res.status(400).json({ message: 'Start time must be a valid date.' });
+      return;
+    }
+    if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)) {
+      res.status(400).json({ message: `Note cannot be longer than ${MAX_NOTE_LENGTH} characters.` });
+      return;
+    }
+
+    const { task, error } = await loadTaskForLogging(req.user, id);
+    if (error) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    const durationSeconds = Math.round(durationMinutes * 60);
+    const start = startedAt ? new Date(startedAt) : new Date(Date.now() - durationSeconds * 1000);
+    const end = new Date(start.getTime() + durationSeconds * 1000);
+    if (end.getTime() > Date.now()) {
+      res.status(400).json({ message: 'Time cannot be logged in the future.' });
+      return;
+    }
+
+    const worklog = await db.Worklog.create({
+      taskId: task.id,
+      userId: req.user.id,
+      startedAt: start,
+      endedAt: end,
+      durationSeconds,
+      note: note?.trim() || null,
+    });
+
+    await announceWorklogChange(task);
+
+    res.status(201).json(await db.Worklog.findByPk(worklog.id, { include: getWorklogInclude() }));
+  } catch (error) {
+    console.error('Error logging work:', error);
+    res.status(500).json({ message: 'Server error logging work.' });
+  }
+};
+
+// @route   DELETE /api/tasks/:id/worklogs/:worklogId
+// @desc    Delete a worklog (a running timer is discarded)
+// @access  Private (The user who logged it, Project Owner, Maintainer)
+export const deleteWorklog = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id, worklogId } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const task = await db.Task.findByPk(id, { attributes: ['id', 'projectId'] });
+    const projectRole = task ? await getProjectRole(req.user, task.projectId) : null;
+    const worklog = task && projectRole ? await db.Worklog.findOne({ where: { id: worklogId, taskId: id } }) : null;
+    if (!worklog) {
+      res.status(404).json({ message: 'Worklog not found.' });
+      return;
+    }
+
+    if (worklog.userId !== req.user.id && !canManageProject(projectRole)) {
+      res.status(403).json({ message: 'Not authorized to delete this worklog.' });
+      return;
+    }
+
+    const wasRunning = !worklog.endedAt;
+    await worklog.destroy();
+
+    await announceWorklogChange(task);
+    if (wasRunning) {
+      await announceTimerChange(worklog.userId);
+    }
+
+    res.status(200).json({ message: 'Worklog deleted successfully.' });
+  } catch (error) {
+    console.error('Error deleting worklog:', error);
+    res.status(500).json({ message: 'Server error deleting worklog.' });
+  }
+};
+
+// @route   POST /api/tasks/:id/timer/start
+// @desc    Start a timer on a task; a timer the user has running elsewhere is stopped first
+// @access  Private (Project members who can contribute)
+export const startTimer = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const { task, error } = await loadTaskForLogging(req.user, id);
+    if (error) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    const runningTimer = await findRunningTimer(req.user.id);
+    if (runningTimer?.taskId === task.id) {
+      res.status(409).json({ message: 'A timer is already running on this task.' });
+      return;
+    }
+    if (runningTimer) {
+      await stopRunningWorklog(runningTimer);
+      await announceWorklogChange(runningTimer.task);
+    }
+
+    await db.Worklog.create({ taskId: task.id, userId: req.user.id, startedAt: new Date() });
+
+    await announceWorklogChange(task);
+    await announceTimerChange(req.user.id);
+
+    res.status(201).json({ timer: await findRunningTimer(req.user.id), stoppedWorklog: runningTimer });
+  } catch (error) {
+    console.error('Error starting timer:', error);
+    if (error instanceof Error && error.name === 'SequelizeUniqueConstraintError') {
+      // Another request started a timer at the same moment
+      res.status(409).json({ message: 'Another timer was just started. Refresh and try again.' });
+    } else {
+      res.status(500).json({ message: 'Server error starting timer.' });
+    }
+  }
+};
+
+// @route   POST /api/tasks/:id/timer/stop
+// @desc    Stop the user's timer on a task, turning it into a worklog
+// @access  Private (Project members who can contribute)
+export const stopTimer = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    const { task, error } = await loadTaskForLogging(req.user, id);
+    if (error) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    const runningTimer = await db.Worklog.findOne({ where: { userId: req.user.id, taskId: task.id, endedAt: null } });
+    if (!runningTimer) {
+      res.status(404).json({ message: 'No timer is running on this task.' });
+      return;
+    }
+
+    await stopRunningWorklog(runningTimer);
+
+    await announceWorklogChange(task);
+    await announceTimerChange(req.user.id);
+
+    res.status(200).json(await db.Worklog.findByPk(runningTimer.id, { include: getWorklogInclude() }));
+  } catch (error) {
+    console.error('Error stopping timer:', error);
+    res.status(500).json({ message: 'Server error stopping timer.' });
+  }
+};
+
+// @route   GET /api/users/me/timer
+// @desc    Get the current user's running timer and its task, or null
+// @access  Private
+export const getActiveTimer = async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated.' });
+      return;
+    }
+
+    res.status(200).json(await findRunningTimer(req.user.id));
+  } catch (error) {
+    console.error('Error fetching active timer:', error);
+    res.status(500).json({ message: 'Server error fetching active timer.' });
+  }
+};
@@ -1,15 +1,18 @@
 import express, { Application, Request, Response } from 'express';
 import { createServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
 import cors from 'cors';
+import { validate as uuidValidate } from 'uuid';
 import { Sequelize } from 'sequelize';
 
 // --- SERVICE AND MODEL INITIALIZERS ---
 import { initializeDatabase } from './config/database';
 import { initializeRedis, RedisClient } from './config/redis';
 import { loadSecrets } from './config/secrets';
+import { getMailTransport } from './config/mail';
 // --- THIS IS THE NEW REQUIRED IMPORT ---
-import { initializeModels } from './models/index'; // Assumes you created src/models/index.ts
+import db, { initializeModels } from './models/index'; // Assumes you created src/models/index.ts
 
 // --- ROUTE IMPORTS ---
 import healthRoutes from './routes/health.routes';
@@ -18,6 +21,18 @@ import userRoutes from './routes/user.routes';
 import projectRoutes from './routes/project.routes';
 import taskRoutes from './routes/task.routes';
 import notificationRoutes from './routes/notification.routes';
+import invitationRoutes from './routes/invitation.routes';
+import settingsRoutes from './routes/settings.routes';
+
+// --- SOCKET.IO HELPERS ---
+import { authenticateSocket } from './middleware/auth.middleware';
+import { getProjectRole } from './utils/projectAccess';
+import { addUserSocket, removeUserSocket, getUserSocketCount } from './utils/presence';
+
+// --- BACKGROUND JOBS ---
+import { startBurndownSnapshotJob } from './jobs/burndownSnapshots';
+import { startRecurringTaskJob } from './jobs/recurringTasks';
+import { startDeadlineReminderJob } from './jobs/deadlineReminders';
 
 // --- TOP-LEVEL INSTANCE DECLARATIONS ---
 let sequelize: Sequelize;
@@ -48,21 +63,76 @@ app.use('/api/users', userRoutes);
 app.use('/api/projects', projectRoutes);
 app.use('/api/tasks', taskRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/invitations', invitationRoutes);
+app.use('/api/settings', settingsRoutes);
 
 // --- SOCKET.IO LOGIC ---
-const connectedUsers = new Map<string, string>();
-// ... (Your existing io.on('connection', ...) logic remains here)
+// Each user may have several sockets open at once (one per browser tab), possibly on
+// different backend instances. Presence is tracked in Redis (see utils/presence.ts) and
+// room emits are relayed between instances by the Redis adapter attached at startup.
+
+// Every socket of a user joins that user's private room, so one emit reaches all of their tabs
+export const getUserRoom = (userId: string): string => `user:${userId}`;
+
+// Every socket also joins the room of the session it authenticated with, so revoking the session can disconnect it
+export const getSessionRoom = (sessionId: string): string => `session:${sessionId}`;
+
+const registerSocket = async (userId: string, socketId: string) => {
+  try {
+    const socketCount = await addUserSocket(userId, socketId);
+    console.log(`User ${userId} registered with socket ${socketId}. Open sockets for user: ${socketCount}`);
+  } catch (error) {
+    console.error(`Error recording presence for user ${userId}:`, error);
+  }
+};
+
+const unregisterSocket = async (userId: string, socketId: string): Promise<boolean> => {
+  try {
+    return await removeUserSocket(userId, socketId);
+  } catch (error) {
+    console.error(`Error clearing presence for user ${userId}:`, error);
+    return false;
+  }
+};
+
+// Every connection must present a valid JWT in `auth.token` during the handshake
+io.use(authenticateSocket);
+
 io.on('connection', (socket) => {
-  console.log(`A user connected: ${socket.id}`);
+  const user = socket.data.user as { id: string; role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer' };
+  console.log(`A user connected: ${socket.id} (user ${user.id})`);
 
-  socket.on('registerUser', (userId: string) => {
-    connectedUsers.set(userId, socket.id);
-    console.log(`User ${userId} registered with socket ${socket.id}. Total connected: ${connectedUsers.size}`);
+  // The user is identified by the handshake token; a client-supplied id is ignored
+  socket.join(getUserRoom(user.id));
+  socket.join(getSessionRoom(socket.data.sessionId));
+  void registerSocket(user.id, socket.id);
+
+  socket.on('registerUser', () => {
+    socket.join(getUserRoom(user.id));
+    void registerSocket(user.id, socket.id);
   });
 
-  socket.on('joinProject', (projectId: string) => {
-    socket.join(projectId);
-    console.log(`User ${socket.id} joined project room: ${projectId}`);
+  socket.on('joinProject', async (projectId: string, ack?: (response: { ok: boolean; message?: string }) => void) => {
+    try {
+      // Only rooms of existing projects may be joined; Admins pass every role check, so any other room name (such as
+      // another user's private room) would otherwise be joinable
+      const project = typeof projectId === 'string' && uuidValidate(projectId)
+        ? await db.Project.findByPk(projectId, { attributes: ['id'] })
+        : null;
+      const projectRole = project ? await getProjectRole(user, projectId) : null;
+      if (!projectRole) {
+        console.warn(`User ${user.id} was refused access to project room: ${projectId}`);
+        ack?.({ ok: false, message: 'Not authorized to view this project.' });
+        return;
+      }
+
+      socket.join(projectId);
+      console.log(`User ${user.id} joined project room: ${projectId}`);
+      ack?.({ ok: true });
+    } catch (error) {
+      console.error('Error joining project room:', error);
+      ack?.({ ok: false, message: 'Server error joining project.' });
+    }
   });
 
   socket.on('leaveProject', (projectId: string) => {
@@ -70,28 +140,44 @@ io.on('connection', (socket) => {
     console.log(`User ${socket.id} left project room: ${projectId}`);
   });
 
-  socket.on('disconnect', () => {
+  socket.on('disconnect', async () => {
     console.log(`User disconnected: ${socket.id}`);
-    for (const [userId, socketId] of connectedUsers.entries()) {
-      if (socketId === socket.id) {
-        connectedUsers.delete(userId);
-        console.log(`User ${userId} unregistered due to disconnect.`);
-        break;
-      }
+    if (await unregisterSocket(user.id, socket.id)) {
+      console.log(`Socket ${socket.id} of user ${user.id} unregistered due to disconnect.`);
     }
   });
 
-  socket.on('unregisterUser', (userId: string) => {
-    if (connectedUsers.get(userId) === socket.id) {
-      connectedUsers.delete(userId);
-      console.log(`User ${userId} explicitly unregistered.`);
+  socket.on('unregisterUser', async () => {
+    if (await unregisterSocket(user.id, socket.id)) {
+      socket.leave(getUserRoom(user.id));
+      console.log(`Socket ${socket.id} of user ${user.id} explicitly unregistered.`);
     }
   });
 });
 
+/**
+ * Pushes the user's current unread notification count to all of their open sockets.
+ */
+export const emitUnreadCount = async (userId: string): Promise<void> => {
+  try {
+    const count = await db.Notification.count({ where: { userId, isRead: false } });
+    io.to(getUserRoom(userId)).emit('unreadCount', { count });
+  } catch (error) {
+    console.error(`Error emitting unread count to user ${userId}:`, error);
+  }
+};
 
+/**
+ * Delivers a freshly created notification to every socket the user has open,
+ * followed by their updated unread count.
+ */
 export const sendNotificationToUser = (userId: string, notification: { id: string; message: string; link?: string; read: boolean; createdAt: string; type?: string }) => {
-    // ... (Your existing sendNotificationToUser logic remains here)
+  // Clients track read state as `isRead`, matching the REST payloads
+  io.to(getUserRoom(userId)).emit('newNotification', { ...notification, isRead: notification.read });
+  getUserSocketCount(userId)
+    .then((socketCount) => console.log(`Delivered notification ${notification.id} to user ${userId} (${socketCount} open sockets).`))
+    .catch(() => console.log(`Delivered notification ${notification.id} to user ${userId}.`));
+  void emitUnreadCount(userId);
 };
 
 // --- ASYNCHRONOUS SERVER STARTUP ---
@@ -117,6 +203,16 @@ const startServer = async () => {
     REDIS_CACHE_TTL = secrets.REDIS_CACHE_TTL;
     console.log(`Global cache TTL set to: ${REDIS_CACHE_TTL} seconds.`);
 
+    // Step 3b: Relay Socket.IO broadcasts between backend instances through Redis pub/sub.
+    // A subscribed connection cannot issue other commands, so the adapter gets its own pair.
+    console.log('Attaching Socket.IO Redis adapter...');
+    const pubClient = initializeRedis(secrets);
+    const subClient = pubClient.duplicate();
+    io.adapter(createAdapter(pubClient, subClient));
+
+    // Step 3c: Check the mail configuration, so a missing driver stops startup rather than the first mail
+    getMailTransport();
+
     // Step 4: Verify database connection and sync models
     await sequelize.authenticate();
     console.log('Database connection has been established successfully.');
@@ -126,6 +222,11 @@ const startServer = async () => {
     await sequelize.sync({ alter: true });
     console.log('All models were synchronized successfully.');
 
+    // Step 4b: Start background jobs
+    startBurndownSnapshotJob();
+    startRecurringTaskJob();
+    startDeadlineReminderJob();
+
     // Step 5: Start the server
     const appPort = secrets.PORT;
     httpServer.listen(appPort, () => {
@@ -0,0 +1,18 @@
+import { startScheduledJob } from './scheduler';
+import { recordAllBurndownSnapshots } from '../utils/burndown';
+
+/**
+ * Starts recording daily burndown snapshots of every project and active sprint.
+ * Today's snapshots are refreshed every hour, so the last run of a day records how it ended
+ * and a restart never costs more than an hour of a day's data.
+ */
+export const startBurndownSnapshotJob = (): void => {
+  startScheduledJob({
+    name: 'burndownSnapshots',
+    intervalSeconds: 60 * 60,
+    run: async () => {
+      await recordAllBurndownSnapshots();
+      console.log('Recorded burndown snapshots.');
+    },
+  });
+};
@@ -0,0 +1,19 @@
+import { startScheduledJob } from './scheduler';
+import { sendDeadlineNotifications } from '../utils/deadlineReminders';
+
+/**
+ * Starts reminding assignees of upcoming deadlines and telling them when one has passed.
+ * Each reminder is recorded on its task, so a run only sends the ones that came due since the last.
+ */
+export const startDeadlineReminderJob = (): void => {
+  startScheduledJob({
+    name: 'deadlineReminders',
+    intervalSeconds: 5 * 60,
+    run: async () => {
+      const sent = await sendDeadlineNotifications();
+      if (sent > 0) {
+        console.log(`Sent ${sent} deadline notifications.`);
+      }
+    },
+  });
+};
@@ -0,0 +1,19 @@
+import { startScheduledJob } from './scheduler';
+import { createDueOccurrences } from '../utils/recurringTasks';
+
+/**
+ * Starts creating the next instances of scheduled recurring tasks. Occurrences are whole days,
+ * so checking every quarter of an hour puts each new instance on the board early on its day.
+ */
+export const startRecurringTaskJob = (): void => {
+  startScheduledJob({
+    name: 'recurringTasks',
+    intervalSeconds: 15 * 60,
+    run: async () => {
+      const created = await createDueOccurrences();
+      if (created > 0) {
+        console.log(`Created ${created} recurring task occurrences.`);
+      }
+    },
+  });
+};
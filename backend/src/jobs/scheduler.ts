@@ -0,0 +1,32 @@
+import { redisClient } from '../index';
+
+interface ScheduledJob {
+  name: string;
+  intervalSeconds: number;
+  run: () => Promise<void>;
+}
+
+/**
+ * Runs a job now and then every `intervalSeconds`. Every backend instance schedules its jobs, so each run
+ * first takes a Redis lock that outlives the others' attempts; whichever instance gets it does that round's work.
+ */
+export const startScheduledJob = ({ name, intervalSeconds, run }: ScheduledJob): void => {
+  const lockKey = `jobs:${name}:lock`;
+  // Held for most of an interval, so late-starting instances skip the round instead of repeating it
+  const lockSeconds = Math.max(1, Math.floor(intervalSeconds * 0.9));
+
+  const runOnce = async (): Promise<void> => {
+    try {
+      const acquired = await redisClient.set(lockKey, String(process.pid), 'EX', lockSeconds, 'NX');
+      if (!acquired) {
+        return;
+      }
+      await run();
+    } catch (error) {
+      console.error(`Error running the ${name} job:`, error);
+    }
+  };
+
+  void runOnce();
+  setInterval(() => void runOnce(), intervalSeconds * 1000);
+};
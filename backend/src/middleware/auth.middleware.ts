@@ -1,44 +1,39 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { Socket, ExtendedError } from 'socket.io';
+import { verifyAccessToken } from '../utils/authTokens';
 
 
 interface CustomRequest extends Request {
   user?: {
     id: string;
     role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+    sessionId?: string;
   };
 }
 
-// Middleware to protect routes (authenticate JWT)
-export const protect = (req: CustomRequest, res: Response, next: NextFunction): void => {
-  let token;
-
+// Middleware to protect routes (authenticate JWT and check that its session has not been revoked)
+export const protect = async (req: CustomRequest, res: Response, next: NextFunction): Promise<void> => {
   if (req.headers.authorization && req.headers.authorization.startsWith('Bearer')) {
     try {
       // Get token from header
-      token = req.headers.authorization.split(' ')[1];
-
-      // Ensure JWT_SECRET is defined
-      if (!process.env.JWT_SECRET) {
-        throw new Error('JWT_SECRET is not defined');
-      }
+      const token = req.headers.authorization.split(' ')[1];
 
-      // Verify token
-      const decoded = jwt.verify(token, process.env.JWT_SECRET) as { id: string; role: string };
+      // Verify token, and that the user has not logged out of its session since it was issued
+      const decoded = await verifyAccessToken(token);
 
-      // Attach user (id and role) to the request object
-      req.user = { id: decoded.id, role: decoded.role as 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer' };
-
-      next(); // Proceed to the next middleware/route handler
+      // Attach user (id, role and session) to the request object
+      req.user = { id: decoded.id, role: decoded.role, sessionId: decoded.sid };
     } catch (error) {
       console.error('Auth middleware error:', error);
       res.status(401).json({ message: 'Not authorized, token failed.' });
+      return;
     }
-  }
 
-  if (!token) {
-    res.status(401).json({ message: 'Not authorized, no token.' });
+    next(); // Proceed to the next middleware/route handler
+    return;
   }
+
+  res.status(401).json({ message: 'Not authorized, no token.' });
 };
 
 // Middleware to restrict access based on roles (RBAC)
@@ -56,4 +51,27 @@ export const authorize = (roles: Array<'Admin' | 'Project Manager' | 'Developer'
       res.status(403).json({ message: 'Not authorized, insufficient role.' });
     }
   };
-};
\ No newline at end of file
+};
+// Socket.IO handshake middleware: authenticates the connection with the same JWT as `protect`
+export const authenticateSocket = async (socket: Socket, next: (err?: ExtendedError) => void): Promise<void> => {
+  const token = socket.handshake.auth?.token;
+
+  if (!token || typeof token !== 'string') {
+    next(new Error('Not authorized, no token.'));
+    return;
+  }
+
+  try {
+    const decoded = await verifyAccessToken(token);
+
+    // The socket's identity comes from the token, never from what the client claims later
+    socket.data.user = { id: decoded.id, role: decoded.role };
+    socket.data.sessionId = decoded.sid;
+  } catch (error) {
+    console.error('Socket auth middleware error:', error);
+    next(new Error('Not authorized, token failed.'));
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,46 @@
+import { DataTypes, Model, Sequelize } from 'sequelize';
+
+interface AppSettingAttributes {
+  key: string;
+  value: unknown; // JSON; see utils/appSettings.ts for the known keys and their defaults
+}
+
+/**
+ * An instance-wide setting controlled by Admins, such as whether anyone may register without an invitation.
+ * Keys without a row fall back to their default.
+ */
+class AppSetting extends Model<AppSettingAttributes> implements AppSettingAttributes {
+  public key!: string;
+  public value!: unknown;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+/**
+ * Exports a function that defines the AppSetting model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized AppSetting model.
+ */
+export default (sequelize: Sequelize): typeof AppSetting => {
+  AppSetting.init(
+    {
+      key: {
+        type: DataTypes.STRING(100),
+        primaryKey: true,
+        allowNull: false,
+      },
+      value: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'app_settings',
+      timestamps: true,
+    }
+  );
+
+  return AppSetting;
+};
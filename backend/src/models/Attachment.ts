@@ -0,0 +1,94 @@
+import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
+
+interface AttachmentAttributes {
+  id: string;
+  taskId: string;
+  uploadedBy: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  storageKey: string;
+}
+
+interface AttachmentCreationAttributes extends Optional<AttachmentAttributes, 'id'> {}
+
+class Attachment extends Model<AttachmentAttributes, AttachmentCreationAttributes> implements AttachmentAttributes {
+  public id!: string;
+  public taskId!: string;
+  public uploadedBy!: string;
+  public fileName!: string;
+  public mimeType!: string;
+  public size!: number;
+  public storageKey!: string;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Helper method for defining associations.
+   */
+  public static associate(models: any) {
+    // An Attachment belongs to one Task and was uploaded by one User.
+    Attachment.belongsTo(models.Task, { foreignKey: 'taskId', as: 'task' });
+    Attachment.belongsTo(models.User, { foreignKey: 'uploadedBy', as: 'uploader' });
+  }
+}
+
+/**
+ * Exports a function that defines the Attachment model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized Attachment model.
+ */
+export default (sequelize: Sequelize): typeof Attachment => {
+  Attachment.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      taskId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'tasks', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      uploadedBy: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'users', // Table name as a string
+          key: 'id',
+        },
+      },
+      fileName: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      mimeType: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      size: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      storageKey: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        unique: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'attachments',
+      timestamps: true,
+    }
+  );
+
+  return Attachment;
+};
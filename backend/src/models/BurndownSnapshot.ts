@@ -0,0 +1,110 @@
+import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
+
+interface BurndownSnapshotAttributes {
+  id: string;
+  projectId: string;
+  sprintId?: string | null; // No sprint means the snapshot covers the whole project
+  date: string;
+  remainingEstimate: number;
+  completedEstimate: number;
+  remainingTasks: number;
+  completedTasks: number;
+}
+
+interface BurndownSnapshotCreationAttributes extends Optional<BurndownSnapshotAttributes, 'id' | 'sprintId'> {}
+
+/**
+ * The work left in a project, or in one of its sprints, at the end of a day.
+ * One snapshot is kept per project/sprint and day; the burndown chart is the series of them.
+ */
+class BurndownSnapshot extends Model<BurndownSnapshotAttributes, BurndownSnapshotCreationAttributes> implements BurndownSnapshotAttributes {
+  public id!: string;
+  public projectId!: string;
+  public sprintId?: string | null;
+  public date!: string;
+  public remainingEstimate!: number;
+  public completedEstimate!: number;
+  public remainingTasks!: number;
+  public completedTasks!: number;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Helper method for defining associations.
+   */
+  public static associate(models: any) {
+    BurndownSnapshot.belongsTo(models.Project, { foreignKey: 'projectId', as: 'project' });
+    BurndownSnapshot.belongsTo(models.Sprint, { foreignKey: 'sprintId', as: 'sprint' });
+  }
+}
+
+/**
+ * Exports a function that defines the BurndownSnapshot model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized BurndownSnapshot model.
+ */
+export default (sequelize: Sequelize): typeof BurndownSnapshot => {
+  BurndownSnapshot.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      projectId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'projects', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      sprintId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+          model: 'sprints', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      date: {
+        type: DataTypes.DATEONLY,
+        allowNull: false,
+      },
+      remainingEstimate: {
+        type: DataTypes.FLOAT,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      completedEstimate: {
+        type: DataTypes.FLOAT,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      remainingTasks: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      completedTasks: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'burndown_snapshots',
+      timestamps: true,
+      indexes: [
+        { fields: ['projectId', 'sprintId', 'date'] },
+      ],
+    }
+  );
+
+  return BurndownSnapshot;
+};
@@ -0,0 +1,94 @@
+import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
+
+interface ChecklistItemAttributes {
+  id: string;
+  taskId: string;
+  text: string;
+  done: boolean;
+  assigneeId?: string | null;
+  rank: string; // Position within the task's checklist (see utils/checklists.ts)
+}
+
+interface ChecklistItemCreationAttributes extends Optional<ChecklistItemAttributes, 'id' | 'done' | 'assigneeId'> {}
+
+/**
+ * One step of a Task's checklist: lighter than a subtask, with just a text, a done flag and an optional assignee.
+ */
+class ChecklistItem extends Model<ChecklistItemAttributes, ChecklistItemCreationAttributes> implements ChecklistItemAttributes {
+  public id!: string;
+  public taskId!: string;
+  public text!: string;
+  public done!: boolean;
+  public assigneeId?: string | null;
+  public rank!: string;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Helper method for defining associations.
+   */
+  public static associate(models: any) {
+    ChecklistItem.belongsTo(models.Task, { foreignKey: 'taskId', as: 'task' });
+    ChecklistItem.belongsTo(models.User, { foreignKey: 'assigneeId', as: 'assignee' });
+  }
+}
+
+/**
+ * Exports a function that defines the ChecklistItem model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized ChecklistItem model.
+ */
+export default (sequelize: Sequelize): typeof ChecklistItem => {
+  ChecklistItem.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      taskId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'tasks', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      text: {
+        type: DataTypes.STRING(500),
+        allowNull: false,
+      },
+      done: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+      assigneeId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+          model: 'users', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      rank: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'checklist_items',
+      timestamps: true,
+      indexes: [
+        { fields: ['taskId', 'rank'] },
+      ],
+    }
+  );
+
+  return ChecklistItem;
+};
@@ -0,0 +1,95 @@
+import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
+
+interface CommentAttributes {
+  id: string;
+  taskId: string;
+  authorId: string;
+  body: string;
+  parentCommentId?: string | null;
+  editedAt?: Date | null;
+}
+
+interface CommentCreationAttributes extends Optional<CommentAttributes, 'id' | 'parentCommentId' | 'editedAt'> {}
+
+class Comment extends Model<CommentAttributes, CommentCreationAttributes> implements CommentAttributes {
+  public id!: string;
+  public taskId!: string;
+  public authorId!: string;
+  public body!: string;
+  public parentCommentId?: string | null;
+  public editedAt?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Helper method for defining associations.
+   */
+  public static associate(models: any) {
+    // A Comment belongs to one Task and is written by one User.
+    Comment.belongsTo(models.Task, { foreignKey: 'taskId', as: 'task' });
+    Comment.belongsTo(models.User, { foreignKey: 'authorId', as: 'author' });
+    // A Comment can be a reply to another Comment, forming a thread.
+    Comment.belongsTo(models.Comment, { foreignKey: 'parentCommentId', as: 'parentComment' });
+    Comment.hasMany(models.Comment, { foreignKey: 'parentCommentId', as: 'replies', onDelete: 'CASCADE' });
+  }
+}
+
+/**
+ * Exports a function that defines the Comment model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized Comment model.
+ */
+export default (sequelize: Sequelize): typeof Comment => {
+  Comment.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      taskId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'tasks', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      authorId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'users', // Table name as a string
+          key: 'id',
+        },
+      },
+      body: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+      },
+      parentCommentId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+          model: 'comments', // Self-reference for threaded replies
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      editedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'comments',
+      timestamps: true,
+    }
+  );
+
+  return Comment;
+};
@@ -0,0 +1,111 @@
+import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
+
+interface InvitationAttributes {
+  id: string;
+  email: string;
+  role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  tokenHash: string; // SHA-256 of the token sent to the invitee; the token itself is never stored
+  invitedBy?: string | null;
+  expiresAt: Date;
+  acceptedAt?: Date | null;
+  acceptedBy?: string | null; // The user who registered with the invitation
+}
+
+interface InvitationCreationAttributes extends Optional<InvitationAttributes, 'id' | 'invitedBy' | 'acceptedAt' | 'acceptedBy'> {}
+
+/**
+ * An invitation to register with a given role, created by an Admin or Project Manager.
+ * Its token can be used once, before it expires.
+ */
+class Invitation extends Model<InvitationAttributes, InvitationCreationAttributes> implements InvitationAttributes {
+  public id!: string;
+  public email!: string;
+  public role!: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  public tokenHash!: string;
+  public invitedBy?: string | null;
+  public expiresAt!: Date;
+  public acceptedAt?: Date | null;
+  public acceptedBy?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Helper method for defining associations.
+   */
+  public static associate(models: any) {
+    Invitation.belongsTo(models.User, { foreignKey: 'invitedBy', as: 'inviter' });
+    Invitation.belongsTo(models.User, { foreignKey: 'acceptedBy', as: 'invitee' });
+  }
+}
+
+/**
+ * Exports a function that defines the Invitation model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized Invitation model.
+ */
+export default (sequelize: Sequelize): typeof Invitation => {
+  Invitation.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      email: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        validate: {
+          isEmail: true,
+        },
+      },
+      role: {
+        type: DataTypes.ENUM('Admin', 'Project Manager', 'Developer', 'Tester', 'Viewer'),
+        allowNull: false,
+        defaultValue: 'Viewer',
+      },
+      tokenHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true,
+      },
+      invitedBy: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+          model: 'users', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      acceptedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      acceptedBy: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+          model: 'users', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+    },
+    {
+      sequelize,
+      tableName: 'invitations',
+      timestamps: true,
+      indexes: [
+        { fields: ['email'] },
+      ],
+    }
+  );
+
+  return Invitation;
+};
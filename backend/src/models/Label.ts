@@ -0,0 +1,80 @@
+import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
+
+interface LabelAttributes {
+  id: string;
+  projectId: string;
+  name: string;
+  color: string;
+}
+
+interface LabelCreationAttributes extends Optional<LabelAttributes, 'id' | 'color'> {}
+
+/**
+ * A project-scoped tag that can be put on any number of the project's tasks.
+ */
+class Label extends Model<LabelAttributes, LabelCreationAttributes> implements LabelAttributes {
+  public id!: string;
+  public projectId!: string;
+  public name!: string;
+  public color!: string;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Helper method for defining associations.
+   */
+  public static associate(models: any) {
+    Label.belongsTo(models.Project, { foreignKey: 'projectId', as: 'project' });
+    Label.belongsToMany(models.Task, { through: models.TaskLabel, foreignKey: 'labelId', otherKey: 'taskId', as: 'tasks' });
+  }
+}
+
+/**
+ * Exports a function that defines the Label model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized Label model.
+ */
+export default (sequelize: Sequelize): typeof Label => {
+  Label.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      projectId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'projects', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      name: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+      },
+      color: {
+        type: DataTypes.STRING(7),
+        allowNull: false,
+        defaultValue: '#64748b',
+        validate: {
+          is: /^#[0-9a-fA-F]{6}$/,
+        },
+      },
+    },
+    {
+      sequelize,
+      tableName: 'labels',
+      timestamps: true,
+      indexes: [
+        { unique: true, fields: ['projectId', 'name'] },
+      ],
+    }
+  );
+
+  return Label;
+};
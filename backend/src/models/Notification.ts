@@ -1,10 +1,19 @@
 import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
 
+export type NotificationType =
+  | 'task_assigned'
+  | 'task_updated'
+  | 'project_assigned'
+  | 'mention'
+  | 'deadline_reminder'
+  | 'task_overdue'
+  | 'general';
+
 interface NotificationAttributes {
   id: string;
   userId: string;
   message: string;
-  type: 'task_assigned' | 'task_updated' | 'project_assigned' | 'general';
+  type: NotificationType;
   itemId?: string;
   link?: string;
   isRead: boolean;
@@ -16,7 +25,7 @@ class Notification extends Model<NotificationAttributes, NotificationCreationAtt
   public id!: string;
   public userId!: string;
   public message!: string;
-  public type!: 'task_assigned' | 'task_updated' | 'project_assigned' | 'general';
+  public type!: NotificationType;
   public itemId?: string;
   public link?: string;
   public isRead!: boolean;
@@ -60,7 +69,7 @@ export default (sequelize: Sequelize): typeof Notification => {
         allowNull: false,
       },
       type: {
-        type: DataTypes.ENUM('task_assigned', 'task_updated', 'project_assigned', 'general'),
+        type: DataTypes.ENUM('task_assigned', 'task_updated', 'project_assigned', 'mention', 'deadline_reminder', 'task_overdue', 'general'),
         defaultValue: 'general',
         allowNull: false,
       },
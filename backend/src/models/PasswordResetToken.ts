@@ -0,0 +1,82 @@
+import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
+
+interface PasswordResetTokenAttributes {
+  id: string;
+  userId: string;
+  tokenHash: string; // SHA-256 of the token mailed to the user; the token itself is never stored
+  expiresAt: Date;
+  usedAt?: Date | null;
+}
+
+interface PasswordResetTokenCreationAttributes extends Optional<PasswordResetTokenAttributes, 'id' | 'usedAt'> {}
+
+/**
+ * A link for a User who forgot their password to choose a new one. It can be used once, before it expires.
+ */
+class PasswordResetToken extends Model<PasswordResetTokenAttributes, PasswordResetTokenCreationAttributes> implements PasswordResetTokenAttributes {
+  public id!: string;
+  public userId!: string;
+  public tokenHash!: string;
+  public expiresAt!: Date;
+  public usedAt?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Helper method for defining associations.
+   */
+  public static associate(models: any) {
+    PasswordResetToken.belongsTo(models.User, { foreignKey: 'userId', as: 'user' });
+  }
+}
+
+/**
+ * Exports a function that defines the PasswordResetToken model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized PasswordResetToken model.
+ */
+export default (sequelize: Sequelize): typeof PasswordResetToken => {
+  PasswordResetToken.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'users', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      tokenHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true,
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      usedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'password_reset_tokens',
+      timestamps: true,
+      indexes: [
+        { fields: ['userId'] },
+      ],
+    }
+  );
+
+  return PasswordResetToken;
+};
@@ -1,5 +1,8 @@
 import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
 
+// What task estimates in a project are measured in
+export type EstimateUnit = 'points' | 'hours';
+
 // Keep the interfaces for type safety
 interface ProjectAttributes {
   id: string;
@@ -7,9 +10,10 @@ interface ProjectAttributes {
   description?: string;
   status: 'Not Started' | 'In Progress' | 'Completed' | 'On Hold' | 'Cancelled';
   createdBy: string;
+  estimateUnit: EstimateUnit;
 }
 
-interface ProjectCreationAttributes extends Optional<ProjectAttributes, 'id' | 'description' | 'status'> {}
+interface ProjectCreationAttributes extends Optional<ProjectAttributes, 'id' | 'description' | 'status' | 'estimateUnit'> {}
 
 // The class definition itself remains the same
 class Project extends Model<ProjectAttributes, ProjectCreationAttributes> implements ProjectAttributes {
@@ -18,6 +22,7 @@ class Project extends Model<ProjectAttributes, ProjectCreationAttributes> implem
   public description?: string;
   public status!: 'Not Started' | 'In Progress' | 'Completed' | 'On Hold' | 'Cancelled';
   public createdBy!: string;
+  public estimateUnit!: EstimateUnit;
 
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
@@ -32,6 +37,16 @@ class Project extends Model<ProjectAttributes, ProjectCreationAttributes> implem
     Project.belongsTo(models.User, { foreignKey: 'createdBy', as: 'creator' });
     // A Project can have many Tasks.
     Project.hasMany(models.Task, { foreignKey: 'projectId', as: 'tasks' });
+    // A Project has many memberships, each granting a User a project-level role.
+    Project.hasMany(models.ProjectMember, { foreignKey: 'projectId', as: 'memberships', onDelete: 'CASCADE' });
+    // A Project defines its own set of Labels for its Tasks.
+    Project.hasMany(models.Label, { foreignKey: 'projectId', as: 'labels', onDelete: 'CASCADE' });
+    // A Project may define its own Workflow; otherwise the default statuses apply.
+    Project.hasOne(models.ProjectWorkflow, { foreignKey: 'projectId', as: 'workflow', onDelete: 'CASCADE' });
+    // A Project's burndown is built from daily snapshots of its remaining work.
+    Project.hasMany(models.BurndownSnapshot, { foreignKey: 'projectId', as: 'burndownSnapshots', onDelete: 'CASCADE' });
+    // A Project plans its work in Sprints.
+    Project.hasMany(models.Sprint, { foreignKey: 'projectId', as: 'sprints', onDelete: 'CASCADE' });
   }
 }
 
@@ -72,6 +87,11 @@ export default (sequelize: Sequelize): typeof Project => {
           key: 'id',
         },
       },
+      estimateUnit: {
+        type: DataTypes.ENUM('points', 'hours'),
+        allowNull: false,
+        defaultValue: 'points',
+      },
     },
     {
       sequelize,      // We use the passed-in sequelize instance
@@ -0,0 +1,83 @@
+import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
+
+export type ProjectRole = 'Owner' | 'Maintainer' | 'Contributor' | 'Observer';
+
+interface ProjectMemberAttributes {
+  id: string;
+  projectId: string;
+  userId: string;
+  role: ProjectRole;
+}
+
+interface ProjectMemberCreationAttributes extends Optional<ProjectMemberAttributes, 'id' | 'role'> {}
+
+class ProjectMember extends Model<ProjectMemberAttributes, ProjectMemberCreationAttributes> implements ProjectMemberAttributes {
+  public id!: string;
+  public projectId!: string;
+  public userId!: string;
+  public role!: ProjectRole;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Helper method for defining associations.
+   */
+  public static associate(models: any) {
+    // A membership links one User to one Project.
+    ProjectMember.belongsTo(models.Project, { foreignKey: 'projectId', as: 'project' });
+    ProjectMember.belongsTo(models.User, { foreignKey: 'userId', as: 'user' });
+  }
+}
+
+/**
+ * Exports a function that defines the ProjectMember model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized ProjectMember model.
+ */
+export default (sequelize: Sequelize): typeof ProjectMember => {
+  ProjectMember.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      projectId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'projects', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'users', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      role: {
+        type: DataTypes.ENUM('Owner', 'Maintainer', 'Contributor', 'Observer'),
+        allowNull: false,
+        defaultValue: 'Contributor',
+      },
+    },
+    {
+      sequelize,
+      tableName: 'project_members',
+      timestamps: true,
+      indexes: [
+        // A user can hold only one role per project.
+        { unique: true, fields: ['projectId', 'userId'] },
+      ],
+    }
+  );
+
+  return ProjectMember;
+};
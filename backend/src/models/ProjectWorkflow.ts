@@ -0,0 +1,101 @@
+import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
+import { ProjectRole } from './ProjectMember';
+
+export interface WorkflowStatus {
+  name: string;
+  // Terminal statuses mean the work is finished (e.g. Done, Won't Fix)
+  terminal: boolean;
+  // Most tasks the status may hold at once; no limit when omitted
+  wipLimit?: number | null;
+}
+
+// Whether a full column rejects further tasks ('hard') or only warns about them ('soft')
+export type WipLimitMode = 'soft' | 'hard';
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  // Project roles allowed to perform the transition; any role that can edit the task when omitted
+  roles?: ProjectRole[];
+}
+
+interface ProjectWorkflowAttributes {
+  id: string;
+  projectId: string;
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[] | null;
+  wipLimitMode: WipLimitMode;
+}
+
+interface ProjectWorkflowCreationAttributes extends Optional<ProjectWorkflowAttributes, 'id' | 'transitions' | 'wipLimitMode'> {}
+
+/**
+ * The board of a project: its ordered statuses and, optionally, the only transitions allowed
+ * between them. A null `transitions` list means tasks may move freely between statuses.
+ * Statuses may carry a work-in-progress limit, enforced according to `wipLimitMode`.
+ */
+class ProjectWorkflow extends Model<ProjectWorkflowAttributes, ProjectWorkflowCreationAttributes> implements ProjectWorkflowAttributes {
+  public id!: string;
+  public projectId!: string;
+  public statuses!: WorkflowStatus[];
+  public transitions!: WorkflowTransition[] | null;
+  public wipLimitMode!: WipLimitMode;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Helper method for defining associations.
+   */
+  public static associate(models: any) {
+    ProjectWorkflow.belongsTo(models.Project, { foreignKey: 'projectId', as: 'project' });
+  }
+}
+
+/**
+ * Exports a function that defines the ProjectWorkflow model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized ProjectWorkflow model.
+ */
+export default (sequelize: Sequelize): typeof ProjectWorkflow => {
+  ProjectWorkflow.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      projectId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        unique: true,
+        references: {
+          model: 'projects', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      statuses: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+      transitions: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      wipLimitMode: {
+        type: DataTypes.ENUM('soft', 'hard'),
+        allowNull: false,
+        defaultValue: 'soft',
+      },
+    },
+    {
+      sequelize,
+      tableName: 'project_workflows',
+      timestamps: true,
+    }
+  );
+
+  return ProjectWorkflow;
+};
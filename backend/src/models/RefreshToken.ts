@@ -0,0 +1,96 @@
+import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
+
+interface RefreshTokenAttributes {
+  id: string;
+  userId: string;
+  tokenHash: string; // SHA-256 of the token handed to the client; the token itself is never stored
+  familyId: string; // Shared by every token rotated from the same login, i.e. one session
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  replacedById?: string | null; // The token this one was rotated into
+}
+
+interface RefreshTokenCreationAttributes extends Optional<RefreshTokenAttributes, 'id' | 'revokedAt' | 'replacedById'> {}
+
+/**
+ * A refresh token issued to a User, exchanged for a new access token (and a new refresh token) once the old access token expires.
+ * Each token can be used once; presenting a revoked token again revokes its whole family.
+ */
+class RefreshToken extends Model<RefreshTokenAttributes, RefreshTokenCreationAttributes> implements RefreshTokenAttributes {
+  public id!: string;
+  public userId!: string;
+  public tokenHash!: string;
+  public familyId!: string;
+  public expiresAt!: Date;
+  public revokedAt?: Date | null;
+  public replacedById?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Helper method for defining associations.
+   */
+  public static associate(models: any) {
+    RefreshToken.belongsTo(models.User, { foreignKey: 'userId', as: 'user' });
+  }
+}
+
+/**
+ * Exports a function that defines the RefreshToken model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized RefreshToken model.
+ */
+export default (sequelize: Sequelize): typeof RefreshToken => {
+  RefreshToken.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'users', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      tokenHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true,
+      },
+      familyId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      revokedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      replacedById: {
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'refresh_tokens',
+      timestamps: true,
+      indexes: [
+        { fields: ['familyId'] },
+        { fields: ['userId'] },
+      ],
+    }
+  );
+
+  return RefreshToken;
+};
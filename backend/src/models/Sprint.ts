@@ -0,0 +1,96 @@
+import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
+
+export type SprintState = 'planned' | 'active' | 'closed';
+
+interface SprintAttributes {
+  id: string;
+  projectId: string;
+  name: string;
+  goal?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  state: SprintState;
+}
+
+interface SprintCreationAttributes extends Optional<SprintAttributes, 'id' | 'goal' | 'startDate' | 'endDate' | 'state'> {}
+
+/**
+ * A time-boxed iteration of a project. Tasks without a sprint make up the project's backlog,
+ * and a project has at most one active sprint at a time.
+ */
+class Sprint extends Model<SprintAttributes, SprintCreationAttributes> implements SprintAttributes {
+  public id!: string;
+  public projectId!: string;
+  public name!: string;
+  public goal?: string | null;
+  public startDate?: string | null;
+  public endDate?: string | null;
+  public state!: SprintState;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Helper method for defining associations.
+   */
+  public static associate(models: any) {
+    Sprint.belongsTo(models.Project, { foreignKey: 'projectId', as: 'project' });
+    Sprint.hasMany(models.Task, { foreignKey: 'sprintId', as: 'tasks' });
+    Sprint.hasMany(models.BurndownSnapshot, { foreignKey: 'sprintId', as: 'burndownSnapshots', onDelete: 'CASCADE' });
+  }
+}
+
+/**
+ * Exports a function that defines the Sprint model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized Sprint model.
+ */
+export default (sequelize: Sequelize): typeof Sprint => {
+  Sprint.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      projectId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'projects', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      name: {
+        type: DataTypes.STRING(100),
+        allowNull: false,
+      },
+      goal: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      startDate: {
+        type: DataTypes.DATEONLY,
+        allowNull: true,
+      },
+      endDate: {
+        type: DataTypes.DATEONLY,
+        allowNull: true,
+      },
+      state: {
+        type: DataTypes.ENUM('planned', 'active', 'closed'),
+        allowNull: false,
+        defaultValue: 'planned',
+      },
+    },
+    {
+      sequelize,
+      tableName: 'sprints',
+      timestamps: true,
+    }
+  );
+
+  return Sprint;
+};
@@ -1,29 +1,51 @@
 import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
 
+export type RecurrenceTrigger = 'completion' | 'schedule';
+
 interface TaskAttributes {
   id: string;
   title: string;
   description?: string;
-  status: 'To Do' | 'In Progress' | 'Done' | 'Blocked';
+  status: string; // One of the statuses of the project's workflow
   priority: 'Low' | 'Medium' | 'High';
   deadline?: Date;
   projectId: string;
   assignedTo?: string;
   reportedBy: string;
+  parentTaskId?: string | null;
+  rank?: string | null; // Position within its board column (see utils/taskRanking.ts)
+  sprintId?: string | null; // No sprint means the task is in the project's backlog
+  estimate?: number | null; // In the project's estimate unit (story points or hours)
+  recurrenceRule?: string | null; // Normalized RRULE subset (see utils/recurrence.ts), carried by the series' latest instance
+  recurrenceTrigger?: RecurrenceTrigger | null;
+  recurrenceSeriesId?: string | null; // The first task of the series this one was created from
+  nextOccurrenceAt?: Date | null; // When a scheduled series creates its next instance
+  deadlineReminderSentFor?: Date | null; // The deadline the assignee was last reminded of (see utils/deadlineReminders.ts)
+  overdueNotifiedFor?: Date | null; // The deadline the assignee was last told had passed
 }
 
-interface TaskCreationAttributes extends Optional<TaskAttributes, 'id' | 'description' | 'status' | 'priority' | 'deadline' | 'assignedTo'> {}
+interface TaskCreationAttributes extends Optional<TaskAttributes, 'id' | 'description' | 'status' | 'priority' | 'deadline' | 'assignedTo' | 'parentTaskId' | 'rank' | 'sprintId' | 'estimate' | 'recurrenceRule' | 'recurrenceTrigger' | 'recurrenceSeriesId' | 'nextOccurrenceAt' | 'deadlineReminderSentFor' | 'overdueNotifiedFor'> {}
 
 class Task extends Model<TaskAttributes, TaskCreationAttributes> implements TaskAttributes {
   public id!: string;
   public title!: string;
   public description?: string;
-  public status!: 'To Do' | 'In Progress' | 'Done' | 'Blocked';
+  public status!: string;
   public priority!: 'Low' | 'Medium' | 'High';
   public deadline?: Date;
   public projectId!: string;
   public assignedTo?: string;
   public reportedBy!: string;
+  public parentTaskId?: string | null;
+  public rank?: string | null;
+  public sprintId?: string | null;
+  public estimate?: number | null;
+  public recurrenceRule?: string | null;
+  public recurrenceTrigger?: RecurrenceTrigger | null;
+  public recurrenceSeriesId?: string | null;
+  public nextOccurrenceAt?: Date | null;
+  public deadlineReminderSentFor?: Date | null;
+  public overdueNotifiedFor?: Date | null;
 
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
@@ -38,6 +60,26 @@ class Task extends Model<TaskAttributes, TaskCreationAttributes> implements Task
     Task.belongsTo(models.User, { foreignKey: 'assignedTo', as: 'assignee' });
     // A Task is reported by one User.
     Task.belongsTo(models.User, { foreignKey: 'reportedBy', as: 'reporter' });
+    // A Task can be a subtask of another Task in the same project.
+    Task.belongsTo(models.Task, { foreignKey: 'parentTaskId', as: 'parentTask' });
+    Task.hasMany(models.Task, { foreignKey: 'parentTaskId', as: 'subtasks', onDelete: 'CASCADE' });
+    // Dependencies: tasks this one blocks, and tasks blocking this one.
+    Task.hasMany(models.TaskDependency, { foreignKey: 'blockerTaskId', as: 'blocking', onDelete: 'CASCADE' });
+    Task.hasMany(models.TaskDependency, { foreignKey: 'blockedTaskId', as: 'blockedBy', onDelete: 'CASCADE' });
+    // A Task can have many Comments.
+    Task.hasMany(models.Comment, { foreignKey: 'taskId', as: 'comments', onDelete: 'CASCADE' });
+    // A Task can have many file Attachments.
+    Task.hasMany(models.Attachment, { foreignKey: 'taskId', as: 'attachments', onDelete: 'CASCADE' });
+    // A Task can carry many Labels of its project, and a Label can be on many Tasks.
+    Task.belongsToMany(models.Label, { through: models.TaskLabel, foreignKey: 'taskId', otherKey: 'labelId', as: 'labels' });
+    // A Task can be scheduled into one Sprint of its project.
+    Task.belongsTo(models.Sprint, { foreignKey: 'sprintId', as: 'sprint' });
+    // Time spent on a Task is recorded in Worklogs.
+    Task.hasMany(models.Worklog, { foreignKey: 'taskId', as: 'worklogs', onDelete: 'CASCADE' });
+    // Users can watch a Task to be notified of its changes.
+    Task.belongsToMany(models.User, { through: models.TaskWatcher, foreignKey: 'taskId', otherKey: 'userId', as: 'watchers' });
+    // A Task can have an ordered checklist of small steps.
+    Task.hasMany(models.ChecklistItem, { foreignKey: 'taskId', as: 'checklistItems', onDelete: 'CASCADE' });
   }
 }
 
@@ -64,7 +106,8 @@ export default (sequelize: Sequelize): typeof Task => {
         allowNull: true,
       },
       status: {
-        type: DataTypes.ENUM('To Do', 'In Progress', 'Done', 'Blocked'),
+        // Free-form so projects can define their own workflows (see utils/workflows.ts)
+        type: DataTypes.STRING(50),
         allowNull: false,
         defaultValue: 'To Do',
       },
@@ -101,6 +144,60 @@ export default (sequelize: Sequelize): typeof Task => {
           key: 'id',
         },
       },
+      parentTaskId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+          model: 'tasks', // Self-reference for subtasks
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      sprintId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+          model: 'sprints', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'SET NULL', // Deleting a sprint returns its tasks to the backlog
+      },
+      estimate: {
+        type: DataTypes.FLOAT,
+        allowNull: true,
+      },
+      recurrenceRule: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      recurrenceTrigger: {
+        // 'completion' creates the next instance when this one is finished, 'schedule' on its next occurrence
+        type: DataTypes.ENUM('completion', 'schedule'),
+        allowNull: true,
+      },
+      recurrenceSeriesId: {
+        // Not a foreign key, so deleting the first task does not take the rest of the series with it
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+      nextOccurrenceAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      deadlineReminderSentFor: {
+        // Compared with the current deadline, so moving the deadline re-arms its reminders
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      overdueNotifiedFor: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      rank: {
+        // Tasks created before manual ordering existed have no rank and sort last until their column is ranked
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
     },
     {
       sequelize,
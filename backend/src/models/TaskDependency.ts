@@ -0,0 +1,86 @@
+import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
+
+interface TaskDependencyAttributes {
+  id: string;
+  blockerTaskId: string;
+  blockedTaskId: string;
+  createdBy: string;
+}
+
+interface TaskDependencyCreationAttributes extends Optional<TaskDependencyAttributes, 'id'> {}
+
+/**
+ * A directed "blocks" edge: the blocker task must be done before the blocked task can proceed.
+ */
+class TaskDependency extends Model<TaskDependencyAttributes, TaskDependencyCreationAttributes> implements TaskDependencyAttributes {
+  public id!: string;
+  public blockerTaskId!: string;
+  public blockedTaskId!: string;
+  public createdBy!: string;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Helper method for defining associations.
+   */
+  public static associate(models: any) {
+    TaskDependency.belongsTo(models.Task, { foreignKey: 'blockerTaskId', as: 'blockerTask' });
+    TaskDependency.belongsTo(models.Task, { foreignKey: 'blockedTaskId', as: 'blockedTask' });
+    TaskDependency.belongsTo(models.User, { foreignKey: 'createdBy', as: 'creator' });
+  }
+}
+
+/**
+ * Exports a function that defines the TaskDependency model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized TaskDependency model.
+ */
+export default (sequelize: Sequelize): typeof TaskDependency => {
+  TaskDependency.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      blockerTaskId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'tasks', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      blockedTaskId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'tasks', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      createdBy: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'users', // Table name as a string
+          key: 'id',
+        },
+      },
+    },
+    {
+      sequelize,
+      tableName: 'task_dependencies',
+      timestamps: true,
+      indexes: [
+        { unique: true, fields: ['blockerTaskId', 'blockedTaskId'] },
+      ],
+    }
+  );
+
+  return TaskDependency;
+};
@@ -0,0 +1,118 @@
+import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
+
+export type TaskEventAction = 'created' | 'updated' | 'deleted';
+export type TaskEventEntity = 'task' | 'project';
+
+interface TaskEventAttributes {
+  id: string;
+  entityType: TaskEventEntity;
+  taskId?: string | null;
+  projectId: string;
+  actorId?: string | null;
+  action: TaskEventAction;
+  field?: string | null;
+  oldValue?: string | null;
+  newValue?: string | null;
+}
+
+interface TaskEventCreationAttributes extends Optional<TaskEventAttributes, 'id' | 'taskId' | 'actorId' | 'field' | 'oldValue' | 'newValue'> {}
+
+class TaskEvent extends Model<TaskEventAttributes, TaskEventCreationAttributes> implements TaskEventAttributes {
+  public id!: string;
+  public entityType!: TaskEventEntity;
+  public taskId?: string | null;
+  public projectId!: string;
+  public actorId?: string | null;
+  public action!: TaskEventAction;
+  public field?: string | null;
+  public oldValue?: string | null;
+  public newValue?: string | null;
+
+  public readonly createdAt!: Date;
+
+  /**
+   * Helper method for defining associations.
+   */
+  public static associate(models: any) {
+    // The User who made the change. Events outlive their tasks, so there is no association to Task.
+    TaskEvent.belongsTo(models.User, { foreignKey: 'actorId', as: 'actor' });
+  }
+}
+
+const rejectChange = () => {
+  throw new Error('Task events are immutable.');
+};
+
+/**
+ * Exports a function that defines the TaskEvent model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized TaskEvent model.
+ */
+export default (sequelize: Sequelize): typeof TaskEvent => {
+  TaskEvent.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      entityType: {
+        type: DataTypes.ENUM('task', 'project'),
+        allowNull: false,
+      },
+      // No foreign keys to tasks/projects: the history must survive their deletion
+      taskId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+      projectId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+      actorId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+          model: 'users', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      action: {
+        type: DataTypes.ENUM('created', 'updated', 'deleted'),
+        allowNull: false,
+      },
+      field: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      oldValue: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      newValue: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'task_events',
+      timestamps: true,
+      updatedAt: false, // Events are written once and never changed
+      indexes: [
+        { fields: ['taskId'] },
+        { fields: ['projectId'] },
+      ],
+      hooks: {
+        beforeUpdate: rejectChange,
+        beforeBulkUpdate: rejectChange,
+        beforeDestroy: rejectChange,
+        beforeBulkDestroy: rejectChange,
+      },
+    }
+  );
+
+  return TaskEvent;
+};
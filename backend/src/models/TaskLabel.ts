@@ -0,0 +1,53 @@
+import { DataTypes, Model, Sequelize } from 'sequelize';
+
+interface TaskLabelAttributes {
+  taskId: string;
+  labelId: string;
+}
+
+/**
+ * Join table between tasks and labels.
+ */
+class TaskLabel extends Model<TaskLabelAttributes> implements TaskLabelAttributes {
+  public taskId!: string;
+  public labelId!: string;
+}
+
+/**
+ * Exports a function that defines the TaskLabel model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized TaskLabel model.
+ */
+export default (sequelize: Sequelize): typeof TaskLabel => {
+  TaskLabel.init(
+    {
+      taskId: {
+        type: DataTypes.UUID,
+        primaryKey: true,
+        allowNull: false,
+        references: {
+          model: 'tasks', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      labelId: {
+        type: DataTypes.UUID,
+        primaryKey: true,
+        allowNull: false,
+        references: {
+          model: 'labels', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+    },
+    {
+      sequelize,
+      tableName: 'task_labels',
+      timestamps: false,
+    }
+  );
+
+  return TaskLabel;
+};
@@ -0,0 +1,57 @@
+import { DataTypes, Model, Sequelize } from 'sequelize';
+
+interface TaskWatcherAttributes {
+  taskId: string;
+  userId: string;
+}
+
+/**
+ * Join table between tasks and the users following them. Watchers hear about status changes,
+ * reassignments and comments on the task (see utils/taskWatchers.ts).
+ */
+class TaskWatcher extends Model<TaskWatcherAttributes> implements TaskWatcherAttributes {
+  public taskId!: string;
+  public userId!: string;
+
+  public readonly createdAt!: Date;
+}
+
+/**
+ * Exports a function that defines the TaskWatcher model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized TaskWatcher model.
+ */
+export default (sequelize: Sequelize): typeof TaskWatcher => {
+  TaskWatcher.init(
+    {
+      taskId: {
+        type: DataTypes.UUID,
+        primaryKey: true,
+        allowNull: false,
+        references: {
+          model: 'tasks', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      userId: {
+        type: DataTypes.UUID,
+        primaryKey: true,
+        allowNull: false,
+        references: {
+          model: 'users', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+    },
+    {
+      sequelize,
+      tableName: 'task_watchers',
+      timestamps: true,
+      updatedAt: false,
+    }
+  );
+
+  return TaskWatcher;
+};
@@ -9,12 +9,13 @@ interface UserAttributes {
   email: string;
   passwordHash: string;
   role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  emailVerifiedAt?: Date | null; // Null until the user opens the link mailed to their current address
 }
 
 /**
  * Interface representing the attributes for creating a User, where 'id' is optional.
  */
-interface UserCreationAttributes extends Optional<UserAttributes, 'id'> {}
+interface UserCreationAttributes extends Optional<UserAttributes, 'id' | 'emailVerifiedAt'> {}
 
 /**
  * Represents the User model, extending Sequelize's Model class.
@@ -25,6 +26,7 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
   public email!: string;
   public passwordHash!: string;
   public role!: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  public emailVerifiedAt?: Date | null;
 
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
@@ -35,7 +37,16 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
    * @param models An object containing all initialized Sequelize models.
    */
   public static associate(models: any) {
-    // Example: User.hasMany(models.Project, { foreignKey: 'userId' });
+    // A User can be a member of many Projects.
+    User.hasMany(models.ProjectMember, { foreignKey: 'userId', as: 'projectMemberships', onDelete: 'CASCADE' });
+    // A User logs the time they spend on tasks.
+    User.hasMany(models.Worklog, { foreignKey: 'userId', as: 'worklogs', onDelete: 'CASCADE' });
+    // A User can watch many Tasks.
+    User.belongsToMany(models.Task, { through: models.TaskWatcher, foreignKey: 'userId', otherKey: 'taskId', as: 'watchedTasks' });
+    // A User holds one refresh token family per signed-in session.
+    User.hasMany(models.RefreshToken, { foreignKey: 'userId', as: 'refreshTokens', onDelete: 'CASCADE' });
+    // A User may protect their account with TOTP two-factor authentication.
+    User.hasOne(models.UserTwoFactor, { foreignKey: 'userId', as: 'twoFactor', onDelete: 'CASCADE' });
   }
 }
 
@@ -75,6 +86,13 @@ export default (sequelize: Sequelize): typeof User => {
         allowNull: false,
         defaultValue: 'Viewer',
       },
+      emailVerifiedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        // Accounts from before verification existed, and accounts created by an Admin, count as verified.
+        // Self-registration and email changes set it to null explicitly.
+        defaultValue: DataTypes.NOW,
+      },
     },
     {
       sequelize,
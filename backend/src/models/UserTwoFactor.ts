@@ -0,0 +1,78 @@
+import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
+
+interface UserTwoFactorAttributes {
+  userId: string;
+  secret: string; // Base32 TOTP secret shared with the user's authenticator app
+  enabledAt?: Date | null; // Null while enrollment has been started but not confirmed with a code
+  backupCodeHashes: string[]; // SHA-256 of each unused backup code; a code is removed once used
+  lastUsedStep?: number | null; // TOTP time step of the last accepted code, so a code cannot be used twice
+}
+
+interface UserTwoFactorCreationAttributes extends Optional<UserTwoFactorAttributes, 'enabledAt' | 'backupCodeHashes' | 'lastUsedStep'> {}
+
+/**
+ * A User's TOTP two-factor authentication. Kept apart from the User, so the secret is never part of a user response.
+ */
+class UserTwoFactor extends Model<UserTwoFactorAttributes, UserTwoFactorCreationAttributes> implements UserTwoFactorAttributes {
+  public userId!: string;
+  public secret!: string;
+  public enabledAt?: Date | null;
+  public backupCodeHashes!: string[];
+  public lastUsedStep?: number | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Helper method for defining associations.
+   */
+  public static associate(models: any) {
+    UserTwoFactor.belongsTo(models.User, { foreignKey: 'userId', as: 'user' });
+  }
+}
+
+/**
+ * Exports a function that defines the UserTwoFactor model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized UserTwoFactor model.
+ */
+export default (sequelize: Sequelize): typeof UserTwoFactor => {
+  UserTwoFactor.init(
+    {
+      userId: {
+        type: DataTypes.UUID,
+        primaryKey: true,
+        allowNull: false,
+        references: {
+          model: 'users', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      secret: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+      },
+      enabledAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      backupCodeHashes: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+      },
+      lastUsedStep: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'user_two_factor',
+      timestamps: true,
+    }
+  );
+
+  return UserTwoFactor;
+};
@@ -0,0 +1,102 @@
+import { DataTypes, Model, Optional, Sequelize } from 'sequelize';
+
+interface WorklogAttributes {
+  id: string;
+  taskId: string;
+  userId: string;
+  startedAt: Date;
+  endedAt?: Date | null; // No end means the timer is still running
+  durationSeconds?: number | null; // Set once the timer stops, or straight away for manually logged time
+  note?: string | null;
+}
+
+interface WorklogCreationAttributes extends Optional<WorklogAttributes, 'id' | 'endedAt' | 'durationSeconds' | 'note'> {}
+
+/**
+ * Time a User spent on a Task, either tracked with a timer or logged by hand.
+ * A user has at most one running timer at a time.
+ */
+class Worklog extends Model<WorklogAttributes, WorklogCreationAttributes> implements WorklogAttributes {
+  public id!: string;
+  public taskId!: string;
+  public userId!: string;
+  public startedAt!: Date;
+  public endedAt?: Date | null;
+  public durationSeconds?: number | null;
+  public note?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Helper method for defining associations.
+   */
+  public static associate(models: any) {
+    Worklog.belongsTo(models.Task, { foreignKey: 'taskId', as: 'task' });
+    Worklog.belongsTo(models.User, { foreignKey: 'userId', as: 'user' });
+  }
+}
+
+/**
+ * Exports a function that defines the Worklog model.
+ * @param sequelize The Sequelize instance to attach the model to.
+ * @returns The initialized Worklog model.
+ */
+export default (sequelize: Sequelize): typeof Worklog => {
+  Worklog.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      taskId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'tasks', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'users', // Table name as a string
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      startedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      endedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      durationSeconds: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      note: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'worklogs',
+      timestamps: true,
+      indexes: [
+        { fields: ['taskId'] },
+        // A user can have only one running timer.
+        { unique: true, fields: ['userId'], where: { endedAt: null }, name: 'worklogs_one_running_timer_per_user' },
+      ],
+    }
+  );
+
+  return Worklog;
+};
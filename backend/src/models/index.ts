@@ -6,6 +6,24 @@ import createUserModel from './User';
 import createProjectModel from './Project';
 import createTaskModel from './Task';
 import createNotificationModel from './Notification';
+import createProjectMemberModel from './ProjectMember';
+import createTaskDependencyModel from './TaskDependency';
+import createCommentModel from './Comment';
+import createAttachmentModel from './Attachment';
+import createTaskEventModel from './TaskEvent';
+import createLabelModel from './Label';
+import createTaskLabelModel from './TaskLabel';
+import createProjectWorkflowModel from './ProjectWorkflow';
+import createSprintModel from './Sprint';
+import createBurndownSnapshotModel from './BurndownSnapshot';
+import createWorklogModel from './Worklog';
+import createTaskWatcherModel from './TaskWatcher';
+import createChecklistItemModel from './ChecklistItem';
+import createRefreshTokenModel from './RefreshToken';
+import createAppSettingModel from './AppSetting';
+import createInvitationModel from './Invitation';
+import createPasswordResetTokenModel from './PasswordResetToken';
+import createUserTwoFactorModel from './UserTwoFactor';
 
 /**
  * The 'db' object serves as a central repository for the Sequelize instance
@@ -25,12 +43,48 @@ export const initializeModels = (sequelize: Sequelize) => {
   const Project = createProjectModel(sequelize);
   const Task = createTaskModel(sequelize);
   const Notification = createNotificationModel(sequelize);
+  const ProjectMember = createProjectMemberModel(sequelize);
+  const TaskDependency = createTaskDependencyModel(sequelize);
+  const Comment = createCommentModel(sequelize);
+  const Attachment = createAttachmentModel(sequelize);
+  const TaskEvent = createTaskEventModel(sequelize);
+  const Label = createLabelModel(sequelize);
+  const TaskLabel = createTaskLabelModel(sequelize);
+  const ProjectWorkflow = createProjectWorkflowModel(sequelize);
+  const Sprint = createSprintModel(sequelize);
+  const BurndownSnapshot = createBurndownSnapshotModel(sequelize);
+  const Worklog = createWorklogModel(sequelize);
+  const TaskWatcher = createTaskWatcherModel(sequelize);
+  const ChecklistItem = createChecklistItemModel(sequelize);
+  const RefreshToken = createRefreshTokenModel(sequelize);
+  const AppSetting = createAppSettingModel(sequelize);
+  const Invitation = createInvitationModel(sequelize);
+  const PasswordResetToken = createPasswordResetTokenModel(sequelize);
+  const UserTwoFactor = createUserTwoFactorModel(sequelize);
 
   // Store the initialized model classes in the 'db' object for easy access.
   db.User = User;
   db.Project = Project;
   db.Task = Task;
   db.Notification = Notification;
+  db.ProjectMember = ProjectMember;
+  db.TaskDependency = TaskDependency;
+  db.Comment = Comment;
+  db.Attachment = Attachment;
+  db.TaskEvent = TaskEvent;
+  db.Label = Label;
+  db.TaskLabel = TaskLabel;
+  db.ProjectWorkflow = ProjectWorkflow;
+  db.Sprint = Sprint;
+  db.BurndownSnapshot = BurndownSnapshot;
+  db.Worklog = Worklog;
+  db.TaskWatcher = TaskWatcher;
+  db.ChecklistItem = ChecklistItem;
+  db.RefreshToken = RefreshToken;
+  db.AppSetting = AppSetting;
+  db.Invitation = Invitation;
+  db.PasswordResetToken = PasswordResetToken;
+  db.UserTwoFactor = UserTwoFactor;
 
   // Set up associations between models.
   // This loop iterates through all initialized models in the 'db' object.
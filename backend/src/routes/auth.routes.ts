@@ -1,9 +1,38 @@
 import { Router } from 'express';
-import { registerUser, loginUser  } from '../controllers/auth.controller';
+import { registerUser, loginUser, refreshSession, logoutUser, forgotPassword, resetPassword, verifyEmail, resendVerificationEmail } from '../controllers/auth.controller';
+import {
+  verifyTwoFactorLogin,
+  startTwoFactorLoginSetup,
+  confirmTwoFactorLoginSetup,
+  getTwoFactorStatus,
+  startTwoFactorSetup,
+  confirmTwoFactorSetup,
+  regenerateTwoFactorBackupCodes,
+  disableTwoFactorAuth,
+} from '../controllers/twoFactor.controller';
+import { protect } from '../middleware/auth.middleware';
 
 const router = Router();
 
 router.post('/register', registerUser);
 router.post('/login', loginUser);
+router.post('/refresh', refreshSession);
+router.post('/logout', logoutUser);
+router.post('/forgot-password', forgotPassword);
+router.post('/reset-password', resetPassword);
+router.get('/verify-email', verifyEmail);
+router.post('/resend-verification', protect, resendVerificationEmail);
+
+// Second login step, with the challenge token from /login
+router.post('/login/2fa', verifyTwoFactorLogin);
+router.post('/login/2fa/setup', startTwoFactorLoginSetup);
+router.post('/login/2fa/confirm', confirmTwoFactorLoginSetup);
+
+// Two-factor settings of the current user
+router.get('/2fa', protect, getTwoFactorStatus);
+router.post('/2fa/setup', protect, startTwoFactorSetup);
+router.post('/2fa/confirm', protect, confirmTwoFactorSetup);
+router.post('/2fa/backup-codes', protect, regenerateTwoFactorBackupCodes);
+router.post('/2fa/disable', protect, disableTwoFactorAuth);
 
 export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { getInvitations, createInvitation, revokeInvitation, lookupInvitation } from '../controllers/invitation.controller';
+import { protect, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Resolve an invitation token for the registration form (public)
+router.get('/lookup/:token', lookupInvitation);
+
+router.get('/', protect, authorize(['Admin', 'Project Manager']), getInvitations);
+router.post('/', protect, authorize(['Admin', 'Project Manager']), createInvitation);
+router.delete('/:id', protect, authorize(['Admin', 'Project Manager']), revokeInvitation);
+
+export default router;
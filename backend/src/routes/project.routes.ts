@@ -6,7 +6,27 @@ import {
   getProjectById,
   updateProject,
   deleteProject,
+  getProjectMembers,
+  addProjectMember,
+  updateProjectMember,
+  removeProjectMember,
 } from '../controllers/project.controller';
+import {
+  getLabels,
+  createLabel,
+  updateLabel,
+  deleteLabel,
+} from '../controllers/label.controller';
+import { getWorkflow, updateWorkflow } from '../controllers/workflow.controller';
+import {
+  getSprints,
+  createSprint,
+  updateSprint,
+  deleteSprint,
+  startSprint,
+  closeSprint,
+} from '../controllers/sprint.controller';
+import { getBurndown } from '../controllers/burndown.controller';
 
 const router = Router();
 
@@ -24,4 +44,38 @@ router.patch('/:id', updateProject);
 
 router.delete('/:id', deleteProject);
 
+router.get('/:id/members', getProjectMembers);
+
+router.post('/:id/members', addProjectMember);
+
+router.put('/:id/members/:userId', updateProjectMember);
+
+router.delete('/:id/members/:userId', removeProjectMember);
+
+router.get('/:id/labels', getLabels);
+
+router.post('/:id/labels', createLabel);
+
+router.put('/:id/labels/:labelId', updateLabel);
+
+router.delete('/:id/labels/:labelId', deleteLabel);
+
+router.get('/:id/workflow', getWorkflow);
+
+router.put('/:id/workflow', updateWorkflow);
+
+router.get('/:id/sprints', getSprints);
+
+router.post('/:id/sprints', createSprint);
+
+router.put('/:id/sprints/:sprintId', updateSprint);
+
+router.delete('/:id/sprints/:sprintId', deleteSprint);
+
+router.post('/:id/sprints/:sprintId/start', startSprint);
+
+router.post('/:id/sprints/:sprintId/close', closeSprint);
+
+router.get('/:id/burndown', getBurndown);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { getRegistrationSettings, getSettings, updateSettings } from '../controllers/settings.controller';
+import { protect, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Whether registration is open, for the registration form (public)
+router.get('/registration', getRegistrationSettings);
+
+// Instance-wide settings (Admin only)
+router.get('/', protect, authorize(['Admin']), getSettings);
+router.put('/', protect, authorize(['Admin']), updateSettings);
+
+export default router;
@@ -1,12 +1,54 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { protect, authorize } from '../middleware/auth.middleware';
 import {
   createTask,
   getTasks,
   getTaskById,
   updateTask,
+  moveTask,
   deleteTask,
+  getSubtasks,
+  createSubtask,
+  getTaskHistory,
 } from '../controllers/task.controller';
+import {
+  getTaskDependencies,
+  addTaskDependency,
+  removeTaskDependency,
+} from '../controllers/taskDependency.controller';
+import {
+  getComments,
+  createComment,
+  updateComment,
+  deleteComment,
+} from '../controllers/comment.controller';
+import {
+  getAttachments,
+  uploadAttachment,
+  handleAttachmentUploadError,
+  downloadAttachment,
+  deleteAttachment,
+} from '../controllers/attachment.controller';
+import {
+  getWorklogs,
+  logWork,
+  deleteWorklog,
+  startTimer,
+  stopTimer,
+} from '../controllers/worklog.controller';
+import {
+  getTaskWatchers,
+  watchTask,
+  unwatchTask,
+} from '../controllers/taskWatcher.controller';
+import {
+  getChecklist,
+  createChecklistItem,
+  updateChecklistItem,
+  moveChecklistItem,
+  deleteChecklistItem,
+} from '../controllers/checklist.controller';
+import { MAX_ATTACHMENT_SIZE } from '../utils/attachments';
 
 const router = Router();
 
@@ -18,6 +60,48 @@ router.get('/', getTasks);
 
 router.get('/:id', getTaskById);
 
+router.get('/:id/history', getTaskHistory);
+
+router.get('/:id/subtasks', getSubtasks);
+router.post('/:id/subtasks', createSubtask);
+
+router.get('/:id/dependencies', getTaskDependencies);
+router.post('/:id/dependencies', addTaskDependency);
+router.delete('/:id/dependencies/:blockerTaskId', removeTaskDependency);
+
+router.get('/:id/comments', getComments);
+router.post('/:id/comments', createComment);
+router.put('/:id/comments/:commentId', updateComment);
+router.delete('/:id/comments/:commentId', deleteComment);
+
+router.get('/:id/attachments', getAttachments);
+router.post(
+  '/:id/attachments',
+  express.raw({ type: 'application/octet-stream', limit: MAX_ATTACHMENT_SIZE }),
+  uploadAttachment,
+  handleAttachmentUploadError
+);
+router.get('/:id/attachments/:attachmentId', downloadAttachment);
+router.delete('/:id/attachments/:attachmentId', deleteAttachment);
+
+router.get('/:id/worklogs', getWorklogs);
+router.post('/:id/worklogs', logWork);
+router.delete('/:id/worklogs/:worklogId', deleteWorklog);
+router.post('/:id/timer/start', startTimer);
+router.post('/:id/timer/stop', stopTimer);
+
+router.get('/:id/watchers', getTaskWatchers);
+router.post('/:id/watch', watchTask);
+router.delete('/:id/watch', unwatchTask);
+
+router.get('/:id/checklist', getChecklist);
+router.post('/:id/checklist', createChecklistItem);
+router.put('/:id/checklist/:itemId', updateChecklistItem);
+router.patch('/:id/checklist/:itemId/move', moveChecklistItem);
+router.delete('/:id/checklist/:itemId', deleteChecklistItem);
+
+router.patch('/:id/move', moveTask);
+
 router.put('/:id', updateTask); 
 router.patch('/:id', updateTask);
 
@@ -11,12 +11,16 @@ import {
   getAdminOrPmData,
   getAdminOnlyData
 } from '../controllers/user.controller'; 
+import { getActiveTimer } from '../controllers/worklog.controller';
 
 const router = Router();
 
 // Get current user profile
 router.get('/me', protect, getMe);
 
+// Get the current user's running timer
+router.get('/me/timer', protect, getActiveTimer);
+
 // Get all users with full details (Admin and Project Manager only)
 router.get('/all-details', protect, authorize(['Admin', 'Project Manager']), getAllUsers);
 
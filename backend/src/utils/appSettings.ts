@@ -0,0 +1,60 @@
+import db from '../models/index';
+
+export interface AppSettings {
+  openRegistration: boolean; // Whether anyone may register without an invitation
+  twoFactorRequiredRoles: string[]; // Roles that must use two-factor authentication to sign in
+}
+
+const validRoles = ['Admin', 'Project Manager', 'Developer', 'Tester', 'Viewer'];
+
+// Used for keys that have never been set by an Admin
+const DEFAULT_SETTINGS: AppSettings = {
+  openRegistration: process.env.OPEN_REGISTRATION !== 'false',
+  twoFactorRequiredRoles: [],
+};
+
+/**
+ * Returns every instance-wide setting, with defaults filled in.
+ */
+export const getAppSettings = async (): Promise<AppSettings> => {
+  const rows = await db.AppSetting.findAll();
+  const settings: AppSettings = { ...DEFAULT_SETTINGS };
+  for (const row of rows) {
+    if (row.key in settings) {
+      (settings as unknown as Record<string, unknown>)[row.key] = row.value;
+    }
+  }
+  return settings;
+};
+
+/**
+ * Validates a settings change from an Admin ({ openRegistration?, twoFactorRequiredRoles? }) and returns the values to store.
+ */
+export const parseAppSettings = (input: unknown): { changes?: Partial<AppSettings>; error?: string } => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Settings must be an object.' };
+  }
+
+  const { openRegistration, twoFactorRequiredRoles } = input as { openRegistration?: unknown; twoFactorRequiredRoles?: unknown };
+  const changes: Partial<AppSettings> = {};
+  if (openRegistration !== undefined) {
+    if (typeof openRegistration !== 'boolean') {
+      return { error: 'openRegistration must be true or false.' };
+    }
+    changes.openRegistration = openRegistration;
+  }
+  if (twoFactorRequiredRoles !== undefined) {
+    if (!Array.isArray(twoFactorRequiredRoles) || twoFactorRequiredRoles.some((role) => !validRoles.includes(role))) {
+      return { error: `twoFactorRequiredRoles must be a list of roles among: ${validRoles.join(', ')}.` };
+    }
+    changes.twoFactorRequiredRoles = Array.from(new Set<string>(twoFactorRequiredRoles));
+  }
+  return { changes };
+};
+
+export const updateAppSettings = async (changes: Partial<AppSettings>): Promise<AppSettings> => {
+  for (const [key, value] of Object.entries(changes)) {
+    await db.AppSetting.upsert({ key, value });
+  }
+  return getAppSettings();
+};
@@ -0,0 +1,58 @@
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { getStorage } from '../config/storage';
+
+export const MAX_ATTACHMENT_SIZE = parseInt(process.env.MAX_ATTACHMENT_SIZE || `${10 * 1024 * 1024}`, 10);
+
+// Screenshots, logs and common documents. SVG and HTML are left out because they can carry scripts.
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'text/plain',
+  'text/csv',
+  'application/json',
+  'application/pdf',
+  'application/zip',
+  'application/gzip',
+];
+
+// A file that cannot be removed is logged and skipped, so it never blocks the deletion
+const removeStoredFiles = async (attachments: { storageKey: string }[]): Promise<void> => {
+  for (const attachment of attachments) {
+    try {
+      await getStorage().remove(attachment.storageKey);
+    } catch (error) {
+      console.error(`Error removing stored file ${attachment.storageKey}:`, error);
+    }
+  }
+};
+
+/**
+ * Removes the stored files of a task and of all its subtasks. The database rows go away with the
+ * task through ON DELETE CASCADE, but the storage driver knows nothing about that.
+ */
+export const removeTaskAttachmentFiles = async (taskId: string): Promise<void> => {
+  const taskIds: string[] = [];
+  let frontier = [taskId];
+  while (frontier.length > 0) {
+    taskIds.push(...frontier);
+    const children = await db.Task.findAll({ where: { parentTaskId: { [Op.in]: frontier } }, attributes: ['id'] });
+    frontier = children.map((child: any) => child.id);
+  }
+
+  const attachments = await db.Attachment.findAll({ where: { taskId: { [Op.in]: taskIds } }, attributes: ['storageKey'] });
+  await removeStoredFiles(attachments);
+};
+
+/**
+ * Removes the stored files of every task of a project, before the project and its tasks are deleted.
+ */
+export const removeProjectAttachmentFiles = async (projectId: string): Promise<void> => {
+  const attachments = await db.Attachment.findAll({
+    attributes: ['storageKey'],
+    include: [{ model: db.Task, as: 'task', attributes: [], where: { projectId } }],
+  });
+  await removeStoredFiles(attachments);
+};
@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { getAppSettings } from './appSettings';
+import { io, redisClient, getSessionRoom } from '../index';
+
+export interface AccessTokenPayload {
+  id: string;
+  role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  sid: string; // The session (refresh token family) the token was issued for
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+const REFRESH_TOKEN_TTL_SECONDS = REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60;
+
+// A revoked session outlives every token issued for it, so the key can expire with the last refresh token
+const getRevokedSessionKey = (sessionId: string) => `revokedSession:${sessionId}`;
+
+export const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not defined in environment variables. Please ensure it is set.');
+  }
+  return secret;
+};
+
+/**
+ * A random, URL-safe token for links and sessions. Store only its hash (see `hashToken`).
+ */
+export const generateOpaqueToken = (): string => crypto.randomBytes(48).toString('base64url');
+
+export const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const generateAccessToken = (user: { id: string; role: string }, sessionId: string): string => {
+  const options: SignOptions = {
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN as SignOptions['expiresIn'],
+  };
+  return jwt.sign({ id: user.id, role: user.role, sid: sessionId }, getJwtSecret(), options);
+};
+
+/**
+ * Stores a new refresh token of a session and returns it. Only its hash is kept, so a database leak exposes no usable token.
+ */
+const createRefreshToken = async (userId: string, familyId: string): Promise<{ id: string; token: string }> => {
+  const token = generateOpaqueToken();
+  const record = await db.RefreshToken.create({
+    userId,
+    tokenHash: hashToken(token),
+    familyId,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+  });
+  return { id: record.id, token };
+};
+
+/**
+ * Starts a new session for a user who just signed in: a short-lived access token and the first refresh token of a new family.
+ */
+export const issueSession = async (user: { id: string; role: string }): Promise<SessionTokens> => {
+  const sessionId = crypto.randomUUID();
+  const { token: refreshToken } = await createRefreshToken(user.id, sessionId);
+  return { token: generateAccessToken(user, sessionId), refreshToken };
+};
+
+/**
+ * Ends a session: its refresh tokens stop working straight away, and so do the access tokens already handed out for it.
+ * Sockets opened with the session are disconnected, as revocation is otherwise only checked at the handshake.
+ */
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  await db.RefreshToken.update({ revokedAt: new Date() }, { where: { familyId: sessionId, revokedAt: null } });
+  await redisClient.set(getRevokedSessionKey(sessionId), '1', 'EX', REFRESH_TOKEN_TTL_SECONDS);
+  io.in(getSessionRoom(sessionId)).disconnectSockets(true);
+};
+
+/**
+ * Ends the session a refresh token belongs to, e.g. on logout, when the access token may already have expired.
+ * Returns false when the token is unknown.
+ */
+export const revokeSessionByRefreshToken = async (refreshToken: string): Promise<boolean> => {
+  const record = await db.RefreshToken.findOne({ where: { tokenHash: hashToken(refreshToken) }, attributes: ['familyId'] });
+  if (!record) {
+    return false;
+  }
+  await revokeSession(record.familyId);
+  return true;
+};
+
+/**
+ * Ends every session of a user, e.g. after their password changed.
+ */
+export const revokeUserSessions = async (userId: string): Promise<void> => {
+  const activeTokens = await db.RefreshToken.findAll({ where: { userId, revokedAt: null }, attributes: ['familyId'] });
+  const sessionIds = new Set<string>(activeTokens.map((record: { familyId: string }) => record.familyId));
+  for (const sessionId of sessionIds) {
+    await revokeSession(sessionId);
+  }
+};
+
+/**
+ * Exchanges a refresh token for a new access token and a new refresh token. The presented token is used up;
+ * presenting it again means it was copied, so the whole session is revoked.
+ */
+export const rotateRefreshToken = async (refreshToken: string): Promise<{ session?: SessionTokens & { user: any }; error?: string }> => {
+  const record = await db.RefreshToken.findOne({ where: { tokenHash: hashToken(refreshToken) } });
+  if (!record) {
+    return { error: 'Invalid refresh token.' };
+  }
+  if (record.revokedAt) {
+    await revokeSession(record.familyId);
+    return { error: 'Refresh token has already been used. Please log in again.' };
+  }
+  if (new Date(record.expiresAt) <= new Date()) {
+    return { error: 'Refresh token has expired. Please log in again.' };
+  }
+
+  // Use the token up before issuing its successor, so two requests racing with the same token cannot both succeed
+  const [claimed] = await db.RefreshToken.update({ revokedAt: new Date() }, { where: { id: record.id, revokedAt: null } });
+  if (!claimed) {
+    await revokeSession(record.familyId);
+    return { error: 'Refresh token has already been used. Please log in again.' };
+  }
+
+  // The role is read again, so a changed role takes effect on the next refresh
+  const user = await db.User.findByPk(record.userId, { attributes: ['id', 'username', 'email', 'role', 'emailVerifiedAt'] });
+  if (!user) {
+    return { error: 'Invalid refresh token.' };
+  }
+
+  // Sessions started before two-factor authentication became required for the role end here
+  const { twoFactorRequiredRoles } = await getAppSettings();
+  if (twoFactorRequiredRoles.includes(user.role) && !(await db.UserTwoFactor.findOne({ where: { userId: user.id, enabledAt: { [Op.ne]: null } } }))) {
+    await revokeSession(record.familyId);
+    return { error: 'Your role now requires two-factor authentication. Please log in again to set it up.' };
+  }
+
+  const next = await createRefreshToken(user.id, record.familyId);
+  await record.update({ replacedById: next.id });
+
+  return { session: { token: generateAccessToken(user, record.familyId), refreshToken: next.token, user } };
+};
+
+/**
+ * Verifies an access token's signature and expiry and that its session has not been revoked. Throws when it is not valid.
+ */
+export const verifyAccessToken = async (token: string): Promise<AccessTokenPayload> => {
+  const decoded = jwt.verify(token, getJwtSecret()) as Partial<AccessTokenPayload>;
+  if (!decoded.id || !decoded.role || !decoded.sid) {
+    throw new Error('Token is not tied to a session');
+  }
+  if (await redisClient.exists(getRevokedSessionKey(decoded.sid))) {
+    throw new Error('Session has been revoked');
+  }
+  return { id: decoded.id, role: decoded.role, sid: decoded.sid };
+};
@@ -0,0 +1,99 @@
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { getProjectWorkflow, isTerminalStatus } from './workflows';
+
+export interface BurndownTotals {
+  remainingEstimate: number;
+  completedEstimate: number;
+  remainingTasks: number;
+  completedTasks: number;
+}
+
+export interface BurndownPoint extends BurndownTotals {
+  date: string;
+}
+
+// Snapshots are keyed by UTC day, like sprint start and end dates
+const today = () => new Date().toISOString().split('T')[0];
+
+/**
+ * Measures the work of a project, or of one of its sprints, split by whether each task sits in a terminal status.
+ * Tasks without an estimate only count towards the task totals.
+ */
+export const measureWork = async (projectId: string, sprintId: string | null = null): Promise<BurndownTotals> => {
+  const workflow = await getProjectWorkflow(projectId);
+  const tasks = await db.Task.findAll({
+    where: sprintId ? { projectId, sprintId } : { projectId },
+    attributes: ['status', 'estimate'],
+  });
+
+  const totals: BurndownTotals = { remainingEstimate: 0, completedEstimate: 0, remainingTasks: 0, completedTasks: 0 };
+  for (const task of tasks as { status: string; estimate?: number | null }[]) {
+    if (isTerminalStatus(workflow, task.status)) {
+      totals.completedEstimate += task.estimate || 0;
+      totals.completedTasks += 1;
+    } else {
+      totals.remainingEstimate += task.estimate || 0;
+      totals.remainingTasks += 1;
+    }
+  }
+  return totals;
+};
+
+/**
+ * Stores today's snapshot for a project (or one of its sprints), replacing the one taken earlier today if any.
+ */
+export const recordBurndownSnapshot = async (projectId: string, sprintId: string | null = null): Promise<void> => {
+  const totals = await measureWork(projectId, sprintId);
+  const where = { projectId, sprintId, date: today() };
+  const existing = await db.BurndownSnapshot.findOne({ where });
+  if (existing) {
+    await existing.update(totals);
+  } else {
+    await db.BurndownSnapshot.create({ ...where, ...totals });
+  }
+};
+
+/**
+ * Snapshots every project and every active sprint.
+ */
+export const recordAllBurndownSnapshots = async (): Promise<void> => {
+  const projects = await db.Project.findAll({ attributes: ['id'] });
+  for (const project of projects) {
+    await recordBurndownSnapshot(project.id);
+  }
+
+  const activeSprints = await db.Sprint.findAll({ where: { state: 'active' }, attributes: ['id', 'projectId'] });
+  for (const sprint of activeSprints) {
+    await recordBurndownSnapshot(sprint.projectId, sprint.id);
+  }
+};
+
+/**
+ * Returns the stored snapshots of a project (or sprint) from `since` on, oldest first.
+ * With `includeToday`, today's point is measured live instead of taken from the last snapshot.
+ */
+export const getBurndownSeries = async (
+  projectId: string,
+  sprintId: string | null,
+  since: string | null,
+  includeToday: boolean
+): Promise<BurndownPoint[]> => {
+  const snapshots = await db.BurndownSnapshot.findAll({
+    where: { projectId, sprintId, ...(since ? { date: { [Op.gte]: since } } : {}) },
+    attributes: ['date', 'remainingEstimate', 'completedEstimate', 'remainingTasks', 'completedTasks'],
+    order: [['date', 'ASC'], ['updatedAt', 'DESC']],
+  });
+
+  // Concurrent snapshots can store the same day twice; the latest one wins
+  const pointsByDate = new Map<string, BurndownPoint>();
+  for (const snapshot of snapshots) {
+    if (!pointsByDate.has(snapshot.date)) {
+      pointsByDate.set(snapshot.date, snapshot.get({ plain: true }));
+    }
+  }
+  if (includeToday) {
+    pointsByDate.set(today(), { date: today(), ...(await measureWork(projectId, sprintId)) });
+  }
+  return [...pointsByDate.values()];
+};
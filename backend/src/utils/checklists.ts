@@ -0,0 +1,100 @@
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { rankBetween } from './taskRanking';
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+// Checklist items are ordered like board columns, by rank (see utils/taskRanking.ts)
+const MAX_RANK_LENGTH = 64;
+
+/**
+ * Counts the done and total checklist items of each task.
+ */
+export const getChecklistProgress = async (taskIds: string[]): Promise<Map<string, ChecklistProgress>> => {
+  const progress = new Map<string, ChecklistProgress>();
+  if (taskIds.length === 0) {
+    return progress;
+  }
+
+  const items = await db.ChecklistItem.findAll({
+    where: { taskId: { [Op.in]: taskIds } },
+    attributes: ['taskId', 'done'],
+  });
+  items.forEach((item: { taskId: string; done: boolean }) => {
+    const entry = progress.get(item.taskId) || { done: 0, total: 0 };
+    entry.total += 1;
+    if (item.done) {
+      entry.done += 1;
+    }
+    progress.set(item.taskId, entry);
+  });
+  return progress;
+};
+
+/**
+ * Gives every item of a task's checklist a fresh, evenly spaced rank in its current order.
+ */
+const rebalanceChecklist = async (taskId: string): Promise<void> => {
+  const items = await db.ChecklistItem.findAll({ where: { taskId }, attributes: ['id', 'rank'], order: [['rank', 'ASC'], ['createdAt', 'ASC']] });
+  const width = (items.length + 1).toString(36).length;
+  for (const [index, item] of items.entries()) {
+    await item.update({ rank: `${(index + 1).toString(36).padStart(width, '0')}i` });
+  }
+};
+
+/**
+ * Returns the rank of an item placed directly below `beforeItemId` in a task's checklist, or at the top without one.
+ * `itemId` is the item being moved, if any, so its current place is ignored. Returns null when `beforeItemId`
+ * is not on the checklist.
+ */
+export const resolveChecklistRank = async (taskId: string, beforeItemId: string | null, itemId?: string): Promise<string | null> => {
+  const listWhere = { taskId, ...(itemId ? { id: { [Op.ne]: itemId } } : {}) };
+
+  const findBounds = async (): Promise<{ lower: string | null; upper: string | null } | null> => {
+    let lower: string | null = null;
+    if (beforeItemId) {
+      const before = await db.ChecklistItem.findOne({ where: { ...listWhere, id: beforeItemId }, attributes: ['rank'] });
+      if (!before) {
+        return null;
+      }
+      lower = before.rank;
+    }
+    // Ranks equal to `lower` count too, so an item sharing its rank with `beforeItemId` is found and the list re-spaced
+    const excludedIds = [itemId, beforeItemId].filter((id): id is string => !!id);
+    const next = await db.ChecklistItem.findOne({
+      where: lower === null ? listWhere : { taskId, id: { [Op.notIn]: excludedIds }, rank: { [Op.gte]: lower } },
+      attributes: ['rank'],
+      order: [['rank', 'ASC']],
+    });
+    return { lower, upper: next?.rank ?? null };
+  };
+
+  const bounds = await findBounds();
+  if (!bounds) {
+    return null;
+  }
+  // Two items can end up with the same rank when they are moved at once; re-space the list to separate them
+  if (bounds.lower !== null && bounds.upper !== null && bounds.lower >= bounds.upper) {
+    await rebalanceChecklist(taskId);
+    return resolveChecklistRank(taskId, beforeItemId, itemId);
+  }
+
+  const rank = rankBetween(bounds.lower, bounds.upper);
+  if (rank.length <= MAX_RANK_LENGTH) {
+    return rank;
+  }
+  await rebalanceChecklist(taskId);
+  const rebalanced = await findBounds();
+  return rebalanced && rankBetween(rebalanced.lower, rebalanced.upper);
+};
+
+/**
+ * Returns the rank of an item added at the end of a task's checklist.
+ */
+export const getChecklistEndRank = async (taskId: string): Promise<string> => {
+  const last = await db.ChecklistItem.findOne({ where: { taskId }, attributes: ['id'], order: [['rank', 'DESC']] });
+  return (await resolveChecklistRank(taskId, last?.id ?? null))!;
+};
@@ -0,0 +1,97 @@
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { notifyUser } from './notifications';
+import { getProjectWorkflows, isTerminalStatus } from './workflows';
+import { startOfUtcDay } from './recurrence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long before a deadline its assignee is reminded
+const REMINDER_HOURS = Number(process.env.DEADLINE_REMINDER_HOURS) || 24;
+
+// Deadlines that passed longer ago than this are not announced, e.g. after the scheduler was down for a while
+const OVERDUE_LOOKBACK_MS = 7 * DAY_MS;
+
+/**
+ * Deadlines are picked as days, so a task is due by the end of its deadline's (UTC) day.
+ */
+export const getDueAt = (deadline: Date): Date => new Date(startOfUtcDay(deadline).getTime() + DAY_MS);
+
+const formatDeadline = (deadline: Date): string => deadline.toISOString().split('T')[0];
+
+/**
+ * Marks a reminder as sent for the task's current deadline. Returns false when it already was,
+ * or when the deadline changed since the task was read, so each reminder goes out once.
+ */
+const claimReminder = async (task: any, field: 'deadlineReminderSentFor' | 'overdueNotifiedFor'): Promise<boolean> => {
+  const [claimed] = await db.Task.update({ [field]: task.deadline }, {
+    where: {
+      id: task.id,
+      deadline: task.deadline,
+      [Op.or]: [{ [field]: null }, { [field]: { [Op.ne]: task.deadline } }],
+    },
+  });
+  return claimed > 0;
+};
+
+const isSentFor = (sentFor: Date | null | undefined, deadline: Date): boolean =>
+  !!sentFor && new Date(sentFor).getTime() === new Date(deadline).getTime();
+
+/**
+ * Notifies the assignees of unfinished tasks whose deadline is coming up within the reminder window,
+ * and again once it has passed. Returns how many notifications were sent.
+ */
+export const sendDeadlineNotifications = async (): Promise<number> => {
+  const now = new Date();
+  const tasks = await db.Task.findAll({
+    where: {
+      assignedTo: { [Op.ne]: null },
+      deadline: {
+        [Op.gt]: new Date(now.getTime() - OVERDUE_LOOKBACK_MS - DAY_MS),
+        [Op.lt]: new Date(now.getTime() + REMINDER_HOURS * 60 * 60 * 1000),
+      },
+    },
+  });
+  const workflows = await getProjectWorkflows([...new Set<string>(tasks.map((task: { projectId: string }) => task.projectId))]);
+
+  let sent = 0;
+  for (const task of tasks) {
+    const workflow = workflows.get(task.projectId);
+    if (workflow && isTerminalStatus(workflow, task.status)) {
+      continue;
+    }
+
+    const dueAt = getDueAt(task.deadline);
+    const deadline = formatDeadline(task.deadline);
+    try {
+      if (dueAt <= now) {
+        if (dueAt.getTime() > now.getTime() - OVERDUE_LOOKBACK_MS
+          && !isSentFor(task.overdueNotifiedFor, task.deadline)
+          && await claimReminder(task, 'overdueNotifiedFor')) {
+          await notifyUser({
+            userId: task.assignedTo,
+            message: `Task "${task.title}" is overdue; it was due on ${deadline}.`,
+            type: 'task_overdue',
+            itemId: task.id,
+            projectId: task.projectId,
+          });
+          sent += 1;
+        }
+      } else if (dueAt.getTime() - REMINDER_HOURS * 60 * 60 * 1000 <= now.getTime()
+        && !isSentFor(task.deadlineReminderSentFor, task.deadline)
+        && await claimReminder(task, 'deadlineReminderSentFor')) {
+        await notifyUser({
+          userId: task.assignedTo,
+          message: `Task "${task.title}" is due on ${deadline}.`,
+          type: 'deadline_reminder',
+          itemId: task.id,
+          projectId: task.projectId,
+        });
+        sent += 1;
+      }
+    } catch (error) {
+      console.error(`Error sending the deadline notification for task ${task.id}:`, error);
+    }
+  }
+  return sent;
+};
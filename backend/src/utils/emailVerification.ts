@@ -0,0 +1,61 @@
+import jwt from 'jsonwebtoken';
+import db from '../models/index';
+import { getAppUrl, getMailTransport } from '../config/mail';
+import { getJwtSecret } from './authTokens';
+
+const VERIFICATION_TOKEN_TTL_HOURS = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24', 10);
+const VERIFY_EMAIL_PURPOSE = 'verify-email';
+
+export const isEmailVerified = (user: { emailVerifiedAt?: Date | null }): boolean => !!user.emailVerifiedAt;
+
+/**
+ * Mails a user a link confirming they own their current address. The link names the address,
+ * so it stops working once the email is changed again; opening it twice is harmless.
+ */
+export const sendVerificationMail = async (user: { id: string; email: string; username: string }): Promise<void> => {
+  const token = jwt.sign({ id: user.id, email: user.email, purpose: VERIFY_EMAIL_PURPOSE }, getJwtSecret(), {
+    expiresIn: `${VERIFICATION_TOKEN_TTL_HOURS}h`,
+  });
+
+  const link = `${getAppUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+  await getMailTransport().send({
+    to: user.email,
+    subject: 'Confirm your email address',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'Please confirm this is your email address by opening this link:',
+      link,
+      '',
+      `The link expires in ${VERIFICATION_TOKEN_TTL_HOURS} hours. If you did not create an account, you can ignore this mail.`,
+    ].join('\n'),
+  });
+};
+
+/**
+ * Marks the address a verification token was issued for as verified. Returns an error message when the token cannot be used.
+ */
+export const verifyEmailToken = async (token: string): Promise<{ user?: any; error?: string }> => {
+  let payload: { id?: string; email?: string; purpose?: string };
+  try {
+    payload = jwt.verify(token, getJwtSecret()) as typeof payload;
+  } catch {
+    return { error: 'This verification link is invalid or has expired.' };
+  }
+  if (payload.purpose !== VERIFY_EMAIL_PURPOSE || !payload.id) {
+    return { error: 'This verification link is invalid or has expired.' };
+  }
+
+  const user = await db.User.findByPk(payload.id);
+  if (!user) {
+    return { error: 'This verification link is invalid or has expired.' };
+  }
+  if (user.email !== payload.email) {
+    return { error: 'This link was sent to a previous email address of your account.' };
+  }
+
+  if (!user.emailVerifiedAt) {
+    await user.update({ emailVerifiedAt: new Date() });
+  }
+  return { user };
+};
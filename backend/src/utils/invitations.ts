@@ -0,0 +1,73 @@
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { generateOpaqueToken, hashToken } from './authTokens';
+
+const INVITATION_TTL_DAYS = parseInt(process.env.INVITATION_TTL_DAYS || '7', 10);
+
+/**
+ * Whether a user with `inviterRole` may invite someone with `role`: Admins may invite anyone, Project Managers anyone but Admins.
+ */
+export const canInviteRole = (inviterRole: string, role: string): boolean => {
+  if (inviterRole === 'Admin') {
+    return true;
+  }
+  return inviterRole === 'Project Manager' && role !== 'Admin';
+};
+
+/**
+ * Creates an invitation and returns it with its token, which is only available now.
+ * A pending invitation to the same address is replaced, so only the latest link works.
+ */
+export const createInvitation = async ({ email, role, invitedBy }: { email: string; role: string; invitedBy: string }) => {
+  await db.Invitation.destroy({ where: { email: { [Op.iLike]: email }, acceptedAt: null } });
+
+  const token = generateOpaqueToken();
+  const invitation = await db.Invitation.create({
+    email,
+    role,
+    tokenHash: hashToken(token),
+    invitedBy,
+    expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+  });
+  return { invitation, token };
+};
+
+/**
+ * Finds the invitation a token belongs to, as long as it has not been used and has not expired.
+ */
+export const findUsableInvitation = async (token: string): Promise<any | null> => {
+  return db.Invitation.findOne({
+    where: {
+      tokenHash: hashToken(token),
+      acceptedAt: null,
+      expiresAt: { [Op.gt]: new Date() },
+    },
+  });
+};
+
+/**
+ * Marks an invitation as used. Returns false when another registration used it first.
+ */
+export const claimInvitation = async (invitationId: string): Promise<boolean> => {
+  const [claimed] = await db.Invitation.update({ acceptedAt: new Date() }, { where: { id: invitationId, acceptedAt: null } });
+  return claimed > 0;
+};
+
+/**
+ * Makes a claimed invitation usable again, when the registration that claimed it failed.
+ */
+export const releaseInvitation = async (invitationId: string): Promise<void> => {
+  await db.Invitation.update({ acceptedAt: null }, { where: { id: invitationId, acceptedBy: null } });
+};
+
+/**
+ * The fields of an invitation that can be shown; never its token hash.
+ */
+export const serializeInvitation = (invitation: any) => ({
+  id: invitation.id,
+  email: invitation.email,
+  role: invitation.role,
+  expiresAt: invitation.expiresAt,
+  createdAt: invitation.createdAt,
+  inviter: invitation.inviter ? { id: invitation.inviter.id, username: invitation.inviter.username } : null,
+});
@@ -0,0 +1,37 @@
+import db from '../models/index';
+import { NotificationType } from '../models/Notification';
+import { sendNotificationToUser } from '../index';
+
+interface NotifyUserOptions {
+  userId: string;
+  message: string;
+  type: NotificationType;
+  itemId?: string;
+  projectId?: string;
+  link?: string;
+}
+
+/**
+ * Saves a notification to the database and pushes it to the user's open sockets.
+ */
+export const notifyUser = async ({ userId, message, type, itemId, projectId, link }: NotifyUserOptions): Promise<void> => {
+  const newNotification = await db.Notification.create({
+    userId,
+    message,
+    type,
+    link: link || (projectId ? `/dashboard/projects/${projectId}/tasks` : undefined),
+    itemId,
+    isRead: false,
+  });
+
+  const notificationForSocket = {
+    id: newNotification.id,
+    message: newNotification.message,
+    link: newNotification.link,
+    projectId,
+    read: newNotification.isRead,
+    createdAt: newNotification.createdAt.toISOString(),
+    type: newNotification.type
+  };
+  sendNotificationToUser(userId, notificationForSocket);
+};
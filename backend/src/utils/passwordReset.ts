@@ -0,0 +1,66 @@
+import { Op } from 'sequelize';
+import bcrypt from 'bcryptjs';
+import db from '../models/index';
+import { getAppUrl, getMailTransport } from '../config/mail';
+import { generateOpaqueToken, hashToken, revokeUserSessions } from './authTokens';
+
+const RESET_TOKEN_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10);
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * Mails a user a link to choose a new password. Earlier links stop working, so only the latest mail counts.
+ */
+export const sendPasswordResetMail = async (user: { id: string; email: string; username: string }): Promise<void> => {
+  await db.PasswordResetToken.update({ usedAt: new Date() }, { where: { userId: user.id, usedAt: null } });
+
+  const token = generateOpaqueToken();
+  await db.PasswordResetToken.create({
+    userId: user.id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+  });
+
+  const link = `${getAppUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+  await getMailTransport().send({
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'Someone asked to reset the password of your account. To choose a new password, open this link:',
+      link,
+      '',
+      `The link works once and expires in ${RESET_TOKEN_TTL_MINUTES} minutes. If you did not ask for it, you can ignore this mail.`,
+    ].join('\n'),
+  });
+};
+
+/**
+ * Sets a new password with a reset token, which is used up, and signs the user out everywhere.
+ * Returns false when the token is unknown, expired or already used.
+ */
+export const resetPasswordWithToken = async (token: string, password: string): Promise<boolean> => {
+  const tokenHash = hashToken(token);
+  // Use the token up first, so it cannot be replayed by a concurrent request
+  const [claimed] = await db.PasswordResetToken.update(
+    { usedAt: new Date() },
+    { where: { tokenHash, usedAt: null, expiresAt: { [Op.gt]: new Date() } } },
+  );
+  if (!claimed) {
+    return false;
+  }
+
+  const record = await db.PasswordResetToken.findOne({ where: { tokenHash } });
+  const user = record ? await db.User.findByPk(record.userId) : null;
+  if (!user) {
+    return false;
+  }
+
+  const salt = await bcrypt.genSalt(10);
+  await user.update({ passwordHash: await bcrypt.hash(password, salt) });
+
+  // Whoever knew the old password may still hold a session
+  await revokeUserSessions(user.id);
+  return true;
+};
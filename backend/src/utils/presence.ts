@@ -0,0 +1,40 @@
+import { redisClient } from '../index';
+
+// Presence lives in Redis so every backend instance sees the same set of online users.
+// Each user maps to a set of socket ids; the key expires so sockets of a crashed node do not linger forever.
+const PRESENCE_TTL_SECONDS = 24 * 60 * 60;
+
+const getPresenceKey = (userId: string) => `presence:user:${userId}`;
+
+/**
+ * Records an open socket for a user. Returns the number of sockets the user now has open.
+ */
+export const addUserSocket = async (userId: string, socketId: string): Promise<number> => {
+  const key = getPresenceKey(userId);
+  const results = await redisClient
+    .multi()
+    .sadd(key, socketId)
+    .expire(key, PRESENCE_TTL_SECONDS)
+    .scard(key)
+    .exec();
+  return Number(results?.[2]?.[1] ?? 0);
+};
+
+/**
+ * Removes a socket from a user's presence. Returns true if the socket was registered.
+ */
+export const removeUserSocket = async (userId: string, socketId: string): Promise<boolean> => {
+  const removed = await redisClient.srem(getPresenceKey(userId), socketId);
+  return removed > 0;
+};
+
+/**
+ * Returns the number of sockets a user has open across all backend instances.
+ */
+export const getUserSocketCount = async (userId: string): Promise<number> => {
+  return redisClient.scard(getPresenceKey(userId));
+};
+
+export const isUserOnline = async (userId: string): Promise<boolean> => {
+  return (await getUserSocketCount(userId)) > 0;
+};
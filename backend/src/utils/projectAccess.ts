@@ -0,0 +1,97 @@
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { ProjectRole } from '../models/ProjectMember';
+
+export type { ProjectRole };
+
+export const PROJECT_ROLES: ProjectRole[] = ['Owner', 'Maintainer', 'Contributor', 'Observer'];
+
+interface AuthenticatedUser {
+  id: string;
+  role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+}
+
+/**
+ * Resolves the role a user holds within a project, or null if they are not a member.
+ * Admins are treated as Owners of every project. The creator of a project that has no
+ * membership rows yet (created before memberships existed) is treated as its Owner.
+ */
+export const getProjectRole = async (user: AuthenticatedUser, projectId: string): Promise<ProjectRole | null> => {
+  if (user.role === 'Admin') {
+    return 'Owner';
+  }
+
+  const membership = await db.ProjectMember.findOne({ where: { projectId, userId: user.id } });
+  if (membership) {
+    return membership.role;
+  }
+
+  const project = await db.Project.findByPk(projectId, { attributes: ['id', 'createdBy'] });
+  if (project && project.createdBy === user.id) {
+    const memberCount = await db.ProjectMember.count({ where: { projectId } });
+    if (memberCount === 0) {
+      return 'Owner';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Returns the ids of all projects the user can view, or null when the user can view every project.
+ */
+export const getAccessibleProjectIds = async (user: AuthenticatedUser): Promise<string[] | null> => {
+  if (user.role === 'Admin') {
+    return null;
+  }
+
+  const memberships = await db.ProjectMember.findAll({ where: { userId: user.id }, attributes: ['projectId'] });
+  const createdProjects = await db.Project.findAll({
+    where: { createdBy: user.id },
+    attributes: ['id'],
+    include: [{ model: db.ProjectMember, as: 'memberships', attributes: ['id'], required: false }],
+  });
+
+  const ids = new Set<string>();
+  memberships.forEach((membership: { projectId: string }) => ids.add(membership.projectId));
+  createdProjects
+    .filter((project: { memberships: unknown[] }) => project.memberships.length === 0)
+    .forEach((project: { id: string }) => ids.add(project.id));
+  return Array.from(ids);
+};
+
+/**
+ * Builds a where clause restricting a `projectId` column to the projects the user can view.
+ */
+export const projectScopeWhere = (projectIds: string[] | null) =>
+  projectIds === null ? {} : { projectId: { [Op.in]: projectIds } };
+
+// Owners and Maintainers manage the project: members, any task, any setting.
+export const canManageProject = (role: ProjectRole | null): boolean => role === 'Owner' || role === 'Maintainer';
+
+// Everyone except Observers can create and work on tasks.
+export const canContribute = (role: ProjectRole | null): boolean => role !== null && role !== 'Observer';
+
+/**
+ * Decides whether a user may modify a task, given their role in the task's project.
+ * Managers may modify any task; Contributors only the tasks they reported or are assigned to.
+ */
+export const canUpdateTask = (
+  role: ProjectRole | null,
+  userId: string,
+  task: { assignedTo?: string | null; reportedBy: string }
+): boolean => {
+  if (canManageProject(role)) {
+    return true;
+  }
+  if (!canContribute(role)) {
+    return false;
+  }
+  return task.assignedTo === userId || task.reportedBy === userId;
+};
+
+/**
+ * Decides whether a user may delete a task: managers, or the Contributor who reported it.
+ */
+export const canDeleteTask = (role: ProjectRole | null, userId: string, task: { reportedBy: string }): boolean =>
+  canManageProject(role) || (canContribute(role) && task.reportedBy === userId);
@@ -0,0 +1,36 @@
+import { Response } from 'express';
+import { redisClient } from '../index';
+
+/**
+ * Counts an attempt against a fixed window shared by every backend instance (through Redis).
+ * Returns whether the attempt is within `limit`, and otherwise how many seconds until the window resets.
+ */
+export const consumeRateLimit = async (key: string, limit: number, windowSeconds: number): Promise<{ allowed: boolean; retryAfterSeconds: number }> => {
+  const redisKey = `rateLimit:${key}`;
+  const attempts = await redisClient.incr(redisKey);
+  if (attempts === 1) {
+    await redisClient.expire(redisKey, windowSeconds);
+  }
+
+  if (attempts <= limit) {
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+  const ttl = await redisClient.ttl(redisKey);
+  // A key left without an expiry (e.g. the process died between INCR and EXPIRE) must not block forever
+  if (ttl < 0) {
+    await redisClient.expire(redisKey, windowSeconds);
+  }
+  return { allowed: false, retryAfterSeconds: ttl > 0 ? ttl : windowSeconds };
+};
+
+/**
+ * Applies a rate limit in a request handler, answering 429 once it is exceeded. Returns whether the request may go on.
+ */
+export const checkRateLimit = async (res: Response, key: string, limit: number, windowSeconds: number): Promise<boolean> => {
+  const { allowed, retryAfterSeconds } = await consumeRateLimit(key, limit, windowSeconds);
+  if (!allowed) {
+    res.setHeader('Retry-After', String(retryAfterSeconds));
+    res.status(429).json({ message: 'Too many requests. Please try again later.' });
+  }
+  return allowed;
+};
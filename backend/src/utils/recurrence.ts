@@ -0,0 +1,191 @@
+/*
+ * Recurrence rules are a subset of the iCalendar RRULE format, stored in their normalized text form, e.g.
+ * "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH". Supported parts: FREQ (DAILY, WEEKLY or MONTHLY), INTERVAL,
+ * BYDAY (weekly rules only), BYMONTHDAY (monthly rules only; -1 is the last day), UNTIL (a date) and COUNT.
+ * Occurrences are whole UTC days, like task deadlines.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: number[]; // Weekdays, 0 = Sunday
+  byMonthDay?: number;
+  until?: Date;
+  count?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MAX_INTERVAL = 365;
+const MAX_COUNT = 1000;
+
+// The presets offered by the task form, accepted as shorthands
+const RULE_SHORTHANDS: Record<string, string> = {
+  daily: 'FREQ=DAILY',
+  weekly: 'FREQ=WEEKLY',
+  monthly: 'FREQ=MONTHLY',
+};
+
+export const startOfUtcDay = (date: Date): Date => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const formatUntil = (date: Date): string => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+/**
+ * Parses a rule (or one of the 'daily', 'weekly' and 'monthly' shorthands).
+ * Returns the rule, or a message describing what is wrong with it.
+ */
+export const parseRecurrenceRule = (input: unknown): { rule?: RecurrenceRule; error?: string } => {
+  if (typeof input !== 'string' || !input.trim()) {
+    return { error: 'Recurrence rule is required.' };
+  }
+  const text = RULE_SHORTHANDS[input.trim().toLowerCase()] || input.trim().replace(/^RRULE:/i, '');
+
+  const parts = new Map<string, string>();
+  for (const part of text.split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      return { error: `'${part}' is not a valid recurrence rule part.` };
+    }
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    return { error: 'Recurrence rules must repeat DAILY, WEEKLY or MONTHLY.' };
+  }
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = Number(value);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > MAX_INTERVAL) {
+          return { error: `INTERVAL must be a whole number between 1 and ${MAX_INTERVAL}.` };
+        }
+        break;
+      case 'BYDAY': {
+        const days = value.split(',').map(day => WEEKDAYS.indexOf(day));
+        if (freq !== 'WEEKLY' || days.includes(-1)) {
+          return { error: 'BYDAY is only supported on weekly rules, as a list of weekdays like MO,WE.' };
+        }
+        rule.byDay = [...new Set(days)].sort();
+        break;
+      }
+      case 'BYMONTHDAY':
+        rule.byMonthDay = Number(value);
+        if (freq !== 'MONTHLY' || !Number.isInteger(rule.byMonthDay) || rule.byMonthDay === 0 || rule.byMonthDay < -1 || rule.byMonthDay > 31) {
+          return { error: 'BYMONTHDAY is only supported on monthly rules, as a day from 1 to 31 or -1 for the last day.' };
+        }
+        break;
+      case 'UNTIL': {
+        const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+        const until = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+        if (!until || isNaN(until.getTime())) {
+          return { error: 'UNTIL must be a date like 20261231.' };
+        }
+        rule.until = until;
+        break;
+      }
+      case 'COUNT':
+        rule.count = Number(value);
+        if (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_COUNT) {
+          return { error: `COUNT must be a whole number between 1 and ${MAX_COUNT}.` };
+        }
+        break;
+      default:
+        return { error: `The recurrence rule part ${key} is not supported.` };
+    }
+  }
+
+  return { rule };
+};
+
+/**
+ * Writes a rule in its normalized text form.
+ */
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => [
+  `FREQ=${rule.freq}`,
+  rule.interval > 1 ? `INTERVAL=${rule.interval}` : null,
+  rule.byDay?.length ? `BYDAY=${rule.byDay.map(day => WEEKDAYS[day]).join(',')}` : null,
+  rule.byMonthDay !== undefined ? `BYMONTHDAY=${rule.byMonthDay}` : null,
+  rule.until ? `UNTIL=${formatUntil(rule.until)}` : null,
+  rule.count !== undefined ? `COUNT=${rule.count}` : null,
+].filter(Boolean).join(';');
+
+/**
+ * Pins a monthly rule without BYMONTHDAY to the day of month of the series' first occurrence, or to -1 when that is the
+ * last day of its month. Occurrences are stepped from the previous one, so otherwise a series clamped to a short month
+ * (Jan 31 to Feb 28) would stay on the 28th.
+ */
+export const anchorMonthDay = (rule: RecurrenceRule, anchor: Date): RecurrenceRule => {
+  if (rule.freq !== 'MONTHLY' || rule.byMonthDay !== undefined) {
+    return rule;
+  }
+  const day = anchor.getUTCDate();
+  return { ...rule, byMonthDay: day === daysInMonth(anchor.getUTCFullYear(), anchor.getUTCMonth()) ? -1 : day };
+};
+
+/**
+ * Returns the occurrence that follows `from` under the rule.
+ */
+const stepOccurrence = (rule: RecurrenceRule, from: Date): Date => {
+  if (rule.freq === 'DAILY') {
+    return addDays(from, rule.interval);
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    if (!rule.byDay?.length) {
+      return addDays(from, 7 * rule.interval);
+    }
+    // Weeks start on Monday, so Sunday sorts last within a week
+    const weekOffset = (day: number) => (day + 6) % 7;
+    const laterThisWeek = rule.byDay.map(weekOffset).filter(offset => offset > weekOffset(from.getUTCDay())).sort((a, b) => a - b);
+    const monday = addDays(from, -weekOffset(from.getUTCDay()));
+    if (laterThisWeek.length > 0) {
+      return addDays(monday, laterThisWeek[0]);
+    }
+    return addDays(monday, 7 * rule.interval + Math.min(...rule.byDay.map(weekOffset)));
+  }
+
+  // Monthly: on the given day of the month, or the same day as `from`, clamped to short months
+  const dayFor = (year: number, month: number) => {
+    const length = daysInMonth(year, month);
+    const day = rule.byMonthDay === -1 ? length : rule.byMonthDay ?? from.getUTCDate();
+    return Math.min(day, length);
+  };
+  const year = from.getUTCFullYear();
+  const month = from.getUTCMonth();
+  if (rule.byMonthDay !== undefined && dayFor(year, month) > from.getUTCDate()) {
+    return new Date(Date.UTC(year, month, dayFor(year, month)));
+  }
+  const next = new Date(Date.UTC(year, month + rule.interval, 1));
+  return new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth(), dayFor(next.getUTCFullYear(), next.getUTCMonth())));
+};
+
+/**
+ * Returns the first occurrence after `anchor` (the current occurrence) that also falls after `notBefore`,
+ * skipping the ones missed in between, or null once the rule has ended.
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, anchor: Date, notBefore: Date = anchor): Date | null => {
+  let occurrence = startOfUtcDay(anchor);
+  const threshold = startOfUtcDay(notBefore);
+  // Bounded so a rule can never spin forever; daily rules catch up years of missed occurrences well within it
+  for (let step = 0; step < 10000; step += 1) {
+    occurrence = stepOccurrence(rule, occurrence);
+    if (rule.until && occurrence > rule.until) {
+      return null;
+    }
+    if (occurrence > threshold) {
+      return occurrence;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,189 @@
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { RecurrenceTrigger } from '../models/Task';
+import { io } from '../index';
+import { notifyUser } from './notifications';
+import { recordTaskEvent } from './taskHistory';
+import { getProjectWorkflow, getInitialStatus } from './workflows';
+import { getTopRank } from './taskRanking';
+import { addTaskWatchers } from './taskWatchers';
+import { parseRecurrenceRule, formatRecurrenceRule, getNextOccurrence, anchorMonthDay } from './recurrence';
+import { invalidateTaskCaches } from './taskCache';
+
+export const RECURRENCE_TRIGGERS: RecurrenceTrigger[] = ['completion', 'schedule'];
+
+export interface TaskRecurrenceValues {
+  recurrenceRule: string | null;
+  recurrenceTrigger: RecurrenceTrigger | null;
+  nextOccurrenceAt: Date | null;
+}
+
+const NO_RECURRENCE: TaskRecurrenceValues = { recurrenceRule: null, recurrenceTrigger: null, nextOccurrenceAt: null };
+
+/**
+ * Validates the `recurrence` of a task request ({ rule, trigger }, or null to stop repeating)
+ * and returns the task values that store it. `anchor` is the task's current occurrence, i.e. its deadline.
+ */
+export const parseTaskRecurrence = (input: unknown, anchor: Date | null): { values?: TaskRecurrenceValues; error?: string } => {
+  if (input === null) {
+    return { values: NO_RECURRENCE };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Recurrence must be an object with a rule and a trigger, or null.' };
+  }
+
+  const { rule: ruleInput, trigger = 'completion' } = input as { rule?: unknown; trigger?: unknown };
+  if (!RECURRENCE_TRIGGERS.includes(trigger as RecurrenceTrigger)) {
+    return { error: `Recurrence trigger must be one of: ${RECURRENCE_TRIGGERS.join(', ')}.` };
+  }
+  const { rule: parsedRule, error } = parseRecurrenceRule(ruleInput);
+  if (!parsedRule) {
+    return { error };
+  }
+
+  const now = new Date();
+  // Without a deadline, a completion-triggered series follows the completion date, so only a known start pins the day
+  const start = anchor || (trigger === 'schedule' ? now : null);
+  const rule = start ? anchorMonthDay(parsedRule, start) : parsedRule;
+  return {
+    values: {
+      recurrenceRule: formatRecurrenceRule(rule),
+      recurrenceTrigger: trigger as RecurrenceTrigger,
+      nextOccurrenceAt: trigger === 'schedule' ? getNextOccurrence(rule, anchor || now, now) : null,
+    },
+  };
+};
+
+/**
+ * Creates the next instance of a recurring task: a copy of its title, description, assignee, priority, estimate,
+ * labels, watchers and checklist, due on the rule's next occurrence, which takes over the rule. The task passed in stops repeating,
+ * so each series has a single instance carrying its rule.
+ * Returns the new task, or null when the series has ended (or another request already continued it).
+ */
+export const createNextOccurrence = async (task: any): Promise<any | null> => {
+  const { rule } = parseRecurrenceRule(task.recurrenceRule);
+  if (!rule || !task.recurrenceTrigger) {
+    return null;
+  }
+
+  // Hand the rule over first, so a completion racing the scheduler cannot continue the series twice
+  const [claimed] = await db.Task.update(NO_RECURRENCE, { where: { id: task.id, recurrenceRule: task.recurrenceRule } });
+  if (!claimed) {
+    return null;
+  }
+
+  try {
+    const now = new Date();
+    const seriesId = task.recurrenceSeriesId || task.id;
+
+    // Completing a task continues from its deadline; a scheduled series from the occurrence that came due
+    const occurrence = task.recurrenceTrigger === 'schedule' && task.nextOccurrenceAt
+      ? new Date(task.nextOccurrenceAt)
+      : getNextOccurrence(rule, task.deadline ? new Date(task.deadline) : now, now);
+    if (!occurrence) {
+      return null;
+    }
+    if (rule.count) {
+      const seriesSize = await db.Task.count({ where: { [Op.or]: [{ id: seriesId }, { recurrenceSeriesId: seriesId }] } });
+      if (seriesSize >= rule.count) {
+        return null;
+      }
+    }
+
+    const workflow = await getProjectWorkflow(task.projectId);
+    const status = getInitialStatus(workflow);
+    const nextTask = await db.Task.create({
+      title: task.title,
+      description: task.description,
+      status,
+      priority: task.priority,
+      deadline: occurrence,
+      projectId: task.projectId,
+      assignedTo: task.assignedTo || null,
+      reportedBy: task.reportedBy,
+      parentTaskId: task.parentTaskId || null,
+      estimate: task.estimate ?? null,
+      recurrenceRule: task.recurrenceRule,
+      recurrenceTrigger: task.recurrenceTrigger,
+      recurrenceSeriesId: seriesId,
+      nextOccurrenceAt: task.recurrenceTrigger === 'schedule' ? getNextOccurrence(rule, occurrence, now) : null,
+      rank: await getTopRank(task.projectId, status),
+    });
+
+    const taskLabels = await db.TaskLabel.findAll({ where: { taskId: task.id }, attributes: ['labelId'] });
+    if (taskLabels.length > 0) {
+      await nextTask.setLabels(taskLabels.map((taskLabel: { labelId: string }) => taskLabel.labelId));
+    }
+
+    // Whoever followed the series keeps following it
+    const watchers = await db.TaskWatcher.findAll({ where: { taskId: task.id }, attributes: ['userId'] });
+    await addTaskWatchers(nextTask.id, watchers.map((watcher: { userId: string }) => watcher.userId));
+
+    // The checklist starts over on every occurrence
+    const checklistItems = await db.ChecklistItem.findAll({ where: { taskId: task.id }, order: [['rank', 'ASC']] });
+    await db.ChecklistItem.bulkCreate(checklistItems.map((item: { text: string; assigneeId?: string | null; rank: string }) => ({
+      taskId: nextTask.id,
+      text: item.text,
+      assigneeId: item.assigneeId,
+      rank: item.rank,
+    })));
+
+    await recordTaskEvent({ taskId: nextTask.id, projectId: task.projectId, actorId: task.reportedBy, action: 'created', newValue: nextTask.title });
+
+    await invalidateTaskCaches(task.projectId);
+
+    const nextTaskWithAssociations = await db.Task.findByPk(nextTask.id, {
+      include: [
+        { model: db.Project, as: 'project', attributes: ['id', 'name', 'status'] },
+        { model: db.User, as: 'assignee', attributes: ['id', 'username', 'email', 'role'] },
+        { model: db.User, as: 'reporter', attributes: ['id', 'username', 'email', 'role'] },
+        { model: db.Label, as: 'labels', attributes: ['id', 'name', 'color'], through: { attributes: [] } },
+      ],
+    });
+    io.to(task.projectId).emit('taskCreated', nextTaskWithAssociations);
+
+    if (nextTask.assignedTo) {
+      await notifyUser({
+        userId: nextTask.assignedTo,
+        message: `Recurring task "${nextTask.title}" is due again on ${occurrence.toISOString().split('T')[0]}.`,
+        type: 'task_assigned',
+        itemId: nextTask.id,
+        projectId: task.projectId,
+      });
+    }
+
+    return nextTaskWithAssociations;
+  } catch (error) {
+    // Give the rule back, so the series can be continued on the next attempt
+    await db.Task.update(
+      { recurrenceRule: task.recurrenceRule, recurrenceTrigger: task.recurrenceTrigger, nextOccurrenceAt: task.nextOccurrenceAt },
+      { where: { id: task.id } },
+    );
+    throw error;
+  }
+};
+
+/**
+ * Continues every scheduled series whose next occurrence has come. Returns how many tasks were created.
+ */
+export const createDueOccurrences = async (): Promise<number> => {
+  const dueTasks = await db.Task.findAll({
+    where: {
+      recurrenceTrigger: 'schedule',
+      recurrenceRule: { [Op.ne]: null },
+      nextOccurrenceAt: { [Op.lte]: new Date() },
+    },
+  });
+
+  let created = 0;
+  for (const task of dueTasks) {
+    try {
+      if (await createNextOccurrence(task)) {
+        created += 1;
+      }
+    } catch (error) {
+      console.error(`Error creating the next occurrence of task ${task.id}:`, error);
+    }
+  }
+  return created;
+};
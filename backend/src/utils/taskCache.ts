@@ -0,0 +1,12 @@
+import { redisClient } from '../index';
+
+// Task lists are cached per project, and across all projects under 'allTasks'
+export const getTasksCacheKey = (projectId?: string) => projectId ? `projectTasks:${projectId}` : 'allTasks';
+
+/**
+ * Drops the cached task lists a change to a project's tasks makes stale: the project's own list and the list of all tasks.
+ */
+export const invalidateTaskCaches = async (projectId: string): Promise<void> => {
+  await redisClient.del(getTasksCacheKey());
+  await redisClient.del(getTasksCacheKey(projectId));
+};
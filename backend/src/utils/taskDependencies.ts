@@ -0,0 +1,125 @@
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { notifyUser } from './notifications';
+import { Workflow, getProjectWorkflows, hasStatus, isTerminalStatus } from './workflows';
+
+// The status suggested for tasks that wait on unfinished work, when their workflow has it
+const BLOCKED_STATUS = 'Blocked';
+
+/**
+ * Returns the tasks blocking `taskId` that are not yet in a terminal status of their project's workflow.
+ */
+export const getUnfinishedBlockers = async (taskId: string): Promise<Array<{ id: string; title: string; status: string }>> => {
+  const dependencies = await db.TaskDependency.findAll({
+    where: { blockedTaskId: taskId },
+    include: [{ model: db.Task, as: 'blockerTask', attributes: ['id', 'title', 'status', 'projectId'] }],
+  });
+
+  const blockers = dependencies
+    .map((dependency: { blockerTask: { id: string; title: string; status: string; projectId: string } | null }) => dependency.blockerTask)
+    .filter(Boolean);
+  if (blockers.length === 0) {
+    return [];
+  }
+
+  // Blockers may live in other projects, each with its own idea of "finished"
+  const workflows = await getProjectWorkflows([...new Set<string>(blockers.map((blocker: { projectId: string }) => blocker.projectId))]);
+  return blockers
+    .filter((blocker: { status: string; projectId: string }) => !isTerminalStatus(workflows.get(blocker.projectId)!, blocker.status))
+    .map(({ id, title, status }: { id: string; title: string; status: string }) => ({ id, title, status }));
+};
+
+/**
+ * Reports whether making `blockerTaskId` block `blockedTaskId` would close a cycle,
+ * i.e. whether the blocker is already (transitively) blocked by the blocked task.
+ */
+export const wouldCreateDependencyCycle = async (blockerTaskId: string, blockedTaskId: string): Promise<boolean> => {
+  if (blockerTaskId === blockedTaskId) {
+    return true;
+  }
+
+  const visited = new Set<string>([blockerTaskId]);
+  let frontier = [blockerTaskId];
+
+  // Breadth-first walk up the "is blocked by" edges, one query per level
+  while (frontier.length > 0) {
+    const edges = await db.TaskDependency.findAll({
+      where: { blockedTaskId: { [Op.in]: frontier } },
+      attributes: ['blockerTaskId'],
+    });
+
+    const next: string[] = [];
+    for (const edge of edges as Array<{ blockerTaskId: string }>) {
+      if (edge.blockerTaskId === blockedTaskId) {
+        return true;
+      }
+      if (!visited.has(edge.blockerTaskId)) {
+        visited.add(edge.blockerTaskId);
+        next.push(edge.blockerTaskId);
+      }
+    }
+    frontier = next;
+  }
+
+  return false;
+};
+
+/**
+ * Builds the status suggestion returned by `updateTask` when a task is being worked on
+ * while some of its blockers are unfinished, or null if no suggestion applies.
+ * Workflows without a 'Blocked' status never get a suggestion.
+ */
+export const getBlockedStatusSuggestion = async (
+  taskId: string,
+  status: string,
+  workflow: Workflow
+): Promise<{ status: string; reason: string; blockers: Array<{ id: string; title: string; status: string }> } | null> => {
+  if (status === BLOCKED_STATUS || !hasStatus(workflow, BLOCKED_STATUS) || isTerminalStatus(workflow, status)) {
+    return null;
+  }
+
+  const blockers = await getUnfinishedBlockers(taskId);
+  if (blockers.length === 0) {
+    return null;
+  }
+
+  return {
+    status: BLOCKED_STATUS,
+    reason: `Waiting on ${blockers.length} unfinished task(s): ${blockers.map(blocker => `"${blocker.title}"`).join(', ')}.`,
+    blockers,
+  };
+};
+
+/**
+ * Tells the assignees of the tasks blocked by a just-finished task that their blocker is done.
+ * The user who completed the task is not notified.
+ */
+export const notifyDependentsOfCompletion = async (
+  blocker: { id: string; title: string },
+  actorId: string
+): Promise<void> => {
+  const dependencies = await db.TaskDependency.findAll({
+    where: { blockerTaskId: blocker.id },
+    include: [{ model: db.Task, as: 'blockedTask', attributes: ['id', 'title', 'projectId', 'assignedTo'] }],
+  });
+
+  for (const { blockedTask } of dependencies as Array<{ blockedTask: { id: string; title: string; projectId: string; assignedTo?: string } | null }>) {
+    if (!blockedTask || !blockedTask.assignedTo || blockedTask.assignedTo === actorId) {
+      continue;
+    }
+
+    const remainingBlockers = await getUnfinishedBlockers(blockedTask.id);
+    const message = remainingBlockers.length === 0
+      ? `"${blocker.title}" is done. Your task "${blockedTask.title}" is no longer blocked.`
+      : `"${blocker.title}" is done. Your task "${blockedTask.title}" is still waiting on ${remainingBlockers.length} task(s).`;
+
+    await notifyUser({
+      userId: blockedTask.assignedTo,
+      message,
+      type: 'task_updated',
+      itemId: blockedTask.id,
+      projectId: blockedTask.projectId,
+    });
+    console.log(`Notified user ${blockedTask.assignedTo} that blocker ${blocker.id} of task ${blockedTask.id} is done.`);
+  }
+};
@@ -0,0 +1,74 @@
+import db from '../models/index';
+import { TaskEventAction } from '../models/TaskEvent';
+
+export const TRACKED_TASK_FIELDS = ['title', 'description', 'status', 'priority', 'deadline', 'projectId', 'assignedTo', 'parentTaskId', 'labels', 'sprintId', 'estimate', 'recurrenceRule'];
+export const TRACKED_PROJECT_FIELDS = ['name', 'description', 'status', 'estimateUnit'];
+
+const serializeValue = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+};
+
+/**
+ * Compares two snapshots and returns one { field, oldValue, newValue } entry per tracked field that changed.
+ */
+const diffFields = (before: Record<string, any>, after: Record<string, any>, fields: string[]) =>
+  fields
+    .map(field => ({ field, oldValue: serializeValue(before[field]), newValue: serializeValue(after[field]) }))
+    .filter(change => change.oldValue !== change.newValue);
+
+interface TaskEventOptions {
+  taskId: string;
+  projectId: string;
+  actorId: string;
+  action: TaskEventAction;
+  field?: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+export const recordTaskEvent = async ({ taskId, projectId, actorId, action, field, oldValue, newValue }: TaskEventOptions): Promise<void> => {
+  await db.TaskEvent.create({
+    entityType: 'task',
+    taskId,
+    projectId,
+    actorId,
+    action,
+    field: field || null,
+    oldValue: serializeValue(oldValue),
+    newValue: serializeValue(newValue),
+  });
+};
+
+/**
+ * Records one 'updated' event per tracked task field that differs between the two snapshots.
+ */
+export const recordTaskChanges = async (taskId: string, projectId: string, actorId: string, before: Record<string, any>, after: Record<string, any>): Promise<void> => {
+  const changes = diffFields(before, after, TRACKED_TASK_FIELDS);
+  if (changes.length === 0) return;
+
+  await db.TaskEvent.bulkCreate(changes.map(change => ({ entityType: 'task', taskId, projectId, actorId, action: 'updated', ...change })));
+};
+
+export const recordProjectEvent = async (projectId: string, actorId: string, action: TaskEventAction, details: { field?: string; oldValue?: unknown; newValue?: unknown } = {}): Promise<void> => {
+  await db.TaskEvent.create({
+    entityType: 'project',
+    projectId,
+    actorId,
+    action,
+    field: details.field || null,
+    oldValue: serializeValue(details.oldValue),
+    newValue: serializeValue(details.newValue),
+  });
+};
+
+/**
+ * Records one 'updated' event per tracked project field that differs between the two snapshots.
+ */
+export const recordProjectChanges = async (projectId: string, actorId: string, before: Record<string, any>, after: Record<string, any>): Promise<void> => {
+  const changes = diffFields(before, after, TRACKED_PROJECT_FIELDS);
+  if (changes.length === 0) return;
+
+  await db.TaskEvent.bulkCreate(changes.map(change => ({ entityType: 'project', projectId, actorId, action: 'updated', ...change })));
+};
@@ -0,0 +1,153 @@
+import { Op, Order } from 'sequelize';
+import db from '../models/index';
+
+/*
+ * Tasks are ordered within a board column by a lexicographic rank: a string over [0-9a-z] that never
+ * ends in '0'. There is always room between two ranks, so moving a task only rewrites that task's rank.
+ * With such a small alphabet every database collation orders ranks the same way as a plain comparison.
+ */
+const RANK_DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// Ranks grow when tasks keep landing in the same spot; past this length the column is re-spaced
+const MAX_RANK_LENGTH = 64;
+
+// The order tasks are shown on the board: ranked tasks first, then unranked ones newest first
+export const TASK_BOARD_ORDER: Order = [['rank', 'ASC'], ['createdAt', 'DESC']];
+
+const midpoint = (lower: string, upper: string | null): string => {
+  if (upper !== null) {
+    // Keep the shared prefix and find a rank between the remainders
+    let prefixLength = 0;
+    while ((lower[prefixLength] || RANK_DIGITS[0]) === upper[prefixLength]) {
+      prefixLength += 1;
+    }
+    if (prefixLength > 0) {
+      return upper.slice(0, prefixLength) + midpoint(lower.slice(prefixLength), upper.slice(prefixLength));
+    }
+  }
+
+  const lowerDigit = lower ? RANK_DIGITS.indexOf(lower[0]) : 0;
+  const upperDigit = upper !== null ? RANK_DIGITS.indexOf(upper[0]) : RANK_DIGITS.length;
+  if (upperDigit - lowerDigit > 1) {
+    return RANK_DIGITS[Math.round((lowerDigit + upperDigit) / 2)];
+  }
+  // Adjacent digits: either the upper rank's first digit already fits, or go one digit deeper
+  if (upper !== null && upper.length > 1) {
+    return upper.slice(0, 1);
+  }
+  return RANK_DIGITS[lowerDigit] + midpoint(lower.slice(1), null);
+};
+
+/**
+ * Returns a rank that sorts strictly between `lower` and `upper`; null stands for the start or end of the column.
+ */
+export const rankBetween = (lower: string | null, upper: string | null): string => {
+  if (lower !== null && upper !== null && lower >= upper) {
+    throw new Error(`Cannot rank between '${lower}' and '${upper}'.`);
+  }
+  return midpoint(lower || '', upper);
+};
+
+/**
+ * Gives every task of a column (except `excludeTaskId`) a fresh, evenly spaced rank in its current board order.
+ * Needed once for columns holding tasks from before ranking existed, after two concurrent moves picked the same rank,
+ * or once ranks have grown too long.
+ */
+const rebalanceColumn = async (projectId: string, status: string, excludeTaskId?: string): Promise<void> => {
+  const tasks = await db.Task.findAll({
+    where: { projectId, status, ...(excludeTaskId ? { id: { [Op.ne]: excludeTaskId } } : {}) },
+    attributes: ['id', 'rank', 'createdAt'],
+    order: TASK_BOARD_ORDER,
+  });
+  const width = (tasks.length + 1).toString(36).length;
+  for (const [index, task] of tasks.entries()) {
+    await task.update({ rank: `${(index + 1).toString(36).padStart(width, '0')}i` });
+  }
+};
+
+/**
+ * Returns a rank that puts a task at the top of a board column.
+ */
+export const getTopRank = async (projectId: string, status: string): Promise<string> => {
+  const findFirstRank = async (): Promise<string | null> => {
+    const first = await db.Task.findOne({
+      where: { projectId, status, rank: { [Op.ne]: null } },
+      attributes: ['rank'],
+      order: [['rank', 'ASC']],
+    });
+    return first?.rank ?? null;
+  };
+
+  const rank = rankBetween(null, await findFirstRank());
+  if (rank.length <= MAX_RANK_LENGTH) {
+    return rank;
+  }
+  await rebalanceColumn(projectId, status);
+  return rankBetween(null, await findFirstRank());
+};
+
+/**
+ * Works out the rank of a task dropped into the `status` column of its project, between the task that will sit
+ * directly above it (`beforeTaskId`) and the one directly below it (`afterTaskId`). A missing neighbour is looked up
+ * in the column, and with neither the task goes to the top.
+ */
+export const resolveMoveRank = async (
+  taskId: string,
+  projectId: string,
+  status: string,
+  beforeTaskId?: string | null,
+  afterTaskId?: string | null
+): Promise<{ rank?: string; error?: { status: number; message: string } }> => {
+  if (beforeTaskId === taskId || afterTaskId === taskId) {
+    return { error: { status: 400, message: 'A task cannot be placed next to itself.' } };
+  }
+
+  const columnWhere = { projectId, status, id: { [Op.ne]: taskId } };
+  if (await db.Task.count({ where: { ...columnWhere, rank: null } }) > 0) {
+    await rebalanceColumn(projectId, status, taskId);
+  }
+
+  const findRank = async (id: string) => {
+    const neighbour = await db.Task.findOne({ where: { ...columnWhere, id }, attributes: ['rank'] });
+    return neighbour ? neighbour.rank as string : undefined;
+  };
+  const findClosestRank = async (where: object, direction: 'ASC' | 'DESC'): Promise<string | null> => {
+    const closest = await db.Task.findOne({ where: { ...columnWhere, ...where }, attributes: ['rank'], order: [['rank', direction]] });
+    return closest?.rank ?? null;
+  };
+
+  const getBounds = async (): Promise<{ lower: string | null; upper: string | null } | null> => {
+    const lower = beforeTaskId ? await findRank(beforeTaskId) : null;
+    const upper = afterTaskId ? await findRank(afterTaskId) : null;
+    if (lower === undefined || upper === undefined) {
+      return null;
+    }
+    if (!afterTaskId) {
+      return { lower, upper: await findClosestRank(lower === null ? {} : { rank: { [Op.gt]: lower } }, 'ASC') };
+    }
+    if (!beforeTaskId) {
+      return { lower: await findClosestRank({ rank: { [Op.lt]: upper } }, 'DESC'), upper };
+    }
+    return { lower, upper };
+  };
+
+  for (let attempt = 0; attempt < 2; attempt += 1) {
+    const bounds = await getBounds();
+    if (!bounds) {
+      return { error: { status: 400, message: 'Neighbouring tasks must be in the target column of the same project.' } };
+    }
+    const { lower, upper } = bounds;
+    if (lower === null || upper === null || lower < upper) {
+      const rank = rankBetween(lower, upper);
+      if (rank.length <= MAX_RANK_LENGTH || attempt > 0) {
+        return { rank };
+      }
+    }
+    // Equal ranks come from concurrent moves and are fixed by a rebalance; a stale board stays out of order
+    if (attempt === 0) {
+      await rebalanceColumn(projectId, status, taskId);
+    }
+  }
+
+  return { error: { status: 409, message: 'The board has changed since it was loaded. Refresh and try again.' } };
+};
@@ -0,0 +1,44 @@
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { NotificationType } from '../models/Notification';
+import { notifyUser } from './notifications';
+import { getProjectRole } from './projectAccess';
+
+/**
+ * Makes users watch a task. Users already watching it, and empty ids (e.g. no assignee), are ignored.
+ */
+export const addTaskWatchers = async (taskId: string, userIds: (string | null | undefined)[]): Promise<void> => {
+  const uniqueUserIds = [...new Set(userIds.filter((userId): userId is string => !!userId))];
+  if (uniqueUserIds.length === 0) return;
+  await db.TaskWatcher.bulkCreate(uniqueUserIds.map(userId => ({ taskId, userId })), { ignoreDuplicates: true });
+};
+
+interface NotifyTaskWatchersOptions {
+  task: { id: string; projectId: string };
+  actorId: string;
+  message: string;
+  type: NotificationType;
+  // Users already told about this change in their own words, e.g. the new assignee
+  skipUserIds?: string[];
+}
+
+/**
+ * Notifies everyone watching a task of a change, except the user who made it.
+ * Watchers who have since lost access to the task's project are skipped.
+ */
+export const notifyTaskWatchers = async ({ task, actorId, message, type, skipUserIds = [] }: NotifyTaskWatchersOptions): Promise<void> => {
+  const watchers = await db.TaskWatcher.findAll({
+    where: { taskId: task.id, userId: { [Op.notIn]: [actorId, ...skipUserIds] } },
+    attributes: ['userId'],
+  });
+  if (watchers.length === 0) return;
+
+  const users = await db.User.findAll({
+    where: { id: { [Op.in]: watchers.map((watcher: { userId: string }) => watcher.userId) } },
+    attributes: ['id', 'role'],
+  });
+  for (const user of users) {
+    if (!(await getProjectRole(user, task.projectId))) continue;
+    await notifyUser({ userId: user.id, message, type, itemId: task.id, projectId: task.projectId });
+  }
+};
@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { getJwtSecret, hashToken } from './authTokens';
+import { getAppSettings } from './appSettings';
+import { generateTotpSecret, getTotpUri, verifyTotpCode } from './totp';
+
+// The service name authenticator apps show next to the account
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'TeamTask';
+const CHALLENGE_TTL_MINUTES = 10;
+const BACKUP_CODE_COUNT = 10;
+
+/**
+ * What a challenge token lets its holder do after their password was accepted:
+ * enter a code ('two-factor-login'), or enroll because their role requires it ('two-factor-setup').
+ */
+export type TwoFactorChallengePurpose = 'two-factor-login' | 'two-factor-setup';
+
+// Backup codes are shown as "abcde-12345"; the dash and case do not matter when entering one
+const normalizeBackupCode = (code: string): string => code.toLowerCase().replace(/[\s-]/g, '');
+
+const generateBackupCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+  return { codes, hashes: codes.map((code) => hashToken(normalizeBackupCode(code))) };
+};
+
+export const getTwoFactor = (userId: string): Promise<any> => db.UserTwoFactor.findByPk(userId);
+
+export const isTwoFactorEnabled = (twoFactor: { enabledAt?: Date | null } | null): boolean => !!twoFactor?.enabledAt;
+
+export const isTwoFactorRequiredForRole = async (role: string): Promise<boolean> =>
+  (await getAppSettings()).twoFactorRequiredRoles.includes(role);
+
+/**
+ * A short-lived token proving the password of a user was accepted, to be exchanged for a session once the second step is done.
+ */
+export const createTwoFactorChallenge = (userId: string, purpose: TwoFactorChallengePurpose): string =>
+  jwt.sign({ id: userId, purpose }, getJwtSecret(), { expiresIn: `${CHALLENGE_TTL_MINUTES}m` });
+
+/**
+ * Returns the user a challenge token was issued to, or an error message when it cannot be used for `purpose`.
+ */
+export const verifyTwoFactorChallenge = async (token: unknown, purpose: TwoFactorChallengePurpose): Promise<{ user?: any; error?: string }> => {
+  if (typeof token !== 'string' || !token) {
+    return { error: 'Challenge token is required.' };
+  }
+
+  let payload: { id?: string; purpose?: string };
+  try {
+    payload = jwt.verify(token, getJwtSecret()) as typeof payload;
+  } catch {
+    return { error: 'This sign-in attempt has expired. Please log in again.' };
+  }
+  if (payload.purpose !== purpose || !payload.id) {
+    return { error: 'This sign-in attempt has expired. Please log in again.' };
+  }
+
+  const user = await db.User.findByPk(payload.id);
+  if (!user) {
+    return { error: 'This sign-in attempt has expired. Please log in again.' };
+  }
+  return { user };
+};
+
+/**
+ * Creates a new secret for a user to add to their authenticator app, replacing any enrollment that was not confirmed.
+ * Two-factor authentication is only enabled once a code from the app is confirmed.
+ */
+export const startTwoFactorEnrollment = async (user: { id: string; email: string }): Promise<{ secret: string; otpauthUri: string }> => {
+  const secret = generateTotpSecret();
+  await db.UserTwoFactor.upsert({ userId: user.id, secret, enabledAt: null, backupCodeHashes: [], lastUsedStep: null });
+  return { secret, otpauthUri: getTotpUri(secret, user.email, TWO_FACTOR_ISSUER) };
+};
+
+/**
+ * Enables two-factor authentication once the user proves their app generates codes for the new secret.
+ * Returns the backup codes, which are shown once and stored only as hashes.
+ */
+export const confirmTwoFactorEnrollment = async (userId: string, code: unknown): Promise<{ backupCodes?: string[]; error?: string }> => {
+  const twoFactor = await getTwoFactor(userId);
+  if (!twoFactor || isTwoFactorEnabled(twoFactor)) {
+    return { error: 'Start two-factor setup first.' };
+  }
+
+  const step = typeof code === 'string' ? verifyTotpCode(twoFactor.secret, code) : null;
+  if (step === null) {
+    return { error: 'Invalid authentication code. Check the time on your device and try again.' };
+  }
+
+  const { codes, hashes } = generateBackupCodes();
+  // Conditional, so a secret replaced by a concurrent setup is never enabled
+  const [enabled] = await db.UserTwoFactor.update(
+    { enabledAt: new Date(), backupCodeHashes: hashes, lastUsedStep: step },
+    { where: { userId, secret: twoFactor.secret, enabledAt: null } },
+  );
+  if (!enabled) {
+    return { error: 'Start two-factor setup first.' };
+  }
+  return { backupCodes: codes };
+};
+
+/**
+ * Checks the second factor of a user: a code from their authenticator app, or one of their backup codes, which is used up.
+ * A code from the app is accepted once, so one seen over someone's shoulder cannot be replayed.
+ */
+export const verifySecondFactor = async (userId: string, code: unknown): Promise<{ usedBackupCode?: boolean; error?: string }> => {
+  const twoFactor = await getTwoFactor(userId);
+  if (!isTwoFactorEnabled(twoFactor)) {
+    return { error: 'Two-factor authentication is not enabled.' };
+  }
+  if (typeof code !== 'string' || !code.trim()) {
+    return { error: 'Authentication code is required.' };
+  }
+
+  const step = verifyTotpCode(twoFactor.secret, code);
+  if (step !== null) {
+    const [accepted] = await db.UserTwoFactor.update(
+      { lastUsedStep: step },
+      { where: { userId, [Op.or]: [{ lastUsedStep: null }, { lastUsedStep: { [Op.lt]: step } }] } },
+    );
+    return accepted ? {} : { error: 'This code has already been used. Wait for the next one.' };
+  }
+
+  const codeHash = hashToken(normalizeBackupCode(code));
+  if (twoFactor.backupCodeHashes.includes(codeHash)) {
+    // Conditional on the row being unchanged, so a backup code cannot be used by two concurrent requests
+    const [accepted] = await db.UserTwoFactor.update(
+      { backupCodeHashes: twoFactor.backupCodeHashes.filter((hash: string) => hash !== codeHash) },
+      { where: { userId, updatedAt: twoFactor.updatedAt } },
+    );
+    return accepted ? { usedBackupCode: true } : { error: 'This backup code has already been used.' };
+  }
+
+  return { error: 'Invalid authentication code.' };
+};
+
+/**
+ * Replaces every backup code of a user with new ones, e.g. after they ran out. Returns the new codes.
+ */
+export const regenerateBackupCodes = async (userId: string): Promise<string[]> => {
+  const { codes, hashes } = generateBackupCodes();
+  await db.UserTwoFactor.update({ backupCodeHashes: hashes }, { where: { userId } });
+  return codes;
+};
+
+export const disableTwoFactor = async (userId: string): Promise<void> => {
+  await db.UserTwoFactor.destroy({ where: { userId } });
+};
+
+/**
+ * The two-factor state of a user for their security settings. Never includes the secret.
+ */
+export const serializeTwoFactorStatus = async (user: { id: string; role: string }) => {
+  const twoFactor = await getTwoFactor(user.id);
+  const enabled = isTwoFactorEnabled(twoFactor);
+  return {
+    enabled,
+    enabledAt: enabled ? twoFactor.enabledAt : null,
+    required: await isTwoFactorRequiredForRole(user.role),
+    backupCodesRemaining: enabled ? twoFactor.backupCodeHashes.length : 0,
+  };
+};
@@ -0,0 +1,168 @@
+import { Op } from 'sequelize';
+import db from '../models/index';
+import { WorkflowStatus, WorkflowTransition, WipLimitMode } from '../models/ProjectWorkflow';
+import { PROJECT_ROLES, ProjectRole } from './projectAccess';
+
+export interface Workflow {
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[] | null;
+  wipLimitMode: WipLimitMode;
+}
+
+// Projects without a workflow of their own use the original four statuses, with free movement and no WIP limits
+export const DEFAULT_WORKFLOW: Workflow = {
+  statuses: [
+    { name: 'To Do', terminal: false },
+    { name: 'In Progress', terminal: false },
+    { name: 'Done', terminal: true },
+    { name: 'Blocked', terminal: false },
+  ],
+  transitions: null,
+  wipLimitMode: 'soft',
+};
+
+const MAX_STATUS_NAME_LENGTH = 50;
+
+export const getProjectWorkflow = async (projectId: string): Promise<Workflow> => {
+  const workflow = await db.ProjectWorkflow.findOne({ where: { projectId } });
+  return workflow
+    ? { statuses: workflow.statuses, transitions: workflow.transitions, wipLimitMode: workflow.wipLimitMode }
+    : DEFAULT_WORKFLOW;
+};
+
+/**
+ * Loads the workflows of several projects at once, keyed by project id.
+ */
+export const getProjectWorkflows = async (projectIds: string[]): Promise<Map<string, Workflow>> => {
+  const rows = await db.ProjectWorkflow.findAll({ where: { projectId: { [Op.in]: projectIds } } });
+  const workflows = new Map<string, Workflow>(projectIds.map(projectId => [projectId, DEFAULT_WORKFLOW]));
+  rows.forEach((row: { projectId: string } & Workflow) => workflows.set(row.projectId, {
+    statuses: row.statuses,
+    transitions: row.transitions,
+    wipLimitMode: row.wipLimitMode,
+  }));
+  return workflows;
+};
+
+export const hasStatus = (workflow: Workflow, status: string): boolean =>
+  workflow.statuses.some(workflowStatus => workflowStatus.name === status);
+
+export const isTerminalStatus = (workflow: Workflow, status: string): boolean =>
+  workflow.statuses.some(workflowStatus => workflowStatus.name === status && workflowStatus.terminal);
+
+/**
+ * New tasks start in the first non-terminal status of the workflow.
+ */
+export const getInitialStatus = (workflow: Workflow): string =>
+  (workflow.statuses.find(workflowStatus => !workflowStatus.terminal) || workflow.statuses[0]).name;
+
+/**
+ * Checks whether a user with `role` may move a task from one status to another.
+ * Returns an HTTP status and message describing the problem, or null if the transition is allowed.
+ */
+export const checkTransition = (
+  workflow: Workflow,
+  from: string,
+  to: string,
+  role: ProjectRole
+): { status: number; message: string } | null => {
+  if (!hasStatus(workflow, to)) {
+    return { status: 400, message: `'${to}' is not a status of this project's workflow.` };
+  }
+  // Staying put, or leaving a status the workflow no longer knows, is always fine
+  if (from === to || !workflow.transitions || !hasStatus(workflow, from)) {
+    return null;
+  }
+
+  const transition = workflow.transitions.find(candidate => candidate.from === from && candidate.to === to);
+  if (!transition) {
+    return { status: 400, message: `Tasks cannot move from '${from}' to '${to}' in this project's workflow.` };
+  }
+  // Admins act as Owners (see getProjectRole), so Owners are never locked out
+  if (transition.roles?.length && role !== 'Owner' && !transition.roles.includes(role)) {
+    return { status: 403, message: `Only ${transition.roles.join(', ')} members can move tasks from '${from}' to '${to}'.` };
+  }
+  return null;
+};
+
+/**
+ * Checks whether one more task fits into `status` under the status's WIP limit.
+ * Over a hard limit this returns an error; over a soft limit the task is let through with a warning.
+ */
+export const checkWipLimit = async (
+  workflow: Workflow,
+  projectId: string,
+  status: string
+): Promise<{ error?: { status: number; message: string }; warning?: string }> => {
+  const wipLimit = workflow.statuses.find(workflowStatus => workflowStatus.name === status)?.wipLimit;
+  if (!wipLimit) {
+    return {};
+  }
+
+  const count = await db.Task.count({ where: { projectId, status } });
+  if (count < wipLimit) {
+    return {};
+  }
+
+  const message = `'${status}' is limited to ${wipLimit} task${wipLimit === 1 ? '' : 's'} and already has ${count}.`;
+  return workflow.wipLimitMode === 'hard'
+    ? { error: { status: 409, message } }
+    : { warning: message };
+};
+
+/**
+ * Validates a workflow definition sent by a client and returns it in normalized form.
+ */
+export const parseWorkflowDefinition = (input: any): { workflow?: Workflow; error?: string } => {
+  if (!input || !Array.isArray(input.statuses) || input.statuses.length === 0) {
+    return { error: 'A workflow needs at least one status.' };
+  }
+
+  const statuses: WorkflowStatus[] = [];
+  for (const status of input.statuses) {
+    const name = typeof status?.name === 'string' ? status.name.trim() : '';
+    if (!name || name.length > MAX_STATUS_NAME_LENGTH) {
+      return { error: `Status names are required and must be at most ${MAX_STATUS_NAME_LENGTH} characters.` };
+    }
+    if (statuses.some(existing => existing.name === name)) {
+      return { error: `Status '${name}' is listed more than once.` };
+    }
+    const wipLimit = status.wipLimit ?? null;
+    if (wipLimit !== null && (!Number.isInteger(wipLimit) || wipLimit < 1)) {
+      return { error: `The WIP limit of '${name}' must be a positive whole number.` };
+    }
+    statuses.push(wipLimit === null ? { name, terminal: !!status.terminal } : { name, terminal: !!status.terminal, wipLimit });
+  }
+  if (statuses.every(status => status.terminal)) {
+    return { error: 'A workflow needs at least one status that is not terminal.' };
+  }
+
+  const wipLimitMode = input.wipLimitMode ?? 'soft';
+  if (wipLimitMode !== 'soft' && wipLimitMode !== 'hard') {
+    return { error: `wipLimitMode must be 'soft' or 'hard'.` };
+  }
+
+  if (input.transitions === null || input.transitions === undefined) {
+    return { workflow: { statuses, transitions: null, wipLimitMode } };
+  }
+  if (!Array.isArray(input.transitions)) {
+    return { error: 'transitions must be a list, or null to allow any move.' };
+  }
+
+  const workflow: Workflow = { statuses, transitions: [], wipLimitMode };
+  for (const transition of input.transitions) {
+    const { from, to, roles } = transition || {};
+    if (!hasStatus(workflow, from) || !hasStatus(workflow, to) || from === to) {
+      return { error: `Invalid transition from '${from}' to '${to}'.` };
+    }
+    if (workflow.transitions!.some(existing => existing.from === from && existing.to === to)) {
+      return { error: `The transition from '${from}' to '${to}' is listed more than once.` };
+    }
+    if (roles !== undefined && (!Array.isArray(roles) || roles.some((role: ProjectRole) => !PROJECT_ROLES.includes(role)))) {
+      return { error: `Transition roles must be among: ${PROJECT_ROLES.join(', ')}.` };
+    }
+    workflow.transitions!.push(roles?.length ? { from, to, roles } : { from, to });
+  }
+
+  return { workflow };
+};
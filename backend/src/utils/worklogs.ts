@@ -0,0 +1,45 @@
+import { Op } from 'sequelize';
+import db from '../models/index';
+
+/**
+ * Returns the logged seconds of each of the given tasks. Running timers only count once they are stopped.
+ */
+export const getTimeSpentByTask = async (taskIds: string[]): Promise<Map<string, number>> => {
+  if (taskIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db.Worklog.findAll({
+    where: { taskId: { [Op.in]: taskIds }, durationSeconds: { [Op.ne]: null } },
+    attributes: ['taskId', [db.sequelize.fn('SUM', db.sequelize.col('durationSeconds')), 'totalSeconds']],
+    group: ['taskId'],
+    raw: true,
+  });
+  return new Map(rows.map((row: { taskId: string; totalSeconds: string | number }) => [row.taskId, Number(row.totalSeconds)]));
+};
+
+/**
+ * Returns the seconds logged on all tasks of a project.
+ */
+export const getProjectTimeSpent = async (projectId: string): Promise<number> => {
+  const tasks = await db.Task.findAll({ where: { projectId }, attributes: ['id'] });
+  if (tasks.length === 0) {
+    return 0;
+  }
+
+  const total = await db.Worklog.sum('durationSeconds', {
+    where: { taskId: { [Op.in]: tasks.map((task: { id: string }) => task.id) } },
+  });
+  return Number(total) || 0;
+};
+
+/**
+ * Stops a running timer, fixing its duration.
+ */
+export const stopRunningWorklog = async (worklog: any): Promise<void> => {
+  const endedAt = new Date();
+  await worklog.update({
+    endedAt,
+    durationSeconds: Math.max(0, Math.round((endedAt.getTime() - new Date(worklog.startedAt).getTime()) / 1000)),
+  });
+};
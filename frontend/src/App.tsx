@@ -3,12 +3,16 @@ import { Routes, Route, Link, useNavigate } from 'react-router-dom';
 import './index.css';
 import LoginForm from './components/auth/LoginForm';
 import RegisterForm from './components/auth/RegisterForm';
+import ForgotPasswordForm from './components/auth/ForgotPasswordForm';
+import ResetPasswordForm from './components/auth/ResetPasswordForm';
+import VerifyEmail from './components/auth/VerifyEmail';
 import { useAuth } from './context/AuthContext';
 import DashboardLayout from './components/layout/DashboardLayout';
 import ProjectsPage from './pages/ProjectsPage';
 import ProjectDetailPage from './pages/ProjectDetailPage';
 import UsersPage from './pages/UsersPage';
 import NotificationsPage from './pages/NotificationsPage'; 
+import SecurityPage from './pages/SecurityPage';
 // import { Toaster } from 'sonner';
 import NotificationToastDisplay from './components/notifications/NotificationToastDisplay';
 import { ArrowRightIcon, BuildingOffice2Icon, ArrowPathIcon, QuestionMarkCircleIcon } from '@heroicons/react/24/solid';
@@ -98,6 +102,9 @@ function App() {
           <Route path="/" element={<HomePage />} />
           <Route path="/login" element={<LoginForm />} />
           <Route path="/register" element={<RegisterForm />} />
+          <Route path="/forgot-password" element={<ForgotPasswordForm />} />
+          <Route path="/reset-password" element={<ResetPasswordForm />} />
+          <Route path="/verify-email" element={<VerifyEmail />} />
 
           <Route
             path="/dashboard"
@@ -112,6 +119,7 @@ function App() {
             <Route path="projects/:projectId/tasks" element={<ProjectDetailPage />} />
             <Route path="users" element={<UsersPage />} />
             <Route path="notifications" element={<NotificationsPage />} />
+            <Route path="security" element={<SecurityPage />} />
             <Route path="*" element={<NotFoundPage />} />
           </Route>
           
@@ -1,4 +1,5 @@
-import axios from 'axios';
+import axios, { AxiosError, type InternalAxiosRequestConfig } from 'axios';
+import type { User } from '../context/AuthContext';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
 
@@ -12,7 +13,7 @@ const api = axios.create({
 // Request interceptor to add JWT token to headers
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem('token'); 
+    const token = localStorage.getItem('token');
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -23,19 +24,107 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle token expiration/401 errors
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retried?: boolean;
+}
+
+// The refresh in flight, shared by every request that fails while it runs
+let refreshPromise: Promise<string> | null = null;
+
+// Every tab holds the same refresh token, so a refresh runs under a lock shared by all of them
+const REFRESH_LOCK_NAME = 'auth-refresh';
+
+interface RefreshedSession {
+  token: string;
+  refreshToken: string;
+  user: User;
+}
+
+// Told about every refresh, so the signed-in state in memory follows the stored tokens
+let sessionRefreshListener: ((session: RefreshedSession) => void) | null = null;
+
+export const setSessionRefreshListener = (listener: ((session: RefreshedSession) => void) | null) => {
+  sessionRefreshListener = listener;
+};
+
+const refreshAccessToken = async (): Promise<string> => {
+  const failedRefreshToken = localStorage.getItem('refreshToken');
+
+  const refresh = async (): Promise<string> => {
+    const refreshToken = localStorage.getItem('refreshToken');
+    const token = localStorage.getItem('token');
+    if (!refreshToken) {
+      throw new Error('No refresh token stored.');
+    }
+    // Another tab refreshed while this one waited for the lock; presenting the used token again would revoke the session
+    if (refreshToken !== failedRefreshToken && token) {
+      return token;
+    }
+
+    // A bare axios call, so a failing refresh does not come back through this interceptor
+    const response = await axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+    localStorage.setItem('token', response.data.token);
+    localStorage.setItem('refreshToken', response.data.refreshToken);
+    localStorage.setItem('user', JSON.stringify(response.data.user));
+    sessionRefreshListener?.(response.data);
+    return response.data.token;
+  };
+
+  // Web Locks are missing outside secure contexts; a single tab is still safe there
+  return 'locks' in navigator ? navigator.locks.request(REFRESH_LOCK_NAME, refresh) : refresh();
+};
+
+/**
+ * Refreshes the access token, or joins the refresh already running in this tab. Resolves with the new access token.
+ */
+export const refreshSession = (): Promise<string> => {
+  // A refresh token can be used only once, so concurrent failures wait on the same refresh
+  if (!refreshPromise) {
+    refreshPromise = refreshAccessToken().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+const endSession = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('user');
+  if (window.location.pathname !== '/login') {
+    window.location.href = '/login';
+  }
+};
+
+// Auth endpoints that take no access token; a 401 from them is the answer itself (e.g. a wrong password), so it is not refreshed
+const PUBLIC_AUTH_PATHS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout', '/auth/forgot-password', '/auth/reset-password', '/auth/verify-email'];
+
+// `/auth/login` also covers the second login steps below it, e.g. `/auth/login/2fa`
+const isPublicAuthPath = (url?: string): boolean =>
+  !!url && PUBLIC_AUTH_PATHS.some((path) => url === path || url.startsWith(`${path}/`) || url.startsWith(`${path}?`));
+
+// Response interceptor: an expired access token is refreshed once and the request retried with the new one
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    // Handle 401 Unauthorized globally if needed (e.g., redirect to login)
-    if (error.response && error.response.status === 401) {
-      console.error('Unauthorized access. Token might be expired or invalid.');
-      // You might want to clear token and redirect to login here
-      // localStorage.removeItem('token');
-      // window.location.href = '/login';
+  async (error: AxiosError) => {
+    const originalRequest = error.config as RetriableRequestConfig | undefined;
+    const isPublicAuthRequest = isPublicAuthPath(originalRequest?.url);
+
+    if (error.response?.status !== 401 || !originalRequest || originalRequest._retried || isPublicAuthRequest) {
+      return Promise.reject(error);
+    }
+    originalRequest._retried = true;
+
+    try {
+      const token = await refreshSession();
+      originalRequest.headers.Authorization = `Bearer ${token}`;
+      return api(originalRequest);
+    } catch (refreshError) {
+      console.error('Session expired. Please log in again.', refreshError);
+      endSession();
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
   }
 );
 
-export default api;
\ No newline at end of file
+export default api;
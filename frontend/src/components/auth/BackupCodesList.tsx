@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { ClipboardDocumentIcon, CheckIcon } from '@heroicons/react/24/outline';
+
+interface BackupCodesListProps {
+  codes: string[];
+}
+
+/**
+ * Shows freshly generated backup codes. They are only returned once, so the user is asked to store them now.
+ */
+const BackupCodesList: React.FC<BackupCodesListProps> = ({ codes }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy the backup codes:', err);
+    }
+  };
+
+  return (
+    <div className="rounded-md border border-amber-300 bg-amber-50 p-4">
+      <p className="text-sm text-amber-800">
+        Store these backup codes somewhere safe. Each one signs you in once if you lose your authenticator app. They will not be shown again.
+      </p>
+      <ul className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm text-slate-800">
+        {codes.map((code) => (
+          <li key={code} className="rounded bg-white px-2 py-1 text-center border border-amber-200">{code}</li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={copyCodes}
+        className="mt-3 flex items-center text-sm font-medium text-amber-900 hover:underline"
+      >
+        {copied ? <CheckIcon className="h-4 w-4 mr-1" /> : <ClipboardDocumentIcon className="h-4 w-4 mr-1" />}
+        {copied ? 'Copied' : 'Copy codes'}
+      </button>
+    </div>
+  );
+};
+
+export default BackupCodesList;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { useAuth } from '../../context/AuthContext';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+/**
+ * Reminds a user who has not confirmed their email address yet, with a button to mail a new link.
+ */
+const EmailVerificationBanner: React.FC = () => {
+  const { user } = useAuth();
+  const { data: currentUser } = useQuery<{ email: string; emailVerifiedAt?: string | null }, Error>({
+    queryKey: ['currentUser', user?.id],
+    queryFn: async () => {
+      const response = await api.get('/users/me');
+      return response.data;
+    },
+    enabled: !!user,
+  });
+
+  const resendMutation = useMutation<{ message: string }, AxiosError<{ message?: string }>>({
+    mutationFn: async () => {
+      const response = await api.post('/auth/resend-verification');
+      return response.data;
+    },
+  });
+
+  if (!currentUser || currentUser.emailVerifiedAt) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-2 rounded-lg border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+      <ExclamationTriangleIcon className="h-5 w-5 shrink-0 text-amber-500" />
+      <p className="flex-1">
+        Please confirm your email address ({currentUser.email}) using the link we mailed you. Until then, you cannot be assigned tasks.
+        {resendMutation.isSuccess && <span className="ml-1 font-medium">{resendMutation.data.message}</span>}
+        {resendMutation.isError && (
+          <span className="ml-1 font-medium text-red-600">
+            {resendMutation.error.response?.data?.message || resendMutation.error.message}
+          </span>
+        )}
+      </p>
+      <button
+        type="button"
+        onClick={() => resendMutation.mutate()}
+        disabled={resendMutation.isPending}
+        className="shrink-0 rounded-md bg-amber-100 px-3 py-1.5 font-medium text-amber-900 hover:bg-amber-200 disabled:opacity-60"
+      >
+        {resendMutation.isPending ? 'Sending...' : 'Resend link'}
+      </button>
+    </div>
+  );
+};
+
+export default EmailVerificationBanner;
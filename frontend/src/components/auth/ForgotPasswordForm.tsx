@@ -0,0 +1,153 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { Link } from 'react-router-dom';
+import { KeyIcon, EnvelopeIcon, ExclamationCircleIcon, CheckCircleIcon, PaperAirplaneIcon } from '@heroicons/react/24/solid';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address. Please enter a valid email.'),
+});
+
+type ForgotPasswordInputs = z.infer<typeof forgotPasswordSchema>;
+
+const ForgotPasswordForm: React.FC = () => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+    setError,
+  } = useForm<ForgotPasswordInputs>({
+    resolver: zodResolver(forgotPasswordSchema),
+    mode: 'onTouched',
+  });
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordInputs) => {
+      const response = await api.post('/auth/forgot-password', data);
+      return response.data;
+    },
+    onError: (error: AxiosError<{ message?: string }>) => {
+      setError('root.serverError', {
+        type: 'manual',
+        message: error.response?.data?.message || error.message || 'An unexpected error occurred. Please try again later.',
+      });
+      console.error('Forgot password error:', error);
+    },
+  });
+
+  const onSubmit = (data: ForgotPasswordInputs) => {
+    forgotPasswordMutation.mutate(data);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-slate-50 py-12 px-4 sm:px-6 lg:px-8 text-slate-900 selection:bg-blue-500 selection:text-white">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white shadow-xl rounded-xl p-8 sm:p-10">
+          <div className="mb-8 sm:mb-10 text-center">
+            <KeyIcon className="mx-auto h-12 w-12 text-blue-600" aria-hidden="true" />
+            <h2 className="mt-4 text-3xl sm:text-4xl font-bold text-slate-800">
+              Forgot your password?
+            </h2>
+            <p className="mt-2 text-sm text-slate-600">
+              Enter your email and we will send you a link to choose a new one.
+            </p>
+          </div>
+
+          {forgotPasswordMutation.isSuccess ? (
+            <div className="rounded-md bg-green-50 p-4 border border-green-300">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <CheckCircleIcon className="h-5 w-5 text-green-500" aria-hidden="true" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm font-medium text-green-700">{forgotPasswordMutation.data.message}</p>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6" noValidate>
+              {errors.root?.serverError && (
+                <div className="rounded-md bg-red-50 p-4 border border-red-300">
+                  <div className="flex">
+                    <div className="flex-shrink-0">
+                      <ExclamationCircleIcon className="h-5 w-5 text-red-500" aria-hidden="true" />
+                    </div>
+                    <div className="ml-3">
+                      <p className="text-sm font-medium text-red-700">
+                        {errors.root.serverError.message}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-slate-700">
+                  Email address
+                </label>
+                <div className="mt-1.5 relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <EnvelopeIcon className="h-5 w-5 text-slate-400" aria-hidden="true" />
+                  </div>
+                  <input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    {...register('email')}
+                    aria-invalid={errors.email ? "true" : "false"}
+                    aria-describedby={errors.email ? "email-error" : undefined}
+                    className={`form-input block w-full pl-10 pr-3 py-2.5 border rounded-md shadow-sm placeholder-slate-400
+                      ${errors.email
+                        ? 'border-red-500 text-red-900 focus:ring-red-500 focus:border-red-500'
+                        : 'border-slate-300 text-slate-900 bg-white focus:ring-blue-500 focus:border-blue-500'
+                      }
+                      focus:outline-none sm:text-sm transition-colors duration-150 ease-in-out`}
+                    placeholder="you@example.com"
+                  />
+                </div>
+                {errors.email && (
+                  <p className="mt-1.5 text-xs text-red-600" id="email-error">
+                    {errors.email.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <button
+                  type="submit"
+                  className="w-full flex items-center justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-semibold text-white
+                             bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-slate-50
+                             disabled:opacity-60 disabled:cursor-not-allowed transition-all duration-150 ease-in-out group"
+                  disabled={isSubmitting || forgotPasswordMutation.isPending}
+                >
+                  {isSubmitting || forgotPasswordMutation.isPending ? 'Sending...' : (
+                    <>
+                      Send Reset Link
+                      <PaperAirplaneIcon className="ml-2 h-5 w-5 transform transition-transform duration-150 ease-in-out group-hover:translate-x-1" />
+                    </>
+                  )}
+                </button>
+              </div>
+            </form>
+          )}
+
+          <p className="mt-8 sm:mt-10 text-center text-sm text-slate-600">
+            Remembered it?{' '}
+            <Link
+              to="/login"
+              className="font-semibold text-blue-600 hover:text-blue-700 hover:underline transition-colors duration-150 ease-in-out"
+            >
+              Back to sign in
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordForm;
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -6,6 +6,7 @@ import { useMutation } from '@tanstack/react-query';
 import api from '../../api/axios';
 import { useAuth } from '../../context/AuthContext';
 import { Link } from 'react-router-dom';
+import TwoFactorLoginStep from './TwoFactorLoginStep';
 import { LockClosedIcon, ArrowRightEndOnRectangleIcon , ExclamationCircleIcon, EnvelopeIcon, KeyIcon } from '@heroicons/react/24/solid';
 
 const loginSchema = z.object({
@@ -17,6 +18,8 @@ type LoginFormInputs = z.infer<typeof loginSchema>;
 
 const LoginForm: React.FC = () => {
   const { login } = useAuth();
+  // Set when the password was accepted but a second step is needed before a session is issued
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<{ token: string; mode: 'verify' | 'setup' } | null>(null);
 
   const {
     register,
@@ -34,7 +37,11 @@ const LoginForm: React.FC = () => {
       return response.data;
     },
     onSuccess: (data) => {
-      login(data.token, data.user);
+      if (data.twoFactorRequired || data.twoFactorSetupRequired) {
+        setTwoFactorChallenge({ token: data.challengeToken, mode: data.twoFactorRequired ? 'verify' : 'setup' });
+        return;
+      }
+      login(data.token, data.user, data.refreshToken);
     },
     onError: (error: any) => {
       if (error.response && error.response.status === 401) {
@@ -71,116 +78,124 @@ const LoginForm: React.FC = () => {
             </p>
           </div>
 
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6" noValidate>
-            {errors.root?.serverError && (
-              <div className="rounded-md bg-red-50 p-4 border border-red-300">
-                <div className="flex">
-                  <div className="flex-shrink-0">
-                    <ExclamationCircleIcon className="h-5 w-5 text-red-500" aria-hidden="true" />
-                  </div>
-                  <div className="ml-3">
-                    <p className="text-sm font-medium text-red-700">
-                      {errors.root.serverError.message}
-                    </p>
+          {twoFactorChallenge ? (
+            <TwoFactorLoginStep
+              challengeToken={twoFactorChallenge.token}
+              mode={twoFactorChallenge.mode}
+              onCancel={() => setTwoFactorChallenge(null)}
+            />
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6" noValidate>
+              {errors.root?.serverError && (
+                <div className="rounded-md bg-red-50 p-4 border border-red-300">
+                  <div className="flex">
+                    <div className="flex-shrink-0">
+                      <ExclamationCircleIcon className="h-5 w-5 text-red-500" aria-hidden="true" />
+                    </div>
+                    <div className="ml-3">
+                      <p className="text-sm font-medium text-red-700">
+                        {errors.root.serverError.message}
+                      </p>
+                    </div>
                   </div>
                 </div>
-              </div>
-            )}
-
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-slate-700">
-                Email address
-              </label>
-              <div className="mt-1.5 relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <EnvelopeIcon className="h-5 w-5 text-slate-400" aria-hidden="true" />
-                </div>
-                <input
-                  id="email"
-                  type="email"
-                  autoComplete="email"
-                  {...register('email')}
-                  aria-invalid={errors.email ? "true" : "false"}
-                  aria-describedby={errors.email ? "email-error" : undefined}
-                  className={`form-input block w-full pl-10 pr-3 py-2.5 border rounded-md shadow-sm placeholder-slate-400 
-                    ${errors.email
-                      ? 'border-red-500 text-red-900 focus:ring-red-500 focus:border-red-500'
-                      : 'border-slate-300 text-slate-900 bg-white focus:ring-blue-500 focus:border-blue-500'
-                    } 
-                    focus:outline-none sm:text-sm transition-colors duration-150 ease-in-out`}
-                  placeholder="you@example.com"
-                />
-              </div>
-              {errors.email && (
-                <p className="mt-1.5 text-xs text-red-600" id="email-error">
-                  {errors.email.message}
-                </p>
               )}
-            </div>
 
-            <div>
-              <div className="flex items-center justify-between">
-                <label htmlFor="password" className="block text-sm font-medium text-slate-700">
-                  Password
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-slate-700">
+                  Email address
                 </label>
-                <div className="text-sm">
-                  <a href="#" className="font-medium text-blue-600 hover:text-blue-700 hover:underline transition-colors duration-150 ease-in-out">
-                    Forgot password?
-                  </a>
+                <div className="mt-1.5 relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <EnvelopeIcon className="h-5 w-5 text-slate-400" aria-hidden="true" />
+                  </div>
+                  <input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    {...register('email')}
+                    aria-invalid={errors.email ? "true" : "false"}
+                    aria-describedby={errors.email ? "email-error" : undefined}
+                    className={`form-input block w-full pl-10 pr-3 py-2.5 border rounded-md shadow-sm placeholder-slate-400 
+                      ${errors.email
+                        ? 'border-red-500 text-red-900 focus:ring-red-500 focus:border-red-500'
+                        : 'border-slate-300 text-slate-900 bg-white focus:ring-blue-500 focus:border-blue-500'
+                      } 
+                      focus:outline-none sm:text-sm transition-colors duration-150 ease-in-out`}
+                    placeholder="you@example.com"
+                  />
                 </div>
+                {errors.email && (
+                  <p className="mt-1.5 text-xs text-red-600" id="email-error">
+                    {errors.email.message}
+                  </p>
+                )}
               </div>
-              <div className="mt-1.5 relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <KeyIcon className="h-5 w-5 text-slate-400" aria-hidden="true" />
+
+              <div>
+                <div className="flex items-center justify-between">
+                  <label htmlFor="password" className="block text-sm font-medium text-slate-700">
+                    Password
+                  </label>
+                  <div className="text-sm">
+                    <Link to="/forgot-password" className="font-medium text-blue-600 hover:text-blue-700 hover:underline transition-colors duration-150 ease-in-out">
+                      Forgot password?
+                    </Link>
+                  </div>
+                </div>
+                <div className="mt-1.5 relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <KeyIcon className="h-5 w-5 text-slate-400" aria-hidden="true" />
+                  </div>
+                  <input
+                    id="password"
+                    type="password"
+                    autoComplete="current-password"
+                    {...register('password')}
+                    aria-invalid={errors.password ? "true" : "false"}
+                    aria-describedby={errors.password ? "password-error" : undefined}
+                    className={`form-input block w-full pl-10 pr-3 py-2.5 border rounded-md shadow-sm placeholder-slate-400
+                      ${errors.password
+                        ? 'border-red-500 text-red-900 focus:ring-red-500 focus:border-red-500'
+                        : 'border-slate-300 text-slate-900 bg-white focus:ring-blue-500 focus:border-blue-500'
+                      }
+                      focus:outline-none sm:text-sm transition-colors duration-150 ease-in-out`}
+                    placeholder="••••••••"
+                  />
                 </div>
-                <input
-                  id="password"
-                  type="password"
-                  autoComplete="current-password"
-                  {...register('password')}
-                  aria-invalid={errors.password ? "true" : "false"}
-                  aria-describedby={errors.password ? "password-error" : undefined}
-                  className={`form-input block w-full pl-10 pr-3 py-2.5 border rounded-md shadow-sm placeholder-slate-400
-                    ${errors.password
-                      ? 'border-red-500 text-red-900 focus:ring-red-500 focus:border-red-500'
-                      : 'border-slate-300 text-slate-900 bg-white focus:ring-blue-500 focus:border-blue-500'
-                    }
-                    focus:outline-none sm:text-sm transition-colors duration-150 ease-in-out`}
-                  placeholder="••••••••"
-                />
+                {errors.password && (
+                  <p className="mt-1.5 text-xs text-red-600" id="password-error">
+                    {errors.password.message}
+                  </p>
+                )}
               </div>
-              {errors.password && (
-                <p className="mt-1.5 text-xs text-red-600" id="password-error">
-                  {errors.password.message}
-                </p>
-              )}
-            </div>
 
-            <div>
-              <button
-                type="submit"
-                className="w-full flex items-center justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-semibold text-white 
-                           bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-slate-50
-                           disabled:opacity-60 disabled:cursor-not-allowed transition-all duration-150 ease-in-out group"
-                disabled={isSubmitting || loginMutation.isPending}
-              >
-                {isSubmitting || loginMutation.isPending ? (
-                  <>
-                    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                    </svg>
-                    Signing In...
-                  </>
-                ) : (
-                  <>
-                    Sign In
-                    <ArrowRightEndOnRectangleIcon className="ml-2 h-5 w-5 transform transition-transform duration-150 ease-in-out group-hover:translate-x-1" />
-                  </>
-                )}
-              </button>
-            </div>
-          </form>
+              <div>
+                <button
+                  type="submit"
+                  className="w-full flex items-center justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-semibold text-white 
+                             bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-slate-50
+                             disabled:opacity-60 disabled:cursor-not-allowed transition-all duration-150 ease-in-out group"
+                  disabled={isSubmitting || loginMutation.isPending}
+                >
+                  {isSubmitting || loginMutation.isPending ? (
+                    <>
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      Signing In...
+                    </>
+                  ) : (
+                    <>
+                      Sign In
+                      <ArrowRightEndOnRectangleIcon className="ml-2 h-5 w-5 transform transition-transform duration-150 ease-in-out group-hover:translate-x-1" />
+                    </>
+                  )}
+                </button>
+              </div>
+            </form>
+          )}
 
           <p className="mt-8 sm:mt-10 text-center text-sm text-slate-600">
             Not a member yet?{' '}
@@ -1,11 +1,12 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import api from '../../api/axios';
 import { useAuth } from '../../context/AuthContext';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import TwoFactorLoginStep from './TwoFactorLoginStep';
 import { UserPlusIcon, EnvelopeIcon, KeyIcon, UserCircleIcon, ExclamationCircleIcon, ArrowRightCircleIcon } from '@heroicons/react/24/solid';
 
 const registerSchema = z.object({
@@ -20,27 +21,71 @@ const registerSchema = z.object({
 
 type RegisterFormInputs = z.infer<typeof registerSchema>;
 
+interface InvitationDetails {
+  email: string;
+  role: string;
+  expiresAt: string;
+}
+
 const RegisterForm: React.FC = () => {
   const { register: authRegister } = useAuth();
+  // Invitation links look like /register?invite=<token>
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
 
   const {
     register,
     handleSubmit,
     formState: { errors, isSubmitting },
     setError,
+    setValue,
   } = useForm<RegisterFormInputs>({
     resolver: zodResolver(registerSchema),
     mode: 'onTouched',
   });
 
+  // Set when the invited role requires two-factor authentication, which is set up before the first session
+  const [setupChallengeToken, setSetupChallengeToken] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const { data: invitation, isError: isInvitationInvalid } = useQuery<InvitationDetails, Error>({
+    queryKey: ['invitation', inviteToken],
+    queryFn: async () => {
+      const response = await api.get(`/invitations/lookup/${encodeURIComponent(inviteToken as string)}`);
+      return response.data;
+    },
+    enabled: !!inviteToken,
+    retry: false,
+  });
+
+  const { data: registrationSettings } = useQuery<{ openRegistration: boolean }, Error>({
+    queryKey: ['registrationSettings'],
+    queryFn: async () => {
+      const response = await api.get('/settings/registration');
+      return response.data;
+    },
+    enabled: !inviteToken,
+  });
+
+  // The account must be created with the address the invitation was sent to
+  useEffect(() => {
+    if (invitation) {
+      setValue('email', invitation.email, { shouldValidate: true });
+    }
+  }, [invitation, setValue]);
+
   const registerMutation = useMutation({
     mutationFn: async (data: RegisterFormInputs) => {
       const { confirmPassword, ...payload } = data;
-      const response = await api.post('/auth/register', payload);
+      const response = await api.post('/auth/register', inviteToken ? { ...payload, inviteToken } : payload);
       return response.data;
     },
     onSuccess: (data) => {
-      authRegister(data.token, data.user);
+      if (data.twoFactorSetupRequired) {
+        setSetupChallengeToken(data.challengeToken);
+        return;
+      }
+      authRegister(data.token, data.user, data.refreshToken);
     },
     onError: (error: any) => {
       if (error.response && error.response.status === 409) {
@@ -62,6 +107,10 @@ const RegisterForm: React.FC = () => {
     registerMutation.mutate(data);
   };
 
+  const unavailableMessage = inviteToken
+    ? isInvitationInvalid && 'This invitation is invalid, has expired or has already been used. Ask for a new one.'
+    : registrationSettings?.openRegistration === false && 'Registration is by invitation only. Ask an administrator or project manager to invite you.';
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-slate-50 py-12 px-4 sm:px-6 lg:px-8 text-slate-900 selection:bg-emerald-500 selection:text-white">
       <div className="sm:mx-auto sm:w-full sm:max-w-lg">
@@ -72,10 +121,24 @@ const RegisterForm: React.FC = () => {
               Create your account
             </h2>
             <p className="mt-2 text-sm text-slate-600">
-              Join us and get started in minutes.
+              {invitation ? <>You have been invited to join as <span className="font-semibold">{invitation.role}</span>.</> : 'Join us and get started in minutes.'}
             </p>
           </div>
 
+          {setupChallengeToken ? (
+            <TwoFactorLoginStep challengeToken={setupChallengeToken} mode="setup" onCancel={() => navigate('/login')} />
+          ) : unavailableMessage ? (
+            <div className="rounded-md bg-amber-50 p-4 border border-amber-300">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <ExclamationCircleIcon className="h-5 w-5 text-amber-500" aria-hidden="true" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm font-medium text-amber-800">{unavailableMessage}</p>
+                </div>
+              </div>
+            </div>
+          ) : (
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6" noValidate>
             {errors.root?.serverError && (
               <div className="rounded-md bg-red-50 p-4 border border-red-300">
@@ -135,6 +198,7 @@ const RegisterForm: React.FC = () => {
                   id="email"
                   type="email"
                   autoComplete="email"
+                  readOnly={!!invitation}
                   {...register('email')}
                   aria-invalid={errors.email ? "true" : "false"}
                   aria-describedby={errors.email ? "email-error" : undefined}
@@ -241,6 +305,7 @@ const RegisterForm: React.FC = () => {
               </button>
             </div>
           </form>
+          )}
 
           <p className="mt-8 sm:mt-10 text-center text-sm text-slate-600">
             Already have an account?{' '}
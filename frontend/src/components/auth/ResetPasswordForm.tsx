@@ -0,0 +1,195 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { Link, useSearchParams } from 'react-router-dom';
+import { LockClosedIcon, KeyIcon, ExclamationCircleIcon, CheckCircleIcon } from '@heroicons/react/24/solid';
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(6, 'Password must be at least 6 characters long.'),
+  confirmPassword: z.string().min(6, 'Confirm password must be at least 6 characters long.'),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match. Please re-enter.",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordInputs = z.infer<typeof resetPasswordSchema>;
+
+const ResetPasswordForm: React.FC = () => {
+  // Reset links look like /reset-password?token=<token>
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+    setError,
+  } = useForm<ResetPasswordInputs>({
+    resolver: zodResolver(resetPasswordSchema),
+    mode: 'onTouched',
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (data: ResetPasswordInputs) => {
+      const response = await api.post('/auth/reset-password', { token, password: data.password });
+      return response.data;
+    },
+    onError: (error: AxiosError<{ message?: string }>) => {
+      setError('root.serverError', {
+        type: 'manual',
+        message: error.response?.data?.message || error.message || 'An unexpected error occurred. Please try again later.',
+      });
+      console.error('Reset password error:', error);
+    },
+  });
+
+  const onSubmit = (data: ResetPasswordInputs) => {
+    resetPasswordMutation.mutate(data);
+  };
+
+  const passwordInputClasses = (hasError: boolean) => `form-input block w-full pl-10 pr-3 py-2.5 border rounded-md shadow-sm placeholder-slate-400
+    ${hasError
+      ? 'border-red-500 text-red-900 focus:ring-red-500 focus:border-red-500'
+      : 'border-slate-300 text-slate-900 bg-white focus:ring-blue-500 focus:border-blue-500'
+    }
+    focus:outline-none sm:text-sm transition-colors duration-150 ease-in-out`;
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-slate-50 py-12 px-4 sm:px-6 lg:px-8 text-slate-900 selection:bg-blue-500 selection:text-white">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white shadow-xl rounded-xl p-8 sm:p-10">
+          <div className="mb-8 sm:mb-10 text-center">
+            <LockClosedIcon className="mx-auto h-12 w-12 text-blue-600" aria-hidden="true" />
+            <h2 className="mt-4 text-3xl sm:text-4xl font-bold text-slate-800">
+              Choose a new password
+            </h2>
+            <p className="mt-2 text-sm text-slate-600">
+              You will be signed out of every device.
+            </p>
+          </div>
+
+          {!token ? (
+            <div className="rounded-md bg-red-50 p-4 border border-red-300">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <ExclamationCircleIcon className="h-5 w-5 text-red-500" aria-hidden="true" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm font-medium text-red-700">This reset link is incomplete. Please open the link from the mail again.</p>
+                </div>
+              </div>
+            </div>
+          ) : resetPasswordMutation.isSuccess ? (
+            <div className="rounded-md bg-green-50 p-4 border border-green-300">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <CheckCircleIcon className="h-5 w-5 text-green-500" aria-hidden="true" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm font-medium text-green-700">{resetPasswordMutation.data.message}</p>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6" noValidate>
+              {errors.root?.serverError && (
+                <div className="rounded-md bg-red-50 p-4 border border-red-300">
+                  <div className="flex">
+                    <div className="flex-shrink-0">
+                      <ExclamationCircleIcon className="h-5 w-5 text-red-500" aria-hidden="true" />
+                    </div>
+                    <div className="ml-3">
+                      <p className="text-sm font-medium text-red-700">
+                        {errors.root.serverError.message}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-slate-700">
+                  New Password
+                </label>
+                <div className="mt-1.5 relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <KeyIcon className="h-5 w-5 text-slate-400" aria-hidden="true" />
+                  </div>
+                  <input
+                    id="password"
+                    type="password"
+                    autoComplete="new-password"
+                    {...register('password')}
+                    aria-invalid={errors.password ? "true" : "false"}
+                    aria-describedby={errors.password ? "password-error" : undefined}
+                    className={passwordInputClasses(!!errors.password)}
+                    placeholder="••••••••"
+                  />
+                </div>
+                {errors.password && (
+                  <p className="mt-1.5 text-xs text-red-600" id="password-error">
+                    {errors.password.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-slate-700">
+                  Confirm New Password
+                </label>
+                <div className="mt-1.5 relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <KeyIcon className="h-5 w-5 text-slate-400" aria-hidden="true" />
+                  </div>
+                  <input
+                    id="confirmPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    {...register('confirmPassword')}
+                    aria-invalid={errors.confirmPassword ? "true" : "false"}
+                    aria-describedby={errors.confirmPassword ? "confirmPassword-error" : undefined}
+                    className={passwordInputClasses(!!errors.confirmPassword)}
+                    placeholder="••••••••"
+                  />
+                </div>
+                {errors.confirmPassword && (
+                  <p className="mt-1.5 text-xs text-red-600" id="confirmPassword-error">
+                    {errors.confirmPassword.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <button
+                  type="submit"
+                  className="w-full flex items-center justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-semibold text-white
+                             bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-slate-50
+                             disabled:opacity-60 disabled:cursor-not-allowed transition-all duration-150 ease-in-out"
+                  disabled={isSubmitting || resetPasswordMutation.isPending}
+                >
+                  {isSubmitting || resetPasswordMutation.isPending ? 'Saving...' : 'Reset Password'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          <p className="mt-8 sm:mt-10 text-center text-sm text-slate-600">
+            {resetPasswordMutation.isSuccess ? 'Ready?' : 'Need a new link?'}{' '}
+            <Link
+              to={resetPasswordMutation.isSuccess ? '/login' : '/forgot-password'}
+              className="font-semibold text-blue-600 hover:text-blue-700 hover:underline transition-colors duration-150 ease-in-out"
+            >
+              {resetPasswordMutation.isSuccess ? 'Sign in' : 'Request another one'}
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordForm;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { useAuth } from '../../context/AuthContext';
+import type { User } from '../../context/AuthContext';
+import TwoFactorSetup from './TwoFactorSetup';
+import { ExclamationCircleIcon, ShieldCheckIcon } from '@heroicons/react/24/solid';
+
+type SessionResponse = {
+  token: string;
+  refreshToken: string;
+  user: User;
+};
+
+interface TwoFactorLoginStepProps {
+  challengeToken: string;
+  // 'verify' asks for a code; 'setup' enrolls a user whose role requires two-factor authentication
+  mode: 'verify' | 'setup';
+  onCancel: () => void;
+}
+
+/**
+ * The second sign-in step, after the password was accepted for an account that uses (or must set up) two-factor authentication.
+ */
+const TwoFactorLoginStep: React.FC<TwoFactorLoginStepProps> = ({ challengeToken, mode, onCancel }) => {
+  const { login } = useAuth();
+  const [code, setCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  // Set once setup is confirmed; the user signs in after storing their backup codes
+  const [pendingSession, setPendingSession] = useState<SessionResponse | null>(null);
+
+  const verifyMutation = useMutation<SessionResponse, AxiosError<{ message?: string }>, string>({
+    mutationFn: async (value) => {
+      const response = await api.post('/auth/login/2fa', { challengeToken, code: value });
+      return response.data;
+    },
+    onSuccess: (data) => {
+      login(data.token, data.user, data.refreshToken);
+    },
+  });
+
+  const startSetup = async () => {
+    const response = await api.post('/auth/login/2fa/setup', { challengeToken });
+    return response.data;
+  };
+
+  const confirmSetup = async (value: string) => {
+    const response = await api.post('/auth/login/2fa/confirm', { challengeToken, code: value });
+    setPendingSession(response.data);
+    return response.data.backupCodes;
+  };
+
+  const handleVerify = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    verifyMutation.mutate(code.trim());
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <ShieldCheckIcon className="mx-auto h-10 w-10 text-blue-600" aria-hidden="true" />
+        <h3 className="mt-2 text-lg font-semibold text-slate-800">
+          {mode === 'verify' ? 'Two-factor authentication' : 'Set up two-factor authentication'}
+        </h3>
+        <p className="mt-1 text-sm text-slate-600">
+          {mode === 'verify'
+            ? useBackupCode
+              ? 'Enter one of your backup codes.'
+              : 'Enter the 6-digit code from your authenticator app.'
+            : 'Your role requires two-factor authentication. Set it up to finish signing in.'}
+        </p>
+      </div>
+
+      {mode === 'verify' ? (
+        <form onSubmit={handleVerify} className="space-y-4" noValidate>
+          {verifyMutation.isError && (
+            <div className="flex rounded-md bg-red-50 p-3 border border-red-300">
+              <ExclamationCircleIcon className="h-5 w-5 text-red-500 shrink-0" aria-hidden="true" />
+              <p className="ml-2 text-sm font-medium text-red-700">
+                {verifyMutation.error.response?.data?.message || verifyMutation.error.message}
+              </p>
+            </div>
+          )}
+          <input
+            id="twoFactorCode"
+            type="text"
+            inputMode={useBackupCode ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            autoFocus
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            aria-label={useBackupCode ? 'Backup code' : 'Authentication code'}
+            className="block w-full rounded-md border border-slate-300 px-3 py-2.5 text-center font-mono tracking-widest focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+            placeholder={useBackupCode ? 'abcde-12345' : '123456'}
+          />
+          <button
+            type="submit"
+            disabled={verifyMutation.isPending || !code.trim()}
+            className="w-full py-3 px-4 rounded-lg bg-blue-600 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {verifyMutation.isPending ? 'Verifying...' : 'Verify'}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setUseBackupCode(!useBackupCode);
+              setCode('');
+            }}
+            className="w-full text-sm font-medium text-blue-600 hover:text-blue-700 hover:underline"
+          >
+            {useBackupCode ? 'Use your authenticator app instead' : 'Lost your device? Use a backup code'}
+          </button>
+        </form>
+      ) : (
+        <TwoFactorSetup
+          startSetup={startSetup}
+          confirmSetup={confirmSetup}
+          onDone={() => pendingSession && login(pendingSession.token, pendingSession.user, pendingSession.refreshToken)}
+          doneLabel="Continue to your dashboard"
+        />
+      )}
+
+      {!pendingSession && (
+        <button
+          type="button"
+          onClick={onCancel}
+          className="w-full text-sm text-slate-500 hover:text-slate-700 hover:underline"
+        >
+          Back to sign in
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorLoginStep;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { LockClosedIcon } from '@heroicons/react/24/outline';
+
+const ROLES = ['Admin', 'Project Manager', 'Developer', 'Tester', 'Viewer'];
+
+/**
+ * Lets an Admin choose the roles that must use two-factor authentication. Members of those roles who have not set it up
+ * are asked to when they next sign in, and their current sessions end at the next token refresh.
+ */
+const TwoFactorPolicyPanel: React.FC = () => {
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery<{ openRegistration: boolean; twoFactorRequiredRoles: string[] }, Error>({
+    queryKey: ['appSettings'],
+    queryFn: async () => {
+      const response = await api.get('/settings');
+      return response.data;
+    },
+  });
+
+  const updateSettingsMutation = useMutation<unknown, AxiosError<{ message?: string }>, string[]>({
+    mutationFn: async (twoFactorRequiredRoles) => {
+      const response = await api.put('/settings', { twoFactorRequiredRoles });
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['appSettings'], data);
+      queryClient.invalidateQueries({ queryKey: ['twoFactorStatus'] });
+    },
+  });
+
+  const toggleRole = (role: string, required: boolean) => {
+    if (!settings) return;
+    const roles = required
+      ? [...settings.twoFactorRequiredRoles, role]
+      : settings.twoFactorRequiredRoles.filter((existing) => existing !== role);
+    updateSettingsMutation.mutate(roles);
+  };
+
+  return (
+    <div className="bg-white shadow-xl rounded-xl p-6">
+      <h2 className="flex items-center text-lg font-semibold text-slate-800">
+        <LockClosedIcon className="h-5 w-5 mr-2 text-blue-600" />
+        Require two-factor authentication
+      </h2>
+      <p className="mt-1 text-sm text-slate-600">
+        Members of these roles must set up two-factor authentication to sign in. Make sure your own account has it enabled first.
+      </p>
+
+      {updateSettingsMutation.isError && (
+        <p className="mt-3 text-sm text-red-600">
+          {updateSettingsMutation.error.response?.data?.message || updateSettingsMutation.error.message}
+        </p>
+      )}
+
+      {settings && (
+        <div className="mt-4 flex flex-wrap gap-4">
+          {ROLES.map((role) => (
+            <label key={role} className="flex items-center text-sm text-slate-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.twoFactorRequiredRoles.includes(role)}
+                disabled={updateSettingsMutation.isPending}
+                onChange={(e) => toggleRole(role, e.target.checked)}
+                className="h-4 w-4 mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+              />
+              {role}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorPolicyPanel;
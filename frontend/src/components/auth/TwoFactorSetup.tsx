@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import BackupCodesList from './BackupCodesList';
+import { ExclamationCircleIcon } from '@heroicons/react/24/solid';
+
+interface TwoFactorSetupProps {
+  // Requests a new secret; see POST /auth/2fa/setup and /auth/login/2fa/setup
+  startSetup: () => Promise<{ secret: string; otpauthUri: string }>;
+  // Confirms the secret with a code from the app and returns the backup codes
+  confirmSetup: (code: string) => Promise<string[]>;
+  onDone: () => void;
+  doneLabel: string;
+}
+
+/**
+ * Walks a user through enrolling an authenticator app: add the secret, confirm a code, then store the backup codes.
+ */
+const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ startSetup, confirmSetup, onDone, doneLabel }) => {
+  const [code, setCode] = useState('');
+
+  const setupMutation = useMutation<{ secret: string; otpauthUri: string }, AxiosError<{ message?: string }>>({
+    mutationFn: startSetup,
+  });
+
+  const confirmMutation = useMutation<string[], AxiosError<{ message?: string }>, string>({
+    mutationFn: confirmSetup,
+  });
+
+  const error = setupMutation.error || confirmMutation.error;
+  const errorMessage = error && (error.response?.data?.message || error.message);
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    confirmMutation.mutate(code.trim());
+  };
+
+  if (confirmMutation.isSuccess) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm font-medium text-green-700">Two-factor authentication is enabled.</p>
+        <BackupCodesList codes={confirmMutation.data} />
+        <button
+          type="button"
+          onClick={onDone}
+          className="w-full py-2.5 px-4 rounded-lg bg-blue-600 text-sm font-semibold text-white hover:bg-blue-700"
+        >
+          {doneLabel}
+        </button>
+      </div>
+    );
+  }
+
+  // The secret is split into groups of four, which is easier to type into an app by hand
+  const formattedSecret = setupMutation.data?.secret.match(/.{1,4}/g)?.join(' ');
+
+  return (
+    <div className="space-y-4">
+      {errorMessage && (
+        <div className="flex rounded-md bg-red-50 p-3 border border-red-300">
+          <ExclamationCircleIcon className="h-5 w-5 text-red-500 shrink-0" aria-hidden="true" />
+          <p className="ml-2 text-sm font-medium text-red-700">{errorMessage}</p>
+        </div>
+      )}
+
+      {!setupMutation.data ? (
+        <button
+          type="button"
+          onClick={() => setupMutation.mutate()}
+          disabled={setupMutation.isPending}
+          className="w-full py-2.5 px-4 rounded-lg bg-blue-600 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+        >
+          {setupMutation.isPending ? 'Preparing...' : 'Set up authenticator app'}
+        </button>
+      ) : (
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <div className="text-sm text-slate-600 space-y-2">
+            <p>
+              Add this account to your authenticator app (such as Google Authenticator, 1Password or Authy) by entering the key below,
+              or open the setup link on the device that runs the app.
+            </p>
+            <p className="rounded bg-slate-100 px-3 py-2 text-center font-mono text-base tracking-wider text-slate-800 break-all">
+              {formattedSecret}
+            </p>
+            <a href={setupMutation.data.otpauthUri} className="block text-center font-medium text-blue-600 hover:underline">
+              Open setup link
+            </a>
+          </div>
+          <div>
+            <label htmlFor="twoFactorSetupCode" className="block text-sm font-medium text-slate-700">
+              Code from the app
+            </label>
+            <input
+              id="twoFactorSetupCode"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="mt-1.5 block w-full rounded-md border border-slate-300 px-3 py-2.5 text-center font-mono tracking-widest focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+              placeholder="123456"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={confirmMutation.isPending || !code.trim()}
+            className="w-full py-2.5 px-4 rounded-lg bg-blue-600 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+          >
+            {confirmMutation.isPending ? 'Verifying...' : 'Verify and enable'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSetup;
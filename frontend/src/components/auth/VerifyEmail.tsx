@@ -0,0 +1,89 @@
+import React, { useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { useAuth } from '../../context/AuthContext';
+import { Link, useSearchParams } from 'react-router-dom';
+import { EnvelopeIcon, ExclamationCircleIcon, CheckCircleIcon } from '@heroicons/react/24/solid';
+
+const VerifyEmail: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  // Verification links look like /verify-email?token=<token>
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const verifyMutation = useMutation<{ message: string }, AxiosError<{ message?: string }>, string>({
+    mutationFn: async (verificationToken) => {
+      const response = await api.get('/auth/verify-email', { params: { token: verificationToken } });
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['currentUser'] });
+    },
+  });
+  const { mutate: verify } = verifyMutation;
+
+  // Verify as soon as the link is opened
+  useEffect(() => {
+    if (token) {
+      verify(token);
+    }
+  }, [token, verify]);
+
+  const errorMessage = !token
+    ? 'This verification link is incomplete. Please open the link from the mail again.'
+    : verifyMutation.isError && (verifyMutation.error.response?.data?.message || verifyMutation.error.message);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-slate-50 py-12 px-4 sm:px-6 lg:px-8 text-slate-900 selection:bg-blue-500 selection:text-white">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white shadow-xl rounded-xl p-8 sm:p-10">
+          <div className="mb-8 text-center">
+            <EnvelopeIcon className="mx-auto h-12 w-12 text-blue-600" aria-hidden="true" />
+            <h2 className="mt-4 text-3xl sm:text-4xl font-bold text-slate-800">
+              Email verification
+            </h2>
+          </div>
+
+          {errorMessage ? (
+            <div className="rounded-md bg-red-50 p-4 border border-red-300">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <ExclamationCircleIcon className="h-5 w-5 text-red-500" aria-hidden="true" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm font-medium text-red-700">{errorMessage}</p>
+                </div>
+              </div>
+            </div>
+          ) : verifyMutation.isSuccess ? (
+            <div className="rounded-md bg-green-50 p-4 border border-green-300">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <CheckCircleIcon className="h-5 w-5 text-green-500" aria-hidden="true" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm font-medium text-green-700">{verifyMutation.data.message}</p>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <p className="text-center text-sm text-slate-600">Verifying your email address...</p>
+          )}
+
+          <p className="mt-8 text-center text-sm text-slate-600">
+            <Link
+              to={user ? '/dashboard' : '/login'}
+              className="font-semibold text-blue-600 hover:text-blue-700 hover:underline transition-colors duration-150 ease-in-out"
+            >
+              {user ? 'Go to your dashboard' : 'Sign in'}
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
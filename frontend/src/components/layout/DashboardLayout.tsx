@@ -1,15 +1,16 @@
-import React, { useMemo } from 'react';
+import React from 'react';
 import { Outlet, Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
 import { useSocket } from '../../context/SocketContext';
+import EmailVerificationBanner from '../auth/EmailVerificationBanner';
 // import { useQuery } from '@tanstack/react-query';
 // import { getNotifications } from '../../api/notification.api';
-import { BriefcaseIcon, UsersIcon, BellIcon, ArrowLeftEndOnRectangleIcon , UserCircleIcon } from '@heroicons/react/24/outline'; 
+import { BriefcaseIcon, UsersIcon, BellIcon, ShieldCheckIcon, ArrowLeftEndOnRectangleIcon , UserCircleIcon } from '@heroicons/react/24/outline'; 
 import { BuildingOffice2Icon } from '@heroicons/react/24/solid';
 
 const DashboardLayout: React.FC = () => {
   const { user, logout } = useAuth();
-  const { notifications: socketNotifications } = useSocket();
+  const { unreadCount } = useSocket();
   const navigate = useNavigate();
 
   // Fetch notifications from the server
@@ -48,11 +49,6 @@ const DashboardLayout: React.FC = () => {
   //   return [...merged, ...newSocketNotifications];
   // }, [socketNotifications, serverNotifications]);
 
-  // Calculate unread count from merged notifications
-   const unreadCount = useMemo(() => {
-    return socketNotifications.filter(notification => !notification.isRead).length;
-  }, [socketNotifications]);
-
   const navLinkClasses = "flex items-center px-3 py-2 text-sm font-medium text-slate-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-150 ease-in-out";
 
   return (
@@ -81,7 +77,7 @@ const DashboardLayout: React.FC = () => {
                 Projects
               </Link>
 
-              {user?.role === 'Admin' && (
+              {(user?.role === 'Admin' || user?.role === 'Project Manager') && (
                 <Link to="/dashboard/users" className={navLinkClasses}>
                   <UsersIcon className="h-5 w-5 mr-1.5 hidden sm:inline-block" />
                   Users
@@ -98,6 +94,11 @@ const DashboardLayout: React.FC = () => {
                 )}
               </Link>
 
+              <Link to="/dashboard/security" className={navLinkClasses}>
+                <ShieldCheckIcon className="h-5 w-5 mr-1.5 hidden sm:inline-block" />
+                Security
+              </Link>
+
               <button
                 onClick={handleLogout}
                 className="flex items-center px-3 py-2 bg-slate-100 hover:bg-red-100 text-slate-600 hover:text-red-600 text-sm font-medium rounded-lg transition-colors duration-150 ease-in-out border border-slate-200/80 hover:border-red-200"
@@ -113,6 +114,7 @@ const DashboardLayout: React.FC = () => {
 
       <main className="flex-1">
         <div className="max-w-screen-xl mx-auto px-4 sm:px-6 lg:px-8 py-6 md:py-8 h-full">
+          <EmailVerificationBanner />
           <Outlet />
         </div>
       </main>
@@ -80,6 +80,9 @@ const NotificationToast: React.FC<NotificationToastProps> = ({ notification, onC
         {notification.type === 'task_assignment' && 'New task assigned.'}
         {notification.type === 'task_updated' && 'Task updated.'}
         {notification.type === 'task_deleted' && 'Task deleted.'}
+        {notification.type === 'mention' && 'You were mentioned.'}
+        {notification.type === 'deadline_reminder' && 'Deadline approaching.'}
+        {notification.type === 'task_overdue' && 'Task overdue.'}
         {notification.type === 'general' && 'General notification.'}
         <span className="ml-2 text-xs">({timeSince(notification.createdAt)})</span>
       </p>
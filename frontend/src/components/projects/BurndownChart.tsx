@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import api from '../../api/axios';
+import type { Sprint } from './ProjectSprintsModal';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+
+interface BurndownPoint {
+  date: string;
+  remainingEstimate: number;
+  completedEstimate: number;
+  remainingTasks: number;
+  completedTasks: number;
+}
+
+interface Burndown {
+  unit: 'points' | 'hours';
+  sprint: Pick<Sprint, 'id' | 'name' | 'state' | 'startDate' | 'endDate'> | null;
+  series: BurndownPoint[];
+}
+
+interface BurndownChartProps {
+  projectId: string;
+  // The sprint to chart; the whole project when omitted
+  sprintId?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 40 };
+
+// Dates are whole UTC days, like the snapshots they come from
+const toDay = (date: string) => Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+const formatValue = (value: number) => Number(value.toFixed(1));
+const formatDay = (day: number) => new Date(day * DAY_MS).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+// Rounds the top of the y axis up to a value that splits evenly into four ticks
+const niceMax = (value: number) => {
+  if (value <= 4) return 4;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].map(factor => factor * magnitude / 4).find(candidate => candidate * 4 >= value) || magnitude;
+  return step * 4;
+};
+
+const BurndownChart: React.FC<BurndownChartProps> = ({ projectId, sprintId }) => {
+  const [metric, setMetric] = useState<'estimate' | 'tasks'>('estimate');
+
+  const { data: burndown, isLoading, isError } = useQuery<Burndown, Error>({
+    queryKey: ['projectBurndown', projectId, sprintId || 'project'],
+    queryFn: async () => {
+      const response = await api.get(`/projects/${projectId}/burndown`, { params: sprintId ? { sprintId } : {} });
+      return response.data;
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex h-48 items-center justify-center text-slate-500">
+        <ArrowPathIcon className="mr-2 h-5 w-5 animate-spin" />
+        Loading burndown...
+      </div>
+    );
+  }
+  if (isError || !burndown) {
+    return <p className="py-10 text-center text-sm text-red-600">The burndown could not be loaded.</p>;
+  }
+
+  const { series, sprint, unit } = burndown;
+  const valueOf = (point: BurndownPoint) => metric === 'estimate' ? point.remainingEstimate : point.remainingTasks;
+  const unitLabel = metric === 'tasks' ? 'tasks' : unit === 'hours' ? 'hours' : 'points';
+
+  if (series.length === 0) {
+    return (
+      <p className="py-10 text-center text-sm text-slate-500">
+        {sprint?.state === 'planned' ? 'The burndown starts once the sprint is started.' : 'No burndown data has been recorded yet.'}
+      </p>
+    );
+  }
+
+  // A sprint spans its planned dates; otherwise the chart spans the recorded days
+  const firstDay = sprint?.startDate ? toDay(sprint.startDate) : toDay(series[0].date);
+  const lastDay = Math.max(sprint?.endDate ? toDay(sprint.endDate) : firstDay, toDay(series[series.length - 1].date), firstDay + 1);
+  const idealStart = valueOf(series[0]);
+  const showIdeal = !!(sprint?.startDate && sprint.endDate);
+  const maxValue = niceMax(Math.max(...series.map(valueOf), showIdeal ? idealStart : 0));
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (day: number) => PADDING.left + ((day - firstDay) / (lastDay - firstDay)) * plotWidth;
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+  const points = series.map(point => ({ cx: x(toDay(point.date)), cy: y(valueOf(point)), point }));
+  const yTicks = [0, 1, 2, 3, 4].map(index => (maxValue / 4) * index);
+  const xTicks = [...new Set([firstDay, Math.round((firstDay + lastDay) / 2), lastDay])];
+  const latest = series[series.length - 1];
+
+  return (
+    <div>
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-slate-600">
+          <span className="font-semibold text-slate-800">{formatValue(valueOf(latest))}</span> {unitLabel} remaining
+          · {formatValue(metric === 'estimate' ? latest.completedEstimate : latest.completedTasks)} done
+        </p>
+        <div className="flex items-center gap-x-3 text-xs text-slate-500">
+          <span className="flex items-center gap-x-1"><span className="h-0.5 w-4 bg-blue-600" /> Remaining</span>
+          {showIdeal && <span className="flex items-center gap-x-1"><span className="h-0 w-4 border-t-2 border-dashed border-slate-400" /> Ideal</span>}
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as 'estimate' | 'tasks')}
+            className="rounded-lg border border-slate-300 bg-white px-2 py-1 text-xs font-medium text-slate-700"
+            aria-label="Burndown metric"
+          >
+            <option value="estimate">{unit === 'hours' ? 'Hours' : 'Story points'}</option>
+            <option value="tasks">Task count</option>
+          </select>
+        </div>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" role="img" aria-label={`Burndown of ${sprint ? sprint.name : 'the project'}`}>
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} className="stroke-slate-200" />
+            <text x={PADDING.left - 6} y={y(tick)} textAnchor="end" dominantBaseline="middle" className="fill-slate-500 text-[10px]">{formatValue(tick)}</text>
+          </g>
+        ))}
+        {xTicks.map(day => (
+          <text key={day} x={x(day)} y={HEIGHT - 8} textAnchor="middle" className="fill-slate-500 text-[10px]">{formatDay(day)}</text>
+        ))}
+        {showIdeal && (
+          <line x1={x(firstDay)} y1={y(idealStart)} x2={x(lastDay)} y2={y(0)} strokeWidth={1.5} strokeDasharray="6 4" className="stroke-slate-400" />
+        )}
+        <polyline points={points.map(({ cx, cy }) => `${cx},${cy}`).join(' ')} fill="none" strokeWidth={2} className="stroke-blue-600" />
+        {points.map(({ cx, cy, point }) => (
+          <circle key={point.date} cx={cx} cy={cy} r={3} className="fill-blue-600">
+            <title>{`${formatDay(toDay(point.date))}: ${formatValue(valueOf(point))} ${unitLabel} remaining`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default BurndownChart;
@@ -4,7 +4,7 @@ import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import api from '../../api/axios';
-import { FolderPlusIcon, XMarkIcon, ExclamationCircleIcon, PencilIcon, Bars3BottomLeftIcon, ListBulletIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
+import { FolderPlusIcon, XMarkIcon, ExclamationCircleIcon, PencilIcon, Bars3BottomLeftIcon, ListBulletIcon, ChevronDownIcon, ScaleIcon } from '@heroicons/react/24/outline';
 
 interface CreateProjectFormProps {
   onClose: () => void;
@@ -14,6 +14,7 @@ const createProjectSchema = z.object({
   name: z.string().min(3, 'Project name must be at least 3 characters long.'),
   description: z.string().optional(),
   status: z.enum(['Not Started', 'In Progress', 'Completed', 'On Hold', 'Cancelled']).default('Not Started'),
+  estimateUnit: z.enum(['points', 'hours']).default('points'),
 });
 
 type CreateProjectInputs = z.infer<typeof createProjectSchema>;
@@ -30,6 +31,7 @@ const CreateProjectForm: React.FC<CreateProjectFormProps> = ({ onClose }) => {
     resolver: zodResolver(createProjectSchema) as any, // Keep 'as any' if it resolves a complex resolver type issue for now
     defaultValues: {
       status: 'Not Started',
+      estimateUnit: 'points',
     },
     mode: 'onTouched',
   });
@@ -168,6 +170,22 @@ const CreateProjectForm: React.FC<CreateProjectFormProps> = ({ onClose }) => {
             {errors.status && <p className={commonErrorClasses}><ExclamationCircleIcon className="h-4 w-4 mr-1" />{errors.status.message}</p>}
           </div>
 
+          <div>
+            <label htmlFor="estimateUnit" className={commonLabelClasses}>Estimate Tasks In</label>
+            <div className="relative">
+                <ScaleIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none z-10" />
+                <select
+                  id="estimateUnit"
+                  {...register('estimateUnit')}
+                  className={`${commonInputBaseClasses} ${commonSelectWithIconPadding} appearance-none border-slate-300 focus:border-blue-500 focus:ring-blue-500`}
+                >
+                  <option value="points">Story points</option>
+                  <option value="hours">Hours</option>
+                </select>
+                <ChevronDownIcon className="absolute right-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none" />
+            </div>
+          </div>
+
           <div className="flex flex-col-reverse sm:flex-row sm:justify-end sm:space-x-3 pt-4 mt-6 border-t border-slate-200 space-y-2 sm:space-y-0">
             <button
               type="button"
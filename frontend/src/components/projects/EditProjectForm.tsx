@@ -4,13 +4,14 @@ import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import api from '../../api/axios';
-import { PencilSquareIcon, XMarkIcon, ExclamationCircleIcon, PencilIcon as FieldPencilIcon, Bars3BottomLeftIcon, ListBulletIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
+import { PencilSquareIcon, XMarkIcon, ExclamationCircleIcon, PencilIcon as FieldPencilIcon, Bars3BottomLeftIcon, ListBulletIcon, ChevronDownIcon, ScaleIcon } from '@heroicons/react/24/outline';
 
 interface Project {
   id: string;
   name: string;
   description: string;
   status: 'Not Started' | 'In Progress' | 'Completed' | 'Cancelled' | 'On Hold';
+  estimateUnit?: 'points' | 'hours';
   createdBy: string;
   createdAt: string;
   updatedAt: string;
@@ -25,6 +26,7 @@ const editProjectSchema = z.object({
   name: z.string().min(3, 'Project name must be at least 3 characters long.').optional(),
   description: z.string().optional(),
   status: z.enum(['Not Started', 'In Progress', 'Completed', 'Cancelled', 'On Hold']).optional(),
+  estimateUnit: z.enum(['points', 'hours']).optional(),
 });
 
 type EditProjectInputs = z.infer<typeof editProjectSchema>;
@@ -43,6 +45,7 @@ const EditProjectForm: React.FC<EditProjectFormProps> = ({ project, onClose }) =
       name: project.name,
       description: project.description || '',
       status: project.status,
+      estimateUnit: project.estimateUnit || 'points',
     },
     mode: 'onTouched',
   });
@@ -80,6 +83,7 @@ const EditProjectForm: React.FC<EditProjectFormProps> = ({ project, onClose }) =
         payload.description = data.description === '' ? undefined : data.description;
     }
     if (data.status !== project.status) payload.status = data.status;
+    if (data.estimateUnit !== (project.estimateUnit || 'points')) payload.estimateUnit = data.estimateUnit;
     
     if (Object.keys(payload).length > 0) {
         updateProjectMutation.mutate(payload);
@@ -196,6 +200,22 @@ const EditProjectForm: React.FC<EditProjectFormProps> = ({ project, onClose }) =
             {errors.status && <p className={commonErrorClasses}><ExclamationCircleIcon className="h-4 w-4 mr-1" />{errors.status.message}</p>}
           </div>
 
+          <div>
+            <label htmlFor="edit-estimateUnit" className={commonLabelClasses}>Estimate Tasks In</label>
+            <div className="relative">
+                <ScaleIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none z-10" />
+                <select
+                  id="edit-estimateUnit"
+                  {...register('estimateUnit')}
+                  className={`${commonInputBaseClasses} ${commonSelectWithIconPadding} appearance-none border-slate-300 focus:border-blue-500 focus:ring-blue-500`}
+                >
+                  <option value="points">Story points</option>
+                  <option value="hours">Hours</option>
+                </select>
+                <ChevronDownIcon className="absolute right-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none" />
+            </div>
+          </div>
+
           <div className="flex flex-col-reverse sm:flex-row sm:justify-end sm:space-x-3 pt-4 mt-6 border-t border-slate-200 space-y-2 sm:space-y-0">
             <button
               type="button"
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { LabelChip, type Label } from '../tasks/LabelPicker';
+import { XMarkIcon, ExclamationCircleIcon, TagIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface ProjectLabelsModalProps {
+  projectId: string;
+  canCreate: boolean;
+  canManage: boolean;
+  onClose: () => void;
+}
+
+const ProjectLabelsModal: React.FC<ProjectLabelsModalProps> = ({ projectId, canCreate, canManage, onClose }) => {
+  const queryClient = useQueryClient();
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState('#3b82f6');
+  const [serverError, setServerError] = useState<string | null>(null);
+
+  const { data: labels, isLoading } = useQuery<Label[], Error>({
+    queryKey: ['projectLabels', projectId],
+    queryFn: async () => {
+      const response = await api.get(`/projects/${projectId}/labels`);
+      return response.data;
+    },
+  });
+
+  const onMutationError = (error: AxiosError<{ message?: string }>) => {
+    setServerError(error.response?.data?.message || error.message || 'Failed to update labels. Please try again.');
+  };
+
+  const onMutationSuccess = () => {
+    setServerError(null);
+    queryClient.invalidateQueries({ queryKey: ['projectLabels', projectId] });
+    queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+  };
+
+  const createLabelMutation = useMutation({
+    mutationFn: (payload: { name: string; color: string }) => api.post(`/projects/${projectId}/labels`, payload),
+    onSuccess: () => { setNewName(''); onMutationSuccess(); },
+    onError: onMutationError,
+  });
+
+  const updateLabelMutation = useMutation({
+    mutationFn: ({ id, ...changes }: { id: string; name?: string; color?: string }) => api.put(`/projects/${projectId}/labels/${id}`, changes),
+    onSuccess: onMutationSuccess,
+    onError: onMutationError,
+  });
+
+  const deleteLabelMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/projects/${projectId}/labels/${id}`),
+    onSuccess: onMutationSuccess,
+    onError: onMutationError,
+  });
+
+  const commonInputClasses = "form-input block w-full py-2 px-3 border border-slate-300 bg-white rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 focus:outline-none sm:text-sm";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="project-labels-title"
+    >
+      <div className="bg-white p-6 sm:p-8 rounded-xl shadow-2xl w-full max-w-lg transform transition-all">
+        <div className="flex items-center justify-between mb-6 pb-4 border-b border-slate-200">
+          <div className="flex items-center">
+            <TagIcon className="h-7 w-7 text-blue-600 mr-3" />
+            <h2 id="project-labels-title" className="text-xl sm:text-2xl font-semibold text-slate-800">Labels</h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1"
+            aria-label="Close modal"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        {serverError && (
+          <div className="mb-4 flex items-center rounded-md border border-red-300 bg-red-50 p-3">
+            <ExclamationCircleIcon className="h-5 w-5 shrink-0 text-red-500" aria-hidden="true" />
+            <p className="ml-3 text-sm font-medium text-red-700">{serverError}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="py-6 text-center text-slate-500">Loading labels...</p>
+        ) : (
+          <ul className="mb-6 max-h-72 divide-y divide-slate-100 overflow-y-auto">
+            {labels?.length === 0 && <li className="py-2.5 text-sm text-slate-400">No labels yet.</li>}
+            {labels?.map(label => (
+              <li key={label.id} className="flex items-center justify-between gap-x-3 py-2.5">
+                <LabelChip label={label} />
+                {canManage && (
+                  <div className="flex items-center gap-x-2">
+                    <input
+                      type="color"
+                      defaultValue={label.color}
+                      onBlur={(e) => e.target.value !== label.color && updateLabelMutation.mutate({ id: label.id, color: e.target.value })}
+                      className="h-8 w-10 cursor-pointer rounded border border-slate-300"
+                      aria-label={`Color of ${label.name}`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => deleteLabelMutation.mutate(label.id)}
+                      className="rounded-full p-1.5 text-slate-500 hover:bg-red-100 hover:text-red-600"
+                      title="Delete Label"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canCreate && (
+          <form
+            onSubmit={(e) => { e.preventDefault(); if (newName.trim()) createLabelMutation.mutate({ name: newName.trim(), color: newColor }); }}
+            className="flex gap-3 border-t border-slate-200 pt-4"
+          >
+            <input value={newName} onChange={(e) => setNewName(e.target.value)} maxLength={50} placeholder="New label name" className={commonInputClasses} aria-label="New label name" />
+            <input type="color" value={newColor} onChange={(e) => setNewColor(e.target.value)} className="h-10 w-12 shrink-0 cursor-pointer rounded border border-slate-300" aria-label="New label color" />
+            <button
+              type="submit"
+              disabled={!newName.trim() || createLabelMutation.isPending}
+              className="flex items-center justify-center gap-x-1.5 rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-blue-700 disabled:opacity-60"
+            >
+              <PlusIcon className="h-5 w-5" />
+              Add
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLabelsModal;
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import {
+  XMarkIcon,
+  ExclamationCircleIcon,
+  UserGroupIcon,
+  UserPlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+
+export type ProjectRole = 'Owner' | 'Maintainer' | 'Contributor' | 'Observer';
+
+const PROJECT_ROLES: ProjectRole[] = ['Owner', 'Maintainer', 'Contributor', 'Observer'];
+
+interface ProjectMember {
+  id: string;
+  userId: string;
+  role: ProjectRole;
+  user?: { id: string; username: string; email: string };
+}
+
+interface User {
+  id: string;
+  username: string;
+}
+
+interface ProjectMembersModalProps {
+  projectId: string;
+  currentUserRole?: ProjectRole;
+  onClose: () => void;
+}
+
+const ProjectMembersModal: React.FC<ProjectMembersModalProps> = ({ projectId, currentUserRole, onClose }) => {
+  const queryClient = useQueryClient();
+  const [newMemberId, setNewMemberId] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState<ProjectRole>('Contributor');
+  const [serverError, setServerError] = useState<string | null>(null);
+
+  const canManage = currentUserRole === 'Owner' || currentUserRole === 'Maintainer';
+  // Maintainers cannot hand out or take away the Owner role.
+  const assignableRoles = currentUserRole === 'Owner' ? PROJECT_ROLES : PROJECT_ROLES.filter(role => role !== 'Owner');
+
+  const { data: members, isLoading } = useQuery<ProjectMember[], Error>({
+    queryKey: ['projectMembers', projectId],
+    queryFn: async () => {
+      const response = await api.get(`/projects/${projectId}/members`);
+      return response.data;
+    },
+  });
+
+  const { data: users } = useQuery<User[], Error>({
+    queryKey: ['usersListForProjectMembers'],
+    queryFn: async () => {
+      const response = await api.get('/users');
+      return response.data;
+    },
+    enabled: canManage,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const onMutationError = (error: AxiosError<{ message?: string }>) => {
+    setServerError(error.response?.data?.message || error.message || 'Failed to update members. Please try again.');
+  };
+
+  const onMutationSuccess = () => {
+    setServerError(null);
+    queryClient.invalidateQueries({ queryKey: ['projectMembers', projectId] });
+  };
+
+  const addMemberMutation = useMutation({
+    mutationFn: (payload: { userId: string; role: ProjectRole }) => api.post(`/projects/${projectId}/members`, payload),
+    onSuccess: () => { setNewMemberId(''); onMutationSuccess(); },
+    onError: onMutationError,
+  });
+
+  const updateMemberMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: ProjectRole }) => api.put(`/projects/${projectId}/members/${userId}`, { role }),
+    onSuccess: onMutationSuccess,
+    onError: onMutationError,
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: (userId: string) => api.delete(`/projects/${projectId}/members/${userId}`),
+    onSuccess: onMutationSuccess,
+    onError: onMutationError,
+  });
+
+  const nonMembers = users?.filter(u => !members?.some(m => m.userId === u.id)) || [];
+  const commonInputClasses = "form-input block w-full py-2 px-3 border border-slate-300 bg-white rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 focus:outline-none sm:text-sm";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="project-members-title"
+    >
+      <div className="bg-white p-6 sm:p-8 rounded-xl shadow-2xl w-full max-w-lg transform transition-all">
+        <div className="flex items-center justify-between mb-6 pb-4 border-b border-slate-200">
+          <div className="flex items-center">
+            <UserGroupIcon className="h-7 w-7 text-blue-600 mr-3" />
+            <h2 id="project-members-title" className="text-xl sm:text-2xl font-semibold text-slate-800">Project Members</h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1"
+            aria-label="Close modal"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        {serverError && (
+          <div className="mb-4 flex items-center rounded-md border border-red-300 bg-red-50 p-3">
+            <ExclamationCircleIcon className="h-5 w-5 shrink-0 text-red-500" aria-hidden="true" />
+            <p className="ml-3 text-sm font-medium text-red-700">{serverError}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="py-6 text-center text-slate-500">Loading members...</p>
+        ) : (
+          <ul className="mb-6 max-h-72 divide-y divide-slate-100 overflow-y-auto">
+            {members?.map(member => (
+              <li key={member.id} className="flex items-center justify-between gap-x-3 py-2.5">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium text-slate-800">{member.user?.username}</p>
+                  <p className="truncate text-xs text-slate-500">{member.user?.email}</p>
+                </div>
+                {canManage && (member.role !== 'Owner' || currentUserRole === 'Owner') ? (
+                  <div className="flex items-center gap-x-2">
+                    <select
+                      value={member.role}
+                      onChange={(e) => updateMemberMutation.mutate({ userId: member.userId, role: e.target.value as ProjectRole })}
+                      className={`${commonInputClasses} w-36`}
+                      aria-label={`Role of ${member.user?.username}`}
+                    >
+                      {assignableRoles.map(role => <option key={role} value={role}>{role}</option>)}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => removeMemberMutation.mutate(member.userId)}
+                      className="rounded-full p-1.5 text-slate-500 hover:bg-red-100 hover:text-red-600"
+                      title="Remove Member"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <span className="rounded-full bg-slate-100 px-2.5 py-1 text-xs font-medium text-slate-600">{member.role}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canManage && (
+          <form
+            onSubmit={(e) => { e.preventDefault(); if (newMemberId) addMemberMutation.mutate({ userId: newMemberId, role: newMemberRole }); }}
+            className="flex flex-col gap-3 border-t border-slate-200 pt-4 sm:flex-row"
+          >
+            <select value={newMemberId} onChange={(e) => setNewMemberId(e.target.value)} className={commonInputClasses} aria-label="User to add">
+              <option value="">Select a user...</option>
+              {nonMembers.map(u => <option key={u.id} value={u.id}>{u.username}</option>)}
+            </select>
+            <select value={newMemberRole} onChange={(e) => setNewMemberRole(e.target.value as ProjectRole)} className={`${commonInputClasses} sm:w-40`} aria-label="Role for new member">
+              {assignableRoles.map(role => <option key={role} value={role}>{role}</option>)}
+            </select>
+            <button
+              type="submit"
+              disabled={!newMemberId || addMemberMutation.isPending}
+              className="flex items-center justify-center gap-x-1.5 rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-blue-700 disabled:opacity-60"
+            >
+              <UserPlusIcon className="h-5 w-5" />
+              Add
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectMembersModal;
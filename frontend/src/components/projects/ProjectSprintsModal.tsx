@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { XMarkIcon, ExclamationCircleIcon, RocketLaunchIcon, PlusIcon, TrashIcon, PlayIcon, StopIcon } from '@heroicons/react/24/outline';
+
+export interface Sprint {
+  id: string;
+  name: string;
+  goal?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  state: 'planned' | 'active' | 'closed';
+  taskCount?: number;
+}
+
+interface ProjectSprintsModalProps {
+  projectId: string;
+  canManage: boolean;
+  onClose: () => void;
+}
+
+const STATE_STYLES: Record<Sprint['state'], string> = {
+  planned: 'bg-slate-100 text-slate-700 ring-slate-200',
+  active: 'bg-green-100 text-green-800 ring-green-200',
+  closed: 'bg-slate-50 text-slate-500 ring-slate-200',
+};
+
+const formatSprintDates = (sprint: Sprint) => {
+  const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  if (sprint.startDate && sprint.endDate) return `${format(sprint.startDate)} – ${format(sprint.endDate)}`;
+  if (sprint.startDate) return `From ${format(sprint.startDate)}`;
+  if (sprint.endDate) return `Until ${format(sprint.endDate)}`;
+  return 'No dates';
+};
+
+const ProjectSprintsModal: React.FC<ProjectSprintsModalProps> = ({ projectId, canManage, onClose }) => {
+  const queryClient = useQueryClient();
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [newSprint, setNewSprint] = useState({ name: '', goal: '', startDate: '', endDate: '' });
+  // The sprint being closed and where its unfinished tasks should go ('' lets the server pick the next sprint)
+  const [closing, setClosing] = useState<{ sprintId: string; moveUnfinishedTo: string } | null>(null);
+
+  const { data: sprints, isLoading } = useQuery<Sprint[], Error>({
+    queryKey: ['projectSprints', projectId],
+    queryFn: async () => {
+      const response = await api.get(`/projects/${projectId}/sprints`);
+      return response.data;
+    },
+  });
+
+  const plannedSprints = sprints?.filter(sprint => sprint.state === 'planned') || [];
+
+  const onMutationError = (error: AxiosError<{ message?: string }>) => {
+    setServerError(error.response?.data?.message || error.message || 'Failed to update sprints. Please try again.');
+  };
+
+  const onMutationSuccess = () => {
+    setServerError(null);
+    queryClient.invalidateQueries({ queryKey: ['projectSprints', projectId] });
+    queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+  };
+
+  const createSprintMutation = useMutation({
+    mutationFn: (payload: typeof newSprint) => api.post(`/projects/${projectId}/sprints`, {
+      name: payload.name.trim(),
+      goal: payload.goal.trim() || null,
+      startDate: payload.startDate || null,
+      endDate: payload.endDate || null,
+    }),
+    onSuccess: () => { setNewSprint({ name: '', goal: '', startDate: '', endDate: '' }); onMutationSuccess(); },
+    onError: onMutationError,
+  });
+
+  const startSprintMutation = useMutation({
+    mutationFn: (sprintId: string) => api.post(`/projects/${projectId}/sprints/${sprintId}/start`),
+    onSuccess: onMutationSuccess,
+    onError: onMutationError,
+  });
+
+  const closeSprintMutation = useMutation({
+    mutationFn: ({ sprintId, moveUnfinishedTo }: { sprintId: string; moveUnfinishedTo: string }) =>
+      api.post(`/projects/${projectId}/sprints/${sprintId}/close`, moveUnfinishedTo ? { moveUnfinishedTo } : {}),
+    onSuccess: () => { setClosing(null); onMutationSuccess(); },
+    onError: onMutationError,
+  });
+
+  const deleteSprintMutation = useMutation({
+    mutationFn: (sprintId: string) => api.delete(`/projects/${projectId}/sprints/${sprintId}`),
+    onSuccess: onMutationSuccess,
+    onError: onMutationError,
+  });
+
+  const commonInputClasses = "form-input block w-full py-2 px-3 border border-slate-300 bg-white rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 focus:outline-none sm:text-sm";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="project-sprints-title"
+    >
+      <div className="bg-white p-6 sm:p-8 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto transform transition-all">
+        <div className="flex items-center justify-between mb-6 pb-4 border-b border-slate-200">
+          <div className="flex items-center">
+            <RocketLaunchIcon className="h-7 w-7 text-blue-600 mr-3" />
+            <h2 id="project-sprints-title" className="text-xl sm:text-2xl font-semibold text-slate-800">Sprints</h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1"
+            aria-label="Close modal"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        {serverError && (
+          <div className="mb-4 flex items-center rounded-md border border-red-300 bg-red-50 p-3">
+            <ExclamationCircleIcon className="h-5 w-5 shrink-0 text-red-500" aria-hidden="true" />
+            <p className="ml-3 text-sm font-medium text-red-700">{serverError}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="py-6 text-center text-slate-500">Loading sprints...</p>
+        ) : (
+          <ul className="mb-6 divide-y divide-slate-100">
+            {sprints?.length === 0 && <li className="py-2.5 text-sm text-slate-400">No sprints yet.</li>}
+            {sprints?.map(sprint => (
+              <li key={sprint.id} className="py-3">
+                <div className="flex items-start justify-between gap-x-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-x-2">
+                      <p className="truncate font-medium text-slate-800">{sprint.name}</p>
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-medium capitalize ring-1 ring-inset ${STATE_STYLES[sprint.state]}`}>{sprint.state}</span>
+                    </div>
+                    <p className="text-xs text-slate-500">{formatSprintDates(sprint)} · {sprint.taskCount ?? 0} tasks</p>
+                    {sprint.goal && <p className="mt-1 text-sm text-slate-600">{sprint.goal}</p>}
+                  </div>
+                  {canManage && (
+                    <div className="flex shrink-0 items-center gap-x-1">
+                      {sprint.state === 'planned' && (
+                        <button type="button" onClick={() => startSprintMutation.mutate(sprint.id)} className="flex items-center gap-x-1 rounded-lg px-2 py-1 text-sm font-medium text-green-700 hover:bg-green-50" title="Start Sprint">
+                          <PlayIcon className="h-4 w-4" />
+                          Start
+                        </button>
+                      )}
+                      {sprint.state === 'active' && (
+                        <button type="button" onClick={() => setClosing({ sprintId: sprint.id, moveUnfinishedTo: '' })} className="flex items-center gap-x-1 rounded-lg px-2 py-1 text-sm font-medium text-slate-700 hover:bg-slate-100" title="Close Sprint">
+                          <StopIcon className="h-4 w-4" />
+                          Close
+                        </button>
+                      )}
+                      {sprint.state !== 'active' && (
+                        <button type="button" onClick={() => deleteSprintMutation.mutate(sprint.id)} className="rounded-full p-1.5 text-slate-500 hover:bg-red-100 hover:text-red-600" title="Delete Sprint">
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {closing?.sprintId === sprint.id && (
+                  <div className="mt-3 flex flex-wrap items-center gap-2 rounded-lg bg-slate-50 p-3 text-sm">
+                    <span className="text-slate-700">Move unfinished tasks to</span>
+                    <select
+                      value={closing.moveUnfinishedTo}
+                      onChange={(e) => setClosing({ sprintId: sprint.id, moveUnfinishedTo: e.target.value })}
+                      className="rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm"
+                    >
+                      <option value="">{plannedSprints.length ? `Next sprint (${plannedSprints[0].name})` : 'Backlog'}</option>
+                      <option value="backlog">Backlog</option>
+                      {plannedSprints.map(planned => <option key={planned.id} value={planned.id}>{planned.name}</option>)}
+                    </select>
+                    <button
+                      type="button"
+                      disabled={closeSprintMutation.isPending}
+                      onClick={() => closeSprintMutation.mutate(closing)}
+                      className="rounded-lg bg-blue-600 px-3 py-1 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-60"
+                    >
+                      Close Sprint
+                    </button>
+                    <button type="button" onClick={() => setClosing(null)} className="rounded-lg px-3 py-1 text-sm text-slate-600 hover:bg-slate-200">
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canManage && (
+          <form
+            onSubmit={(e) => { e.preventDefault(); if (newSprint.name.trim()) createSprintMutation.mutate(newSprint); }}
+            className="space-y-3 border-t border-slate-200 pt-4"
+          >
+            <input value={newSprint.name} onChange={(e) => setNewSprint({ ...newSprint, name: e.target.value })} maxLength={100} placeholder="New sprint name" className={commonInputClasses} aria-label="New sprint name" />
+            <input value={newSprint.goal} onChange={(e) => setNewSprint({ ...newSprint, goal: e.target.value })} placeholder="Sprint goal (optional)" className={commonInputClasses} aria-label="Sprint goal" />
+            <div className="flex gap-3">
+              <input type="date" value={newSprint.startDate} onChange={(e) => setNewSprint({ ...newSprint, startDate: e.target.value })} className={commonInputClasses} aria-label="Start date" />
+              <input type="date" value={newSprint.endDate} onChange={(e) => setNewSprint({ ...newSprint, endDate: e.target.value })} className={commonInputClasses} aria-label="End date" />
+              <button
+                type="submit"
+                disabled={!newSprint.name.trim() || createSprintMutation.isPending}
+                className="flex shrink-0 items-center justify-center gap-x-1.5 rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-blue-700 disabled:opacity-60"
+              >
+                <PlusIcon className="h-5 w-5" />
+                Add
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectSprintsModal;
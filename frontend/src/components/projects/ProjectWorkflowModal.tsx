@@ -0,0 +1,274 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import type { ProjectRole } from './ProjectMembersModal';
+import {
+  XMarkIcon,
+  ExclamationCircleIcon,
+  ViewColumnsIcon,
+  PlusIcon,
+  TrashIcon,
+  ChevronUpIcon,
+  ChevronDownIcon,
+} from '@heroicons/react/24/outline';
+
+export interface WorkflowStatus {
+  name: string;
+  terminal: boolean;
+  wipLimit?: number | null;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  roles?: ProjectRole[];
+}
+
+export interface Workflow {
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[] | null;
+  wipLimitMode: 'soft' | 'hard';
+  isDefault?: boolean;
+}
+
+// Who may perform a transition, as offered by the editor
+type TransitionAccess = 'none' | 'anyone' | 'maintainers' | 'owners';
+
+const ACCESS_ROLES: Record<Exclude<TransitionAccess, 'none' | 'anyone'>, ProjectRole[]> = {
+  maintainers: ['Owner', 'Maintainer'],
+  owners: ['Owner'],
+};
+
+const toAccess = (transition?: WorkflowTransition): TransitionAccess => {
+  if (!transition) return 'none';
+  if (!transition.roles?.length) return 'anyone';
+  return transition.roles.includes('Maintainer') ? 'maintainers' : 'owners';
+};
+
+interface EditableStatus extends WorkflowStatus {
+  key: number;
+}
+
+interface ProjectWorkflowModalProps {
+  projectId: string;
+  workflow: Workflow;
+  onClose: () => void;
+}
+
+const ProjectWorkflowModal: React.FC<ProjectWorkflowModalProps> = ({ projectId, workflow, onClose }) => {
+  const queryClient = useQueryClient();
+  const [serverError, setServerError] = useState<string | null>(null);
+  // Statuses get a stable key so transitions survive renames
+  const [statuses, setStatuses] = useState<EditableStatus[]>(() => workflow.statuses.map((status, index) => ({ ...status, key: index })));
+  const [nextKey, setNextKey] = useState(workflow.statuses.length);
+  const [restrictTransitions, setRestrictTransitions] = useState(workflow.transitions !== null);
+  const [wipLimitMode, setWipLimitMode] = useState(workflow.wipLimitMode);
+  const [access, setAccess] = useState<Record<string, TransitionAccess>>(() => {
+    const initial: Record<string, TransitionAccess> = {};
+    workflow.statuses.forEach((from, fromKey) => workflow.statuses.forEach((to, toKey) => {
+      if (fromKey === toKey) return;
+      initial[`${fromKey}:${toKey}`] = workflow.transitions === null
+        ? 'anyone'
+        : toAccess(workflow.transitions.find(t => t.from === from.name && t.to === to.name));
+    }));
+    return initial;
+  });
+
+  const updateWorkflowMutation = useMutation({
+    mutationFn: (payload: Omit<Workflow, 'isDefault'>) => api.put(`/projects/${projectId}/workflow`, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projectWorkflow', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+      onClose();
+    },
+    onError: (error: AxiosError<{ message?: string }>) => {
+      setServerError(error.response?.data?.message || error.message || 'Failed to save the workflow. Please try again.');
+    },
+  });
+
+  const updateStatus = (key: number, changes: Partial<WorkflowStatus>) =>
+    setStatuses(prev => prev.map(status => status.key === key ? { ...status, ...changes } : status));
+
+  const moveStatus = (index: number, offset: number) => setStatuses(prev => {
+    const next = [...prev];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    return next;
+  });
+
+  const addStatus = () => {
+    setStatuses(prev => [...prev, { key: nextKey, name: '', terminal: false }]);
+    setNextKey(key => key + 1);
+  };
+
+  const handleSave = () => {
+    const payload: Omit<Workflow, 'isDefault'> = {
+      statuses: statuses.map(({ name, terminal, wipLimit }) => ({ name: name.trim(), terminal, wipLimit: wipLimit || null })),
+      transitions: null,
+      wipLimitMode,
+    };
+    if (restrictTransitions) {
+      payload.transitions = [];
+      statuses.forEach(from => statuses.forEach(to => {
+        const value = access[`${from.key}:${to.key}`] || 'none';
+        if (from.key === to.key || value === 'none') return;
+        payload.transitions!.push({
+          from: from.name.trim(),
+          to: to.name.trim(),
+          ...(value === 'anyone' ? {} : { roles: ACCESS_ROLES[value] }),
+        });
+      }));
+    }
+    updateWorkflowMutation.mutate(payload);
+  };
+
+  const commonInputClasses = "form-input block w-full py-2 px-3 border border-slate-300 bg-white rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 focus:outline-none sm:text-sm";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="project-workflow-title"
+    >
+      <div className="bg-white p-6 sm:p-8 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto transform transition-all">
+        <div className="flex items-center justify-between mb-6 pb-4 border-b border-slate-200">
+          <div className="flex items-center">
+            <ViewColumnsIcon className="h-7 w-7 text-blue-600 mr-3" />
+            <h2 id="project-workflow-title" className="text-xl sm:text-2xl font-semibold text-slate-800">Workflow</h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1"
+            aria-label="Close modal"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        {serverError && (
+          <div className="mb-4 flex items-center rounded-md border border-red-300 bg-red-50 p-3">
+            <ExclamationCircleIcon className="h-5 w-5 shrink-0 text-red-500" aria-hidden="true" />
+            <p className="ml-3 text-sm font-medium text-red-700">{serverError}</p>
+          </div>
+        )}
+
+        <h3 className="mb-2 text-sm font-semibold text-slate-700">Statuses (board columns, in order)</h3>
+        <ul className="mb-3 space-y-2">
+          {statuses.map((status, index) => (
+            <li key={status.key} className="flex items-center gap-x-2">
+              <input
+                value={status.name}
+                onChange={(e) => updateStatus(status.key, { name: e.target.value })}
+                maxLength={50}
+                placeholder="Status name"
+                className={commonInputClasses}
+                aria-label={`Status ${index + 1} name`}
+              />
+              <input
+                type="number"
+                min={1}
+                value={status.wipLimit ?? ''}
+                onChange={(e) => updateStatus(status.key, { wipLimit: e.target.value ? Math.max(1, Math.floor(Number(e.target.value))) : null })}
+                placeholder="No limit"
+                className="form-input block w-28 shrink-0 rounded-lg border border-slate-300 bg-white px-3 py-2 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+                title="WIP limit: the most tasks this status may hold"
+                aria-label={`Status ${index + 1} WIP limit`}
+              />
+              <label className="flex shrink-0 items-center gap-x-1.5 text-sm text-slate-600" title="Tasks in a terminal status count as finished">
+                <input type="checkbox" checked={status.terminal} onChange={(e) => updateStatus(status.key, { terminal: e.target.checked })} />
+                Terminal
+              </label>
+              <button type="button" disabled={index === 0} onClick={() => moveStatus(index, -1)} className="rounded-full p-1.5 text-slate-500 hover:bg-slate-100 disabled:opacity-30" title="Move Up">
+                <ChevronUpIcon className="h-4 w-4" />
+              </button>
+              <button type="button" disabled={index === statuses.length - 1} onClick={() => moveStatus(index, 1)} className="rounded-full p-1.5 text-slate-500 hover:bg-slate-100 disabled:opacity-30" title="Move Down">
+                <ChevronDownIcon className="h-4 w-4" />
+              </button>
+              <button type="button" disabled={statuses.length === 1} onClick={() => setStatuses(prev => prev.filter(s => s.key !== status.key))} className="rounded-full p-1.5 text-slate-500 hover:bg-red-100 hover:text-red-600 disabled:opacity-30" title="Remove Status">
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <button type="button" onClick={addStatus} className="mb-4 flex items-center gap-x-1 text-sm font-medium text-blue-600 hover:text-blue-700">
+          <PlusIcon className="h-4 w-4" />
+          Add status
+        </button>
+
+        <label className="mb-6 flex items-center gap-x-2 text-sm text-slate-700">
+          <span className="font-semibold">When a column reaches its WIP limit</span>
+          <select
+            value={wipLimitMode}
+            onChange={(e) => setWipLimitMode(e.target.value as Workflow['wipLimitMode'])}
+            className="rounded-lg border border-slate-300 bg-white px-2 py-1.5 text-sm"
+          >
+            <option value="soft">Warn, but allow more tasks</option>
+            <option value="hard">Block more tasks</option>
+          </select>
+        </label>
+
+        <label className="mb-3 flex items-center gap-x-2 text-sm font-semibold text-slate-700">
+          <input type="checkbox" checked={restrictTransitions} onChange={(e) => setRestrictTransitions(e.target.checked)} />
+          Restrict which moves are allowed
+        </label>
+
+        {restrictTransitions && (
+          <div className="mb-6 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="p-2 text-left text-xs font-medium uppercase tracking-wide text-slate-500">From \ To</th>
+                  {statuses.map(to => <th key={to.key} className="p-2 text-left text-xs font-medium text-slate-600">{to.name || '...'}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {statuses.map(from => (
+                  <tr key={from.key} className="border-t border-slate-100">
+                    <th className="p-2 text-left text-xs font-medium text-slate-600">{from.name || '...'}</th>
+                    {statuses.map(to => (
+                      <td key={to.key} className="p-1">
+                        {from.key === to.key ? (
+                          <span className="block text-center text-slate-300">—</span>
+                        ) : (
+                          <select
+                            value={access[`${from.key}:${to.key}`] || 'none'}
+                            onChange={(e) => setAccess(prev => ({ ...prev, [`${from.key}:${to.key}`]: e.target.value as TransitionAccess }))}
+                            className="rounded border border-slate-300 bg-white px-1.5 py-1 text-xs"
+                            aria-label={`Move from ${from.name} to ${to.name}`}
+                          >
+                            <option value="none">Not allowed</option>
+                            <option value="anyone">Anyone</option>
+                            <option value="maintainers">Maintainers</option>
+                            <option value="owners">Owners</option>
+                          </select>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-x-3 border-t border-slate-200 pt-4">
+          <button type="button" onClick={onClose} className="rounded-lg border border-slate-200/80 bg-slate-100 px-5 py-2.5 text-sm font-medium text-slate-700 hover:bg-slate-200">
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={updateWorkflowMutation.isPending || statuses.some(status => !status.name.trim())}
+            className="rounded-lg bg-blue-600 px-5 py-2.5 text-sm font-medium text-white shadow-sm hover:bg-blue-700 disabled:opacity-60"
+          >
+            {updateWorkflowMutation.isPending ? 'Saving...' : 'Save Workflow'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectWorkflowModal;
@@ -1,9 +1,12 @@
 import React from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, Controller } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
 import api from '../../api/axios';
+import LabelPicker from './LabelPicker';
+import type { Workflow } from '../projects/ProjectWorkflowModal';
+import type { Sprint } from '../projects/ProjectSprintsModal';
 import {
   XMarkIcon,
   ExclamationCircleIcon,
@@ -13,72 +16,144 @@ import {
   FlagIcon,
   CalendarDaysIcon,
   UserCircleIcon,
-  PlusCircleIcon
+  PlusCircleIcon,
+  RocketLaunchIcon,
+  ScaleIcon,
+  ArrowPathIcon,
+  BoltIcon
 } from '@heroicons/react/24/outline';
 
 interface CreateTaskFormProps {
   projectId: string;
+  // Sprint the new task is scheduled into; the backlog when omitted
+  defaultSprintId?: string;
   onClose: () => void;
+  // Called with the server's warning when the task went over a soft WIP limit
+  onWarning?: (message: string) => void;
 }
 
 interface User {
   id: string;
   username: string;
+  emailVerifiedAt?: string | null;
 }
 
 const createTaskSchema = z.object({
   title: z.string().min(3, 'Task title must be at least 3 characters long.'),
   description: z.string().optional(),
-  status: z.enum(['To Do', 'In Progress', 'Done', 'Blocked']).default('To Do'),
+  status: z.string().optional(),
   priority: z.enum(['Low', 'Medium', 'High']).default('Medium'),
   deadline: z.string().optional().refine(val => !val || !isNaN(Date.parse(val)), {
     message: "Invalid date format"
   }).transform(val => val ? new Date(val).toISOString().split('T')[0] : undefined),
   assignedTo: z.string().optional().nullable(),
+  labelIds: z.array(z.string()).default([]),
+  sprintId: z.string().optional(),
+  estimate: z.string().optional().refine(val => !val || (Number(val) >= 0 && Number(val) <= 1000), {
+    message: 'Estimate must be a number between 0 and 1000.'
+  }),
+  recurrence: z.enum(['none', 'daily', 'weekly', 'monthly', 'custom']).default('none'),
+  recurrenceRule: z.string().optional(),
+  recurrenceTrigger: z.enum(['completion', 'schedule']).default('completion'),
+}).refine(data => data.recurrence !== 'custom' || !!data.recurrenceRule?.trim(), {
+  message: 'Enter a rule, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH',
+  path: ['recurrenceRule'],
 });
 
 type CreateTaskInputs = z.infer<typeof createTaskSchema>;
 
-const CreateTaskForm: React.FC<CreateTaskFormProps> = ({ projectId, onClose }) => {
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// The presets repeat on the weekday or day of the month of the deadline, or of today without one
+const buildRecurrenceRule = ({ recurrence, recurrenceRule, deadline }: Pick<CreateTaskInputs, 'recurrence' | 'recurrenceRule' | 'deadline'>) => {
+  const anchor = deadline ? new Date(`${deadline}T00:00:00Z`) : new Date();
+  switch (recurrence) {
+    case 'daily': return 'FREQ=DAILY';
+    case 'weekly': return `FREQ=WEEKLY;BYDAY=${WEEKDAY_CODES[anchor.getUTCDay()]}`;
+    case 'monthly': return `FREQ=MONTHLY;BYMONTHDAY=${anchor.getUTCDate()}`;
+    case 'custom': return recurrenceRule?.trim() || null;
+    default: return null;
+  }
+};
+
+const CreateTaskForm: React.FC<CreateTaskFormProps> = ({ projectId, defaultSprintId, onClose, onWarning }) => {
   const queryClient = useQueryClient();
 
+  // Only members of the project who have verified their email can be assigned its tasks.
   const { data: users, isLoading: areUsersLoading, isError: isUsersError } = useQuery<User[], Error>({
-    queryKey: ['usersListForTaskForm'],
+    queryKey: ['projectMembers', projectId, 'assignable'],
     queryFn: async () => {
-      const response = await api.get('/users');
-      return response.data;
+      const response = await api.get(`/projects/${projectId}/members`);
+      return response.data.map((member: { user: User }) => member.user).filter((user: User) => !!user.emailVerifiedAt);
     },
     staleTime: 5 * 60 * 1000,
   });
 
+  // The status choices are the project's workflow; the first one is preselected.
+  const { data: workflow, isLoading: isWorkflowLoading } = useQuery<Workflow, Error>({
+    queryKey: ['projectWorkflow', projectId],
+    queryFn: async () => {
+      const response = await api.get(`/projects/${projectId}/workflow`);
+      return response.data;
+    },
+  });
+
+  const { data: sprints } = useQuery<Sprint[], Error>({
+    queryKey: ['projectSprints', projectId],
+    queryFn: async () => {
+      const response = await api.get(`/projects/${projectId}/sprints`);
+      return response.data;
+    },
+  });
+
+  // Estimates are entered in the project's unit
+  const { data: project } = useQuery<{ estimateUnit?: 'points' | 'hours' }, Error>({
+    queryKey: ['project', projectId],
+    queryFn: async () => {
+      const response = await api.get(`/projects/${projectId}`);
+      return response.data;
+    },
+  });
+
   const {
     register,
     handleSubmit,
     formState: { errors, isSubmitting },
     setError,
+    control,
+    watch,
   } = useForm<CreateTaskInputs>({
     resolver: zodResolver(createTaskSchema) as any,
     defaultValues: {
-      status: 'To Do',
       priority: 'Medium',
       assignedTo: '',
+      labelIds: [],
+      sprintId: defaultSprintId || '',
+      recurrence: 'none',
+      recurrenceTrigger: 'completion',
     },
     mode: 'onTouched',
   });
 
   const createTaskMutation = useMutation({
-    mutationFn: async (newTask: CreateTaskInputs) => {
+    mutationFn: async ({ recurrence, recurrenceRule, recurrenceTrigger, ...newTask }: CreateTaskInputs) => {
+      const rule = buildRecurrenceRule({ recurrence, recurrenceRule, deadline: newTask.deadline });
       const payload = {
         ...newTask,
         projectId,
         assignedTo: newTask.assignedTo === '' ? null : newTask.assignedTo,
+        status: newTask.status || undefined,
+        sprintId: newTask.sprintId || null,
+        estimate: newTask.estimate ? Number(newTask.estimate) : null,
+        recurrence: rule ? { rule, trigger: recurrenceTrigger } : undefined,
       };
       const response = await api.post('/tasks', payload);
       return response.data;
     },
-    onSuccess: () => {
+    onSuccess: (data: { wipWarning?: string }) => {
       queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      if (data.wipWarning) onWarning?.(data.wipWarning);
       onClose();
     },
     onError: (error: any) => {
@@ -99,8 +174,9 @@ const CreateTaskForm: React.FC<CreateTaskFormProps> = ({ projectId, onClose }) =
   const commonErrorClasses = "mt-1.5 text-xs text-red-600 flex items-center";
 
   const today = new Date().toISOString().split('T')[0];
+  const recurrence = watch('recurrence');
 
-  if (areUsersLoading) return (
+  if (areUsersLoading || isWorkflowLoading) return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 transition-opacity duration-300 ease-in-out">
       <div className="bg-white p-8 rounded-lg shadow-xl max-w-lg w-full text-center">
         <svg className="animate-spin h-8 w-8 text-blue-600 mx-auto mb-3" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -207,10 +283,9 @@ const CreateTaskForm: React.FC<CreateTaskFormProps> = ({ projectId, onClose }) =
                         aria-invalid={errors.status ? "true" : "false"}
                         className={`${commonInputClasses} pl-10 appearance-none ${errors.status ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}`}
                       >
-                        <option value="To Do">To Do</option>
-                        <option value="In Progress">In Progress</option>
-                        <option value="Done">Done</option>
-                        <option value="Blocked">Blocked</option>
+                        {workflow?.statuses.map(workflowStatus => (
+                          <option key={workflowStatus.name} value={workflowStatus.name}>{workflowStatus.name}</option>
+                        ))}
                       </select>
                       <svg className="absolute right-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none" fill="currentColor" viewBox="0 0 20 20">
                           <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
@@ -281,6 +356,104 @@ const CreateTaskForm: React.FC<CreateTaskFormProps> = ({ projectId, onClose }) =
                 </div>
               </div>
 
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-5 gap-y-5">
+                <div>
+                  <label htmlFor="sprintId" className={commonLabelClasses}>Sprint</label>
+                  <div className="relative">
+                    <RocketLaunchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none" />
+                    <Controller
+                      name="sprintId"
+                      control={control}
+                      render={({ field }) => (
+                        <select id="sprintId" {...field} value={field.value || ''} className={`${commonInputClasses} pl-10 appearance-none`}>
+                          <option value="">Backlog</option>
+                          {sprints?.filter(sprint => sprint.state !== 'closed').map(sprint => (
+                            <option key={sprint.id} value={sprint.id}>{sprint.name}{sprint.state === 'active' ? ' (active)' : ''}</option>
+                          ))}
+                        </select>
+                      )}
+                    />
+                      <svg className="absolute right-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none" fill="currentColor" viewBox="0 0 20 20">
+                          <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                      </svg>
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="estimate" className={commonLabelClasses}>Estimate in {project?.estimateUnit === 'hours' ? 'Hours' : 'Story Points'} (Optional)</label>
+                  <div className="relative">
+                    <ScaleIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none" />
+                    <input
+                      id="estimate"
+                      type="number"
+                      min={0}
+                      max={1000}
+                      step="any"
+                      {...register('estimate')}
+                      aria-invalid={errors.estimate ? "true" : "false"}
+                      className={`${commonInputClasses} pl-10 ${errors.estimate ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}`}
+                    />
+                  </div>
+                  {errors.estimate && <p className={commonErrorClasses}><ExclamationCircleIcon className="h-4 w-4 mr-1" />{errors.estimate.message}</p>}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-5 gap-y-5">
+                <div>
+                  <label htmlFor="recurrence" className={commonLabelClasses}>Repeat</label>
+                  <div className="relative">
+                    <ArrowPathIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none" />
+                    <select id="recurrence" {...register('recurrence')} className={`${commonInputClasses} pl-10 appearance-none`}>
+                      <option value="none">Does not repeat</option>
+                      <option value="daily">Daily</option>
+                      <option value="weekly">Weekly</option>
+                      <option value="monthly">Monthly</option>
+                      <option value="custom">Custom rule...</option>
+                    </select>
+                      <svg className="absolute right-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none" fill="currentColor" viewBox="0 0 20 20">
+                          <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                      </svg>
+                  </div>
+                </div>
+
+                {recurrence !== 'none' && (
+                  <div>
+                    <label htmlFor="recurrenceTrigger" className={commonLabelClasses}>Create Next Occurrence</label>
+                    <div className="relative">
+                      <BoltIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none" />
+                      <select id="recurrenceTrigger" {...register('recurrenceTrigger')} className={`${commonInputClasses} pl-10 appearance-none`}>
+                        <option value="completion">When this one is done</option>
+                        <option value="schedule">On its date</option>
+                      </select>
+                      <svg className="absolute right-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none" fill="currentColor" viewBox="0 0 20 20">
+                          <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                      </svg>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {recurrence === 'custom' && (
+                <div>
+                  <label htmlFor="recurrenceRule" className={commonLabelClasses}>Recurrence Rule</label>
+                  <input
+                    id="recurrenceRule"
+                    type="text"
+                    {...register('recurrenceRule')}
+                    aria-invalid={errors.recurrenceRule ? "true" : "false"}
+                    className={`${commonInputClasses} font-mono ${errors.recurrenceRule ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}`}
+                    placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+                  />
+                  <p className="mt-1.5 text-xs text-slate-500">Supports FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, UNTIL and COUNT.</p>
+                  {errors.recurrenceRule && <p className={commonErrorClasses}><ExclamationCircleIcon className="h-4 w-4 mr-1" />{errors.recurrenceRule.message}</p>}
+                </div>
+              )}
+
+              <Controller
+                name="labelIds"
+                control={control}
+                render={({ field }) => <LabelPicker projectId={projectId} value={field.value || []} onChange={field.onChange} />}
+              />
 
               <div className="flex flex-col-reverse sm:flex-row sm:justify-end sm:space-x-3 pt-4 mt-6 border-t border-slate-200 space-y-2 sm:space-y-0">
                 <button
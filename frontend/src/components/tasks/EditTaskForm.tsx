@@ -1,9 +1,19 @@
-import React from 'react';
-import { useForm } from 'react-hook-form';
+import React, { useEffect } from 'react';
+import { useForm, Controller } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
 import api from '../../api/axios';
+import TaskDependenciesPanel from './TaskDependenciesPanel';
+import LabelPicker, { type Label } from './LabelPicker';
+import type { Workflow } from '../projects/ProjectWorkflowModal';
+import type { Sprint } from '../projects/ProjectSprintsModal';
+import TaskCommentsPanel from './TaskCommentsPanel';
+import TaskAttachmentsPanel from './TaskAttachmentsPanel';
+import TaskHistoryTimeline from './TaskHistoryTimeline';
+import TaskWorklogsPanel from './TaskWorklogsPanel';
+import TaskWatchButton from './TaskWatchButton';
+import TaskChecklistPanel from './TaskChecklistPanel';
 import {
   XMarkIcon,
   ExclamationCircleIcon,
@@ -15,13 +25,15 @@ import {
   CalendarDaysIcon,
   UserCircleIcon,
   BriefcaseIcon,
+  RocketLaunchIcon,
+  ScaleIcon,
 } from '@heroicons/react/24/outline';
 
 interface Task {
   id: string;
   title: string;
   description?: string;
-  status: 'To Do' | 'In Progress' | 'Done' | 'Blocked';
+  status: string;
   priority: 'Low' | 'Medium' | 'High';
   deadline?: string;
   projectId: string;
@@ -29,6 +41,9 @@ interface Task {
   reportedBy: string;
   createdAt: string;
   updatedAt: string;
+  labels?: Label[];
+  sprintId?: string | null;
+  estimate?: number | null;
 }
 
 interface User {
@@ -40,17 +55,20 @@ interface Project {
   id: string;
   name: string;
   description?: string;
+  estimateUnit?: 'points' | 'hours';
 }
 
 interface EditTaskFormProps {
   task: Task;
   onClose: () => void;
+  // Called with the server's warning when the task went over a soft WIP limit
+  onWarning?: (message: string) => void;
 }
 
 const editTaskSchema = z.object({
   title: z.string().min(3, 'Task title must be at least 3 characters long.').optional(),
   description: z.string().optional(),
-  status: z.enum(['To Do', 'In Progress', 'Done', 'Blocked']).optional(),
+  status: z.string().optional(),
   priority: z.enum(['Low', 'Medium', 'High']).optional(),
   deadline: z.string()
     .optional()
@@ -63,11 +81,21 @@ const editTaskSchema = z.object({
     .nullable()
     .transform(val => (val === "" || val === null) ? null : val),
   projectId: z.string().optional(),
+  labelIds: z.array(z.string()).optional(),
+  sprintId: z.string()
+    .optional()
+    .nullable()
+    .transform(val => (val === "" || val === null) ? null : val),
+  estimate: z.string().optional().refine(val => !val || (Number(val) >= 0 && Number(val) <= 1000), {
+    message: 'Estimate must be a number between 0 and 1000.'
+  }),
 });
 
 type EditTaskInputs = z.infer<typeof editTaskSchema>;
+// The estimate is typed in as text but sent as a number, or null to clear it
+type EditTaskPayload = Omit<Partial<EditTaskInputs>, 'estimate'> & { estimate?: number | null };
 
-const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onClose }) => {
+const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onClose, onWarning }) => {
   const queryClient = useQueryClient();
 
   const { data: projects, isLoading: areProjectsLoading, isError: isProjectsError } = useQuery<Project[], Error>({
@@ -93,6 +121,9 @@ const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onClose }) => {
     handleSubmit,
     formState: { errors, isSubmitting },
     setError,
+    control,
+    watch,
+    setValue,
   } = useForm<EditTaskInputs>({
     resolver: zodResolver(editTaskSchema),
     defaultValues: {
@@ -103,21 +134,59 @@ const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onClose }) => {
       deadline: task.deadline ? new Date(task.deadline).toISOString().split('T')[0] : undefined,
       assignedTo: task.assignedTo || '',
       projectId: task.projectId,
+      labelIds: task.labels?.map(label => label.id) || [],
+      sprintId: task.sprintId || '',
+      estimate: task.estimate != null ? String(task.estimate) : '',
     },
     mode: 'onTouched',
   });
 
+  // Labels and sprints belong to a project, so moving the task starts it over in the new project's backlog with no labels
+  const selectedProjectId = watch('projectId') || task.projectId;
+  useEffect(() => {
+    if (selectedProjectId !== task.projectId) {
+      setValue('labelIds', []);
+      setValue('sprintId', '');
+    }
+  }, [selectedProjectId, task.projectId, setValue]);
+
+  const { data: sprints } = useQuery<Sprint[], Error>({
+    queryKey: ['projectSprints', selectedProjectId],
+    queryFn: async () => {
+      const response = await api.get(`/projects/${selectedProjectId}/sprints`);
+      return response.data;
+    },
+  });
+  // Closed sprints take no new tasks, but the task may still sit in one
+  const sprintOptions = sprints?.filter(sprint => sprint.state !== 'closed' || sprint.id === task.sprintId) || [];
+  const estimateUnit = projects?.find(project => project.id === selectedProjectId)?.estimateUnit;
+
+  const { data: workflow } = useQuery<Workflow, Error>({
+    queryKey: ['projectWorkflow', selectedProjectId],
+    queryFn: async () => {
+      const response = await api.get(`/projects/${selectedProjectId}/workflow`);
+      return response.data;
+    },
+  });
+
+  // Statuses come from the workflow of the project the task will be in; keep the current one selectable
+  const workflowStatusNames = workflow?.statuses.map(status => status.name) || [];
+  const statusOptions = selectedProjectId === task.projectId && !workflowStatusNames.includes(task.status)
+    ? [task.status, ...workflowStatusNames]
+    : workflowStatusNames;
+
   const updateTaskMutation = useMutation({
-    mutationFn: async (updatedFields: Partial<EditTaskInputs>) => {
+    mutationFn: async (updatedFields: EditTaskPayload) => {
       const response = await api.put(`/tasks/${task.id}`, updatedFields);
       return response.data;
     },
-    onSuccess: (updatedTask: Task) => {
+    onSuccess: ({ task: updatedTask, wipWarning }: { task: Task; wipWarning?: string }) => {
       queryClient.invalidateQueries({ queryKey: ['tasks', task.projectId] });
       if (updatedTask.projectId && updatedTask.projectId !== task.projectId) {
         queryClient.invalidateQueries({ queryKey: ['tasks', updatedTask.projectId] });
       }
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      if (wipWarning) onWarning?.(wipWarning);
       onClose();
     },
     onError: (error: any) => {
@@ -130,7 +199,7 @@ const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onClose }) => {
   });
 
   const onSubmit = (data: EditTaskInputs) => {
-    const changedFields: Partial<EditTaskInputs> = {};
+    const changedFields: EditTaskPayload = {};
 
     if (data.title !== undefined && data.title !== task.title) {
       changedFields.title = data.title;
@@ -154,6 +223,20 @@ const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onClose }) => {
       changedFields.deadline = formDeadline;
     }
 
+    const originalLabelIds = (task.labels?.map(label => label.id) || []).sort().join(',');
+    if (data.labelIds && [...data.labelIds].sort().join(',') !== originalLabelIds) {
+      changedFields.labelIds = data.labelIds;
+    }
+
+    if (data.sprintId !== (task.sprintId || null)) {
+      changedFields.sprintId = data.sprintId;
+    }
+
+    const formEstimate = data.estimate ? Number(data.estimate) : null;
+    if (formEstimate !== (task.estimate ?? null)) {
+      changedFields.estimate = formEstimate;
+    }
+
     const formAssignedTo = data.assignedTo;
     const originalTaskAssignedTo = task.assignedTo || null;
     if (formAssignedTo !== originalTaskAssignedTo) {
@@ -202,7 +285,7 @@ const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onClose }) => {
         aria-modal="true"
         aria-labelledby="edit-task-title-modal"
     >
-      <div className="bg-white p-6 sm:p-8 rounded-xl shadow-2xl w-full max-w-lg transform transition-all">
+      <div className="bg-white p-6 sm:p-8 rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto transform transition-all">
         <div className="flex items-center justify-between mb-6 sm:mb-8 pb-4 border-b border-slate-200">
           <div className="flex items-center">
             <FormTitleIcon className="h-7 w-7 text-blue-600 mr-3" />
@@ -210,14 +293,17 @@ const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onClose }) => {
               Edit Task: <span className="font-normal italic line-clamp-1 break-all">{task.title}</span>
             </h2>
           </div>
-          <button
-            type="button"
-            onClick={onClose}
-            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1"
-            aria-label="Close modal"
-          >
-            <XMarkIcon className="h-6 w-6" />
-          </button>
+          <div className="flex items-center gap-x-2">
+            <TaskWatchButton taskId={task.id} onError={(message) => setError('root.serverError', { type: 'manual', message })} />
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1"
+              aria-label="Close modal"
+            >
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
         </div>
 
         {loadingOrErrorUsers || loadingOrErrorProjects ? (
@@ -284,10 +370,9 @@ const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onClose }) => {
                     aria-invalid={errors.status ? "true" : "false"}
                     className={`${commonInputClasses} pl-10 appearance-none ${errors.status ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}`}
                   >
-                    <option value="To Do">To Do</option>
-                    <option value="In Progress">In Progress</option>
-                    <option value="Done">Done</option>
-                    <option value="Blocked">Blocked</option>
+                    {statusOptions.map(statusName => (
+                      <option key={statusName} value={statusName}>{statusName}</option>
+                    ))}
                   </select>
                   <svg className="absolute right-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none" fill="currentColor" viewBox="0 0 20 20">
                       <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
@@ -378,6 +463,53 @@ const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onClose }) => {
               {errors.projectId && <p className={commonErrorClasses}><ExclamationCircleIcon className="h-4 w-4 mr-1" />{errors.projectId.message}</p>}
             </div>
 
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-5 gap-y-5">
+            <div>
+              <label htmlFor="edit-task-sprintId" className={commonLabelClasses}>Sprint</label>
+              <div className="relative">
+                <RocketLaunchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none" />
+                <Controller
+                  name="sprintId"
+                  control={control}
+                  render={({ field }) => (
+                    <select id="edit-task-sprintId" {...field} value={field.value || ''} className={`${commonInputClasses} pl-10 appearance-none`}>
+                      <option value="">Backlog</option>
+                      {sprintOptions.map(sprint => (
+                        <option key={sprint.id} value={sprint.id}>{sprint.name}{sprint.state !== 'planned' ? ` (${sprint.state})` : ''}</option>
+                      ))}
+                    </select>
+                  )}
+                />
+                <svg className="absolute right-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                </svg>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="edit-task-estimate" className={commonLabelClasses}>Estimate in {estimateUnit === 'hours' ? 'Hours' : 'Story Points'} (Optional)</label>
+              <div className="relative">
+                <ScaleIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none" />
+                <input
+                  id="edit-task-estimate"
+                  type="number"
+                  min={0}
+                  max={1000}
+                  step="any"
+                  {...register('estimate')}
+                  aria-invalid={errors.estimate ? "true" : "false"}
+                  className={`${commonInputClasses} pl-10 ${errors.estimate ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}`}
+                />
+              </div>
+              {errors.estimate && <p className={commonErrorClasses}><ExclamationCircleIcon className="h-4 w-4 mr-1" />{errors.estimate.message}</p>}
+            </div>
+          </div>
+
+          <Controller
+            name="labelIds"
+            control={control}
+            render={({ field }) => <LabelPicker projectId={selectedProjectId} value={field.value || []} onChange={field.onChange} />}
+          />
 
           <div className="flex flex-col-reverse sm:flex-row sm:justify-end sm:space-x-3 pt-4 mt-6 border-t border-slate-200 space-y-2 sm:space-y-0">
             <button
@@ -407,6 +539,13 @@ const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onClose }) => {
           </div>
         </form>
         )}
+
+        <TaskChecklistPanel taskId={task.id} projectId={task.projectId} canEdit={true} />
+        <TaskDependenciesPanel taskId={task.id} projectId={task.projectId} canEdit={true} />
+        <TaskWorklogsPanel taskId={task.id} projectId={task.projectId} canLog={true} />
+        <TaskAttachmentsPanel taskId={task.id} canEdit={true} />
+        <TaskCommentsPanel taskId={task.id} canComment={true} />
+        <TaskHistoryTimeline taskId={task.id} />
       </div>
     </div>
   );
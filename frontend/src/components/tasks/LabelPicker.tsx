@@ -0,0 +1,77 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import tinycolor from 'tinycolor2';
+import api from '../../api/axios';
+import { TagIcon } from '@heroicons/react/24/outline';
+
+export interface Label {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export const LabelChip: React.FC<{ label: Label; muted?: boolean }> = ({ label, muted = false }) => (
+  <span
+    className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${muted ? 'opacity-40' : ''}`}
+    style={{
+      backgroundColor: label.color,
+      color: tinycolor.mostReadable(label.color, ['#ffffff', '#1e293b'])?.toHexString() || '#ffffff',
+    }}
+  >
+    {label.name}
+  </span>
+);
+
+interface LabelPickerProps {
+  projectId: string;
+  value: string[];
+  onChange: (labelIds: string[]) => void;
+}
+
+/**
+ * Toggleable chips for every label of the project; selected labels are shown at full color.
+ */
+const LabelPicker: React.FC<LabelPickerProps> = ({ projectId, value, onChange }) => {
+  const { data: labels, isLoading } = useQuery<Label[], Error>({
+    queryKey: ['projectLabels', projectId],
+    queryFn: async () => {
+      const response = await api.get(`/projects/${projectId}/labels`);
+      return response.data;
+    },
+    enabled: !!projectId,
+  });
+
+  const toggle = (labelId: string) => {
+    onChange(value.includes(labelId) ? value.filter(id => id !== labelId) : [...value, labelId]);
+  };
+
+  return (
+    <div>
+      <p className="mb-1.5 flex items-center text-sm font-medium text-slate-700">
+        <TagIcon className="mr-1.5 h-4 w-4 text-slate-400" />
+        Labels (Optional)
+      </p>
+      {isLoading ? (
+        <p className="text-sm text-slate-400">Loading labels...</p>
+      ) : labels?.length ? (
+        <div className="flex flex-wrap gap-1.5">
+          {labels.map(label => (
+            <button
+              key={label.id}
+              type="button"
+              onClick={() => toggle(label.id)}
+              aria-pressed={value.includes(label.id)}
+              className="rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1"
+            >
+              <LabelChip label={label} muted={!value.includes(label.id)} />
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400">This project has no labels yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default LabelPicker;
@@ -0,0 +1,153 @@
+import React, { useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { PaperClipIcon, ArrowDownTrayIcon, TrashIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
+
+interface Attachment {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+  uploader?: { id: string; username: string };
+}
+
+interface TaskAttachmentsPanelProps {
+  taskId: string;
+  canEdit: boolean;
+}
+
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// Browsers often report no type for .log files; treat them as plain text
+const getFileType = (file: File) => file.type || (/\.(log|txt)$/i.test(file.name) ? 'text/plain' : 'application/octet-stream');
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const TaskAttachmentsPanel: React.FC<TaskAttachmentsPanelProps> = ({ taskId, canEdit }) => {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: attachments } = useQuery<Attachment[], Error>({
+    queryKey: ['taskAttachments', taskId],
+    queryFn: async () => {
+      const response = await api.get(`/tasks/${taskId}/attachments`);
+      return response.data;
+    },
+  });
+
+  const onSuccess = () => {
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['taskAttachments', taskId] });
+  };
+
+  const onError = (err: AxiosError<{ message?: string }>) => {
+    setError(err.response?.data?.message || err.message || 'Failed to update attachments.');
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => api.post(`/tasks/${taskId}/attachments`, file, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-File-Name': encodeURIComponent(file.name),
+        'X-File-Type': getFileType(file),
+      },
+    }),
+    onSuccess,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (attachmentId: string) => api.delete(`/tasks/${taskId}/attachments/${attachmentId}`),
+    onSuccess,
+    onError,
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      setError('Attachments cannot be larger than 10 MB.');
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  // Downloads need the auth header, so fetch a blob instead of linking to the URL directly
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      const response = await api.get(`/tasks/${taskId}/attachments/${attachment.id}`, { responseType: 'blob' });
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      onError(err as AxiosError<{ message?: string }>);
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t border-slate-200 pt-5">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="flex items-center text-sm font-semibold text-slate-700">
+          <PaperClipIcon className="mr-1.5 h-4 w-4 text-slate-400" />
+          Attachments
+        </h3>
+        {canEdit && (
+          <>
+            <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileChange} />
+            <button
+              type="button"
+              disabled={uploadMutation.isPending}
+              onClick={() => fileInputRef.current?.click()}
+              className="rounded-lg bg-slate-100 px-3 py-1.5 text-sm font-medium text-slate-700 hover:bg-slate-200 disabled:opacity-60"
+            >
+              {uploadMutation.isPending ? 'Uploading...' : 'Upload'}
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && (
+        <p className="mb-3 flex items-center text-xs text-red-600">
+          <ExclamationCircleIcon className="mr-1 h-4 w-4 shrink-0" />{error}
+        </p>
+      )}
+
+      <ul className="space-y-1">
+        {attachments?.length === 0 && <li className="text-sm text-slate-400">No attachments.</li>}
+        {attachments?.map(attachment => (
+          <li key={attachment.id} className="flex items-center justify-between rounded-md bg-slate-50 px-2.5 py-1.5 text-sm">
+            <div className="min-w-0">
+              <p className="truncate text-slate-700">{attachment.fileName}</p>
+              <p className="text-xs text-slate-500">
+                {formatSize(attachment.size)}{attachment.uploader && ` · ${attachment.uploader.username}`}
+              </p>
+            </div>
+            <div className="flex items-center">
+              <button type="button" onClick={() => handleDownload(attachment)} className="rounded-full p-1 text-slate-400 hover:bg-blue-100 hover:text-blue-600" title="Download">
+                <ArrowDownTrayIcon className="h-4 w-4" />
+              </button>
+              {canEdit && (
+                <button type="button" onClick={() => deleteMutation.mutate(attachment.id)} className="rounded-full p-1 text-slate-400 hover:bg-red-100 hover:text-red-600" title="Delete Attachment">
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TaskAttachmentsPanel;
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { useAuth } from '../../context/AuthContext';
+import { CheckCircleIcon, ChevronUpIcon, ChevronDownIcon, TrashIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
+
+interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+  assigneeId?: string | null;
+  assignee?: { id: string; username: string } | null;
+}
+
+interface TaskChecklistPanelProps {
+  taskId: string;
+  projectId: string;
+  canEdit: boolean;
+}
+
+const TaskChecklistPanel: React.FC<TaskChecklistPanelProps> = ({ taskId, projectId, canEdit }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  const [newItem, setNewItem] = useState({ text: '', assigneeId: '' });
+
+  const { data: items } = useQuery<ChecklistItem[], Error>({
+    queryKey: ['taskChecklist', taskId],
+    queryFn: async () => {
+      const response = await api.get(`/tasks/${taskId}/checklist`);
+      return response.data;
+    },
+  });
+
+  // Items can be assigned to members of the project, like the task itself
+  const { data: members } = useQuery<{ id: string; username: string; emailVerifiedAt?: string | null }[], Error>({
+    queryKey: ['projectMembers', projectId, 'assignable'],
+    queryFn: async () => {
+      const response = await api.get(`/projects/${projectId}/members`);
+      return response.data
+        .map((member: { user: { id: string; username: string; emailVerifiedAt?: string | null } }) => member.user)
+        .filter((user: { emailVerifiedAt?: string | null }) => !!user.emailVerifiedAt);
+    },
+    staleTime: 5 * 60 * 1000,
+    enabled: canEdit,
+  });
+
+  const onSuccess = () => {
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['taskChecklist', taskId] });
+    queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+  };
+
+  const onError = (err: AxiosError<{ message?: string }>) => {
+    setError(err.response?.data?.message || err.message || 'Failed to update the checklist.');
+  };
+
+  const createItemMutation = useMutation({
+    mutationFn: (payload: { text: string; assigneeId: string | null }) => api.post(`/tasks/${taskId}/checklist`, payload),
+    onSuccess: () => { setNewItem({ text: '', assigneeId: '' }); onSuccess(); },
+    onError,
+  });
+
+  const updateItemMutation = useMutation({
+    mutationFn: ({ id, ...changes }: { id: string; done?: boolean; assigneeId?: string | null }) => api.put(`/tasks/${taskId}/checklist/${id}`, changes),
+    onSuccess,
+    onError,
+  });
+
+  const moveItemMutation = useMutation({
+    mutationFn: ({ id, beforeItemId }: { id: string; beforeItemId: string | null }) => api.patch(`/tasks/${taskId}/checklist/${id}/move`, { beforeItemId }),
+    onSuccess,
+    onError,
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/tasks/${taskId}/checklist/${id}`),
+    onSuccess,
+    onError,
+  });
+
+  const handleAddItem = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItem.text.trim()) return;
+    createItemMutation.mutate({ text: newItem.text.trim(), assigneeId: newItem.assigneeId || null });
+  };
+
+  // Moving up places an item below the one two places above it; moving down, below its next neighbour
+  const moveItem = (index: number, direction: -1 | 1) => {
+    if (!items) return;
+    const beforeIndex = direction === -1 ? index - 2 : index + 1;
+    moveItemMutation.mutate({ id: items[index].id, beforeItemId: beforeIndex >= 0 ? items[beforeIndex].id : null });
+  };
+
+  const doneCount = items?.filter(item => item.done).length || 0;
+  const inputClasses = "rounded-lg border border-slate-300 bg-white px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="mt-6 border-t border-slate-200 pt-5">
+      <h3 className="mb-3 flex items-center text-sm font-semibold text-slate-700">
+        <CheckCircleIcon className="mr-1.5 h-4 w-4 text-slate-400" />
+        Checklist
+        {!!items?.length && <span className="ml-2 font-normal text-slate-500">{doneCount}/{items.length} done</span>}
+      </h3>
+
+      {error && (
+        <p className="mb-3 flex items-center text-xs text-red-600">
+          <ExclamationCircleIcon className="mr-1 h-4 w-4 shrink-0" />{error}
+        </p>
+      )}
+
+      {!!items?.length && (
+        <div className="mb-3 h-1.5 overflow-hidden rounded-full bg-slate-100">
+          <div className="h-full rounded-full bg-green-500 transition-all" style={{ width: `${Math.round((doneCount / items.length) * 100)}%` }} />
+        </div>
+      )}
+
+      <ul className="space-y-1">
+        {items?.length === 0 && <li className="text-sm text-slate-400">No checklist items yet.</li>}
+        {items?.map((item, index) => (
+          <li key={item.id} className="group flex items-center gap-x-2 rounded-md bg-slate-50 px-2.5 py-1.5 text-sm">
+            <input
+              type="checkbox"
+              checked={item.done}
+              disabled={!canEdit && item.assigneeId !== user?.id}
+              onChange={(e) => updateItemMutation.mutate({ id: item.id, done: e.target.checked })}
+              className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+              aria-label={`Mark "${item.text}" as ${item.done ? 'not done' : 'done'}`}
+            />
+            <span className={`min-w-0 flex-1 break-words ${item.done ? 'text-slate-400 line-through' : 'text-slate-700'}`}>{item.text}</span>
+            {canEdit ? (
+              <select
+                value={item.assigneeId || ''}
+                onChange={(e) => updateItemMutation.mutate({ id: item.id, assigneeId: e.target.value || null })}
+                className="max-w-[8rem] rounded border-none bg-transparent py-0 text-xs text-slate-500 focus:ring-1 focus:ring-blue-500"
+                aria-label="Assignee"
+              >
+                <option value="">Unassigned</option>
+                {members?.map(member => <option key={member.id} value={member.id}>{member.username}</option>)}
+              </select>
+            ) : (
+              item.assignee && <span className="text-xs text-slate-500">{item.assignee.username}</span>
+            )}
+            {canEdit && (
+              <div className="flex items-center opacity-0 transition-opacity group-hover:opacity-100">
+                <button type="button" disabled={index === 0} onClick={() => moveItem(index, -1)} className="rounded-full p-1 text-slate-400 hover:bg-slate-200 hover:text-slate-600 disabled:invisible" title="Move Up">
+                  <ChevronUpIcon className="h-4 w-4" />
+                </button>
+                <button type="button" disabled={index === items.length - 1} onClick={() => moveItem(index, 1)} className="rounded-full p-1 text-slate-400 hover:bg-slate-200 hover:text-slate-600 disabled:invisible" title="Move Down">
+                  <ChevronDownIcon className="h-4 w-4" />
+                </button>
+                <button type="button" onClick={() => deleteItemMutation.mutate(item.id)} className="rounded-full p-1 text-slate-400 hover:bg-red-100 hover:text-red-600" title="Delete Item">
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canEdit && (
+        <form onSubmit={handleAddItem} className="mt-3 flex flex-wrap items-center gap-2">
+          <input value={newItem.text} onChange={(e) => setNewItem({ ...newItem, text: e.target.value })} maxLength={500} placeholder="Add an item..." className={`${inputClasses} min-w-0 flex-1`} aria-label="New checklist item" />
+          <select value={newItem.assigneeId} onChange={(e) => setNewItem({ ...newItem, assigneeId: e.target.value })} className={inputClasses} aria-label="New item assignee">
+            <option value="">Unassigned</option>
+            {members?.map(member => <option key={member.id} value={member.id}>{member.username}</option>)}
+          </select>
+          <button
+            type="submit"
+            disabled={!newItem.text.trim() || createItemMutation.isPending}
+            className="rounded-lg bg-slate-100 px-3 py-1.5 text-sm font-medium text-slate-700 hover:bg-slate-200 disabled:opacity-60"
+          >
+            Add
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TaskChecklistPanel;
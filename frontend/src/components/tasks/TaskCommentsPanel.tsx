@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { useAuth } from '../../context/AuthContext';
+import { ChatBubbleLeftRightIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
+
+interface Comment {
+  id: string;
+  taskId: string;
+  authorId: string;
+  body: string;
+  parentCommentId?: string | null;
+  editedAt?: string | null;
+  createdAt: string;
+  author?: { id: string; username: string };
+}
+
+interface TaskCommentsPanelProps {
+  taskId: string;
+  canComment: boolean;
+  canModerate?: boolean;
+}
+
+const inputClasses = "form-input block w-full rounded-lg border border-slate-300 bg-white px-3 py-2 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm";
+
+// Highlights @username mentions inside a comment body
+const renderBody = (body: string) =>
+  body.split(/(@[A-Za-z0-9_.-]+)/g).map((part, index) =>
+    part.startsWith('@') ? <span key={index} className="font-medium text-blue-600">{part}</span> : part
+  );
+
+const TaskCommentsPanel: React.FC<TaskCommentsPanelProps> = ({ taskId, canComment, canModerate = false }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [newBody, setNewBody] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: comments } = useQuery<Comment[], Error>({
+    queryKey: ['taskComments', taskId],
+    queryFn: async () => {
+      const response = await api.get(`/tasks/${taskId}/comments`);
+      return response.data;
+    },
+  });
+
+  const onSuccess = () => {
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['taskComments', taskId] });
+  };
+
+  const onError = (err: AxiosError<{ message?: string }>) => {
+    setError(err.response?.data?.message || err.message || 'Failed to save comment.');
+  };
+
+  const createCommentMutation = useMutation({
+    mutationFn: (payload: { body: string; parentCommentId?: string }) => api.post(`/tasks/${taskId}/comments`, payload),
+    onSuccess: (_data, variables) => {
+      if (variables.parentCommentId) { setReplyTo(null); setReplyBody(''); } else { setNewBody(''); }
+      onSuccess();
+      // Commenting makes the author watch the task
+      queryClient.invalidateQueries({ queryKey: ['taskWatchers', taskId] });
+    },
+    onError,
+  });
+
+  const updateCommentMutation = useMutation({
+    mutationFn: ({ id, body }: { id: string; body: string }) => api.put(`/tasks/${taskId}/comments/${id}`, { body }),
+    onSuccess: () => { setEditingId(null); onSuccess(); },
+    onError,
+  });
+
+  const deleteCommentMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/tasks/${taskId}/comments/${id}`),
+    onSuccess,
+    onError,
+  });
+
+  const topLevel = comments?.filter(c => !c.parentCommentId) || [];
+  const repliesOf = (id: string) => comments?.filter(c => c.parentCommentId === id) || [];
+
+  const renderComment = (comment: Comment, isReply = false) => (
+    <li key={comment.id} className={isReply ? 'mt-2 ml-6 border-l-2 border-slate-100 pl-3' : 'rounded-md bg-slate-50 px-3 py-2'}>
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <span>
+          <span className="font-semibold text-slate-700">{comment.author?.username || 'Unknown'}</span>
+          {' · '}{new Date(comment.createdAt).toLocaleString()}
+          {comment.editedAt && ' (edited)'}
+        </span>
+        <span className="space-x-2">
+          {canComment && !isReply && (
+            <button type="button" onClick={() => { setReplyTo(comment.id); setReplyBody(''); }} className="hover:text-blue-600">Reply</button>
+          )}
+          {comment.authorId === user?.id && (
+            <button type="button" onClick={() => { setEditingId(comment.id); setEditBody(comment.body); }} className="hover:text-blue-600">Edit</button>
+          )}
+          {(comment.authorId === user?.id || canModerate) && (
+            <button type="button" onClick={() => deleteCommentMutation.mutate(comment.id)} className="hover:text-red-600">Delete</button>
+          )}
+        </span>
+      </div>
+      {editingId === comment.id ? (
+        <div className="mt-1 flex gap-x-2">
+          <input value={editBody} onChange={(e) => setEditBody(e.target.value)} className={inputClasses} aria-label="Edit comment" />
+          <button type="button" disabled={!editBody.trim()} onClick={() => updateCommentMutation.mutate({ id: comment.id, body: editBody })} className="rounded-lg bg-slate-100 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-200 disabled:opacity-60">Save</button>
+          <button type="button" onClick={() => setEditingId(null)} className="px-2 text-sm text-slate-500 hover:text-slate-700">Cancel</button>
+        </div>
+      ) : (
+        <p className="mt-1 whitespace-pre-wrap text-sm text-slate-700">{renderBody(comment.body)}</p>
+      )}
+      {!isReply && (
+        <ul>
+          {repliesOf(comment.id).map(reply => renderComment(reply, true))}
+        </ul>
+      )}
+      {replyTo === comment.id && (
+        <div className="mt-2 ml-6 flex gap-x-2">
+          <input value={replyBody} onChange={(e) => setReplyBody(e.target.value)} placeholder="Write a reply..." className={inputClasses} aria-label="Reply" />
+          <button type="button" disabled={!replyBody.trim() || createCommentMutation.isPending} onClick={() => createCommentMutation.mutate({ body: replyBody, parentCommentId: comment.id })} className="rounded-lg bg-slate-100 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-200 disabled:opacity-60">Reply</button>
+          <button type="button" onClick={() => setReplyTo(null)} className="px-2 text-sm text-slate-500 hover:text-slate-700">Cancel</button>
+        </div>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="mt-6 border-t border-slate-200 pt-5">
+      <h3 className="mb-3 flex items-center text-sm font-semibold text-slate-700">
+        <ChatBubbleLeftRightIcon className="mr-1.5 h-4 w-4 text-slate-400" />
+        Comments
+      </h3>
+
+      {error && (
+        <p className="mb-3 flex items-center text-xs text-red-600">
+          <ExclamationCircleIcon className="mr-1 h-4 w-4 shrink-0" />{error}
+        </p>
+      )}
+
+      <ul className="mb-3 space-y-2">
+        {topLevel.length === 0 && <li className="text-sm text-slate-400">No comments yet.</li>}
+        {topLevel.map(comment => renderComment(comment))}
+      </ul>
+
+      {canComment && (
+        <div className="flex gap-x-2">
+          <textarea
+            value={newBody}
+            onChange={(e) => setNewBody(e.target.value)}
+            rows={2}
+            placeholder="Add a comment... use @username to mention someone"
+            className={inputClasses}
+            aria-label="New comment"
+          />
+          <button
+            type="button"
+            disabled={!newBody.trim() || createCommentMutation.isPending}
+            onClick={() => createCommentMutation.mutate({ body: newBody })}
+            className="self-end rounded-lg bg-slate-100 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-200 disabled:opacity-60"
+          >
+            Post
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskCommentsPanel;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { LinkIcon, XMarkIcon, NoSymbolIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
+
+interface DependencyTask {
+  id: string;
+  title: string;
+  status: string;
+  finished?: boolean;
+}
+
+interface TaskDependencies {
+  blockedBy: DependencyTask[];
+  blocks: DependencyTask[];
+}
+
+interface TaskDependenciesPanelProps {
+  taskId: string;
+  projectId: string;
+  canEdit: boolean;
+}
+
+const TaskDependenciesPanel: React.FC<TaskDependenciesPanelProps> = ({ taskId, projectId, canEdit }) => {
+  const queryClient = useQueryClient();
+  const [blockerTaskId, setBlockerTaskId] = useState('');
+  const [message, setMessage] = useState<{ tone: 'error' | 'warning'; text: string } | null>(null);
+
+  const { data: dependencies } = useQuery<TaskDependencies, Error>({
+    queryKey: ['taskDependencies', taskId],
+    queryFn: async () => {
+      const response = await api.get(`/tasks/${taskId}/dependencies`);
+      return response.data;
+    },
+  });
+
+  const { data: projectTasks } = useQuery<DependencyTask[], Error>({
+    queryKey: ['tasks', projectId],
+    queryFn: async () => {
+      const response = await api.get(`/tasks?projectId=${projectId}`);
+      return response.data;
+    },
+    enabled: canEdit,
+  });
+
+  const onError = (error: AxiosError<{ message?: string }>) => {
+    setMessage({ tone: 'error', text: error.response?.data?.message || error.message || 'Failed to update dependencies.' });
+  };
+
+  const addDependencyMutation = useMutation({
+    mutationFn: async (id: string) => (await api.post(`/tasks/${taskId}/dependencies`, { blockerTaskId: id })).data,
+    onSuccess: (data: { statusSuggestion?: { status: string; reason: string } | null }) => {
+      setBlockerTaskId('');
+      setMessage(data.statusSuggestion ? { tone: 'warning', text: `Consider marking this task ${data.statusSuggestion.status}. ${data.statusSuggestion.reason}` } : null);
+      queryClient.invalidateQueries({ queryKey: ['taskDependencies', taskId] });
+    },
+    onError,
+  });
+
+  const removeDependencyMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/tasks/${taskId}/dependencies/${id}`),
+    onSuccess: () => {
+      setMessage(null);
+      queryClient.invalidateQueries({ queryKey: ['taskDependencies', taskId] });
+    },
+    onError,
+  });
+
+  const candidates = projectTasks?.filter(t => t.id !== taskId && !dependencies?.blockedBy.some(b => b.id === t.id)) || [];
+
+  return (
+    <div className="mt-6 border-t border-slate-200 pt-5">
+      <h3 className="mb-3 flex items-center text-sm font-semibold text-slate-700">
+        <LinkIcon className="mr-1.5 h-4 w-4 text-slate-400" />
+        Dependencies
+      </h3>
+
+      {message && (
+        <p className={`mb-3 flex items-center text-xs ${message.tone === 'error' ? 'text-red-600' : 'text-amber-700'}`}>
+          <ExclamationCircleIcon className="mr-1 h-4 w-4 shrink-0" />{message.text}
+        </p>
+      )}
+
+      <p className="mb-1 text-xs font-medium uppercase tracking-wide text-slate-500">Blocked by</p>
+      <ul className="mb-3 space-y-1">
+        {dependencies?.blockedBy.length === 0 && <li className="text-sm text-slate-400">Nothing.</li>}
+        {dependencies?.blockedBy.map(blocker => (
+          <li key={blocker.id} className="flex items-center justify-between rounded-md bg-slate-50 px-2.5 py-1.5 text-sm">
+            <span className={`flex items-center ${blocker.finished ? 'text-slate-400 line-through' : 'text-slate-700'}`}>
+              {!blocker.finished && <NoSymbolIcon className="mr-1.5 h-4 w-4 text-red-500" />}
+              {blocker.title}
+            </span>
+            {canEdit && (
+              <button type="button" onClick={() => removeDependencyMutation.mutate(blocker.id)} className="rounded-full p-1 text-slate-400 hover:bg-red-100 hover:text-red-600" title="Remove Dependency">
+                <XMarkIcon className="h-4 w-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {!!dependencies?.blocks.length && (
+        <>
+          <p className="mb-1 text-xs font-medium uppercase tracking-wide text-slate-500">Blocks</p>
+          <ul className="mb-3 space-y-1">
+            {dependencies.blocks.map(blocked => (
+              <li key={blocked.id} className="rounded-md bg-slate-50 px-2.5 py-1.5 text-sm text-slate-700">{blocked.title}</li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {canEdit && (
+        <div className="flex gap-x-2">
+          <select
+            value={blockerTaskId}
+            onChange={(e) => setBlockerTaskId(e.target.value)}
+            className="form-input block w-full rounded-lg border border-slate-300 bg-white px-3 py-2 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+            aria-label="Task that blocks this one"
+          >
+            <option value="">Add a blocking task...</option>
+            {candidates.map(candidate => <option key={candidate.id} value={candidate.id}>{candidate.title}</option>)}
+          </select>
+          <button
+            type="button"
+            disabled={!blockerTaskId || addDependencyMutation.isPending}
+            onClick={() => addDependencyMutation.mutate(blockerTaskId)}
+            className="rounded-lg bg-slate-100 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-200 disabled:opacity-60"
+          >
+            Add
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskDependenciesPanel;
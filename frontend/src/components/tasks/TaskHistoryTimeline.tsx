@@ -0,0 +1,85 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import api from '../../api/axios';
+import { ClockIcon } from '@heroicons/react/24/outline';
+
+interface TaskEvent {
+  id: string;
+  action: 'created' | 'updated' | 'deleted';
+  field?: string | null;
+  oldLabel?: string | null;
+  newLabel?: string | null;
+  createdAt: string;
+  actor?: { id: string; username: string } | null;
+}
+
+interface TaskHistoryTimelineProps {
+  taskId: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  deadline: 'deadline',
+  projectId: 'project',
+  assignedTo: 'assignee',
+  parentTaskId: 'parent task',
+  labels: 'labels',
+  sprintId: 'sprint',
+  estimate: 'estimate',
+  recurrenceRule: 'recurrence',
+};
+
+const formatValue = (field: string | null | undefined, value: string | null | undefined) => {
+  if (!value) return 'none';
+  if (field === 'deadline') return new Date(value).toLocaleDateString();
+  if (field === 'description') return value.length > 60 ? `${value.slice(0, 60)}...` : value;
+  return value;
+};
+
+const describeEvent = (event: TaskEvent) => {
+  if (event.action === 'created') return 'created this task';
+  if (event.action === 'deleted') return 'deleted this task';
+  const field = event.field ? FIELD_LABELS[event.field] || event.field : 'a field';
+  return `changed ${field} from "${formatValue(event.field, event.oldLabel)}" to "${formatValue(event.field, event.newLabel)}"`;
+};
+
+const TaskHistoryTimeline: React.FC<TaskHistoryTimelineProps> = ({ taskId }) => {
+  const { data: events, isLoading } = useQuery<TaskEvent[], Error>({
+    queryKey: ['taskHistory', taskId],
+    queryFn: async () => {
+      const response = await api.get(`/tasks/${taskId}/history`);
+      return response.data;
+    },
+  });
+
+  return (
+    <div className="mt-6 border-t border-slate-200 pt-5">
+      <h3 className="mb-3 flex items-center text-sm font-semibold text-slate-700">
+        <ClockIcon className="mr-1.5 h-4 w-4 text-slate-400" />
+        History
+      </h3>
+
+      {isLoading ? (
+        <p className="text-sm text-slate-400">Loading history...</p>
+      ) : (
+        <ol className="relative max-h-60 overflow-y-auto border-l border-slate-200 pl-4">
+          {events?.length === 0 && <li className="text-sm text-slate-400">No recorded changes.</li>}
+          {events?.map(event => (
+            <li key={event.id} className="mb-3">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-slate-300" />
+              <p className="text-sm text-slate-700">
+                <span className="font-medium">{event.actor?.username || 'Someone'}</span> {describeEvent(event)}
+              </p>
+              <p className="text-xs text-slate-500">{new Date(event.createdAt).toLocaleString()}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default TaskHistoryTimeline;
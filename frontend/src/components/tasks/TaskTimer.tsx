@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { PlayIcon, StopIcon } from '@heroicons/react/24/solid';
+
+export interface RunningTimer {
+  id: string;
+  taskId: string;
+  startedAt: string;
+  task?: { id: string; title: string; projectId: string };
+}
+
+interface TaskTimerButtonProps {
+  taskId: string;
+  projectId: string;
+  // Called with the server's message when the timer could not be started or stopped
+  onError?: (message: string) => void;
+}
+
+const formatDuration = (totalSeconds: number, withSeconds = false) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  if (withSeconds) {
+    const seconds = Math.floor(totalSeconds % 60);
+    return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  }
+  if (hours === 0) return `${minutes}m`;
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+};
+
+/**
+ * Logged time in hours and minutes, e.g. "2h 15m".
+ */
+export const TimeSpent: React.FC<{ seconds: number; className?: string }> = ({ seconds, className }) => (
+  <span className={className}>{formatDuration(seconds)}</span>
+);
+
+/**
+ * Starts or stops the current user's timer on a task, showing the elapsed time while it runs.
+ * Starting a timer stops the one the user has running on another task.
+ */
+const TaskTimerButton: React.FC<TaskTimerButtonProps> = ({ taskId, projectId, onError }) => {
+  const queryClient = useQueryClient();
+  const [now, setNow] = useState(() => Date.now());
+
+  // Shared by every timer button on the page
+  const { data: runningTimer } = useQuery<RunningTimer | null, Error>({
+    queryKey: ['activeTimer'],
+    queryFn: async () => {
+      const response = await api.get('/users/me/timer');
+      return response.data;
+    },
+  });
+
+  const isRunning = runningTimer?.taskId === taskId;
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['activeTimer'] });
+    queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+    queryClient.invalidateQueries({ queryKey: ['taskWorklogs', taskId] });
+    if (runningTimer?.task && runningTimer.taskId !== taskId) {
+      queryClient.invalidateQueries({ queryKey: ['tasks', runningTimer.task.projectId] });
+      queryClient.invalidateQueries({ queryKey: ['taskWorklogs', runningTimer.taskId] });
+    }
+  };
+
+  const toggleTimerMutation = useMutation({
+    mutationFn: () => api.post(`/tasks/${taskId}/timer/${isRunning ? 'stop' : 'start'}`),
+    onSuccess,
+    onError: (error: AxiosError<{ message?: string }>) => {
+      queryClient.invalidateQueries({ queryKey: ['activeTimer'] });
+      onError?.(error.response?.data?.message || 'The timer could not be updated.');
+    },
+  });
+
+  const elapsedSeconds = isRunning && runningTimer ? Math.max(0, (now - Date.parse(runningTimer.startedAt)) / 1000) : 0;
+
+  return (
+    <button
+      type="button"
+      disabled={toggleTimerMutation.isPending}
+      onClick={(e) => { e.stopPropagation(); toggleTimerMutation.mutate(); }}
+      className={`flex items-center gap-x-1 rounded-full px-2 py-1 text-xs font-medium ring-1 ring-inset transition-colors disabled:opacity-60 ${isRunning ? 'bg-red-50 text-red-700 ring-red-200 hover:bg-red-100' : 'bg-slate-50 text-slate-600 ring-slate-200 hover:bg-slate-100'}`}
+      title={isRunning ? 'Stop timer' : 'Start timer'}
+    >
+      {isRunning ? <StopIcon className="h-3.5 w-3.5" /> : <PlayIcon className="h-3.5 w-3.5" />}
+      {isRunning && <span className="tabular-nums">{formatDuration(elapsedSeconds, true)}</span>}
+    </button>
+  );
+};
+
+export default TaskTimerButton;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
+
+interface TaskWatchers {
+  watchers: { id: string; username: string }[];
+  isWatching: boolean;
+}
+
+interface TaskWatchButtonProps {
+  taskId: string;
+  // Called with the server's message when watching could not be changed
+  onError?: (message: string) => void;
+}
+
+/**
+ * Watches or unwatches a task for the current user. Watchers are notified of status changes,
+ * reassignments and comments; the button lists who is watching.
+ */
+const TaskWatchButton: React.FC<TaskWatchButtonProps> = ({ taskId, onError }) => {
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<TaskWatchers, Error>({
+    queryKey: ['taskWatchers', taskId],
+    queryFn: async () => {
+      const response = await api.get(`/tasks/${taskId}/watchers`);
+      return response.data;
+    },
+  });
+
+  const toggleWatchMutation = useMutation({
+    mutationFn: async () => {
+      const response = data?.isWatching ? await api.delete(`/tasks/${taskId}/watch`) : await api.post(`/tasks/${taskId}/watch`);
+      return response.data as TaskWatchers;
+    },
+    onSuccess: (watchers) => queryClient.setQueryData(['taskWatchers', taskId], watchers),
+    onError: (error: AxiosError<{ message?: string }>) => {
+      onError?.(error.response?.data?.message || 'Could not update watching.');
+    },
+  });
+
+  const watcherNames = data?.watchers.map(watcher => watcher.username).join(', ');
+
+  return (
+    <button
+      type="button"
+      disabled={!data || toggleWatchMutation.isPending}
+      onClick={() => toggleWatchMutation.mutate()}
+      className={`flex items-center gap-x-1.5 rounded-full px-3 py-1.5 text-xs font-medium ring-1 ring-inset transition-colors disabled:opacity-60 ${data?.isWatching ? 'bg-blue-50 text-blue-700 ring-blue-200 hover:bg-blue-100' : 'bg-slate-50 text-slate-600 ring-slate-200 hover:bg-slate-100'}`}
+      title={watcherNames ? `Watching: ${watcherNames}` : 'Nobody is watching this task'}
+    >
+      {data?.isWatching ? <EyeSlashIcon className="h-4 w-4" /> : <EyeIcon className="h-4 w-4" />}
+      {data?.isWatching ? 'Unwatch' : 'Watch'}
+      <span className="tabular-nums text-slate-500">{data?.watchers.length ?? 0}</span>
+    </button>
+  );
+};
+
+export default TaskWatchButton;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { useAuth } from '../../context/AuthContext';
+import TaskTimerButton, { TimeSpent } from './TaskTimer';
+import { ClockIcon, TrashIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
+
+interface Worklog {
+  id: string;
+  startedAt: string;
+  endedAt?: string | null;
+  durationSeconds?: number | null;
+  note?: string | null;
+  user?: { id: string; username: string };
+}
+
+interface TaskWorklogsPanelProps {
+  taskId: string;
+  projectId: string;
+  canLog: boolean;
+}
+
+const TaskWorklogsPanel: React.FC<TaskWorklogsPanelProps> = ({ taskId, projectId, canLog }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  const [manualEntry, setManualEntry] = useState({ hours: '', minutes: '', note: '' });
+
+  const { data } = useQuery<{ worklogs: Worklog[]; totalSeconds: number }, Error>({
+    queryKey: ['taskWorklogs', taskId],
+    queryFn: async () => {
+      const response = await api.get(`/tasks/${taskId}/worklogs`);
+      return response.data;
+    },
+  });
+
+  const onSuccess = () => {
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['taskWorklogs', taskId] });
+    queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+  };
+
+  const onError = (err: AxiosError<{ message?: string }>) => {
+    setError(err.response?.data?.message || err.message || 'Failed to update worklogs.');
+  };
+
+  const logWorkMutation = useMutation({
+    mutationFn: (payload: { durationMinutes: number; note: string | null }) => api.post(`/tasks/${taskId}/worklogs`, payload),
+    onSuccess: () => { setManualEntry({ hours: '', minutes: '', note: '' }); onSuccess(); },
+    onError,
+  });
+
+  const deleteWorklogMutation = useMutation({
+    mutationFn: (worklogId: string) => api.delete(`/tasks/${taskId}/worklogs/${worklogId}`),
+    onSuccess: () => { onSuccess(); queryClient.invalidateQueries({ queryKey: ['activeTimer'] }); },
+    onError,
+  });
+
+  const durationMinutes = (Number(manualEntry.hours) || 0) * 60 + (Number(manualEntry.minutes) || 0);
+
+  const handleLogWork = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (durationMinutes <= 0) return;
+    logWorkMutation.mutate({ durationMinutes, note: manualEntry.note.trim() || null });
+  };
+
+  const inputClasses = "rounded-lg border border-slate-300 bg-white px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="mt-6 border-t border-slate-200 pt-5">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="flex items-center text-sm font-semibold text-slate-700">
+          <ClockIcon className="mr-1.5 h-4 w-4 text-slate-400" />
+          Time Tracking
+          <span className="ml-2 font-normal text-slate-500">
+            <TimeSpent seconds={data?.totalSeconds || 0} /> logged
+          </span>
+        </h3>
+        {canLog && <TaskTimerButton taskId={taskId} projectId={projectId} onError={setError} />}
+      </div>
+
+      {error && (
+        <p className="mb-3 flex items-center text-xs text-red-600">
+          <ExclamationCircleIcon className="mr-1 h-4 w-4 shrink-0" />{error}
+        </p>
+      )}
+
+      {canLog && (
+        <form onSubmit={handleLogWork} className="mb-3 flex flex-wrap items-center gap-2">
+          <input type="number" min={0} max={24} value={manualEntry.hours} onChange={(e) => setManualEntry({ ...manualEntry, hours: e.target.value })} placeholder="h" className={`${inputClasses} w-16`} aria-label="Hours" />
+          <input type="number" min={0} max={59} value={manualEntry.minutes} onChange={(e) => setManualEntry({ ...manualEntry, minutes: e.target.value })} placeholder="min" className={`${inputClasses} w-20`} aria-label="Minutes" />
+          <input value={manualEntry.note} onChange={(e) => setManualEntry({ ...manualEntry, note: e.target.value })} maxLength={1000} placeholder="What did you work on? (optional)" className={`${inputClasses} min-w-0 flex-1`} aria-label="Note" />
+          <button
+            type="submit"
+            disabled={durationMinutes <= 0 || logWorkMutation.isPending}
+            className="rounded-lg bg-slate-100 px-3 py-1.5 text-sm font-medium text-slate-700 hover:bg-slate-200 disabled:opacity-60"
+          >
+            Log Time
+          </button>
+        </form>
+      )}
+
+      <ul className="space-y-1">
+        {data?.worklogs.length === 0 && <li className="text-sm text-slate-400">No time logged yet.</li>}
+        {data?.worklogs.map(worklog => (
+          <li key={worklog.id} className="flex items-center justify-between rounded-md bg-slate-50 px-2.5 py-1.5 text-sm">
+            <div className="min-w-0">
+              <p className="truncate text-slate-700">
+                {worklog.endedAt ? <TimeSpent seconds={worklog.durationSeconds || 0} className="font-medium" /> : <span className="font-medium text-red-600">Running</span>}
+                {worklog.note && <span className="text-slate-600"> · {worklog.note}</span>}
+              </p>
+              <p className="text-xs text-slate-500">
+                {worklog.user?.username || 'Unknown user'} · {new Date(worklog.startedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+              </p>
+            </div>
+            {worklog.user?.id === user?.id && (
+              <button type="button" onClick={() => deleteWorklogMutation.mutate(worklog.id)} className="rounded-full p-1 text-slate-400 hover:bg-red-100 hover:text-red-600" title="Delete Worklog">
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TaskWorklogsPanel;
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../../api/axios';
+import { useAuth } from '../../context/AuthContext';
+import { EnvelopeOpenIcon, TrashIcon, ClipboardDocumentIcon, ExclamationCircleIcon, CheckIcon } from '@heroicons/react/24/outline';
+
+interface Invitation {
+  id: string;
+  email: string;
+  role: string;
+  expiresAt: string;
+  createdAt: string;
+  inviter: { id: string; username: string } | null;
+}
+
+const ROLES = ['Admin', 'Project Manager', 'Developer', 'Tester', 'Viewer'];
+
+const InvitationsPanel: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'Admin';
+  const [newInvitation, setNewInvitation] = useState({ email: '', role: 'Viewer' });
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: invitations } = useQuery<Invitation[], Error>({
+    queryKey: ['invitations'],
+    queryFn: async () => {
+      const response = await api.get('/invitations');
+      return response.data;
+    },
+  });
+
+  const { data: settings } = useQuery<{ openRegistration: boolean }, Error>({
+    queryKey: ['appSettings'],
+    queryFn: async () => {
+      const response = await api.get('/settings');
+      return response.data;
+    },
+    enabled: isAdmin,
+  });
+
+  const onError = (err: AxiosError<{ message?: string }>) => {
+    setError(err.response?.data?.message || err.message || 'Something went wrong.');
+  };
+
+  const createInvitationMutation = useMutation({
+    mutationFn: (payload: { email: string; role: string }) => api.post('/invitations', payload),
+    onSuccess: (response) => {
+      setError(null);
+      setNewInvitation({ email: '', role: 'Viewer' });
+      // The token is only returned once, so the link has to be copied now
+      setInviteLink(`${window.location.origin}/register?invite=${encodeURIComponent(response.data.token)}`);
+      setCopied(false);
+      queryClient.invalidateQueries({ queryKey: ['invitations'] });
+    },
+    onError,
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/invitations/${id}`),
+    onSuccess: () => {
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ['invitations'] });
+    },
+    onError,
+  });
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: (changes: { openRegistration: boolean }) => api.put('/settings', changes),
+    onSuccess: (response) => {
+      setError(null);
+      queryClient.setQueryData(['appSettings'], response.data);
+      queryClient.invalidateQueries({ queryKey: ['registrationSettings'] });
+    },
+    onError,
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newInvitation.email.trim()) return;
+    createInvitationMutation.mutate({ email: newInvitation.email.trim(), role: newInvitation.role });
+  };
+
+  const copyInviteLink = async () => {
+    if (!inviteLink) return;
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy the invitation link:', err);
+    }
+  };
+
+  const invitableRoles = isAdmin ? ROLES : ROLES.filter(role => role !== 'Admin');
+  const inputClasses = "rounded-md border border-slate-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="bg-white shadow-xl rounded-xl p-6 mb-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <h2 className="flex items-center text-lg font-semibold text-slate-800">
+          <EnvelopeOpenIcon className="h-5 w-5 mr-2 text-blue-600" />
+          Invitations
+        </h2>
+        {isAdmin && settings && (
+          <label className="flex items-center text-sm text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.openRegistration}
+              disabled={updateSettingsMutation.isPending}
+              onChange={(e) => updateSettingsMutation.mutate({ openRegistration: e.target.checked })}
+              className="h-4 w-4 mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+            />
+            Allow anyone to register (as Viewer)
+          </label>
+        )}
+      </div>
+
+      {error && (
+        <p className="mb-3 flex items-center text-sm text-red-600">
+          <ExclamationCircleIcon className="mr-1 h-4 w-4 shrink-0" />{error}
+        </p>
+      )}
+
+      <form onSubmit={handleInvite} className="flex flex-wrap items-center gap-2">
+        <input
+          type="email"
+          value={newInvitation.email}
+          onChange={(e) => setNewInvitation({ ...newInvitation, email: e.target.value })}
+          placeholder="invitee@example.com"
+          className={`${inputClasses} min-w-0 flex-1`}
+          aria-label="Email to invite"
+        />
+        <select value={newInvitation.role} onChange={(e) => setNewInvitation({ ...newInvitation, role: e.target.value })} className={inputClasses} aria-label="Role">
+          {invitableRoles.map(role => <option key={role} value={role}>{role}</option>)}
+        </select>
+        <button
+          type="submit"
+          disabled={!newInvitation.email.trim() || createInvitationMutation.isPending}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-60"
+        >
+          Send Invite
+        </button>
+      </form>
+
+      {inviteLink && (
+        <div className="mt-3 flex items-center gap-2 rounded-md bg-blue-50 border border-blue-200 p-3 text-sm">
+          <span className="min-w-0 flex-1 truncate text-blue-800" title={inviteLink}>{inviteLink}</span>
+          <button type="button" onClick={copyInviteLink} className="flex items-center shrink-0 text-blue-700 hover:text-blue-900 font-medium">
+            {copied ? <CheckIcon className="h-4 w-4 mr-1" /> : <ClipboardDocumentIcon className="h-4 w-4 mr-1" />}
+            {copied ? 'Copied' : 'Copy link'}
+          </button>
+        </div>
+      )}
+
+      <ul className="mt-4 divide-y divide-slate-100">
+        {invitations?.length === 0 && <li className="py-2 text-sm text-slate-400">No pending invitations.</li>}
+        {invitations?.map(invitation => {
+          const isExpired = new Date(invitation.expiresAt) <= new Date();
+          return (
+            <li key={invitation.id} className="flex items-center gap-3 py-2 text-sm">
+              <span className="min-w-0 flex-1 truncate text-slate-700">{invitation.email}</span>
+              <span className="text-xs text-slate-500">{invitation.role}</span>
+              <span className={`text-xs ${isExpired ? 'text-red-600' : 'text-slate-400'}`}>
+                {isExpired ? 'Expired' : `Expires ${new Date(invitation.expiresAt).toLocaleDateString()}`}
+              </span>
+              {(isAdmin || invitation.role !== 'Admin') && (
+                <button
+                  type="button"
+                  onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                  className="p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-full"
+                  title="Revoke Invitation"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default InvitationsPanel;
@@ -1,12 +1,13 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import api from '../api/axios';
+import api, { setSessionRefreshListener } from '../api/axios';
 import { useNavigate } from 'react-router-dom'; // For programmatic navigation
 
-interface User {
+export interface User {
   id: string;
   username: string;
   email: string;
   role: 'Admin' | 'Project Manager' | 'Developer' | 'Tester' | 'Viewer';
+  emailVerifiedAt?: string | null;
   // Add other user properties you might need from the backend
 }
 
@@ -14,9 +15,9 @@ interface AuthContextType {
   user: User | null;
   token: string | null;
   isLoading: boolean;
-  login: (token: string, userData: User) => void;
+  login: (token: string, userData: User, refreshToken: string) => void;
   logout: () => void;
-  register: (token: string, userData: User) => void; // Register also logs in
+  register: (token: string, userData: User, refreshToken: string) => void; // Register also logs in
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -54,29 +55,49 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       } catch (e) {
         console.error("Failed to parse stored user data:", e);
         localStorage.removeItem('token');
+        localStorage.removeItem('refreshToken');
         localStorage.removeItem('user');
       }
     }
     setIsLoading(false); 
   }, []);
 
-  const login = (newToken: string, userData: User) => {
+  // The API client refreshes tokens in the background; keep the signed-in state in step with them
+  useEffect(() => {
+    setSessionRefreshListener((session) => {
+      setToken(session.token);
+      setUser(session.user);
+    });
+    return () => setSessionRefreshListener(null);
+  }, []);
+
+  const login = (newToken: string, userData: User, refreshToken: string) => {
     setToken(newToken);
     setUser(userData);
     localStorage.setItem('token', newToken);
+    localStorage.setItem('refreshToken', refreshToken);
     localStorage.setItem('user', JSON.stringify(userData));
     api.defaults.headers.common['Authorization'] = `Bearer ${newToken}`; 
     navigate('/dashboard'); 
   };
 
-  const register = (newToken: string, userData: User) => {
-    login(newToken, userData);
+  const register = (newToken: string, userData: User, refreshToken: string) => {
+    login(newToken, userData, refreshToken);
   };
 
   const logout = () => {
+    // Revoke the session server-side too; the refresh token identifies it even after the access token expired
+    const storedRefreshToken = localStorage.getItem('refreshToken');
+    if (storedRefreshToken) {
+      api.post('/auth/logout', { refreshToken: storedRefreshToken }).catch((error) => {
+        console.error('Failed to revoke the session on the server:', error);
+      });
+    }
+
     setToken(null);
     setUser(null);
     localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
     delete api.defaults.headers.common['Authorization']; 
     navigate('/login'); 
@@ -1,7 +1,8 @@
-import React, { createContext, useCallback, useContext, useEffect, useState, type ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { useAuth } from './AuthContext';
 import { getNotifications } from '../api/notification.api';
+import { refreshSession } from '../api/axios';
 
 
 const notificationSound = new Audio('/notification.mp3');
@@ -19,6 +20,7 @@ export interface Notification {
 interface SocketContextType {
   socket: Socket | null;
   notifications: Notification[];
+  unreadCount: number;
   addNotification: (notification: Notification) => void;
   markNotificationAsReadLocally: (notificationId: string) => void;
   markAllAsReadLocally: () => void;
@@ -33,11 +35,16 @@ interface SocketProviderProps {
 export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [notifications, setNotifications] = useState<Notification[]>([]);
-  const { user } = useAuth();
+  // Authoritative unread count pushed by the server; null until the first push arrives
+  const [serverUnreadCount, setServerUnreadCount] = useState<number | null>(null);
+  const { user, token } = useAuth();
+  // A token refresh replaces the token and the user object; the effects below follow who is signed in, so a refresh does not reconnect or refetch
+  const userId = user?.id;
+  const isSignedIn = !!token;
 
   useEffect(() => {
     const fetchInitialNotifications = async () => {
-      if (user) {
+      if (userId) {
         try {
           const initialNotifications = await getNotifications();
           setNotifications(initialNotifications);
@@ -48,19 +55,24 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
       } else {
         setNotifications([]);
       }
+      setServerUnreadCount(null);
     };
 
     fetchInitialNotifications();
-  }, [user]);
+  }, [userId]);
 
   useEffect(() => {
-    if (user && user.id) {
+    if (userId && isSignedIn) {
       const SOCKET_SERVER_URL = import.meta.env.VITE_SOCKET_SERVER_URL || 'http://localhost:5000';
-      const newSocket = io(SOCKET_SERVER_URL);
+      // The server authenticates the handshake with the JWT and derives the user from it.
+      // The token is read on every (re)connect, as access tokens are refreshed while the socket stays open.
+      const newSocket = io(SOCKET_SERVER_URL, { auth: (cb) => cb({ token: localStorage.getItem('token') }) });
+      // Set once a rejected handshake led to a refresh, so a token the server keeps refusing is not retried forever
+      let retriedAfterRefresh = false;
 
       newSocket.on('connect', () => {
         console.log('Socket.IO connected:', newSocket.id);
-        newSocket.emit('registerUser', user.id);
+        retriedAfterRefresh = false;
       });
 
       newSocket.on('newNotification', (notification: Notification) => {
@@ -71,12 +83,25 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         });
       });
 
+      // Sent alongside every notification and whenever another tab reads or deletes one
+      newSocket.on('unreadCount', ({ count }: { count: number }) => {
+        setServerUnreadCount(count);
+      });
+
       newSocket.on('disconnect', () => {
         console.log('Socket.IO disconnected.');
       });
 
       newSocket.on('connect_error', (error) => {
         console.error('Socket.IO connection error:', error);
+        // The server rejected the handshake, most likely because the access token expired while disconnected.
+        // socket.io does not retry such errors by itself, so refresh the token and connect again.
+        if (!newSocket.active && !retriedAfterRefresh) {
+          retriedAfterRefresh = true;
+          refreshSession()
+            .then(() => newSocket.connect())
+            .catch((refreshError) => console.error('Could not refresh the session to reconnect the socket:', refreshError));
+        }
       });
       
       setSocket(newSocket);
@@ -92,7 +117,12 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         setSocket(null);
       }
     }
-  }, [user]);
+  }, [userId, isSignedIn]);
+
+  const unreadCount = useMemo(
+    () => serverUnreadCount ?? notifications.filter(notification => !notification.isRead).length,
+    [serverUnreadCount, notifications]
+  );
 
   const addNotification = (notification: Notification) => {
     setNotifications((prevNotifications) => [notification, ...prevNotifications]);
@@ -118,7 +148,7 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
   };
 
   return (
-    <SocketContext.Provider value={{ socket, notifications, addNotification, markNotificationAsReadLocally, markAllAsReadLocally }}>
+    <SocketContext.Provider value={{ socket, notifications, unreadCount, addNotification, markNotificationAsReadLocally, markAllAsReadLocally }}>
       {children}
     </SocketContext.Provider>
   );
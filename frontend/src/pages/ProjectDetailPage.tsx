@@ -2,13 +2,21 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import tinycolor from 'tinycolor2';
-import { io } from 'socket.io-client';
+import type { AxiosError } from 'axios';
 
 import api from '../api/axios';
 import { useAuth } from '../context/AuthContext';
+import { useSocket } from '../context/SocketContext';
 import CreateTaskForm from '../components/tasks/CreateTaskForm';
 import EditTaskForm from '../components/tasks/EditTaskForm';
 import ConfirmDeleteDialog from '../components/common/ConfirmDeleteDialog';
+import ProjectMembersModal, { type ProjectRole } from '../components/projects/ProjectMembersModal';
+import ProjectLabelsModal from '../components/projects/ProjectLabelsModal';
+import { LabelChip, type Label } from '../components/tasks/LabelPicker';
+import ProjectWorkflowModal, { type Workflow, type WorkflowStatus } from '../components/projects/ProjectWorkflowModal';
+import ProjectSprintsModal, { type Sprint } from '../components/projects/ProjectSprintsModal';
+import BurndownChart from '../components/projects/BurndownChart';
+import TaskTimerButton, { TimeSpent, type RunningTimer } from '../components/tasks/TaskTimer';
 
 import {
   DndContext, PointerSensor, useSensor, useSensors, useDroppable,
@@ -19,18 +27,29 @@ import { CSS } from '@dnd-kit/utilities';
 
 import {
   ArrowLeftIcon, FlagIcon, PlusIcon, PencilSquareIcon, TrashIcon, ExclamationTriangleIcon,
-  ArchiveBoxXMarkIcon, ArrowPathIcon, CalendarDaysIcon, ListBulletIcon,
+  ArchiveBoxXMarkIcon, ArrowPathIcon, CalendarDaysIcon, ListBulletIcon, UserGroupIcon, TagIcon, ViewColumnsIcon, RocketLaunchIcon, ChartBarIcon, ScaleIcon, ClockIcon, ArrowPathRoundedSquareIcon,
   // === DESIGN PRINCIPLE: SYSTEMATIC APPROACH & AFFORDANCES ===
   // Importing specific, universally understood icons for each column status.
-  ClipboardDocumentListIcon, Cog8ToothIcon, CheckCircleIcon, NoSymbolIcon
+  ClipboardDocumentListIcon, Cog8ToothIcon, CheckCircleIcon, NoSymbolIcon, EyeIcon
 } from '@heroicons/react/24/outline';
 import { UserIcon } from '@heroicons/react/24/solid';
 
-interface Project { id: string; name: string; description: string; }
+interface Project { id: string; name: string; description: string; estimateUnit?: 'points' | 'hours'; timeSpentSeconds?: number; currentUserRole?: ProjectRole; }
 interface Task {
-  id: string; title: string; description?: string; status: 'To Do' | 'In Progress' | 'Done' | 'Blocked';
+  id: string; title: string; description?: string; status: string;
   priority: 'Low' | 'Medium' | 'High'; deadline?: string; projectId: string;
   reportedBy: string; createdAt: string; updatedAt: string;
+  parentTaskId?: string | null;
+  rank?: string | null;
+  sprintId?: string | null;
+  estimate?: number | null;
+  recurrenceRule?: string | null;
+  recurrenceTrigger?: 'completion' | 'schedule' | null;
+  recurrenceSeriesId?: string | null;
+  timeSpentSeconds?: number;
+  subtaskProgress?: { done: number; total: number };
+  checklistProgress?: { done: number; total: number };
+  labels?: Label[];
   assignee?: { id: string; username: string; };
   reporter?: { id: string; username: string; };
 }
@@ -38,16 +57,31 @@ type TaskStatus = Task['status'];
 
 // === DESIGN PRINCIPLE: SYSTEMATIC APPROACH ===
 // Icons are now part of the column configuration, creating a single source of truth.
-// This makes the design system more robust and easier to maintain.
-const TASK_KANBAN_COLUMNS = [
-    { id: 'To Do', title: 'To Do', color: 'slate', icon: ClipboardDocumentListIcon },
-    { id: 'In Progress', title: 'In Progress', color: 'sky', icon: Cog8ToothIcon },
-    { id: 'Done', title: 'Done', color: 'green', icon: CheckCircleIcon },
-    { id: 'Blocked', title: 'Blocked', color: 'red', icon: NoSymbolIcon },
-] as const;
+// Columns come from the project's workflow; the familiar statuses keep their look,
+// other statuses are styled by whether they are terminal.
+const KNOWN_COLUMN_STYLES: Record<string, Pick<BoardColumn, 'color' | 'icon'>> = {
+    'To Do': { color: 'slate', icon: ClipboardDocumentListIcon },
+    'In Progress': { color: 'sky', icon: Cog8ToothIcon },
+    'Done': { color: 'green', icon: CheckCircleIcon },
+    'Blocked': { color: 'red', icon: NoSymbolIcon },
+};
+
+interface BoardColumn {
+    id: string;
+    title: string;
+    color: 'slate' | 'sky' | 'green' | 'red' | 'violet';
+    icon: React.ElementType;
+    wipLimit?: number | null;
+    terminal: boolean;
+}
 
-const SOCKET_URL = import.meta.env.VITE_API_BASE_URL.replace('/api', '');
-const socket = io(SOCKET_URL);
+const toBoardColumn = (status: WorkflowStatus): BoardColumn => ({
+    id: status.name,
+    title: status.name,
+    wipLimit: status.wipLimit,
+    terminal: status.terminal,
+    ...(KNOWN_COLUMN_STYLES[status.name] || (status.terminal ? { color: 'green', icon: CheckCircleIcon } : { color: 'violet', icon: EyeIcon })),
+});
 
 const getAvatarColor = (name: string) => {
     const color = tinycolor(name).saturate(20).darken(10);
@@ -87,10 +121,53 @@ const PriorityBadge: React.FC<{ priority: Task['priority'] }> = ({ priority }) =
     );
 };
 
+const SubtaskProgress: React.FC<{ progress: { done: number; total: number } }> = ({ progress }) => {
+    const isComplete = progress.done === progress.total;
+    return (
+        <div className={`flex items-center gap-x-1.5 text-sm ${isComplete ? 'text-green-700' : 'text-slate-600'}`} title={`${progress.done} of ${progress.total} subtasks done`}>
+            <ListBulletIcon className={`h-4 w-4 ${isComplete ? 'text-green-500' : 'text-slate-400'}`} />
+            <span>{progress.done}/{progress.total}</span>
+        </div>
+    );
+};
+
+const ChecklistProgress: React.FC<{ progress: { done: number; total: number } }> = ({ progress }) => {
+    const isComplete = progress.done === progress.total;
+    const percent = Math.round((progress.done / progress.total) * 100);
+    return (
+        <div className={`flex items-center gap-x-1.5 text-sm ${isComplete ? 'text-green-700' : 'text-slate-600'}`} title={`Checklist: ${progress.done} of ${progress.total} done`}>
+            <CheckCircleIcon className={`h-4 w-4 ${isComplete ? 'text-green-500' : 'text-slate-400'}`} />
+            <span>{percent}%</span>
+        </div>
+    );
+};
+
+const EstimateBadge: React.FC<{ estimate: number; unit?: Project['estimateUnit'] }> = ({ estimate, unit }) => (
+    <div className="flex items-center gap-x-1.5 text-sm text-slate-600" title={`Estimate: ${estimate} ${unit === 'hours' ? 'hours' : 'story points'}`}>
+        <ScaleIcon className="h-4 w-4 text-slate-400" />
+        <span>{estimate}{unit === 'hours' ? 'h' : ' pt'}</span>
+    </div>
+);
+
+// Deadlines are days, so a task is overdue once its deadline's (UTC) day has ended
+const isPastDeadline = (deadline?: string) => {
+    if (!deadline) return false;
+    const dueAt = new Date(deadline);
+    dueAt.setUTCHours(24, 0, 0, 0);
+    return dueAt.getTime() <= Date.now();
+};
+
+const OverdueBadge: React.FC = () => (
+    <span className="inline-flex items-center gap-x-1 rounded-full bg-red-50 px-2 py-0.5 text-xs font-medium text-red-700 ring-1 ring-inset ring-red-200">
+        <ExclamationTriangleIcon className="h-3.5 w-3.5" />
+        Overdue
+    </span>
+);
+
 const TaskCard: React.FC<{
-  task: Task; canEdit: boolean; canDelete: boolean;
-  onEdit: () => void; onDelete: () => void; isOverlay?: boolean;
-}> = ({ task, canEdit, canDelete, onEdit, onDelete, isOverlay = false }) => {
+  task: Task; canEdit: boolean; canDelete: boolean; canTrackTime: boolean; isOverdue: boolean; estimateUnit?: Project['estimateUnit'];
+  onEdit: () => void; onDelete: () => void; onTimerError?: (message: string) => void; isOverlay?: boolean;
+}> = ({ task, canEdit, canDelete, canTrackTime, isOverdue, estimateUnit, onEdit, onDelete, onTimerError, isOverlay = false }) => {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
       id: task.id,
       data: { type: 'Task', task },
@@ -116,6 +193,12 @@ const TaskCard: React.FC<{
               </div>
             )}
         </div>
+        {(isOverdue || !!task.labels?.length) && (
+            <div className="mb-2 flex flex-wrap gap-1">
+                {isOverdue && <OverdueBadge />}
+                {task.labels?.map(label => <LabelChip key={label.id} label={label} />)}
+            </div>
+        )}
         <p className="mb-4 flex-grow text-sm text-slate-500">{task.description}</p>
         <div className="mt-auto flex items-center justify-between border-t border-slate-100 pt-3">
             <div className="flex items-center space-x-2">
@@ -127,9 +210,24 @@ const TaskCard: React.FC<{
                 </div>
             </div>
             <div className="flex items-center space-x-4">
+                {!!task.subtaskProgress?.total && <SubtaskProgress progress={task.subtaskProgress} />}
+                {!!task.checklistProgress?.total && <ChecklistProgress progress={task.checklistProgress} />}
+                {task.estimate != null && <EstimateBadge estimate={task.estimate} unit={estimateUnit} />}
+                {!!task.timeSpentSeconds && (
+                    <div className="flex items-center gap-x-1.5 text-sm text-slate-600" title="Time logged">
+                        <ClockIcon className="h-4 w-4 text-slate-400" />
+                        <TimeSpent seconds={task.timeSpentSeconds} />
+                    </div>
+                )}
+                {canTrackTime && !isOverlay && <TaskTimerButton taskId={task.id} projectId={task.projectId} onError={onTimerError} />}
+                {task.recurrenceRule && (
+                    <div className="flex items-center text-slate-400" title={`Repeats ${task.recurrenceTrigger === 'schedule' ? 'on schedule' : 'when done'}: ${task.recurrenceRule}`}>
+                        <ArrowPathRoundedSquareIcon className="h-4 w-4" />
+                    </div>
+                )}
                 {task.deadline && (
-                    <div className="flex items-center gap-x-1.5 text-sm text-slate-600" title={`Deadline: ${new Date(task.deadline).toLocaleDateString()}`}>
-                        <CalendarDaysIcon className="h-4 w-4 text-slate-400" />
+                    <div className={`flex items-center gap-x-1.5 text-sm ${isOverdue ? 'font-medium text-red-600' : 'text-slate-600'}`} title={`Deadline: ${new Date(task.deadline).toLocaleDateString()}`}>
+                        <CalendarDaysIcon className={`h-4 w-4 ${isOverdue ? 'text-red-500' : 'text-slate-400'}`} />
                         <span>{new Date(task.deadline).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</span>
                     </div>
                 )}
@@ -142,7 +240,7 @@ const TaskCard: React.FC<{
 };
 
 const TaskColumn: React.FC<{
-    column: (typeof TASK_KANBAN_COLUMNS)[number];
+    column: BoardColumn;
     tasks: Task[];
     isOver: boolean;
     children: React.ReactNode;
@@ -153,14 +251,16 @@ const TaskColumn: React.FC<{
         sky:    { border: 'border-sky-500',   bg: 'bg-sky-100/50',    text: 'text-sky-700',    highlight: 'bg-sky-200/60' },
         green:  { border: 'border-green-500', bg: 'bg-green-100/50',  text: 'text-green-700',  highlight: 'bg-green-200/60' },
         red:    { border: 'border-red-500',   bg: 'bg-red-100/50',    text: 'text-red-700',    highlight: 'bg-red-200/60' },
+        violet: { border: 'border-violet-500', bg: 'bg-violet-100/50', text: 'text-violet-700', highlight: 'bg-violet-200/60' },
     };
     const ui = colorMap[column.color];
     // === DESIGN PRINCIPLE: SYSTEMATIC APPROACH ===
     // Retrieving the icon component directly from the column configuration prop.
     const IconComponent = column.icon;
+    const isOverWipLimit = !!column.wipLimit && tasks.length > column.wipLimit;
 
     return (
-        <div className={`flex w-full shrink-0 flex-col rounded-xl border-t-4 ${ui.border} ${ui.bg} md:w-80 lg:w-[340px]`}>
+        <div className={`flex w-full shrink-0 flex-col rounded-xl border-t-4 ${isOverWipLimit ? 'border-red-500' : ui.border} ${ui.bg} md:w-80 lg:w-[340px]`}>
             <div className="sticky top-0 z-[5] bg-inherit p-4 rounded-t-xl">
                 <div className="flex items-center justify-between">
                     {/* === DESIGN PRINCIPLE: HIERARCHY, SPACING & 5-SECOND RULE ===
@@ -174,7 +274,16 @@ const TaskColumn: React.FC<{
                       <IconComponent className={`h-6 w-6 shrink-0 ${ui.text}`} aria-hidden="true" />
                       <h3 className="text-lg font-semibold text-slate-800">{column.title}</h3>
                     </div>
-                    <span className={`flex h-6 w-6 items-center justify-center rounded-full text-xs font-semibold ${ui.text} bg-white/80 ring-1 ring-inset ring-slate-200/80`}>{tasks.length}</span>
+                    {column.wipLimit ? (
+                        <span
+                            className={`flex h-6 min-w-6 items-center justify-center rounded-full px-2 text-xs font-semibold ring-1 ring-inset ${isOverWipLimit ? 'bg-red-100 text-red-700 ring-red-300' : `${ui.text} bg-white/80 ring-slate-200/80`}`}
+                            title={isOverWipLimit ? 'Over the WIP limit' : 'Tasks / WIP limit'}
+                        >
+                            {tasks.length} / {column.wipLimit}
+                        </span>
+                    ) : (
+                        <span className={`flex h-6 w-6 items-center justify-center rounded-full text-xs font-semibold ${ui.text} bg-white/80 ring-1 ring-inset ring-slate-200/80`}>{tasks.length}</span>
+                    )}
                 </div>
             </div>
             <div ref={setNodeRef} className={`min-h-[200px] flex-grow space-y-4 overflow-y-auto p-2 pb-4 transition-colors duration-300 ${isOver ? ui.highlight : ''}`}>
@@ -195,12 +304,20 @@ const TaskColumn: React.FC<{
 const ProjectDetailPage: React.FC = () => {
   const { projectId } = useParams<{ projectId: string }>();
   const { user } = useAuth();
+  const { socket } = useSocket();
   const queryClient = useQueryClient();
 
   const [isCreateTaskModalOpen, setIsCreateTaskModalOpen] = useState(false);
   const [isEditTaskModalOpen, setIsEditTaskModalOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [isConfirmDeleteDialogOpen, setIsConfirmDeleteDialogOpen] = useState(false);
+  const [isMembersModalOpen, setIsMembersModalOpen] = useState(false);
+  const [isLabelsModalOpen, setIsLabelsModalOpen] = useState(false);
+  const [isWorkflowModalOpen, setIsWorkflowModalOpen] = useState(false);
+  const [isSprintsModalOpen, setIsSprintsModalOpen] = useState(false);
+  const [isBurndownVisible, setIsBurndownVisible] = useState(false);
+  // 'all', 'backlog' (tasks without a sprint) or the id of a sprint
+  const [sprintFilter, setSprintFilter] = useState('all');
   const [taskToDelete, setTaskToDelete] = useState<Task | null>(null);
   const [alertMessage, setAlertMessage] = useState<string | null>(null);
   const [activeTasks, setActiveTasks] = useState<Task[]>([]);
@@ -228,26 +345,121 @@ const ProjectDetailPage: React.FC = () => {
     enabled: !!projectId,
   });
 
+  const { data: workflow } = useQuery<Workflow, Error>({
+    queryKey: ['projectWorkflow', projectId],
+    queryFn: async () => { const { data } = await api.get(`/projects/${projectId}/workflow`); return data; },
+    enabled: !!projectId,
+  });
+
+  const columns = useMemo(() => (workflow?.statuses || []).map(toBoardColumn), [workflow]);
+
+  const { data: sprints } = useQuery<Sprint[], Error>({
+    queryKey: ['projectSprints', projectId],
+    queryFn: async () => { const { data } = await api.get(`/projects/${projectId}/sprints`); return data; },
+    enabled: !!projectId,
+  });
+
+  const selectedSprint = sprints?.find(sprint => sprint.id === sprintFilter);
+  const visibleTasks = useMemo(() => {
+    if (sprintFilter === 'backlog') return activeTasks.filter(task => !task.sprintId);
+    if (selectedSprint) return activeTasks.filter(task => task.sprintId === selectedSprint.id);
+    return activeTasks;
+  }, [activeTasks, sprintFilter, selectedSprint]);
+
   useEffect(() => { if (tasks) setActiveTasks(tasks); }, [tasks]);
 
   const tasksByStatus = useMemo(() => {
-    const initial = TASK_KANBAN_COLUMNS.reduce((acc, col) => ({ ...acc, [col.id]: [] }), {} as Record<TaskStatus, Task[]>);
-    return activeTasks.reduce((acc, task) => {
+    const initial = columns.reduce((acc, col) => ({ ...acc, [col.id]: [] }), {} as Record<TaskStatus, Task[]>);
+    return visibleTasks.reduce((acc, task) => {
         if (task?.status && acc[task.status]) acc[task.status].push(task);
         return acc;
     }, initial);
-  }, [activeTasks]);
+  }, [visibleTasks, columns]);
 
   useEffect(() => {
-    if (!projectId) return;
-    socket.emit('joinProject', projectId);
-    const handleTaskEvent = () => queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+    if (!projectId || !socket) return;
+    // Rooms are lost when the connection drops, so (re)join on every connect
+    const joinProjectRoom = () => socket.emit('joinProject', projectId, (response: { ok: boolean; message?: string }) => {
+      if (!response.ok) setAlertMessage(response.message || 'Live updates are unavailable for this project.');
+    });
+    joinProjectRoom();
+    socket.on('connect', joinProjectRoom);
+    const handleTaskEvent = (task?: { id?: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['projectBurndown', projectId] });
+      if (task?.id) queryClient.invalidateQueries({ queryKey: ['taskHistory', task.id] });
+    };
+    const handleMembersEvent = () => {
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['projectMembers', projectId] });
+    };
     socket.on('taskCreated', handleTaskEvent); socket.on('taskUpdated', handleTaskEvent); socket.on('taskDeleted', handleTaskEvent);
-    return () => { socket.emit('leaveProject', projectId); socket.off('taskCreated'); socket.off('taskUpdated'); socket.off('taskDeleted'); };
-  }, [projectId, queryClient]);
-
-  const updateTaskStatusMutation = useMutation({
-    mutationFn: ({ taskId, status }: { taskId: string; status: TaskStatus }) => api.patch(`/tasks/${taskId}`, { status }),
+    socket.on('taskMoved', handleTaskEvent);
+    socket.on('projectMembersUpdated', handleMembersEvent);
+    const handleDependenciesEvent = ({ taskId }: { taskId: string }) => queryClient.invalidateQueries({ queryKey: ['taskDependencies', taskId] });
+    socket.on('taskDependenciesUpdated', handleDependenciesEvent);
+    const handleCommentEvent = ({ taskId }: { taskId: string }) => queryClient.invalidateQueries({ queryKey: ['taskComments', taskId] });
+    socket.on('commentCreated', handleCommentEvent); socket.on('commentUpdated', handleCommentEvent); socket.on('commentDeleted', handleCommentEvent);
+    const handleAttachmentsEvent = ({ taskId }: { taskId: string }) => queryClient.invalidateQueries({ queryKey: ['taskAttachments', taskId] });
+    socket.on('attachmentsUpdated', handleAttachmentsEvent);
+    const handleLabelsEvent = () => {
+      queryClient.invalidateQueries({ queryKey: ['projectLabels', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+    };
+    socket.on('labelsUpdated', handleLabelsEvent);
+    const handleWorkflowEvent = () => {
+      queryClient.invalidateQueries({ queryKey: ['projectWorkflow', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+    };
+    socket.on('workflowUpdated', handleWorkflowEvent);
+    const handleSprintsEvent = () => {
+      queryClient.invalidateQueries({ queryKey: ['projectSprints', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['projectBurndown', projectId] });
+    };
+    socket.on('sprintsUpdated', handleSprintsEvent);
+    const handleWorklogsEvent = ({ taskId }: { taskId: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['taskWorklogs', taskId] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+    };
+    socket.on('worklogsUpdated', handleWorklogsEvent);
+    // The user's timer may be started or stopped in another tab
+    const handleTimerEvent = (timer: RunningTimer | null) => queryClient.setQueryData(['activeTimer'], timer);
+    socket.on('timerUpdated', handleTimerEvent);
+    // Checklist changes only move the card's progress, so patch it in place instead of refetching the board
+    const handleChecklistEvent = ({ taskId, checklistProgress }: { taskId: string; checklistProgress: Task['checklistProgress'] }) => {
+      queryClient.invalidateQueries({ queryKey: ['taskChecklist', taskId] });
+      queryClient.setQueryData<Task[]>(['tasks', projectId], current => current?.map(task => task.id === taskId ? { ...task, checklistProgress } : task));
+    };
+    socket.on('checklistUpdated', handleChecklistEvent);
+    return () => {
+      socket.emit('leaveProject', projectId);
+      socket.off('connect', joinProjectRoom);
+      socket.off('taskCreated', handleTaskEvent); socket.off('taskUpdated', handleTaskEvent); socket.off('taskDeleted', handleTaskEvent);
+      socket.off('taskMoved', handleTaskEvent);
+      socket.off('projectMembersUpdated', handleMembersEvent);
+      socket.off('taskDependenciesUpdated', handleDependenciesEvent);
+      socket.off('commentCreated', handleCommentEvent); socket.off('commentUpdated', handleCommentEvent); socket.off('commentDeleted', handleCommentEvent);
+      socket.off('attachmentsUpdated', handleAttachmentsEvent);
+      socket.off('labelsUpdated', handleLabelsEvent);
+      socket.off('workflowUpdated', handleWorkflowEvent);
+      socket.off('sprintsUpdated', handleSprintsEvent);
+      socket.off('worklogsUpdated', handleWorklogsEvent);
+      socket.off('timerUpdated', handleTimerEvent);
+      socket.off('checklistUpdated', handleChecklistEvent);
+    };
+  }, [projectId, queryClient, socket]);
+
+  const moveTaskMutation = useMutation({
+    mutationFn: ({ taskId, ...position }: { taskId: string; status: TaskStatus; beforeTaskId: string | null; afterTaskId: string | null }) =>
+      api.patch(`/tasks/${taskId}/move`, position),
+    onSuccess: ({ data }) => {
+      if (data.wipWarning) setAlertMessage(data.wipWarning);
+      else if (data.statusSuggestion) setAlertMessage(`Consider marking this task ${data.statusSuggestion.status}. ${data.statusSuggestion.reason}`);
+    },
+    // The workflow may forbid the move; say why instead of silently snapping back
+    onError: (error: AxiosError<{ message?: string }>) => setAlertMessage(error.response?.data?.message || 'This move is not allowed.'),
     onSettled: () => queryClient.invalidateQueries({ queryKey: ['tasks', projectId] }),
   });
 
@@ -261,13 +473,20 @@ const ProjectDetailPage: React.FC = () => {
   const openDeleteConfirmDialogForTask = useCallback((task: Task) => { setTaskToDelete(task); setIsConfirmDeleteDialogOpen(true); }, []);
   const handleConfirmTaskDelete = useCallback(() => { if (taskToDelete) deleteTaskMutation.mutate(taskToDelete.id); }, [taskToDelete, deleteTaskMutation]);
 
-  const canCreateTask = useMemo(() => !!(user && ['Admin', 'Project Manager', 'Developer'].includes(user.role)), [user]);
-  const canEditTask = useCallback((task: Task) => !!(user && (['Admin', 'Project Manager'].includes(user.role) || task.assignee?.id === user.id || task.reporter?.id === user.id)), [user]);
-  const canDeleteTask = useCallback((task: Task) => !!(user && (['Admin', 'Project Manager'].includes(user.role) || task.reporter?.id === user.id)), [user]);
+  // Permissions mirror the backend: they come from the user's role in this project, not their global role.
+  const projectRole = project?.currentUserRole;
+  const canManageProject = projectRole === 'Owner' || projectRole === 'Maintainer';
+  const canContribute = !!projectRole && projectRole !== 'Observer';
+  const canCreateTask = canContribute;
+  const canEditTask = useCallback((task: Task) => !!(user && (canManageProject || (canContribute && (task.assignee?.id === user.id || task.reporter?.id === user.id)))), [user, canManageProject, canContribute]);
+  const canDeleteTask = useCallback((task: Task) => !!(user && (canManageProject || (canContribute && task.reporter?.id === user.id))), [user, canManageProject, canContribute]);
 
   const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 8 } }));
   const handleDragStart = (event: DragStartEvent) => { if (event.active.data.current?.type === 'Task') setActiveTask(event.active.data.current.task); };
-  const handleDragOver = (event: DragOverEvent) => setOverColumnId(event.over?.data.current?.type === 'Column' ? (event.over.id as string) : null);
+  const handleDragOver = (event: DragOverEvent) => {
+    const overData = event.over?.data.current;
+    setOverColumnId(overData?.type === 'Column' ? (event.over!.id as string) : overData?.type === 'Task' ? (overData.task as Task).status : null);
+  };
   const handleDragEnd = useCallback((event: DragEndEvent) => {
     setActiveTask(null);
     setOverColumnId(null);
@@ -276,23 +495,44 @@ const ProjectDetailPage: React.FC = () => {
     if (!over || active.data.current?.type !== 'Task' || !user) return;
     
     const task = active.data.current.task as Task;
-    const canDragTask = ['Admin', 'Project Manager'].includes(user.role) || task?.assignee?.id === user.id;
 
-    if (!canDragTask) {
+    if (!canEditTask(task)) {
         setAlertMessage("you have no permission to do this");
         return;
     }
 
-    if (over.data.current?.type === 'Column') {
-        const taskId = active.id as string;
-        const newStatus = over.id as TaskStatus;
-        if (task && task.status !== newStatus) {
-            const optimisticOldState = [...activeTasks];
-            setActiveTasks(prev => prev.map(t => t.id === taskId ? { ...t, status: newStatus } : t));
-            updateTaskStatusMutation.mutate({ taskId, status: newStatus }, { onError: () => setActiveTasks(optimisticOldState) });
-        }
+    // Dropping on a card puts the task in that card's place; dropping on a column puts it at the bottom
+    const overTask = over.data.current?.type === 'Task' ? over.data.current.task as Task : null;
+    if (!overTask && over.data.current?.type !== 'Column') return;
+    if (overTask?.id === task.id) return;
+    const newStatus = overTask ? overTask.status : over.id as TaskStatus;
+
+    const column = tasksByStatus[newStatus] || [];
+    const remainingTasks = column.filter(t => t.id !== task.id);
+    const currentIndex = column.findIndex(t => t.id === task.id);
+    let targetIndex = remainingTasks.length;
+    if (overTask) {
+        const overIndex = remainingTasks.findIndex(t => t.id === overTask.id);
+        // Within a column, a card dragged downwards lands below the card it is dropped on
+        targetIndex = currentIndex !== -1 && currentIndex <= overIndex ? overIndex + 1 : overIndex;
     }
-  }, [activeTasks, updateTaskStatusMutation, user]);
+    if (task.status === newStatus && targetIndex === currentIndex) return;
+
+    const beforeTask = remainingTasks[targetIndex - 1] || null;
+    const afterTask = remainingTasks[targetIndex] || null;
+    const optimisticOldState = [...activeTasks];
+    setActiveTasks(prev => {
+        const others = prev.filter(t => t.id !== task.id);
+        const insertAt = afterTask ? others.findIndex(t => t.id === afterTask.id)
+            : beforeTask ? others.findIndex(t => t.id === beforeTask.id) + 1
+            : others.length;
+        return [...others.slice(0, insertAt), { ...task, status: newStatus }, ...others.slice(insertAt)];
+    });
+    moveTaskMutation.mutate(
+        { taskId: task.id, status: newStatus, beforeTaskId: beforeTask?.id ?? null, afterTaskId: afterTask?.id ?? null },
+        { onError: () => setActiveTasks(optimisticOldState) }
+    );
+  }, [activeTasks, tasksByStatus, moveTaskMutation, user, canEditTask]);
   const handleDragCancel = () => { setActiveTask(null); setOverColumnId(null); };
 
   if (isProjectLoading || isTasksLoading) return (
@@ -337,27 +577,86 @@ const ProjectDetailPage: React.FC = () => {
                 <div className="mb-10 rounded-xl border border-slate-200/80 bg-white p-6 shadow-sm sm:p-8">
                     <h1 className="mb-1 text-4xl font-extrabold tracking-tight text-slate-900">{project.name}</h1>
                     <p className="max-w-4xl text-base text-slate-600">{project.description}</p>
+                    {!!project.timeSpentSeconds && (
+                        <p className="mt-3 flex items-center gap-x-1.5 text-sm text-slate-500">
+                            <ClockIcon className="h-4 w-4" />
+                            <TimeSpent seconds={project.timeSpentSeconds} className="font-semibold text-slate-700" /> logged on this project
+                        </p>
+                    )}
                 </div>
 
                 <header className="mb-6 flex flex-col items-start gap-4 sm:flex-row sm:items-center sm:justify-between">
-                    <h2 className="text-2xl font-bold text-slate-900">Task Board</h2>
+                    <div className="flex items-center gap-x-4">
+                        <h2 className="text-2xl font-bold text-slate-900">Task Board</h2>
+                        <select
+                            value={selectedSprint || sprintFilter === 'backlog' ? sprintFilter : 'all'}
+                            onChange={(e) => setSprintFilter(e.target.value)}
+                            className="rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-700 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            aria-label="Sprint"
+                        >
+                            <option value="all">All tasks</option>
+                            <option value="backlog">Backlog</option>
+                            {sprints?.map(sprint => (
+                                <option key={sprint.id} value={sprint.id}>
+                                    {sprint.name}{sprint.state === 'active' ? ' (active)' : sprint.state === 'closed' ? ' (closed)' : ''}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex items-center gap-x-3">
+                    <button onClick={() => setIsMembersModalOpen(true)} className="flex items-center gap-x-1.5 rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition-colors hover:bg-slate-50 focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-500/50">
+                        <UserGroupIcon className="h-5 w-5" />
+                        Members
+                    </button>
+                    <button onClick={() => setIsLabelsModalOpen(true)} className="flex items-center gap-x-1.5 rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition-colors hover:bg-slate-50 focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-500/50">
+                        <TagIcon className="h-5 w-5" />
+                        Labels
+                    </button>
+                    <button onClick={() => setIsBurndownVisible(visible => !visible)} aria-pressed={isBurndownVisible} className={`flex items-center gap-x-1.5 rounded-lg border px-4 py-2 text-sm font-semibold shadow-sm transition-colors focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-500/50 ${isBurndownVisible ? 'border-blue-300 bg-blue-50 text-blue-700 hover:bg-blue-100' : 'border-slate-300 bg-white text-slate-700 hover:bg-slate-50'}`}>
+                        <ChartBarIcon className="h-5 w-5" />
+                        Burndown
+                    </button>
+                    <button onClick={() => setIsSprintsModalOpen(true)} className="flex items-center gap-x-1.5 rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition-colors hover:bg-slate-50 focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-500/50">
+                        <RocketLaunchIcon className="h-5 w-5" />
+                        Sprints
+                    </button>
+                    {canManageProject && workflow && (
+                        <button onClick={() => setIsWorkflowModalOpen(true)} className="flex items-center gap-x-1.5 rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition-colors hover:bg-slate-50 focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-500/50">
+                            <ViewColumnsIcon className="h-5 w-5" />
+                            Workflow
+                        </button>
+                    )}
                     {canCreateTask && (
                         <button onClick={() => setIsCreateTaskModalOpen(true)} className="flex items-center gap-x-1.5 rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition-colors hover:bg-blue-700 focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-500/50">
                             <PlusIcon className="h-5 w-5" />
                             Create Task
                         </button>
                     )}
+                    </div>
                 </header>
 
+                {selectedSprint?.goal && (
+                    <p className="-mt-3 mb-6 text-sm text-slate-600"><span className="font-semibold">Sprint goal:</span> {selectedSprint.goal}</p>
+                )}
+
+                {isBurndownVisible && (
+                    <section className="mb-6 rounded-xl border border-slate-200/80 bg-white p-6 shadow-sm">
+                        <h3 className="mb-4 text-lg font-semibold text-slate-800">
+                            Burndown · {selectedSprint ? selectedSprint.name : 'Whole project, last 30 days'}
+                        </h3>
+                        <BurndownChart projectId={project.id} sprintId={selectedSprint?.id} />
+                    </section>
+                )}
+
                 <div className="flex min-w-full gap-x-6 overflow-x-auto pb-4">
-                    {TASK_KANBAN_COLUMNS.map(column => {
+                    {columns.map(column => {
                         const columnTasks = tasksByStatus[column.id] || [];
                         const taskIds = columnTasks.map(t => t.id);
                         return (
                             <TaskColumn key={column.id} column={column} tasks={columnTasks} isOver={overColumnId === column.id}>
                                 <SortableContext items={taskIds} id={column.id} strategy={verticalListSortingStrategy}>
                                     {columnTasks.map(task => (
-                                        <TaskCard key={task.id} task={task} canEdit={canEditTask(task)} canDelete={canDeleteTask(task)} onEdit={() => handleEditTask(task)} onDelete={() => openDeleteConfirmDialogForTask(task)} />
+                                        <TaskCard key={task.id} task={task} canEdit={canEditTask(task)} canDelete={canDeleteTask(task)} canTrackTime={canContribute} isOverdue={!column.terminal && isPastDeadline(task.deadline)} estimateUnit={project.estimateUnit} onEdit={() => handleEditTask(task)} onDelete={() => openDeleteConfirmDialogForTask(task)} onTimerError={setAlertMessage} />
                                     ))}
                                 </SortableContext>
                             </TaskColumn>
@@ -376,14 +675,18 @@ const ProjectDetailPage: React.FC = () => {
                 )}
             </main>
 
-            {isCreateTaskModalOpen && <CreateTaskForm projectId={project.id} onClose={() => setIsCreateTaskModalOpen(false)} />}
-            {isEditTaskModalOpen && selectedTask && <EditTaskForm task={selectedTask} onClose={() => { setIsEditTaskModalOpen(false); setSelectedTask(null); }} />}
+            {isWorkflowModalOpen && workflow && <ProjectWorkflowModal projectId={project.id} workflow={workflow} onClose={() => setIsWorkflowModalOpen(false)} />}
+            {isSprintsModalOpen && <ProjectSprintsModal projectId={project.id} canManage={canManageProject} onClose={() => setIsSprintsModalOpen(false)} />}
+            {isLabelsModalOpen && <ProjectLabelsModal projectId={project.id} canCreate={canContribute} canManage={canManageProject} onClose={() => setIsLabelsModalOpen(false)} />}
+            {isMembersModalOpen && <ProjectMembersModal projectId={project.id} currentUserRole={project.currentUserRole} onClose={() => setIsMembersModalOpen(false)} />}
+            {isCreateTaskModalOpen && <CreateTaskForm projectId={project.id} defaultSprintId={selectedSprint && selectedSprint.state !== 'closed' ? selectedSprint.id : undefined} onClose={() => setIsCreateTaskModalOpen(false)} onWarning={setAlertMessage} />}
+            {isEditTaskModalOpen && selectedTask && <EditTaskForm task={selectedTask} onClose={() => { setIsEditTaskModalOpen(false); setSelectedTask(null); }} onWarning={setAlertMessage} />}
             {taskToDelete && <ConfirmDeleteDialog isOpen={isConfirmDeleteDialogOpen} onClose={() => setIsConfirmDeleteDialogOpen(false)} onConfirm={handleConfirmTaskDelete} title="Confirm Task Deletion" message="Are you sure you want to delete this task? This action cannot be undone." itemName={taskToDelete.title} isDeleting={deleteTaskMutation.isPending} />}
         </div>
         <DragOverlay>
             {activeTask ? (
                 <div style={{ transform: 'rotate(2deg)' }}>
-                    <TaskCard task={activeTask} canEdit={canEditTask(activeTask)} canDelete={canDeleteTask(activeTask)} onEdit={() => {}} onDelete={() => {}} isOverlay={true} />
+                    <TaskCard task={activeTask} canEdit={canEditTask(activeTask)} canDelete={canDeleteTask(activeTask)} canTrackTime={canContribute} isOverdue={!columns.find(column => column.id === activeTask.status)?.terminal && isPastDeadline(activeTask.deadline)} estimateUnit={project.estimateUnit} onEdit={() => {}} onDelete={() => {}} isOverlay={true} />
                 </div>
             ) : null}
         </DragOverlay>
@@ -1,10 +1,10 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { io } from 'socket.io-client';
 
 import api from '../api/axios';
 import { useAuth } from '../context/AuthContext';
+import { useSocket } from '../context/SocketContext';
 import CreateProjectForm from '../components/projects/CreateProjectForm';
 import EditProjectForm from '../components/projects/EditProjectForm';
 import ConfirmDeleteDialog from '../components/common/ConfirmDeleteDialog';
@@ -32,9 +32,6 @@ interface Project {
   creator?: { id: string; username: string; email: string; role: string; };
 }
 
-const SOCKET_URL = import.meta.env.VITE_API_BASE_URL.replace('/api', '');
-const socket = io(SOCKET_URL);
-
 const KANBAN_COLUMNS = [
   { id: 'Not Started', title: 'Not Started', icon: MinusCircleIcon, color: 'slate' },
   { id: 'In Progress', title: 'In Progress', icon: RocketLaunchIcon, color: 'sky' },
@@ -250,6 +247,7 @@ const NoResultsState: React.FC<{ onClear: () => void }> = ({ onClear }) => (
 // --- Main Page Component ---
 const ProjectsPage: React.FC = () => {
     const { user } = useAuth();
+    const { socket } = useSocket();
     const queryClient = useQueryClient();
     const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
     const [isEditModalOpen, setIsEditModalOpen] = useState(false);
@@ -298,9 +296,10 @@ const ProjectsPage: React.FC = () => {
 
     useEffect(() => {
         const handleProjectChange = () => { queryClient.invalidateQueries({ queryKey: ['projects'] }); };
+        if (!socket) return;
         socket.on('projectCreated', handleProjectChange); socket.on('projectUpdated', handleProjectChange); socket.on('projectDeleted', handleProjectChange);
-        return () => { socket.off('projectCreated'); socket.off('projectUpdated'); socket.off('projectDeleted'); };
-    }, [queryClient]);
+        return () => { socket.off('projectCreated', handleProjectChange); socket.off('projectUpdated', handleProjectChange); socket.off('projectDeleted', handleProjectChange); };
+    }, [queryClient, socket]);
 
     const updateProjectStatusMutation = useMutation({
         mutationFn: ({ projectId, status }: { projectId: string; status: ProjectStatus }) => api.patch(`/projects/${projectId}`, { status }),
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from '../api/axios';
+import { useAuth } from '../context/AuthContext';
+import TwoFactorSetup from '../components/auth/TwoFactorSetup';
+import BackupCodesList from '../components/auth/BackupCodesList';
+import TwoFactorPolicyPanel from '../components/auth/TwoFactorPolicyPanel';
+import { ShieldCheckIcon, DevicePhoneMobileIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+const SecurityPage: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [code, setCode] = useState('');
+  const [newBackupCodes, setNewBackupCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading, isError, error } = useQuery<TwoFactorStatus, Error>({
+    queryKey: ['twoFactorStatus'],
+    queryFn: async () => {
+      const response = await api.get('/auth/2fa');
+      return response.data;
+    },
+  });
+
+  const startSetup = async () => {
+    const response = await api.post('/auth/2fa/setup');
+    return response.data;
+  };
+
+  const confirmSetup = async (value: string) => {
+    const response = await api.post('/auth/2fa/confirm', { code: value });
+    return response.data.backupCodes;
+  };
+
+  const regenerateMutation = useMutation<{ backupCodes: string[] }, AxiosError<{ message?: string }>, string>({
+    mutationFn: async (value) => {
+      const response = await api.post('/auth/2fa/backup-codes', { code: value });
+      return response.data;
+    },
+    onSuccess: (data) => {
+      setCode('');
+      setNewBackupCodes(data.backupCodes);
+      queryClient.invalidateQueries({ queryKey: ['twoFactorStatus'] });
+    },
+  });
+
+  const disableMutation = useMutation<{ message: string }, AxiosError<{ message?: string }>, string>({
+    mutationFn: async (value) => {
+      const response = await api.post('/auth/2fa/disable', { code: value });
+      return response.data;
+    },
+    onSuccess: () => {
+      setCode('');
+      setNewBackupCodes(null);
+      queryClient.invalidateQueries({ queryKey: ['twoFactorStatus'] });
+    },
+  });
+
+  const actionError = regenerateMutation.error || disableMutation.error;
+  const isActionPending = regenerateMutation.isPending || disableMutation.isPending;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8">
+      <header className="flex items-center">
+        <ShieldCheckIcon className="h-9 w-9 text-blue-600 mr-3 hidden sm:block" />
+        <h1 className="text-3xl sm:text-4xl font-bold text-slate-900">Security</h1>
+      </header>
+
+      <div className="bg-white shadow-xl rounded-xl p-6">
+        <h2 className="flex items-center text-lg font-semibold text-slate-800">
+          <DevicePhoneMobileIcon className="h-5 w-5 mr-2 text-blue-600" />
+          Two-factor authentication
+        </h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Besides your password, sign-in asks for a code from an authenticator app on your phone.
+        </p>
+
+        {isLoading && <p className="mt-4 text-sm text-slate-500">Loading...</p>}
+        {isError && (
+          <p className="mt-4 flex items-center text-sm text-red-600">
+            <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+            {error?.message || 'Could not load your two-factor settings.'}
+          </p>
+        )}
+
+        {status && !status.enabled && (
+          <div className="mt-4 space-y-4">
+            {status.required && (
+              <p className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                Your role requires two-factor authentication. You will be asked to set it up when you next sign in.
+              </p>
+            )}
+            <div className="max-w-md">
+              <TwoFactorSetup
+                startSetup={startSetup}
+                confirmSetup={confirmSetup}
+                onDone={() => queryClient.invalidateQueries({ queryKey: ['twoFactorStatus'] })}
+                doneLabel="I have stored my backup codes"
+              />
+            </div>
+          </div>
+        )}
+
+        {status?.enabled && (
+          <div className="mt-4 space-y-4">
+            <p className="text-sm text-slate-700">
+              <span className="font-medium text-green-700">Enabled</span>
+              {status.enabledAt && <> since {new Date(status.enabledAt).toLocaleDateString()}</>}.{' '}
+              {status.backupCodesRemaining} backup {status.backupCodesRemaining === 1 ? 'code' : 'codes'} left.
+            </p>
+
+            {newBackupCodes && <BackupCodesList codes={newBackupCodes} />}
+
+            <div className="max-w-md space-y-3">
+              <label htmlFor="securityCode" className="block text-sm font-medium text-slate-700">
+                Enter a code from your app to make changes
+              </label>
+              <input
+                id="securityCode"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="block w-full rounded-md border border-slate-300 px-3 py-2 text-center font-mono tracking-widest focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+                placeholder="123456"
+              />
+              {actionError && (
+                <p className="text-sm text-red-600">{actionError.response?.data?.message || actionError.message}</p>
+              )}
+              <div className="flex flex-wrap gap-3">
+                <button
+                  type="button"
+                  onClick={() => regenerateMutation.mutate(code.trim())}
+                  disabled={isActionPending || !code.trim()}
+                  className="px-4 py-2 rounded-lg bg-blue-600 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-60"
+                >
+                  New backup codes
+                </button>
+                {!status.required && (
+                  <button
+                    type="button"
+                    onClick={() => disableMutation.mutate(code.trim())}
+                    disabled={isActionPending || !code.trim()}
+                    className="px-4 py-2 rounded-lg border border-red-200 bg-white text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-60"
+                  >
+                    Disable two-factor authentication
+                  </button>
+                )}
+              </div>
+              {status.required && (
+                <p className="text-xs text-slate-500">Your role requires two-factor authentication, so it cannot be disabled.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {user?.role === 'Admin' && <TwoFactorPolicyPanel />}
+    </div>
+  );
+};
+
+export default SecurityPage;
@@ -2,10 +2,11 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import api from '../api/axios';
 import { useAuth } from '../context/AuthContext';
+import { useSocket } from '../context/SocketContext';
 import CreateUserForm from '../components/users/CreateUserForm';
 import EditUserForm from '../components/users/EditUserForm';
 import ConfirmDeleteDialog from '../components/common/ConfirmDeleteDialog'; // Assuming path
-import { io } from 'socket.io-client';
+import InvitationsPanel from '../components/users/InvitationsPanel';
 import {
   UsersIcon,
   UserPlusIcon,
@@ -28,8 +29,6 @@ interface User {
   updatedAt: string;
 }
 
-const socket = io(import.meta.env.VITE_API_BASE_URL.replace('/api', ''));
-
 const getRoleStyles = (role: User['role']) => {
   switch (role) {
     case 'Admin':
@@ -48,6 +47,7 @@ const getRoleStyles = (role: User['role']) => {
 
 const UsersPage: React.FC = () => {
   const { user: currentUser } = useAuth();
+  const { socket } = useSocket();
   const queryClient = useQueryClient();
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
@@ -68,19 +68,19 @@ const UsersPage: React.FC = () => {
     const handleUserChange = (_action: string, _data: any) => {
       queryClient.invalidateQueries({ queryKey: ['users'] });
     };
-    socket.on('connect', () => {});
-    socket.on('disconnect', () => {});
-    socket.on('userCreated', (d: User) => handleUserChange('User Created', d));
-    socket.on('userUpdated', (d: User) => handleUserChange('User Updated', d));
-    socket.on('userDeleted', (d: { id: string }) => handleUserChange('User Deleted', d));
+    if (!socket) return;
+    const onUserCreated = (d: User) => handleUserChange('User Created', d);
+    const onUserUpdated = (d: User) => handleUserChange('User Updated', d);
+    const onUserDeleted = (d: { id: string }) => handleUserChange('User Deleted', d);
+    socket.on('userCreated', onUserCreated);
+    socket.on('userUpdated', onUserUpdated);
+    socket.on('userDeleted', onUserDeleted);
     return () => {
-      socket.off('connect');
-      socket.off('disconnect');
-      socket.off('userCreated');
-      socket.off('userUpdated');
-      socket.off('userDeleted');
+      socket.off('userCreated', onUserCreated);
+      socket.off('userUpdated', onUserUpdated);
+      socket.off('userDeleted', onUserDeleted);
     };
-  }, [queryClient]);
+  }, [queryClient, socket]);
 
   const deleteUserMutation = useMutation({
     mutationFn: (userId: string) => api.delete(`/users/${userId}`),
@@ -109,18 +109,20 @@ const UsersPage: React.FC = () => {
   }, [userToDelete, deleteUserMutation]);
 
   const canManageUsers = currentUser?.role === 'Admin';
+  // Project Managers can see the users and invite new ones, but not edit or delete accounts
+  const canInviteUsers = canManageUsers || currentUser?.role === 'Project Manager';
   const isDeletingSelfOrLastAdmin = (user: User) => {
     if (user.id === currentUser?.id) return true;
     if (user.role === 'Admin' && users?.filter(u => u.role === 'Admin').length === 1) return true;
     return false;
   };
 
-  if (!canManageUsers) {
+  if (!canInviteUsers) {
     return (
       <div className="min-h-[calc(100vh-200px)] flex flex-col items-center justify-center text-red-600 bg-red-50 p-8 rounded-lg">
         <LockClosedIcon className="h-12 w-12 text-red-500 mb-4" />
         <p className="text-xl font-semibold mb-2">Access Denied</p>
-        <p className="text-sm text-red-700">Only Administrators can manage users.</p>
+        <p className="text-sm text-red-700">Only Administrators and Project Managers can manage users.</p>
       </div>
     );
   }
@@ -157,14 +159,18 @@ const UsersPage: React.FC = () => {
             <UsersIcon className="h-9 w-9 text-blue-600 mr-3 hidden sm:block" />
             <h1 className="text-3xl sm:text-4xl font-bold text-slate-900">User Management</h1>
           </div>
-          <button
-            onClick={() => setIsCreateModalOpen(true)}
-            className="flex items-center px-5 py-2.5 bg-blue-600 text-white rounded-lg shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-slate-100 transition-colors duration-150 ease-in-out text-sm font-medium"
-          >
-            <UserPlusIcon className="h-5 w-5 mr-2 -ml-1" />
-            Create New User
-          </button>
+          {canManageUsers && (
+            <button
+              onClick={() => setIsCreateModalOpen(true)}
+              className="flex items-center px-5 py-2.5 bg-blue-600 text-white rounded-lg shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-slate-100 transition-colors duration-150 ease-in-out text-sm font-medium"
+            >
+              <UserPlusIcon className="h-5 w-5 mr-2 -ml-1" />
+              Create New User
+            </button>
+          )}
         </header>
+
+        <InvitationsPanel />
         
         {isLoading && users && (
           <div className="text-center text-sm text-slate-500 mb-4 py-2">Refreshing users list...</div>
@@ -217,29 +223,31 @@ const UsersPage: React.FC = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{new Date(user.createdAt).toLocaleDateString()}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <div className="flex items-center justify-end space-x-2">
-                        <button
-                          onClick={() => { setSelectedUser(user); setIsEditModalOpen(true); }}
-                          className="p-1.5 text-slate-500 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1"
-                          title="Edit User"
-                        >
-                          <PencilSquareIcon className="h-5 w-5" />
-                        </button>
-                        {!isDeletingSelfOrLastAdmin(user) ? (
+                      {canManageUsers && (
+                        <div className="flex items-center justify-end space-x-2">
                           <button
-                            onClick={() => openDeleteConfirmDialog(user)}
-                            className="p-1.5 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-1"
-                            title="Delete User"
-                            disabled={deleteUserMutation.isPending && deleteUserMutation.variables === user.id}
+                            onClick={() => { setSelectedUser(user); setIsEditModalOpen(true); }}
+                            className="p-1.5 text-slate-500 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1"
+                            title="Edit User"
                           >
-                            <TrashIcon className="h-5 w-5" />
+                            <PencilSquareIcon className="h-5 w-5" />
                           </button>
-                        ) : (
-                           <span className="p-1.5 text-slate-300 cursor-not-allowed" title="Cannot delete self or last admin">
-                                <TrashIcon className="h-5 w-5" />
-                           </span>
-                        )}
-                      </div>
+                          {!isDeletingSelfOrLastAdmin(user) ? (
+                            <button
+                              onClick={() => openDeleteConfirmDialog(user)}
+                              className="p-1.5 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-1"
+                              title="Delete User"
+                              disabled={deleteUserMutation.isPending && deleteUserMutation.variables === user.id}
+                            >
+                              <TrashIcon className="h-5 w-5" />
+                            </button>
+                          ) : (
+                             <span className="p-1.5 text-slate-300 cursor-not-allowed" title="Cannot delete self or last admin">
+                                  <TrashIcon className="h-5 w-5" />
+                             </span>
+                          )}
+                        </div>
+                      )}
                     </td>
                   </tr>
                 ))